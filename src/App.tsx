@@ -13,7 +13,11 @@ import AuthPage from './pages/AuthPage'
 import UploadPage from './pages/UploadPage'
 import ChatPage from './pages/ChatPage'
 import CategoriesPage from './pages/CategoriesPage'
+import CollectionsPage from './pages/CollectionsPage'
+import SharedCollectionPage from './pages/SharedCollectionPage'
+import SharedFilePage from './pages/SharedFilePage'
 import MyRequestsPage from './pages/MyRequestsPage'
+import RequestBoardPage from './pages/RequestBoardPage'
 import UserProfilePage from './pages/UserProfilePage'
 import HelpCenterPage from './pages/HelpCenterPage'
 import PrivacyPolicyPage from './pages/PrivacyPolicyPage'
@@ -52,12 +56,22 @@ function App() {
                   <Route path="/" element={<HomePage />} />
                   <Route path="/auth" element={<AuthPage />} />
                   <Route path="/categories" element={<CategoriesPage />} />
+                  <Route path="/collections/shared/:shareToken" element={<SharedCollectionPage />} />
+                  <Route path="/files/shared/:token" element={<SharedFilePage />} />
                   <Route path="/help" element={<HelpCenterPage />} />
                   <Route path="/privacy" element={<PrivacyPolicyPage />} />
                   <Route path="/terms" element={<TermsOfServicePage />} />
                   <Route path="/contact" element={<ContactUsPage />} />
                   
                   {/* Protected Routes - Require Authentication */}
+                  <Route 
+                    path="/collections" 
+                    element={
+                      <AuthGuard pageName="Collections">
+                        <CollectionsPage />
+                      </AuthGuard>
+                    } 
+                  />
                   <Route 
                     path="/upload" 
                     element={
@@ -82,6 +96,14 @@ function App() {
                       </AuthGuard>
                     } 
                   />
+                  <Route 
+                    path="/request-board" 
+                    element={
+                      <AuthGuard pageName="Request Board">
+                        <RequestBoardPage />
+                      </AuthGuard>
+                    } 
+                  />
                   <Route 
                     path="/groups" 
                     element={
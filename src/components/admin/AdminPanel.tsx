@@ -1,22 +1,36 @@
 import React, { useState, useEffect } from 'react'
-import { Shield, FileText, MessageSquare, AlertTriangle, BarChart3 } from 'lucide-react'
+import { Shield, FileText, MessageSquare, AlertTriangle, BarChart3, Star, MessageCircle, Copy } from 'lucide-react'
 import { 
   getAllContentReports, 
   getAllChatReports, 
+  getAllReviewReports,
+  getAllCommentReports,
   updateContentReportStatus,
   updateChatReportStatus,
+  updateReviewReportStatus,
+  updateCommentReportStatus,
   removeReportedContent,
   removeReportedChatMessage,
+  removeReportedReview,
+  removeReportedComment,
   getReportStatistics,
   ContentReportWithDetails,
-  ChatReportWithDetails
+  ChatReportWithDetails,
+  ReviewReportWithDetails,
+  CommentReportWithDetails
 } from '../../services/reportingService'
+import {
+  getDuplicateClusters,
+  mergeDuplicateContent,
+  DuplicateCluster
+} from '../../services/duplicateContentService'
 import { useAuth } from '../../contexts/AuthContext'
 import Button from '../ui/Button'
 import Badge from '../ui/Badge'
 import Modal from '../ui/Modal'
 import LoadingSpinner from '../ui/LoadingSpinner'
 import { formatDistanceToNow } from 'date-fns'
+import { getErrorMessage } from '../../utils/errorHandling'
 
 interface AdminPanelProps {
   isOpen: boolean
@@ -25,9 +39,14 @@ interface AdminPanelProps {
 
 const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
   const { user, profile } = useAuth()
-  const [activeTab, setActiveTab] = useState<'overview' | 'content' | 'chat'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'content' | 'chat' | 'reviews' | 'comments' | 'duplicates'>('overview')
   const [contentReports, setContentReports] = useState<ContentReportWithDetails[]>([])
   const [chatReports, setChatReports] = useState<ChatReportWithDetails[]>([])
+  const [reviewReports, setReviewReports] = useState<ReviewReportWithDetails[]>([])
+  const [commentReports, setCommentReports] = useState<CommentReportWithDetails[]>([])
+  const [duplicateClusters, setDuplicateClusters] = useState<DuplicateCluster[] | null>(null)
+  const [keepSelections, setKeepSelections] = useState<Record<string, string>>({})
+  const [mergingHash, setMergingHash] = useState<string | null>(null)
   const [statistics, setStatistics] = useState<any>(null)
   const [loading, setLoading] = useState(false)
   const [selectedReport, setSelectedReport] = useState<any>(null)
@@ -42,14 +61,18 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
   const fetchData = async () => {
     setLoading(true)
     try {
-      const [contentReportsData, chatReportsData, statsData] = await Promise.all([
+      const [contentReportsData, chatReportsData, reviewReportsData, commentReportsData, statsData] = await Promise.all([
         getAllContentReports(),
         getAllChatReports(),
+        getAllReviewReports(),
+        getAllCommentReports(),
         getReportStatistics()
       ])
       
       setContentReports(contentReportsData)
       setChatReports(chatReportsData)
+      setReviewReports(reviewReportsData)
+      setCommentReports(commentReportsData)
       setStatistics(statsData)
     } catch (error) {
       // Error handled silently
@@ -124,6 +147,123 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
     }
   }
 
+  const handleReviewReportAction = async (
+    reportId: string,
+    action: 'reviewed' | 'resolved' | 'dismissed',
+    adminNotes?: string,
+    removeReview?: boolean
+  ) => {
+    if (!user) return
+    
+    setActionLoading(true)
+    try {
+      if (removeReview) {
+        const report = reviewReports.find(r => r.id === reportId)
+        if (report) {
+          await removeReportedReview(
+            report.review_id,
+            reportId,
+            user.id,
+            adminNotes || 'Review removed due to policy violation'
+          )
+        }
+      } else {
+        await updateReviewReportStatus(reportId, action, user.id, adminNotes)
+      }
+      
+      await fetchData()
+      setSelectedReport(null)
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to update report'))
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleCommentReportAction = async (
+    reportId: string,
+    action: 'reviewed' | 'resolved' | 'dismissed',
+    adminNotes?: string,
+    removeComment?: boolean
+  ) => {
+    if (!user) return
+    
+    setActionLoading(true)
+    try {
+      if (removeComment) {
+        const report = commentReports.find(r => r.id === reportId)
+        if (report) {
+          await removeReportedComment(
+            report.comment_id,
+            reportId,
+            user.id,
+            adminNotes || 'Comment removed due to policy violation'
+          )
+        }
+      } else {
+        await updateCommentReportStatus(reportId, action, user.id, adminNotes)
+      }
+      
+      await fetchData()
+      setSelectedReport(null)
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to update report'))
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  // Route a moderation action to the service for the selected report's type
+  const handleSelectedReportAction = (
+    action: 'reviewed' | 'resolved' | 'dismissed',
+    adminNotes?: string,
+    remove?: boolean
+  ) => {
+    if (selectedReport.content_id) {
+      handleContentReportAction(selectedReport.id, action, adminNotes, remove)
+    } else if (selectedReport.review_id) {
+      handleReviewReportAction(selectedReport.id, action, adminNotes, remove)
+    } else if (selectedReport.comment_id) {
+      handleCommentReportAction(selectedReport.id, action, adminNotes, remove)
+    } else {
+      handleChatReportAction(selectedReport.id, action, adminNotes, remove)
+    }
+  }
+
+  const fetchDuplicates = async () => {
+    try {
+      setDuplicateClusters(await getDuplicateClusters())
+    } catch (error) {
+      setDuplicateClusters([])
+      alert(getErrorMessage(error, 'Failed to load duplicates'))
+    }
+  }
+
+  // Load the duplicate report the first time its tab is opened
+  useEffect(() => {
+    if (activeTab === 'duplicates' && duplicateClusters === null) {
+      fetchDuplicates()
+    }
+  }, [activeTab, duplicateClusters])
+
+  const handleMergeCluster = async (cluster: DuplicateCluster) => {
+    const keepId = keepSelections[cluster.content_hash] || cluster.items[0]?.id
+    const duplicateIds = cluster.items.map(item => item.id).filter(id => id !== keepId)
+    if (!keepId || duplicateIds.length === 0) return
+
+    if (!confirm(`Merge ${duplicateIds.length} duplicate(s) into the selected item? The duplicates will be deleted.`)) return
+
+    setMergingHash(cluster.content_hash)
+    try {
+      await mergeDuplicateContent(keepId, duplicateIds)
+      await fetchDuplicates()
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to merge duplicates'))
+    } finally {
+      setMergingHash(null)
+    }
+  }
+
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
       case 'pending': return 'warning'
@@ -185,6 +325,44 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
             <span className="sm:hidden">Chat</span>
             <span className="ml-1">({chatReports.filter(r => r.status === 'pending').length})</span>
           </button>
+          <button
+            onClick={() => setActiveTab('reviews')}
+            className={`pb-2 px-1 font-medium text-sm ${
+              activeTab === 'reviews'
+                ? 'text-blue-600 border-b-2 border-blue-600'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Star className="h-4 w-4 inline mr-1" />
+            <span className="hidden sm:inline">Review Reports</span>
+            <span className="sm:hidden">Reviews</span>
+            <span className="ml-1">({reviewReports.filter(r => r.status === 'pending').length})</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('comments')}
+            className={`pb-2 px-1 font-medium text-sm ${
+              activeTab === 'comments'
+                ? 'text-blue-600 border-b-2 border-blue-600'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <MessageCircle className="h-4 w-4 inline mr-1" />
+            <span className="hidden sm:inline">Comment Reports</span>
+            <span className="sm:hidden">Comments</span>
+            <span className="ml-1">({commentReports.filter(r => r.status === 'pending').length})</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('duplicates')}
+            className={`pb-2 px-1 font-medium text-sm ${
+              activeTab === 'duplicates'
+                ? 'text-blue-600 border-b-2 border-blue-600'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Copy className="h-4 w-4 inline mr-1" />
+            <span>Duplicates</span>
+            {duplicateClusters && <span className="ml-1">({duplicateClusters.length})</span>}
+          </button>
         </div>
 
         {loading ? (
@@ -195,7 +373,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
           <div className="max-h-64 md:max-h-96 overflow-y-auto">
             {activeTab === 'overview' && statistics && (
               <div className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <div className="bg-orange-50 p-4 rounded-lg">
                     <div className="flex items-center space-x-2">
                       <AlertTriangle className="h-5 w-5 text-orange-600" />
@@ -225,6 +403,36 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                       </div>
                     </div>
                   </div>
+
+                  <div className="bg-yellow-50 p-4 rounded-lg">
+                    <div className="flex items-center space-x-2">
+                      <Star className="h-5 w-5 text-yellow-600" />
+                      <span className="font-medium text-yellow-900">Review Reports</span>
+                    </div>
+                    <div className="mt-2 space-y-1">
+                      <div className="text-2xl font-bold text-yellow-900">
+                        {statistics.reviewReports.pending}
+                      </div>
+                      <div className="text-sm text-yellow-700">
+                        Pending ({statistics.reviewReports.total} total)
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="bg-purple-50 p-4 rounded-lg">
+                    <div className="flex items-center space-x-2">
+                      <MessageCircle className="h-5 w-5 text-purple-600" />
+                      <span className="font-medium text-purple-900">Comment Reports</span>
+                    </div>
+                    <div className="mt-2 space-y-1">
+                      <div className="text-2xl font-bold text-purple-900">
+                        {statistics.commentReports.pending}
+                      </div>
+                      <div className="text-sm text-purple-700">
+                        Pending ({statistics.commentReports.total} total)
+                      </div>
+                    </div>
+                  </div>
                 </div>
                 
                 <div className="text-sm text-gray-600">
@@ -331,6 +539,184 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                 )}
               </div>
             )}
+
+            {activeTab === 'reviews' && (
+              <div className="space-y-4">
+                {reviewReports.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    No review reports found
+                  </div>
+                ) : (
+                  reviewReports.map(report => (
+                    <div key={report.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-2 mb-2">
+                            <Badge variant={getStatusBadgeVariant(report.status)}>
+                              {report.status}
+                            </Badge>
+                            <span className="text-sm text-gray-500">
+                              {report.reason}
+                            </span>
+                            {report.content_reviews?.is_hidden && (
+                              <Badge variant="neutral">hidden</Badge>
+                            )}
+                          </div>
+                          
+                          <div className="bg-gray-50 p-3 rounded mb-2">
+                            <p className="text-xs text-gray-500 mb-1">
+                              {report.content_reviews?.rating} / 5 stars
+                            </p>
+                            <p className="text-sm text-gray-900">
+                              "{report.content_reviews?.review_text || 'No written review'}"
+                            </p>
+                          </div>
+                          
+                          <p className="text-sm text-gray-600 mb-2">
+                            {report.description}
+                          </p>
+                          
+                          <div className="text-xs text-gray-500">
+                            Reported by @{report.reporter?.username} • {' '}
+                            {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                          </div>
+                        </div>
+                        
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setSelectedReport(report)}
+                        >
+                          Review
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {activeTab === 'comments' && (
+              <div className="space-y-4">
+                {commentReports.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    No comment reports found
+                  </div>
+                ) : (
+                  commentReports.map(report => (
+                    <div key={report.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-2 mb-2">
+                            <Badge variant={getStatusBadgeVariant(report.status)}>
+                              {report.status}
+                            </Badge>
+                            <span className="text-sm text-gray-500">
+                              {report.reason}
+                            </span>
+                            {report.content_comments?.is_hidden && (
+                              <Badge variant="neutral">hidden</Badge>
+                            )}
+                          </div>
+                          
+                          <div className="bg-gray-50 p-3 rounded mb-2">
+                            <p className="text-sm text-gray-900">
+                              "{report.content_comments?.body || 'Deleted comment'}"
+                            </p>
+                          </div>
+                          
+                          <p className="text-sm text-gray-600 mb-2">
+                            {report.description}
+                          </p>
+                          
+                          <div className="text-xs text-gray-500">
+                            Reported by @{report.reporter?.username} • {' '}
+                            {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                          </div>
+                        </div>
+                        
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setSelectedReport(report)}
+                        >
+                          Review
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {activeTab === 'duplicates' && (
+              <div className="space-y-4">
+                {duplicateClusters === null ? (
+                  <div className="flex justify-center py-8">
+                    <LoadingSpinner size="md" />
+                  </div>
+                ) : duplicateClusters.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    No duplicate uploads found
+                  </div>
+                ) : (
+                  duplicateClusters.map(cluster => {
+                    const keepId = keepSelections[cluster.content_hash] || cluster.items[0]?.id
+
+                    return (
+                      <div key={cluster.content_hash} className="border border-gray-200 rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <span className="text-sm font-medium text-gray-900">
+                            {cluster.items.length} identical files
+                          </span>
+                          <span className="text-xs text-gray-400 font-mono" title={cluster.content_hash}>
+                            {cluster.content_hash.slice(0, 12)}
+                          </span>
+                        </div>
+
+                        <div className="space-y-2 mb-3">
+                          {cluster.items.map(item => (
+                            <label
+                              key={item.id}
+                              className="flex items-start space-x-3 p-2 rounded hover:bg-gray-50 cursor-pointer"
+                            >
+                              <input
+                                type="radio"
+                                name={`keep-${cluster.content_hash}`}
+                                checked={keepId === item.id}
+                                onChange={() => setKeepSelections(prev => ({ ...prev, [cluster.content_hash]: item.id }))}
+                                className="mt-1"
+                              />
+                              <div className="min-w-0 flex-1">
+                                <p className="text-sm text-gray-900 truncate">{item.title}</p>
+                                <p className="text-xs text-gray-500">
+                                  @{item.profiles?.username || 'unknown'} • {' '}
+                                  {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })} • {' '}
+                                  {item.download_count || 0} downloads
+                                </p>
+                              </div>
+                            </label>
+                          ))}
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs text-gray-500">Keep the selected item; merge the rest into it</span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleMergeCluster(cluster)}
+                            loading={mergingHash === cluster.content_hash}
+                            disabled={mergingHash !== null}
+                          >
+                            Merge
+                          </Button>
+                        </div>
+                      </div>
+                    )
+                  })
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -360,13 +746,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={() => {
-                    if (selectedReport.content_id) {
-                      handleContentReportAction(selectedReport.id, 'reviewed')
-                    } else {
-                      handleChatReportAction(selectedReport.id, 'reviewed')
-                    }
-                  }}
+                  onClick={() => handleSelectedReportAction('reviewed')}
                   loading={actionLoading}
                 >
                   Mark Reviewed
@@ -375,28 +755,24 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ isOpen, onClose }) => {
                 <Button
                   size="sm"
                   variant="danger"
-                  onClick={() => {
-                    if (selectedReport.content_id) {
-                      handleContentReportAction(selectedReport.id, 'resolved', 'Content removed', true)
-                    } else {
-                      handleChatReportAction(selectedReport.id, 'resolved', 'Message removed', true)
-                    }
-                  }}
+                  onClick={() => handleSelectedReportAction(
+                    'resolved',
+                    selectedReport.content_id
+                      ? 'Content removed'
+                      : selectedReport.review_id
+                        ? 'Review removed'
+                        : selectedReport.comment_id ? 'Comment removed' : 'Message removed',
+                    true
+                  )}
                   loading={actionLoading}
                 >
-                  Remove Content
+                  {selectedReport.review_id ? 'Hide Review' : selectedReport.comment_id ? 'Hide Comment' : 'Remove Content'}
                 </Button>
                 
                 <Button
                   size="sm"
                   variant="ghost"
-                  onClick={() => {
-                    if (selectedReport.content_id) {
-                      handleContentReportAction(selectedReport.id, 'dismissed', 'No action needed')
-                    } else {
-                      handleChatReportAction(selectedReport.id, 'dismissed', 'No action needed')
-                    }
-                  }}
+                  onClick={() => handleSelectedReportAction('dismissed', 'No action needed')}
                   loading={actionLoading}
                 >
                   Dismiss
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react'
+import { Lock, Users, Globe } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import {
+  createCollection,
+  updateCollection,
+  CollectionVisibility,
+  CollectionWithCount
+} from '../../services/collectionService'
+import { getUserGroups, ClassGroupWithDetails } from '../../services/classGroupService'
+import Modal from '../ui/Modal'
+import Input from '../ui/Input'
+import Button from '../ui/Button'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+interface CollectionFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => void
+  collection?: CollectionWithCount | null
+}
+
+const VISIBILITY_OPTIONS: { value: CollectionVisibility; label: string; description: string; icon: React.ElementType }[] = [
+  { value: 'private', label: 'Private', description: 'Only you can see it', icon: Lock },
+  { value: 'group', label: 'Group', description: 'Members of one of your class groups', icon: Users },
+  { value: 'public', label: 'Public link', description: 'Anyone with the link', icon: Globe },
+]
+
+const CollectionFormModal: React.FC<CollectionFormModalProps> = ({
+  isOpen,
+  onClose,
+  onSaved,
+  collection
+}) => {
+  const { user } = useAuth()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [visibility, setVisibility] = useState<CollectionVisibility>('private')
+  const [groupId, setGroupId] = useState('')
+  const [groups, setGroups] = useState<ClassGroupWithDetails[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setName(collection?.name || '')
+    setDescription(collection?.description || '')
+    setVisibility((collection?.visibility as CollectionVisibility) || 'private')
+    setGroupId(collection?.group_id || '')
+  }, [isOpen, collection])
+
+  useEffect(() => {
+    if (!isOpen || !user || visibility !== 'group' || groups.length > 0) return
+
+    getUserGroups(user.id)
+      .then(setGroups)
+      .catch(error => logger.error('Failed to load groups:', error))
+  }, [isOpen, user, visibility, groups.length])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || saving || !name.trim()) return
+
+    if (visibility === 'group' && !groupId) {
+      alert('Please choose a group to share with')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const fields = {
+        name: name.trim(),
+        description: description.trim() || null,
+        visibility,
+        group_id: visibility === 'group' ? groupId : null
+      }
+
+      if (collection) {
+        await updateCollection(collection.id, fields)
+      } else {
+        await createCollection({ ...fields, owner_id: user.id })
+      }
+
+      onSaved()
+      onClose()
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to save collection'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={collection ? 'Edit Collection' : 'New Collection'}
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4 p-4 md:p-6">
+        <Input
+          label="Name *"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. DBMS end-sem prep"
+          maxLength={100}
+          required
+          disabled={saving}
+        />
+
+        <div>
+          <label className="block text-sm font-semibold text-secondary-700 mb-2">Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            maxLength={500}
+            className="input-premium resize-none"
+            disabled={saving}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-secondary-700 mb-2">Who can see it</label>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {VISIBILITY_OPTIONS.map(option => {
+              const Icon = option.icon
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setVisibility(option.value)}
+                  className={cn(
+                    'p-3 rounded-lg border text-left transition-colors duration-200',
+                    visibility === option.value
+                      ? 'border-primary-500 bg-primary-50'
+                      : 'border-secondary-200 hover:bg-secondary-50'
+                  )}
+                  disabled={saving}
+                >
+                  <div className="flex items-center space-x-2 text-sm font-medium text-secondary-900">
+                    <Icon className="h-4 w-4" />
+                    <span>{option.label}</span>
+                  </div>
+                  <p className="text-xs text-secondary-500 mt-1">{option.description}</p>
+                </button>
+              )
+            })}
+          </div>
+        </div>
+
+        {visibility === 'group' && (
+          <div>
+            <label className="block text-sm font-semibold text-secondary-700 mb-2">Group *</label>
+            <select
+              value={groupId}
+              onChange={(e) => setGroupId(e.target.value)}
+              className="input-premium appearance-none cursor-pointer"
+              disabled={saving}
+            >
+              <option value="">Choose a group</option>
+              {groups.map(group => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" size="sm" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" loading={saving} disabled={saving || !name.trim()}>
+            {collection ? 'Save Changes' : 'Create Collection'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default CollectionFormModal
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { FolderPlus, Check, Plus } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import {
+  getUserCollections,
+  getCollectionIdsForContent,
+  addToCollection,
+  removeFromCollection,
+  createCollection,
+  CollectionWithCount
+} from '../../services/collectionService'
+import Button from '../ui/Button'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+interface SaveToCollectionMenuProps {
+  contentId: string
+}
+
+const SaveToCollectionMenu: React.FC<SaveToCollectionMenuProps> = ({ contentId }) => {
+  const { user, isGuest } = useAuth()
+  const [isOpen, setIsOpen] = useState(false)
+  const [collections, setCollections] = useState<CollectionWithCount[]>([])
+  const [memberOf, setMemberOf] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [newName, setNewName] = useState('')
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen || !user) return
+
+    const fetchCollections = async () => {
+      setLoading(true)
+      try {
+        const [{ own }, ids] = await Promise.all([
+          getUserCollections(user.id),
+          getCollectionIdsForContent(contentId, user.id)
+        ])
+        setCollections(own)
+        setMemberOf(new Set(ids))
+      } catch (error) {
+        logger.error('Failed to load collections:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCollections()
+  }, [isOpen, user, contentId])
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  if (!user || isGuest) return null
+
+  const handleToggle = async (collectionId: string) => {
+    const wasMember = memberOf.has(collectionId)
+    const next = new Set(memberOf)
+    if (wasMember) {
+      next.delete(collectionId)
+    } else {
+      next.add(collectionId)
+    }
+    setMemberOf(next)
+
+    try {
+      if (wasMember) {
+        await removeFromCollection(collectionId, contentId, user.id)
+      } else {
+        await addToCollection(collectionId, contentId, user.id)
+      }
+    } catch (error) {
+      setMemberOf(memberOf)
+      alert(getErrorMessage(error, 'Failed to update collection'))
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+
+    try {
+      const collection = await createCollection({ owner_id: user.id, name: newName })
+      await addToCollection(collection.id, contentId, user.id)
+      setCollections(prev => [...prev, { ...collection, item_count: 1 }])
+      setMemberOf(prev => new Set(prev).add(collection.id))
+      setNewName('')
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to create collection'))
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        onClick={() => setIsOpen(open => !open)}
+        variant="outline"
+        size="sm"
+        className="flex items-center justify-center space-x-2 w-full sm:w-auto"
+      >
+        <FolderPlus className="h-4 w-4" />
+        <span>Add to Collection</span>
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 bottom-full mb-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-10 p-2">
+          {loading ? (
+            <div className="flex justify-center py-3">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : (
+            <ul className="max-h-48 overflow-y-auto">
+              {collections.length === 0 && (
+                <li className="px-2 py-1.5 text-xs text-gray-500">No collections yet</li>
+              )}
+              {collections.map(collection => (
+                <li key={collection.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleToggle(collection.id)}
+                    className="w-full flex items-center justify-between px-2 py-1.5 rounded text-sm text-gray-700 hover:bg-gray-100"
+                  >
+                    <span className="truncate">{collection.name}</span>
+                    {memberOf.has(collection.id) && <Check className="h-4 w-4 text-primary-600 flex-shrink-0" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="flex items-center space-x-1 mt-2 pt-2 border-t border-gray-100">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New collection"
+              maxLength={100}
+              className="flex-1 min-w-0 rounded border border-gray-300 px-2 py-1 text-sm focus:border-primary-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="p-1.5 rounded text-primary-600 hover:bg-primary-50 disabled:opacity-40"
+              title="Create collection"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SaveToCollectionMenu
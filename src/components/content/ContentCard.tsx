@@ -1,25 +1,55 @@
-import React from 'react'
-import { FileText, Download, Eye, Calendar, User, Tag, Flag, Sparkles } from 'lucide-react'
-import { ContentWithCategory } from '../../services/contentService'
+import React, { useEffect, useState } from 'react'
+import { FileText, Download, Eye, Calendar, User, Tag, Flag, Sparkles, Star, Bookmark } from 'lucide-react'
+import { ContentWithCategory, ContentSearchResult, HighlightSegment } from '../../services/contentService'
 import { reportContent } from '../../services/reportingService'
+import { getSavedContentIds, toggleSavedContent } from '../../services/collectionService'
+import { getThumbnailUrl } from '../../services/thumbnailService'
 import { useAuth } from '../../contexts/AuthContext'
 import Badge from '../ui/Badge'
 import { formatDistanceToNow } from 'date-fns'
+import { cn } from '../../utils/cn'
+import { getErrorMessage } from '../../utils/errorHandling'
+import { logger } from '../../utils/logger'
 
 interface ContentCardProps {
   content: ContentWithCategory
   onClick?: () => void
   showUploader?: boolean
   showReportButton?: boolean
+  highlight?: ContentSearchResult['highlight']
 }
 
 const ContentCard: React.FC<ContentCardProps> = ({ 
   content, 
   onClick,
   showUploader = false,
-  showReportButton = true
+  showReportButton = true,
+  highlight
 }) => {
   const { user, isGuest } = useAuth()
+  const [isSaved, setIsSaved] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [thumbnailFailed, setThumbnailFailed] = useState(false)
+
+  const thumbnailUrl = thumbnailFailed ? null : getThumbnailUrl(content.thumbnail_path)
+
+  useEffect(() => {
+    if (!user || isGuest) {
+      setIsSaved(false)
+      return
+    }
+
+    let cancelled = false
+    getSavedContentIds(user.id)
+      .then(ids => {
+        if (!cancelled) setIsSaved(ids.has(content.id))
+      })
+      .catch(error => logger.error('Failed to load saved content:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [user, isGuest, content.id])
 
   const getContentTypeIcon = (type: string) => {
     switch (type) {
@@ -76,6 +106,16 @@ const ContentCard: React.FC<ContentCardProps> = ({
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i]
   }
 
+  const renderHighlight = (segments: HighlightSegment[]) => {
+    return segments.map((segment, index) => segment.matched ? (
+      <mark key={index} className="bg-accent-100 text-secondary-900 rounded px-0.5">
+        {segment.text}
+      </mark>
+    ) : (
+      <React.Fragment key={index}>{segment.text}</React.Fragment>
+    ))
+  }
+
   const handleReport = async (e: React.MouseEvent) => {
     e.stopPropagation() // Prevent card click
     
@@ -96,12 +136,44 @@ const ContentCard: React.FC<ContentCardProps> = ({
       alert(error.message || 'Failed to report content')
     }
   }
+  const handleToggleSave = async (e: React.MouseEvent) => {
+    e.stopPropagation() // Prevent card click
+
+    if (!user || isGuest) {
+      alert('Please sign in to save content')
+      return
+    }
+    if (saving) return
+
+    setSaving(true)
+    try {
+      setIsSaved(await toggleSavedContent(content.id, user.id, isSaved))
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to update saved content'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
   return (
     <div className="card-premium p-4 md:p-6 cursor-pointer group relative overflow-hidden" onClick={onClick}>
       {/* Premium indicator */}
       <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
         <Sparkles className="h-4 w-4 text-accent-500 animate-bounce-subtle" />
       </div>
+
+      {/* Thumbnail */}
+      {thumbnailUrl && (
+        <div className="-mx-4 -mt-4 md:-mx-6 md:-mt-6 mb-4 md:mb-6 h-36 md:h-44 bg-secondary-100 overflow-hidden border-b border-secondary-100">
+          <img
+            src={thumbnailUrl}
+            alt=""
+            loading="lazy"
+            onError={() => setThumbnailFailed(true)}
+            className="w-full h-full object-cover object-top group-hover:scale-105 transition-transform duration-500"
+          />
+        </div>
+      )}
       
       {/* Header */}
       <div className="flex items-start justify-between mb-4 md:mb-6">
@@ -115,6 +187,20 @@ const ContentCard: React.FC<ContentCardProps> = ({
         </div>
         
         <div className="flex items-center space-x-2 md:space-x-3 text-sm text-secondary-500">
+          <button
+            onClick={handleToggleSave}
+            disabled={saving}
+            className={cn(
+              'transition-all duration-300 p-1 md:p-2 rounded-lg hover:scale-110',
+              isSaved
+                ? 'text-primary-600 bg-primary-50'
+                : 'opacity-0 group-hover:opacity-100 hover:text-primary-600 hover:bg-primary-50'
+            )}
+            title={isSaved ? 'Remove from Saved' : 'Save for later'}
+          >
+            <Bookmark className={cn('h-3 w-3 md:h-4 md:w-4', isSaved && 'fill-current')} />
+          </button>
+
           {showReportButton && (
             <button
               onClick={handleReport}
@@ -125,6 +211,13 @@ const ContentCard: React.FC<ContentCardProps> = ({
             </button>
           )}
           
+          {content.rating_count > 0 && (
+            <div className="flex items-center space-x-1 px-2 py-1 bg-accent-50 text-accent-700 rounded-lg text-xs" title={`${content.rating_count} ratings`}>
+              <Star className="h-3 w-3 md:h-4 md:w-4 fill-accent-400 text-accent-400" />
+              <span>{Number(content.average_rating).toFixed(1)}</span>
+            </div>
+          )}
+
           {content.view_count > 0 && (
             <div className="flex items-center space-x-1 px-2 py-1 bg-secondary-100 rounded-lg text-xs">
               <Eye className="h-3 w-3 md:h-4 md:w-4" />
@@ -137,9 +230,13 @@ const ContentCard: React.FC<ContentCardProps> = ({
       {/* Title and Description */}
       <div className="mb-4 md:mb-6">
         <h3 className="font-bold text-secondary-900 text-lg md:text-xl mb-2 md:mb-3 group-hover:text-primary-600 transition-colors duration-300 line-clamp-2">
-          {content.title}
+          {highlight?.title.length ? renderHighlight(highlight.title) : content.title}
         </h3>
-        {content.description && (
+        {highlight?.snippet.length ? (
+          <p className="text-secondary-600 text-xs md:text-sm line-clamp-2 md:line-clamp-3 leading-relaxed">
+            {renderHighlight(highlight.snippet)}
+          </p>
+        ) : content.description && (
           <p className="text-secondary-600 text-xs md:text-sm line-clamp-2 md:line-clamp-3 leading-relaxed">
             {content.description}
           </p>
@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { MessageCircle, Reply, Pencil, Trash2, Flag } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import { ContentWithCategory } from '../../services/contentService'
+import {
+  getContentComments,
+  createComment,
+  updateComment,
+  deleteComment,
+  CommentThread,
+  MAX_COMMENT_LENGTH
+} from '../../services/commentService'
+import { reportComment } from '../../services/reportingService'
+import Button from '../ui/Button'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { formatDistanceToNow } from 'date-fns'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+// Deeper replies stay at this indent so long threads remain readable on mobile
+const MAX_INDENT_DEPTH = 3
+
+interface ContentCommentsProps {
+  content: ContentWithCategory
+}
+
+interface CommentFormProps {
+  initialValue?: string
+  placeholder: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<void>
+  onCancel?: () => void
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({
+  initialValue = '',
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel
+}) => {
+  const [body, setBody] = useState(initialValue)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (saving || !body.trim()) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      await onSubmit(body)
+      setBody('')
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to save comment'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        maxLength={MAX_COMMENT_LENGTH}
+        className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm placeholder-gray-400 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 resize-none"
+        disabled={saving}
+      />
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" loading={saving} disabled={saving || !body.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+const ContentComments: React.FC<ContentCommentsProps> = ({ content }) => {
+  const { user, profile, isGuest } = useAuth()
+  const [threads, setThreads] = useState<CommentThread[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [editing, setEditing] = useState<string | null>(null)
+
+  const isSignedIn = !!user && !isGuest
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const result = await getContentComments(content.id)
+      setThreads(result.threads)
+      setTotal(result.total)
+    } catch (error) {
+      logger.error('Failed to load comments:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [content.id])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchComments()
+  }, [fetchComments])
+
+  const handleCreate = async (body: string, parentId?: string) => {
+    if (!user) return
+
+    await createComment(content.id, user.id, body, parentId)
+    setReplyingTo(null)
+    await fetchComments()
+  }
+
+  const handleEdit = async (commentId: string, body: string) => {
+    await updateComment(commentId, body)
+    setEditing(null)
+    await fetchComments()
+  }
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return
+
+    try {
+      await deleteComment(commentId)
+      await fetchComments()
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to delete comment'))
+    }
+  }
+
+  const handleReport = async (commentId: string) => {
+    if (!isSignedIn) {
+      alert('Please sign in to report comments')
+      return
+    }
+
+    const reason = prompt('Please specify the reason for reporting this comment:')
+    if (!reason) return
+
+    const description = prompt('Additional details (optional):')
+
+    try {
+      await reportComment(commentId, user!.id, reason.trim(), description?.trim())
+      alert('Comment reported successfully. Our moderators will review it.')
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to report comment'))
+    }
+  }
+
+  const renderComment = (comment: CommentThread, depth: number): React.ReactNode => {
+    const isAuthor = comment.user_id === user?.id
+    const canDelete = isAuthor || !!profile?.is_admin
+
+    return (
+      <li key={comment.id}>
+        <div className="p-3 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs text-gray-500">
+              {comment.is_deleted ? (
+                'Deleted'
+              ) : (
+                <>
+                  <span className={cn('font-medium', comment.user_id === content.uploaded_by ? 'text-primary-600' : 'text-gray-700')}>
+                    @{comment.profiles?.username || 'user'}
+                  </span>
+                  {comment.user_id === content.uploaded_by && ' (uploader)'}
+                </>
+              )}
+              {' · '}
+              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+              {comment.is_edited && !comment.is_deleted && ' · edited'}
+            </span>
+            {!comment.is_deleted && isSignedIn && !isAuthor && (
+              <button
+                type="button"
+                onClick={() => handleReport(comment.id)}
+                className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Report comment"
+              >
+                <Flag className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+
+          {editing === comment.id ? (
+            <CommentForm
+              initialValue={comment.body}
+              placeholder="Edit your comment"
+              submitLabel="Save"
+              onSubmit={(body) => handleEdit(comment.id, body)}
+              onCancel={() => setEditing(null)}
+            />
+          ) : comment.is_deleted ? (
+            <p className="text-sm italic text-gray-400">This comment was deleted.</p>
+          ) : (
+            <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{comment.body}</p>
+          )}
+
+          {!comment.is_deleted && editing !== comment.id && isSignedIn && (
+            <div className="mt-2 flex items-center space-x-3 text-xs text-gray-500">
+              <button
+                type="button"
+                onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                className="flex items-center space-x-1 hover:text-primary-600 transition-colors"
+              >
+                <Reply className="h-3 w-3" />
+                <span>Reply</span>
+              </button>
+              {isAuthor && (
+                <button
+                  type="button"
+                  onClick={() => setEditing(comment.id)}
+                  className="flex items-center space-x-1 hover:text-primary-600 transition-colors"
+                >
+                  <Pencil className="h-3 w-3" />
+                  <span>Edit</span>
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(comment.id)}
+                  className="flex items-center space-x-1 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  <span>Delete</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {replyingTo === comment.id && (
+          <div className="mt-2 ml-4 md:ml-6">
+            <CommentForm
+              placeholder={`Reply to @${comment.profiles?.username || 'user'}`}
+              submitLabel="Reply"
+              onSubmit={(body) => handleCreate(body, comment.id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {comment.replies.length > 0 && (
+          <ul className={cn('mt-2 space-y-2', depth < MAX_INDENT_DEPTH && 'ml-4 md:ml-6 pl-3 border-l border-gray-200')}>
+            {comment.replies.map(reply => renderComment(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div className="pt-4 border-t border-gray-200">
+      <div className="flex items-center space-x-2 mb-3">
+        <MessageCircle className="h-4 w-4 text-gray-400" />
+        <span className="text-sm font-medium text-gray-700">
+          Discussion{total > 0 ? ` (${total})` : ''}
+        </span>
+      </div>
+
+      {isSignedIn ? (
+        <div className="mb-4">
+          <CommentForm
+            placeholder="Ask a question or add context for other students"
+            submitLabel="Comment"
+            onSubmit={(body) => handleCreate(body)}
+          />
+        </div>
+      ) : (
+        <p className="mb-3 text-xs text-gray-500">Sign in to join the discussion.</p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-xs md:text-sm text-gray-500">No comments yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-96 overflow-y-auto">
+          {threads.map(thread => renderComment(thread, 0))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default ContentComments
@@ -0,0 +1,193 @@
+import React from 'react'
+import { SlidersHorizontal, Check, X } from 'lucide-react'
+import { ContentFacets, ContentFacetFilters, FacetBucket } from '../../services/contentService'
+import { cn } from '../../utils/cn'
+
+interface ContentFacetSidebarProps {
+  facets: ContentFacets
+  filters: ContentFacetFilters
+  onChange: (filters: ContentFacetFilters) => void
+  onClear: () => void
+  loading?: boolean
+}
+
+const CONTENT_TYPE_LABELS: Record<string, string> = {
+  question_paper: 'Question Papers',
+  notes: 'Study Notes',
+  syllabus: 'Syllabus',
+  assignments: 'Assignments',
+  educational_link: 'Links',
+  other: 'Other',
+}
+
+const FILE_TYPE_LABELS: Record<string, string> = {
+  pdf: 'PDF',
+  doc: 'Word (.doc)',
+  docx: 'Word (.docx)',
+  txt: 'Text',
+  jpg: 'Image (JPG)',
+  png: 'Image (PNG)',
+}
+
+const ContentFacetSidebar: React.FC<ContentFacetSidebarProps> = ({
+  facets,
+  filters,
+  onChange,
+  onClear,
+  loading = false
+}) => {
+  const hasSelection = !!(
+    filters.contentType ||
+    filters.year ||
+    filters.semester ||
+    filters.fileType ||
+    (filters.tags && filters.tags.length > 0)
+  )
+
+  const toggleTag = (tag: string) => {
+    const tags = filters.tags || []
+    onChange({
+      ...filters,
+      tags: tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]
+    })
+  }
+
+  const renderFacet = <T extends string | number>(
+    title: string,
+    buckets: FacetBucket<T>[],
+    selected: T | undefined,
+    onSelect: (value: T | undefined) => void,
+    formatLabel: (value: T) => string
+  ) => {
+    if (buckets.length === 0 && selected === undefined) return null
+
+    return (
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-secondary-500">{title}</h4>
+        <ul className="space-y-1">
+          {buckets.map(bucket => {
+            const isSelected = bucket.value === selected
+            return (
+              <li key={String(bucket.value)}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(isSelected ? undefined : bucket.value)}
+                  className={cn(
+                    'w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-sm transition-colors duration-200',
+                    isSelected
+                      ? 'bg-primary-50 text-primary-700 font-medium'
+                      : 'text-secondary-700 hover:bg-secondary-100'
+                  )}
+                >
+                  <span className="flex items-center space-x-2">
+                    {isSelected && <Check className="h-3 w-3" />}
+                    <span>{formatLabel(bucket.value)}</span>
+                  </span>
+                  <span className="text-xs text-secondary-400">{bucket.count}</span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    )
+  }
+
+  return (
+    <aside className={cn('card-premium p-4 space-y-6 transition-opacity duration-300', loading && 'opacity-60')}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-secondary-900">
+          <SlidersHorizontal className="h-4 w-4" />
+          <h3 className="font-semibold">Refine</h3>
+        </div>
+        {hasSelection && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs text-secondary-500 hover:text-primary-600 transition-colors"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      {renderFacet(
+        'Year',
+        facets.year,
+        filters.year,
+        year => onChange({ ...filters, year }),
+        year => `Year ${year}`
+      )}
+
+      {renderFacet(
+        'Semester',
+        facets.semester,
+        filters.semester,
+        semester => onChange({ ...filters, semester }),
+        semester => `Sem ${semester}`
+      )}
+
+      {renderFacet(
+        'Type',
+        facets.content_type,
+        filters.contentType,
+        contentType => onChange({ ...filters, contentType }),
+        type => CONTENT_TYPE_LABELS[type] || type
+      )}
+
+      {renderFacet(
+        'File Type',
+        facets.file_type,
+        filters.fileType,
+        fileType => onChange({ ...filters, fileType }),
+        type => FILE_TYPE_LABELS[type] || type.toUpperCase()
+      )}
+
+      {(facets.tags.length > 0 || (filters.tags && filters.tags.length > 0)) && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-secondary-500">Tags</h4>
+          <div className="flex flex-wrap gap-2">
+            {(filters.tags || [])
+              .filter(tag => !facets.tags.some(bucket => bucket.value === tag))
+              .map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className="flex items-center space-x-1 text-xs px-2 py-1 rounded-full bg-primary-500 text-white"
+                >
+                  <span>{tag}</span>
+                  <X className="h-3 w-3" />
+                </button>
+              ))}
+            {facets.tags.map(bucket => {
+              const isSelected = filters.tags?.includes(bucket.value)
+              return (
+                <button
+                  key={bucket.value}
+                  type="button"
+                  onClick={() => toggleTag(bucket.value)}
+                  className={cn(
+                    'flex items-center space-x-1 text-xs px-2 py-1 rounded-full font-medium transition-colors duration-200',
+                    isSelected
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-secondary-100 text-secondary-600 hover:bg-secondary-200'
+                  )}
+                >
+                  <span>{bucket.value}</span>
+                  <span className={isSelected ? 'text-white/80' : 'text-secondary-400'}>{bucket.count}</span>
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {facets.total === 0 && !loading && (
+        <p className="text-xs text-secondary-500">No resources match this combination.</p>
+      )}
+    </aside>
+  )
+}
+
+export default ContentFacetSidebar
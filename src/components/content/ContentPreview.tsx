@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react'
+import { FileSearch, Maximize2 } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import { getSecurePreviewUrl } from '../../services/secureFileService'
+import PdfPreview from './PdfPreview'
+import ImageLightbox from './ImageLightbox'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { logger } from '../../utils/logger'
+
+// Large text files are cut off rather than rendered in full
+const MAX_TEXT_PREVIEW_CHARS = 100000
+
+const IMAGE_TYPES = ['jpg', 'jpeg', 'png', 'gif', 'webp']
+
+type PreviewKind = 'pdf' | 'image' | 'text'
+
+const getPreviewKind = (fileType: string | null | undefined): PreviewKind | null => {
+  const type = fileType?.toLowerCase()
+  if (!type) return null
+  if (type === 'pdf') return 'pdf'
+  if (type === 'txt') return 'text'
+  if (IMAGE_TYPES.includes(type)) return 'image'
+  return null
+}
+
+interface ContentPreviewProps {
+  fileUrl: string
+  fileType: string | null
+  title: string
+}
+
+/**
+ * Inline preview pane for a content file. Loading it does not count as a download;
+ * the surrounding viewer already records the view.
+ */
+const ContentPreview: React.FC<ContentPreviewProps> = ({ fileUrl, fileType, title }) => {
+  const { user } = useAuth()
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [text, setText] = useState<string | null>(null)
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showLightbox, setShowLightbox] = useState(false)
+
+  const kind = getPreviewKind(fileType)
+
+  useEffect(() => {
+    if (!kind) return
+
+    let cancelled = false
+
+    const loadPreview = async () => {
+      setLoading(true)
+      setError(null)
+      setPreviewUrl(null)
+      setText(null)
+
+      try {
+        const url = await getSecurePreviewUrl(fileUrl, user?.id || '')
+
+        if (kind === 'text') {
+          const response = await fetch(url)
+          if (!response.ok) throw new Error(`Failed to load file (${response.status})`)
+
+          const body = await response.text()
+          if (cancelled) return
+          setText(body.slice(0, MAX_TEXT_PREVIEW_CHARS))
+          setTruncated(body.length > MAX_TEXT_PREVIEW_CHARS)
+        }
+
+        if (!cancelled) setPreviewUrl(url)
+      } catch (error) {
+        logger.error('Failed to load preview:', error)
+        if (!cancelled) setError('Preview is not available for this file')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadPreview()
+
+    return () => {
+      cancelled = true
+    }
+  }, [fileUrl, kind, user?.id])
+
+  if (!kind) return null
+
+  return (
+    <div className="pt-4 border-t border-gray-200">
+      <div className="flex items-center space-x-2 mb-3">
+        <FileSearch className="h-4 w-4 text-gray-400" />
+        <span className="text-sm font-medium text-gray-700">Preview</span>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : error || !previewUrl ? (
+          <p className="p-4 text-sm text-gray-500 text-center">{error}</p>
+        ) : kind === 'pdf' ? (
+          <PdfPreview url={previewUrl} />
+        ) : kind === 'image' ? (
+          <>
+            <button
+              type="button"
+              onClick={() => setShowLightbox(true)}
+              className="relative block w-full bg-gray-50 group"
+              title="Open full size"
+            >
+              <img
+                src={previewUrl}
+                alt={title}
+                className="w-full h-auto max-h-64 md:max-h-96 object-contain"
+              />
+              <span className="absolute top-2 right-2 p-1.5 rounded-lg bg-black/50 text-white opacity-0 group-hover:opacity-100 transition-opacity">
+                <Maximize2 className="h-4 w-4" />
+              </span>
+            </button>
+            <ImageLightbox
+              src={previewUrl}
+              alt={title}
+              isOpen={showLightbox}
+              onClose={() => setShowLightbox(false)}
+            />
+          </>
+        ) : (
+          <div>
+            <pre className="max-h-96 overflow-auto p-3 md:p-4 text-xs md:text-sm text-gray-800 whitespace-pre-wrap break-words font-mono bg-gray-50">
+              {text}
+            </pre>
+            {truncated && (
+              <p className="px-3 py-2 text-xs text-gray-500 border-t border-gray-200">
+                Preview truncated. Download the file to read the rest.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ContentPreview
@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { MessageSquare, ThumbsUp, Flag, Trash2 } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import { ContentWithCategory } from '../../services/contentService'
+import {
+  getContentReviews,
+  getUserReview,
+  saveReview,
+  deleteReview,
+  toggleHelpfulVote,
+  ContentReview,
+  ContentReviewWithProfile
+} from '../../services/reviewService'
+import { reportReview } from '../../services/reportingService'
+import StarRating from './StarRating'
+import Button from '../ui/Button'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { formatDistanceToNow } from 'date-fns'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+interface ContentReviewsProps {
+  content: ContentWithCategory
+}
+
+const ContentReviews: React.FC<ContentReviewsProps> = ({ content }) => {
+  const { user, isGuest } = useAuth()
+  const [reviews, setReviews] = useState<ContentReviewWithProfile[]>([])
+  const [ownReview, setOwnReview] = useState<ContentReview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rating, setRating] = useState(0)
+  const [reviewText, setReviewText] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isSignedIn = !!user && !isGuest
+  const isUploader = user?.id === content.uploaded_by
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      // The user's own review is fetched separately so a hidden one still counts as theirs
+      const [visibleReviews, userReview] = await Promise.all([
+        getContentReviews(content.id, user?.id),
+        user && !isGuest ? getUserReview(content.id, user.id) : Promise.resolve(null)
+      ])
+      setReviews(visibleReviews)
+      setOwnReview(userReview)
+    } catch (error) {
+      logger.error('Failed to load reviews:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [content.id, user, isGuest])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchReviews()
+  }, [fetchReviews])
+
+  // Prefill the form with the user's existing review so saving edits it
+  useEffect(() => {
+    setRating(ownReview?.rating || 0)
+    setReviewText(ownReview?.review_text || '')
+  }, [ownReview?.id, ownReview?.rating, ownReview?.review_text])
+
+  const averageRating = reviews.length > 0
+    ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+    : 0
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || saving || rating === 0 || ownReview?.is_hidden) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      await saveReview(content.id, user.id, rating, reviewText)
+      await fetchReviews()
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to save review'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (reviewId: string) => {
+    if (!confirm('Delete your review?')) return
+
+    try {
+      await deleteReview(reviewId)
+      await fetchReviews()
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to delete review'))
+    }
+  }
+
+  const handleHelpful = async (review: ContentReviewWithProfile) => {
+    if (!isSignedIn) {
+      alert('Please sign in to vote on reviews')
+      return
+    }
+
+    try {
+      const voted = await toggleHelpfulVote(review.id, user!.id, !!review.has_voted)
+      setReviews(prev => prev.map(r => r.id === review.id
+        ? { ...r, has_voted: voted, helpful_count: r.helpful_count + (voted ? 1 : -1) }
+        : r))
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to record vote'))
+    }
+  }
+
+  const handleReport = async (reviewId: string) => {
+    if (!isSignedIn) {
+      alert('Please sign in to report reviews')
+      return
+    }
+
+    const reason = prompt('Please specify the reason for reporting this review:')
+    if (!reason) return
+
+    const description = prompt('Additional details (optional):')
+
+    try {
+      await reportReview(reviewId, user!.id, reason.trim(), description?.trim())
+      alert('Review reported successfully. Our moderators will review it.')
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to report review'))
+    }
+  }
+
+  return (
+    <div className="pt-4 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="h-4 w-4 text-gray-400" />
+          <span className="text-sm font-medium text-gray-700">Reviews</span>
+        </div>
+        {reviews.length > 0 && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <StarRating value={averageRating} />
+            <span>{averageRating.toFixed(1)} ({reviews.length})</span>
+          </div>
+        )}
+      </div>
+
+      {isSignedIn && !isUploader && (
+        <form onSubmit={handleSubmit} className="mb-4 p-3 md:p-4 bg-gray-50 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">
+              {ownReview ? 'Your review' : 'Rate this resource'}
+            </span>
+            <StarRating value={rating} onChange={setRating} size="md" disabled={saving || ownReview?.is_hidden} />
+          </div>
+
+          {ownReview?.is_hidden && (
+            <p className="text-xs text-gray-500">
+              Your review was hidden by a moderator. You can delete it, but not edit it.
+            </p>
+          )}
+
+          <textarea
+            value={reviewText}
+            onChange={(e) => setReviewText(e.target.value)}
+            placeholder="What was useful or missing? (optional)"
+            rows={2}
+            maxLength={2000}
+            className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm placeholder-gray-400 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 resize-none"
+            disabled={saving || ownReview?.is_hidden}
+          />
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-2">
+            {ownReview && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(ownReview.id)}
+                disabled={saving}
+                className="flex items-center space-x-1"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span>Delete</span>
+              </Button>
+            )}
+            {!ownReview?.is_hidden && (
+              <Button type="submit" size="sm" loading={saving} disabled={saving || rating === 0}>
+                {ownReview ? 'Update Review' : 'Post Review'}
+              </Button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="text-xs md:text-sm text-gray-500">No reviews yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-72 overflow-y-auto">
+          {reviews.map(review => (
+            <li key={review.id} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center space-x-2">
+                  <StarRating value={review.rating} />
+                  <span className="text-xs text-gray-500">
+                    @{review.profiles?.username || 'user'} · {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+                {review.user_id !== user?.id && (
+                  <button
+                    type="button"
+                    onClick={() => handleReport(review.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Report review"
+                  >
+                    <Flag className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+
+              {review.review_text && (
+                <p className="text-sm text-gray-700 break-words">{review.review_text}</p>
+              )}
+
+              <button
+                type="button"
+                onClick={() => handleHelpful(review)}
+                disabled={review.user_id === user?.id}
+                className={cn(
+                  'mt-2 flex items-center space-x-1 text-xs transition-colors disabled:cursor-default',
+                  review.has_voted ? 'text-primary-600 font-medium' : 'text-gray-500 hover:text-primary-600'
+                )}
+              >
+                <ThumbsUp className="h-3 w-3" />
+                <span>Helpful{review.helpful_count > 0 ? ` (${review.helpful_count})` : ''}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default ContentReviews
@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { History, Download, Upload, X } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import { ContentWithCategory } from '../../services/contentService'
+import {
+  getContentVersions,
+  publishContentVersion,
+  ContentVersionWithUploader
+} from '../../services/contentVersionService'
+import { validateFile, formatFileSize } from '../../services/fileUploadService'
+import Badge from '../ui/Badge'
+import Button from '../ui/Button'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { formatDistanceToNow } from 'date-fns'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+interface ContentVersionHistoryProps {
+  content: ContentWithCategory
+  onPublished?: (version: ContentVersionWithUploader) => void
+}
+
+const ContentVersionHistory: React.FC<ContentVersionHistoryProps> = ({ content, onPublished }) => {
+  const { user, profile } = useAuth()
+  const [versions, setVersions] = useState<ContentVersionWithUploader[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showUploadForm, setShowUploadForm] = useState(false)
+  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [changelog, setChangelog] = useState('')
+  const [publishing, setPublishing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const canPublish = !!user && (user.id === content.uploaded_by || !!profile?.is_admin)
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setVersions(await getContentVersions(content.id))
+    } catch (error) {
+      logger.error('Failed to load version history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [content.id])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchVersions()
+  }, [fetchVersions])
+
+  const resetForm = () => {
+    setShowUploadForm(false)
+    setSelectedFile(null)
+    setChangelog('')
+    setError(null)
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null
+    setError(null)
+
+    if (file) {
+      const validation = validateFile(file)
+      if (!validation.isValid) {
+        setError(validation.error || 'Invalid file')
+        e.target.value = ''
+        return
+      }
+    }
+    setSelectedFile(file)
+  }
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || !selectedFile || publishing) return
+
+    setPublishing(true)
+    setError(null)
+    try {
+      const version = await publishContentVersion(content.id, selectedFile, user.id, changelog)
+      resetForm()
+      await fetchVersions()
+      onPublished?.(version)
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to publish new version'))
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  // Nothing to show for link-only content with no history
+  if (!loading && versions.length === 0 && !canPublish) return null
+
+  const latestVersion = versions[0]?.version_number
+
+  return (
+    <div className="pt-4 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <History className="h-4 w-4 text-gray-400" />
+          <span className="text-sm font-medium text-gray-700">Version History</span>
+        </div>
+        {canPublish && !showUploadForm && (
+          <Button
+            onClick={() => setShowUploadForm(true)}
+            variant="outline"
+            size="sm"
+            className="flex items-center space-x-2"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Upload New Version</span>
+          </Button>
+        )}
+      </div>
+
+      {showUploadForm && (
+        <form onSubmit={handlePublish} className="mb-4 p-3 md:p-4 bg-gray-50 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">New version</span>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="text-gray-400 hover:text-gray-600"
+              disabled={publishing}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          <input
+            type="file"
+            accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-lg file:border-0 file:bg-primary-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-primary-700 hover:file:bg-primary-100"
+            disabled={publishing}
+          />
+
+          <textarea
+            value={changelog}
+            onChange={(e) => setChangelog(e.target.value)}
+            placeholder="What changed? e.g. Fixed answer to Q4, added unit 3 diagrams"
+            rows={2}
+            required
+            className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm placeholder-gray-400 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 resize-none"
+            disabled={publishing}
+          />
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              size="sm"
+              loading={publishing}
+              disabled={publishing || !selectedFile || !changelog.trim()}
+            >
+              Publish Version
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-xs md:text-sm text-gray-500">No file versions yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {versions.map((version) => (
+            <li
+              key={version.id}
+              className="flex items-start justify-between p-3 border border-gray-200 rounded-lg"
+            >
+              <div className="flex-1 min-w-0 mr-3">
+                <div className="flex items-center space-x-2 mb-1">
+                  <span className="text-sm font-semibold text-gray-900">v{version.version_number}</span>
+                  {version.version_number === latestVersion && (
+                    <Badge variant="success" size="sm">Current</Badge>
+                  )}
+                  {version.update_request_id && (
+                    <Badge variant="neutral" size="sm">From request</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-gray-700 break-words">{version.changelog}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                  {version.profiles && ` · @${version.profiles.username}`}
+                  {version.file_size ? ` · ${formatFileSize(version.file_size)}` : ''}
+                </p>
+              </div>
+              <Button
+                onClick={() => window.open(version.file_url, '_blank')}
+                variant="ghost"
+                size="sm"
+                className="flex items-center space-x-1"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default ContentVersionHistory
@@ -1,10 +1,21 @@
 import React, { useEffect, useState } from 'react'
-import { Download, Eye, Calendar, User, Tag, ExternalLink } from 'lucide-react'
+import { Download, Eye, Calendar, User, Tag, ExternalLink, Link2 } from 'lucide-react'
 import { ContentWithCategory, incrementViewCount } from '../../services/contentService'
 import Badge from '../ui/Badge'
 import Button from '../ui/Button'
 import Modal from '../ui/Modal'
+import ContentVersionHistory from './ContentVersionHistory'
+import ContentReviews from './ContentReviews'
+import ContentComments from './ContentComments'
+import ContentPreview from './ContentPreview'
+import SaveToCollectionMenu from '../collections/SaveToCollectionMenu'
+import ShareLinkModal from '../sharing/ShareLinkModal'
+import { ContentVersionWithUploader } from '../../services/contentVersionService'
+import { downloadFileSecurely } from '../../services/secureFileService'
+import { logContentActivity } from '../../services/recommendationService'
+import { useAuth } from '../../contexts/AuthContext'
 import { formatDistanceToNow } from 'date-fns'
+import { getErrorMessage } from '../../utils/errorHandling'
 
 interface ContentViewerProps {
   content: ContentWithCategory | null
@@ -13,23 +24,35 @@ interface ContentViewerProps {
 }
 
 const ContentViewer: React.FC<ContentViewerProps> = ({ content, isOpen, onClose }) => {
+  const { user, isGuest } = useAuth()
   const [viewIncremented, setViewIncremented] = useState(false)
+  const [publishedVersion, setPublishedVersion] = useState<ContentVersionWithUploader | null>(null)
+  const [showShareModal, setShowShareModal] = useState(false)
+  const [downloadError, setDownloadError] = useState('')
 
   useEffect(() => {
     if (content && isOpen && !viewIncremented) {
       incrementViewCount(content.id).catch(console.error)
+      if (user && !isGuest) {
+        logContentActivity(user.id, 'content_view', content)
+      }
       setViewIncremented(true)
     }
-  }, [content, isOpen, viewIncremented])
+  }, [content, isOpen, viewIncremented, user, isGuest])
 
   useEffect(() => {
     if (!isOpen) {
       setViewIncremented(false)
+      setPublishedVersion(null)
+      setShowShareModal(false)
     }
   }, [isOpen])
 
   if (!content) return null
 
+  // A version published from this viewer replaces the file without reloading the list
+  const currentFile = publishedVersion ?? content
+
   const getContentTypeLabel = (type: string) => {
     switch (type) {
       case 'question_paper':
@@ -72,9 +95,31 @@ const ContentViewer: React.FC<ContentViewerProps> = ({ content, isOpen, onClose
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i]
   }
 
-  const handleDownload = () => {
-    if (content.file_url) {
-      window.open(content.file_url, '_blank')
+  // Stored objects carry generated names, so files download as the content title
+  const getDownloadFileName = (fileUrl: string) => {
+    const extension = fileUrl.split('?')[0].match(/\.[a-z0-9]+$/i)?.[0] || ''
+    return `${content.title}${extension}`
+  }
+
+  const handleDownload = async () => {
+    if (!currentFile.file_url) return
+
+    // Signed-in downloads go through secure-download so they are counted
+    if (user && !isGuest) {
+      setDownloadError('')
+      try {
+        await downloadFileSecurely({
+          fileUrl: currentFile.file_url,
+          fileName: getDownloadFileName(currentFile.file_url),
+          userId: user.id,
+          contentId: content.id
+        })
+        logContentActivity(user.id, 'download', content)
+      } catch (error) {
+        setDownloadError(getErrorMessage(error, 'Failed to download this file'))
+      }
+    } else {
+      window.open(currentFile.file_url, '_blank')
     }
   }
 
@@ -130,9 +175,9 @@ const ContentViewer: React.FC<ContentViewerProps> = ({ content, isOpen, onClose
             </div>
           )}
           
-          {content.file_size && (
+          {currentFile.file_size && (
             <div className="text-xs md:text-sm text-gray-600">
-              Size: {formatFileSize(content.file_size)}
+              Size: {formatFileSize(currentFile.file_size)}
             </div>
           )}
         </div>
@@ -182,6 +227,8 @@ const ContentViewer: React.FC<ContentViewerProps> = ({ content, isOpen, onClose
           </div>
           
           <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-3 w-full sm:w-auto">
+            <SaveToCollectionMenu contentId={content.id} />
+
             {content.external_url && (
               <Button
                 onClick={handleExternalLink}
@@ -194,7 +241,19 @@ const ContentViewer: React.FC<ContentViewerProps> = ({ content, isOpen, onClose
               </Button>
             )}
             
-            {content.file_url && (
+            {currentFile.file_url && user && !isGuest && (
+              <Button
+                onClick={() => setShowShareModal(true)}
+                variant="outline"
+                size="sm"
+                className="flex items-center justify-center space-x-2 w-full sm:w-auto"
+              >
+                <Link2 className="h-4 w-4" />
+                <span>Share Link</span>
+              </Button>
+            )}
+
+            {currentFile.file_url && (
               <Button
                 onClick={handleDownload}
                 size="sm"
@@ -207,17 +266,40 @@ const ContentViewer: React.FC<ContentViewerProps> = ({ content, isOpen, onClose
           </div>
         </div>
 
-        {/* File Preview for images */}
-        {content.file_url && content.file_type && ['jpg', 'png'].includes(content.file_type) && (
-          <div className="border rounded-lg overflow-hidden mt-4">
-            <img 
-              src={content.file_url} 
-              alt={content.title}
-              className="w-full h-auto max-h-64 md:max-h-96 object-contain"
-            />
-          </div>
+        {downloadError && (
+          <p className="p-3 text-sm text-red-700 bg-red-50 rounded-lg border border-red-200">{downloadError}</p>
+        )}
+
+        {/* Inline Preview */}
+        {currentFile.file_url && (
+          <ContentPreview
+            fileUrl={currentFile.file_url}
+            fileType={currentFile.file_type}
+            title={content.title}
+          />
         )}
+
+        {/* Version History */}
+        {content.file_url && (
+          <ContentVersionHistory content={content} onPublished={setPublishedVersion} />
+        )}
+
+        {/* Ratings & Reviews */}
+        <ContentReviews content={content} />
+
+        {/* Discussion */}
+        <ContentComments content={content} />
       </div>
+
+      {currentFile.file_url && (
+        <ShareLinkModal
+          isOpen={showShareModal}
+          onClose={() => setShowShareModal(false)}
+          fileUrl={currentFile.file_url}
+          fileName={getDownloadFileName(currentFile.file_url)}
+          contentId={content.id}
+        />
+      )}
     </Modal>
   )
 }
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { X } from 'lucide-react'
+import { cn } from '../../utils/cn'
+
+interface ImageLightboxProps {
+  src: string
+  alt: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ src, alt, isOpen, onClose }) => {
+  const [zoomed, setZoomed] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) {
+      setZoomed(false)
+      return
+    }
+
+    // Capture Escape before the surrounding Modal so only the lightbox closes
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation()
+        onClose()
+      }
+    }
+
+    window.addEventListener('keydown', handleEscape, true)
+    return () => window.removeEventListener('keydown', handleEscape, true)
+  }, [isOpen, onClose])
+
+  if (!isOpen) return null
+
+  return createPortal(
+    <div className="fixed inset-0 z-[60] bg-black/90 overflow-auto animate-fade-in" onClick={onClose}>
+      <button
+        type="button"
+        onClick={onClose}
+        className="fixed top-4 right-4 p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+        title="Close"
+      >
+        <X className="h-6 w-6" />
+      </button>
+
+      <div className={cn('min-h-full flex items-center justify-center p-4', zoomed && 'items-start justify-start')}>
+        <img
+          src={src}
+          alt={alt}
+          onClick={(e) => {
+            e.stopPropagation()
+            setZoomed(value => !value)
+          }}
+          className={cn(
+            'select-none',
+            zoomed ? 'max-w-none cursor-zoom-out' : 'max-w-full max-h-[90vh] object-contain cursor-zoom-in'
+          )}
+        />
+      </div>
+    </div>,
+    document.body
+  )
+}
+
+export default ImageLightbox
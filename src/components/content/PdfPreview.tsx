@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { logger } from '../../utils/logger'
+
+const MIN_ZOOM = 0.5
+const MAX_ZOOM = 3
+const ZOOM_STEP = 0.25
+
+interface PdfPreviewProps {
+  url: string
+}
+
+// pdf.js is large, so it is only loaded once a PDF preview is opened
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist')
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+  return pdfjs
+}
+
+const PdfPreview: React.FC<PdfPreviewProps> = ({ url }) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [pageNumber, setPageNumber] = useState(1)
+  const [zoom, setZoom] = useState(1)
+  const [rendering, setRendering] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let loadedPdf: PDFDocumentProxy | null = null
+
+    setPdf(null)
+    setPageNumber(1)
+    setError(null)
+
+    loadPdfJs()
+      .then(pdfjs => pdfjs.getDocument(url).promise)
+      .then(document => {
+        loadedPdf = document
+        if (!cancelled) setPdf(document)
+      })
+      .catch(error => {
+        logger.error('Failed to load PDF preview:', error)
+        if (!cancelled) setError('This PDF could not be previewed')
+      })
+
+    return () => {
+      cancelled = true
+      loadedPdf?.destroy()
+    }
+  }, [url])
+
+  // Render the current page at the container width times the zoom level
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return
+
+    let renderTask: RenderTask | null = null
+    let cancelled = false
+
+    const renderPage = async () => {
+      setRendering(true)
+      try {
+        const page = await pdf.getPage(pageNumber)
+        if (cancelled || !canvasRef.current || !containerRef.current) return
+
+        const baseViewport = page.getViewport({ scale: 1 })
+        const fitScale = containerRef.current.clientWidth / baseViewport.width
+        const viewport = page.getViewport({ scale: fitScale * zoom })
+        const outputScale = window.devicePixelRatio || 1
+
+        const canvas = canvasRef.current
+        canvas.width = Math.floor(viewport.width * outputScale)
+        canvas.height = Math.floor(viewport.height * outputScale)
+        canvas.style.width = `${Math.floor(viewport.width)}px`
+        canvas.style.height = `${Math.floor(viewport.height)}px`
+
+        const context = canvas.getContext('2d')
+        if (!context) return
+
+        renderTask = page.render({
+          canvasContext: context,
+          viewport,
+          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+        })
+        await renderTask.promise
+      } catch (error) {
+        if (!(error instanceof Error) || error.name !== 'RenderingCancelledException') {
+          logger.error('Failed to render PDF page:', error)
+        }
+      } finally {
+        if (!cancelled) setRendering(false)
+      }
+    }
+
+    renderPage()
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, pageNumber, zoom])
+
+  if (error) {
+    return <p className="p-4 text-sm text-gray-500 text-center">{error}</p>
+  }
+
+  const numPages = pdf?.numPages || 0
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50 text-sm text-gray-600">
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => setPageNumber(page => Math.max(1, page - 1))}
+            disabled={pageNumber <= 1}
+            className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+            title="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="min-w-[72px] text-center">
+            {numPages > 0 ? `${pageNumber} / ${numPages}` : '–'}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPageNumber(page => Math.min(numPages, page + 1))}
+            disabled={pageNumber >= numPages}
+            className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+            title="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => setZoom(value => Math.max(MIN_ZOOM, value - ZOOM_STEP))}
+            disabled={zoom <= MIN_ZOOM}
+            className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+            title="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setZoom(1)}
+            className="min-w-[48px] text-center rounded hover:bg-gray-200"
+            title="Fit to width"
+          >
+            {Math.round(zoom * 100)}%
+          </button>
+          <button
+            type="button"
+            onClick={() => setZoom(value => Math.min(MAX_ZOOM, value + ZOOM_STEP))}
+            disabled={zoom >= MAX_ZOOM}
+            className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+            title="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="relative max-h-[60vh] overflow-auto bg-gray-100">
+        {(!pdf || rendering) && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <LoadingSpinner size="md" />
+          </div>
+        )}
+        <canvas ref={canvasRef} className="mx-auto block" />
+      </div>
+    </div>
+  )
+}
+
+export default PdfPreview
@@ -0,0 +1,75 @@
+import React, { useState, useEffect } from 'react'
+import { Sparkles, FileText } from 'lucide-react'
+import { getRecommendedContent, RecommendedContent } from '../../services/recommendationService'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { logger } from '../../utils/logger'
+
+interface RecommendedRailProps {
+  onSelect: (content: RecommendedContent) => void
+  limit?: number
+}
+
+const RecommendedRail: React.FC<RecommendedRailProps> = ({ onSelect, limit = 10 }) => {
+  const [items, setItems] = useState<RecommendedContent[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchRecommendations = async () => {
+      try {
+        setItems(await getRecommendedContent(limit))
+      } catch (error) {
+        logger.error('Failed to fetch recommendations:', error)
+        setItems([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRecommendations()
+  }, [limit])
+
+  // Nothing to go on yet (no year, course, history or groups), so leave the space to the rest of the page
+  if (!loading && items.length === 0) return null
+
+  return (
+    <div className="card-premium p-4 sm:p-6 mb-8 sm:mb-12 animate-fade-in-up">
+      <div className="mb-4">
+        <h2 className="text-xl sm:text-2xl font-bold text-secondary-900 text-gradient flex items-center space-x-2">
+          <Sparkles className="h-5 w-5 sm:h-6 sm:w-6 text-primary-600" />
+          <span>Recommended for you</span>
+        </h2>
+        <p className="text-sm text-secondary-600">Based on your year, course, what you've studied and your groups</p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : (
+        <div className="flex space-x-3 sm:space-x-4 overflow-x-auto pb-2 -mx-1 px-1 snap-x">
+          {items.map(item => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => onSelect(item)}
+              className="snap-start flex-shrink-0 w-60 sm:w-64 p-4 rounded-xl border border-secondary-200 bg-white text-left hover:border-primary-300 hover:shadow-md transition-all"
+            >
+              <div className="flex items-start space-x-2 mb-2">
+                <FileText className="h-4 w-4 text-primary-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm font-medium text-secondary-900 line-clamp-2">{item.title}</p>
+              </div>
+              {item.categories && (
+                <p className="text-xs text-secondary-500 truncate mb-2">{item.categories.name}</p>
+              )}
+              <p className="text-xs text-primary-700 bg-primary-50 rounded-lg px-2 py-1 line-clamp-2">
+                {item.recommendation.reason}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RecommendedRail
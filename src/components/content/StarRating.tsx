@@ -0,0 +1,57 @@
+import React, { useState } from 'react'
+import { Star } from 'lucide-react'
+import { cn } from '../../utils/cn'
+
+interface StarRatingProps {
+  value: number
+  onChange?: (value: number) => void
+  size?: 'sm' | 'md'
+  disabled?: boolean
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 'sm', disabled = false }) => {
+  const [hovered, setHovered] = useState<number | null>(null)
+  const interactive = !!onChange && !disabled
+  const shown = hovered ?? value
+
+  const sizeClasses = {
+    sm: 'h-3 w-3 md:h-4 md:w-4',
+    md: 'h-5 w-5 md:h-6 md:w-6'
+  }
+
+  return (
+    <div
+      className="flex items-center space-x-0.5"
+      onMouseLeave={() => setHovered(null)}
+      aria-label={`${value} out of 5 stars`}
+    >
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star
+            className={cn(
+              sizeClasses[size],
+              star <= Math.round(shown) ? 'fill-accent-400 text-accent-400' : 'text-secondary-300'
+            )}
+          />
+        )
+
+        return interactive ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHovered(star)}
+            className="p-0.5 hover:scale-110 transition-transform duration-200"
+            title={`${star} star${star > 1 ? 's' : ''}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        )
+      })}
+    </div>
+  )
+}
+
+export default StarRating
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react'
+import { Flame, Eye, Download, Star } from 'lucide-react'
+import { getTrendingContent, TrendingContent, TrendingPeriod } from '../../services/contentService'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+
+const PERIOD_OPTIONS: Array<{ value: TrendingPeriod; label: string }> = [
+  { value: 'week', label: 'This week' },
+  { value: 'semester', label: 'This semester' }
+]
+
+interface TrendingSectionProps {
+  onSelect: (content: TrendingContent) => void
+  limit?: number
+}
+
+const TrendingSection: React.FC<TrendingSectionProps> = ({ onSelect, limit = 6 }) => {
+  const [period, setPeriod] = useState<TrendingPeriod>('week')
+  const [items, setItems] = useState<TrendingContent[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchTrending = async () => {
+      setLoading(true)
+      try {
+        setItems(await getTrendingContent(period, limit))
+      } catch (error) {
+        logger.error('Failed to fetch trending content:', error)
+        setItems([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTrending()
+  }, [period, limit])
+
+  return (
+    <div className="card-premium p-4 sm:p-6 mb-8 sm:mb-12 animate-fade-in-up">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-secondary-900 text-gradient flex items-center space-x-2">
+            <Flame className="h-5 w-5 sm:h-6 sm:w-6 text-primary-600" />
+            <span>Trending</span>
+          </h2>
+          <p className="text-sm text-secondary-600">What classmates are opening, downloading and rating right now</p>
+        </div>
+        <div className="flex rounded-xl border border-secondary-200 overflow-hidden text-sm self-start sm:self-auto">
+          {PERIOD_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setPeriod(option.value)}
+              className={cn(
+                'px-3 py-1.5 transition-colors',
+                period === option.value
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-white text-secondary-600 hover:bg-secondary-50'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-secondary-500 py-4 text-center">
+          Nothing is trending {period === 'week' ? 'this week' : 'this semester'} yet.
+        </p>
+      ) : (
+        <ol className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+          {items.map((item, index) => (
+            <li key={item.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(item)}
+                className="w-full flex items-start space-x-3 p-3 rounded-xl text-left hover:bg-secondary-50 transition-colors"
+              >
+                <span className="text-lg font-bold text-primary-600 w-6 flex-shrink-0">{index + 1}</span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm sm:text-base font-medium text-secondary-900 line-clamp-2">{item.title}</p>
+                  <div className="flex items-center flex-wrap gap-x-3 gap-y-1 mt-1 text-xs text-secondary-500">
+                    {item.categories && <span className="truncate">{item.categories.name}</span>}
+                    <span className="flex items-center space-x-1">
+                      <Eye className="h-3 w-3" />
+                      <span>{item.trending.recentViews}</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                      <Download className="h-3 w-3" />
+                      <span>{item.trending.recentDownloads}</span>
+                    </span>
+                    {item.trending.recentRatings > 0 && (
+                      <span className="flex items-center space-x-1">
+                        <Star className="h-3 w-3" />
+                        <span>{item.trending.recentRatings}</span>
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default TrendingSection
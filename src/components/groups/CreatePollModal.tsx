@@ -0,0 +1,152 @@
+import React, { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { createGroupPoll, MAX_POLL_OPTIONS } from '../../services/groupPollService'
+import { GroupMessage } from '../../services/classGroupService'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+interface CreatePollModalProps {
+  isOpen: boolean
+  onClose: () => void
+  groupId: string
+  userId: string
+  onCreated: (message: GroupMessage) => void
+}
+
+const CreatePollModal: React.FC<CreatePollModalProps> = ({ isOpen, onClose, groupId, userId, onCreated }) => {
+  const [question, setQuestion] = useState('')
+  const [options, setOptions] = useState(['', ''])
+  const [allowMultiple, setAllowMultiple] = useState(false)
+  const [isAnonymous, setIsAnonymous] = useState(false)
+  const [closesAt, setClosesAt] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState('')
+
+  const reset = () => {
+    setQuestion('')
+    setOptions(['', ''])
+    setAllowMultiple(false)
+    setIsAnonymous(false)
+    setClosesAt('')
+    setError('')
+  }
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (closesAt && new Date(closesAt).getTime() <= Date.now()) {
+      setError('The close time must be in the future')
+      return
+    }
+
+    setCreating(true)
+    setError('')
+    try {
+      const message = await createGroupPoll(groupId, userId, {
+        question,
+        options,
+        allowMultiple,
+        isAnonymous,
+        closesAt: closesAt ? new Date(closesAt).toISOString() : null
+      })
+      onCreated(message)
+      handleClose()
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not create the poll'))
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Create Poll">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200">
+            {error}
+          </div>
+        )}
+
+        <Input
+          label="Question *"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="e.g., Which day for the extra lecture?"
+          maxLength={300}
+          required
+          disabled={creating}
+        />
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Options *</label>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                value={option}
+                onChange={(e) => setOptions(prev => prev.map((value, i) => i === index ? e.target.value : value))}
+                placeholder={`Option ${index + 1}`}
+                maxLength={100}
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                disabled={creating}
+              />
+              {options.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() => setOptions(prev => prev.filter((_, i) => i !== index))}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Remove option"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {options.length < MAX_POLL_OPTIONS && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => setOptions(prev => [...prev, ''])} disabled={creating}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add option
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={allowMultiple} onChange={(e) => setAllowMultiple(e.target.checked)} disabled={creating} />
+            <span>Allow more than one choice</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={isAnonymous} onChange={(e) => setIsAnonymous(e.target.checked)} disabled={creating} />
+            <span>Anonymous votes (nobody can see who voted for what)</span>
+          </label>
+        </div>
+
+        <Input
+          label="Closes at"
+          type="datetime-local"
+          value={closesAt}
+          onChange={(e) => setClosesAt(e.target.value)}
+          helpText="Leave empty to keep the poll open"
+          disabled={creating}
+        />
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+          <Button type="button" variant="outline" onClick={handleClose} disabled={creating} size="sm">
+            Cancel
+          </Button>
+          <Button type="submit" loading={creating} disabled={creating} size="sm">
+            Post Poll
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default CreatePollModal
@@ -0,0 +1,397 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { Megaphone, Plus, X, Trash2, Pin, PinOff, CheckCheck, Users } from 'lucide-react'
+import {
+  getGroupAnnouncements,
+  createGroupAnnouncement,
+  setGroupAnnouncementPinned,
+  deleteGroupAnnouncement,
+  getAcknowledgedAnnouncementIds,
+  acknowledgeGroupAnnouncement,
+  getAnnouncementAcknowledgements,
+  isGroupAdmin,
+  ClassGroupWithDetails,
+  GroupAnnouncementWithCreator,
+  AnnouncementAcknowledgement
+} from '../../services/classGroupService'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import Badge from '../ui/Badge'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+interface GroupAnnouncementsPanelProps {
+  group: ClassGroupWithDetails
+  userId: string
+  onClose: () => void
+  onChanged?: () => void
+}
+
+const EMPTY_FORM = {
+  title: '',
+  content: '',
+  isImportant: false,
+  isPinned: false,
+  expiresAt: ''
+}
+
+const GroupAnnouncementsPanel: React.FC<GroupAnnouncementsPanelProps> = ({ group, userId, onClose, onChanged }) => {
+  const [announcements, setAnnouncements] = useState<GroupAnnouncementWithCreator[]>([])
+  const [acknowledged, setAcknowledged] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [ackTarget, setAckTarget] = useState<GroupAnnouncementWithCreator | null>(null)
+  const [acks, setAcks] = useState<AnnouncementAcknowledgement[]>([])
+  const [loadingAcks, setLoadingAcks] = useState(false)
+
+  const loadAnnouncements = useCallback(async () => {
+    try {
+      const [list, admin] = await Promise.all([
+        getGroupAnnouncements(group.id),
+        isGroupAdmin(group.id, userId).catch(() => false)
+      ])
+
+      setAnnouncements(list)
+      setIsAdmin(admin || group.creator_id === userId)
+      setAcknowledged(await getAcknowledgedAnnouncementIds(
+        list.filter(a => a.is_important).map(a => a.id),
+        userId
+      ))
+    } catch (err) {
+      logger.error('Failed to load announcements:', err)
+      setError('Could not load announcements')
+    } finally {
+      setLoading(false)
+    }
+  }, [group.id, group.creator_id, userId])
+
+  useEffect(() => {
+    loadAnnouncements()
+  }, [loadAnnouncements])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!form.title.trim() || !form.content.trim()) {
+      setFormError('Give the announcement a title and some content')
+      return
+    }
+    if (form.expiresAt && new Date(form.expiresAt).getTime() <= Date.now()) {
+      setFormError('The expiry time must be in the future')
+      return
+    }
+
+    setSaving(true)
+    setFormError('')
+    try {
+      await createGroupAnnouncement(
+        group.id,
+        userId,
+        form.title,
+        form.content,
+        form.isImportant,
+        form.expiresAt ? new Date(form.expiresAt).toISOString() : undefined,
+        form.isPinned
+      )
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      await loadAnnouncements()
+      onChanged?.()
+    } catch (err) {
+      setFormError(getErrorMessage(err, 'Failed to post announcement'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleTogglePin = async (announcement: GroupAnnouncementWithCreator) => {
+    setBusyId(announcement.id)
+    try {
+      await setGroupAnnouncementPinned(announcement.id, !announcement.is_pinned)
+      await loadAnnouncements()
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update announcement'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (announcement: GroupAnnouncementWithCreator) => {
+    if (!confirm(`Delete "${announcement.title}"?`)) return
+
+    try {
+      await deleteGroupAnnouncement(announcement.id)
+      setAnnouncements(prev => prev.filter(a => a.id !== announcement.id))
+      onChanged?.()
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete announcement'))
+    }
+  }
+
+  const handleAcknowledge = async (announcement: GroupAnnouncementWithCreator) => {
+    setBusyId(announcement.id)
+    try {
+      await acknowledgeGroupAnnouncement(announcement.id, userId)
+      setAcknowledged(prev => new Set(prev).add(announcement.id))
+      onChanged?.()
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to acknowledge announcement'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const openAcknowledgements = async (announcement: GroupAnnouncementWithCreator) => {
+    setAckTarget(announcement)
+    setAcks([])
+    setLoadingAcks(true)
+    try {
+      setAcks(await getAnnouncementAcknowledgements(announcement.id))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not load acknowledgements'))
+      setAckTarget(null)
+    } finally {
+      setLoadingAcks(false)
+    }
+  }
+
+  const acknowledgedCount = acks.filter(ack => ack.acknowledged_at).length
+
+  return (
+    <div className="border-b border-gray-200 bg-gray-50/50 backdrop-blur-sm p-3 sm:p-4 max-h-72 sm:max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+          <Megaphone className="w-4 h-4 mr-1" />
+          Announcements ({announcements.length})
+        </h3>
+        <div className="flex items-center space-x-1">
+          {isAdmin && (
+            <Button variant="ghost" size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              New
+            </Button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-200 rounded-full"
+          >
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="mb-3 p-2 text-xs text-red-700 bg-red-50 rounded-lg border border-red-200">{error}</p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : announcements.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No announcements right now</p>
+      ) : (
+        <div className="space-y-2">
+          {announcements.map(announcement => {
+            const busy = busyId === announcement.id
+            const isMine = announcement.created_by === userId
+
+            return (
+              <div
+                key={announcement.id}
+                className={cn(
+                  'p-3 rounded-lg bg-white border',
+                  announcement.is_important ? 'border-red-200' : 'border-gray-100'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-1 mb-1">
+                      {announcement.is_pinned && (
+                        <Badge variant="primary" size="sm">
+                          <Pin className="w-3 h-3 mr-1" />
+                          Pinned
+                        </Badge>
+                      )}
+                      {announcement.is_important && <Badge variant="error" size="sm">Important</Badge>}
+                    </div>
+                    <p className="text-sm font-medium text-gray-900 break-words">{announcement.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {announcement.creator?.full_name || announcement.creator?.username || 'Admin'}
+                      {' • '}
+                      {formatDistanceToNow(new Date(announcement.created_at), { addSuffix: true })}
+                      {announcement.expires_at && ` • Expires ${format(new Date(announcement.expires_at), 'd MMM p')}`}
+                    </p>
+                  </div>
+                  {isAdmin && (
+                    <div className="flex items-center flex-shrink-0">
+                      <button
+                        onClick={() => handleTogglePin(announcement)}
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title={announcement.is_pinned ? 'Unpin' : 'Pin to top'}
+                        disabled={busy}
+                      >
+                        {announcement.is_pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(announcement)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete announcement"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <p className="text-xs text-gray-700 mt-1 whitespace-pre-line break-words">{announcement.content}</p>
+
+                {announcement.is_important && (
+                  <div className="flex flex-wrap items-center justify-end gap-2 mt-2">
+                    {isAdmin && (
+                      <Button variant="outline" size="sm" onClick={() => openAcknowledgements(announcement)}>
+                        <Users className="w-4 h-4 mr-1" />
+                        Acknowledgements
+                      </Button>
+                    )}
+                    {!isMine && (acknowledged.has(announcement.id) ? (
+                      <Badge variant="success" size="sm">
+                        <CheckCheck className="w-3 h-3 mr-1" />
+                        Acknowledged
+                      </Badge>
+                    ) : (
+                      <Button size="sm" onClick={() => handleAcknowledge(announcement)} loading={busy} disabled={busy}>
+                        I've read this
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Modal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        title="New Announcement"
+        size="lg"
+      >
+        <form onSubmit={handleCreate} className="space-y-4">
+          {formError && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200">
+              {formError}
+            </div>
+          )}
+
+          <Input
+            label="Title *"
+            value={form.title}
+            onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="e.g., Mid-term moved to Friday"
+            maxLength={150}
+            required
+            disabled={saving}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Message *</label>
+            <textarea
+              value={form.content}
+              onChange={(e) => setForm(prev => ({ ...prev, content: e.target.value }))}
+              rows={4}
+              maxLength={5000}
+              className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="What everyone needs to know"
+              required
+              disabled={saving}
+            />
+          </div>
+
+          <Input
+            label="Expires at"
+            type="datetime-local"
+            value={form.expiresAt}
+            onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+            helpText="Hidden from the board after this time. Leave empty to keep it up."
+            disabled={saving}
+          />
+
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={form.isImportant}
+                onChange={(e) => setForm(prev => ({ ...prev, isImportant: e.target.checked }))}
+                disabled={saving}
+              />
+              <span>Important (every member sees a banner until they acknowledge it)</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={form.isPinned}
+                onChange={(e) => setForm(prev => ({ ...prev, isPinned: e.target.checked }))}
+                disabled={saving}
+              />
+              <span>Pin to the top of the board</span>
+            </label>
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)} disabled={saving} size="sm">
+              Cancel
+            </Button>
+            <Button type="submit" loading={saving} disabled={saving} size="sm">
+              Post Announcement
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={!!ackTarget}
+        onClose={() => setAckTarget(null)}
+        title={ackTarget ? `Acknowledgements: ${ackTarget.title}` : 'Acknowledgements'}
+      >
+        {loadingAcks ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="sm" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              {acknowledgedCount} of {acks.length} members have acknowledged this announcement
+            </p>
+            <ul className="divide-y divide-gray-100">
+              {acks.map(ack => (
+                <li key={ack.user_id} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-gray-900 truncate">{ack.full_name || ack.username}</span>
+                  {ack.acknowledged_at ? (
+                    <span className="text-xs text-green-700 flex-shrink-0">
+                      {format(new Date(ack.acknowledged_at), 'd MMM p')}
+                    </span>
+                  ) : (
+                    <Badge variant="neutral" size="sm">Not yet</Badge>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
+
+export default GroupAnnouncementsPanel
@@ -0,0 +1,513 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { ClipboardList, Plus, X, Trash2, Paperclip, Download, Upload, Table, FileArchive } from 'lucide-react'
+import {
+  getGroupAssignments,
+  createGroupAssignment,
+  deleteGroupAssignment,
+  getMySubmissions,
+  submitAssignment,
+  withdrawSubmission,
+  getSubmissionMatrix,
+  downloadSubmissionsZip,
+  downloadSubmissionFile,
+  getSubmissionStatus,
+  isAssignmentOpen,
+  GroupAssignment,
+  AssignmentSubmission,
+  SubmissionMatrixRow,
+  SubmissionStatus
+} from '../../services/groupAssignmentService'
+import { isGroupAdmin, ClassGroupWithDetails } from '../../services/classGroupService'
+import { downloadFileSecurely } from '../../services/secureFileService'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import Badge from '../ui/Badge'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { cn } from '../../utils/cn'
+import { getErrorMessage } from '../../utils/errorHandling'
+import { logger } from '../../utils/logger'
+
+interface GroupAssignmentsPanelProps {
+  group: ClassGroupWithDetails
+  userId: string
+  onClose: () => void
+}
+
+const STATUS_STYLES: Record<SubmissionStatus, { label: string; variant: 'success' | 'warning' | 'error' | 'neutral'; cell: string }> = {
+  on_time: { label: 'On time', variant: 'success', cell: 'bg-green-100 text-green-800' },
+  late: { label: 'Late', variant: 'warning', cell: 'bg-yellow-100 text-yellow-800' },
+  missing: { label: 'Missing', variant: 'error', cell: 'bg-red-100 text-red-700' },
+  pending: { label: 'Not yet', variant: 'neutral', cell: 'bg-gray-100 text-gray-500' }
+}
+
+const EMPTY_FORM = {
+  title: '',
+  instructions: '',
+  dueAt: '',
+  allowLate: true,
+  files: [] as File[]
+}
+
+const GroupAssignmentsPanel: React.FC<GroupAssignmentsPanelProps> = ({ group, userId, onClose }) => {
+  const [assignments, setAssignments] = useState<GroupAssignment[]>([])
+  const [mySubmissions, setMySubmissions] = useState<Map<string, AssignmentSubmission>>(new Map())
+  const [matrix, setMatrix] = useState<SubmissionMatrixRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [showMatrix, setShowMatrix] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const submitInputRef = useRef<HTMLInputElement>(null)
+  const submittingFor = useRef<GroupAssignment | null>(null)
+
+  const loadAssignments = useCallback(async () => {
+    try {
+      const [list, admin] = await Promise.all([
+        getGroupAssignments(group.id),
+        isGroupAdmin(group.id, userId).catch(() => false)
+      ])
+      const canManage = admin || group.creator_id === userId
+
+      setAssignments(list)
+      setIsAdmin(canManage)
+
+      if (canManage) {
+        setMatrix(await getSubmissionMatrix(group.id))
+      } else {
+        const submissions = await getMySubmissions(list.map(a => a.id), userId)
+        setMySubmissions(new Map(submissions.map(s => [s.assignment_id, s])))
+      }
+    } catch (err) {
+      logger.error('Failed to load assignments:', err)
+      setError('Could not load assignments')
+    } finally {
+      setLoading(false)
+    }
+  }, [group.id, group.creator_id, userId])
+
+  useEffect(() => {
+    loadAssignments()
+  }, [loadAssignments])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!form.title.trim() || !form.dueAt) {
+      setFormError('Give the assignment a title and a due date')
+      return
+    }
+
+    setSaving(true)
+    setFormError('')
+    try {
+      await createGroupAssignment(group.id, userId, {
+        title: form.title,
+        instructions: form.instructions,
+        dueAt: new Date(form.dueAt).toISOString(),
+        allowLate: form.allowLate,
+        files: form.files
+      })
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      await loadAssignments()
+    } catch (err) {
+      setFormError(getErrorMessage(err, 'Failed to post assignment'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (assignment: GroupAssignment) => {
+    if (!confirm(`Delete "${assignment.title}" and all of its submissions?`)) return
+
+    try {
+      await deleteGroupAssignment(assignment.id)
+      setAssignments(prev => prev.filter(a => a.id !== assignment.id))
+      setMatrix(prev => prev.filter(row => row.assignment_id !== assignment.id))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete assignment'))
+    }
+  }
+
+  const pickSubmission = (assignment: GroupAssignment) => {
+    submittingFor.current = assignment
+    submitInputRef.current?.click()
+  }
+
+  const handleSubmitFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    const assignment = submittingFor.current
+    event.target.value = ''
+    if (!file || !assignment) return
+
+    setBusyId(assignment.id)
+    setError('')
+    try {
+      const submission = await submitAssignment(assignment, userId, file)
+      setMySubmissions(prev => new Map(prev).set(assignment.id, submission))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to submit'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleWithdraw = async (assignment: GroupAssignment, submission: AssignmentSubmission) => {
+    if (!confirm('Withdraw your submission?')) return
+
+    setBusyId(assignment.id)
+    try {
+      await withdrawSubmission(submission.id)
+      setMySubmissions(prev => {
+        const next = new Map(prev)
+        next.delete(assignment.id)
+        return next
+      })
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to withdraw submission'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleZip = async (assignment: GroupAssignment) => {
+    setBusyId(assignment.id)
+    setError('')
+    try {
+      await downloadSubmissionsZip(assignment)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download submissions'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const downloadFile = async (fileUrl: string, fileName: string) => {
+    setError('')
+    try {
+      await downloadFileSecurely({ fileUrl, fileName, userId, groupId: group.id })
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download file'))
+    }
+  }
+
+  const downloadSubmission = async (submission: { storage_bucket: string; storage_path: string; file_name: string }) => {
+    setError('')
+    try {
+      await downloadSubmissionFile(submission)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download submission'))
+    }
+  }
+
+  const statusCounts = (assignmentId: string) => {
+    const counts: Record<SubmissionStatus, number> = { on_time: 0, late: 0, missing: 0, pending: 0 }
+    matrix.filter(row => row.assignment_id === assignmentId).forEach(row => counts[row.status]++)
+    return counts
+  }
+
+  // Members down the side, assignments across the top
+  const matrixMembers = Array.from(
+    new Map(matrix.map(row => [row.user_id, row.full_name || row.username])).entries()
+  )
+  const matrixCell = (assignmentId: string, memberId: string) =>
+    matrix.find(row => row.assignment_id === assignmentId && row.user_id === memberId)
+
+  return (
+    <div className="border-b border-gray-200 bg-gray-50/50 backdrop-blur-sm p-3 sm:p-4 max-h-72 sm:max-h-96 overflow-y-auto">
+      <input
+        type="file"
+        ref={submitInputRef}
+        onChange={handleSubmitFile}
+        className="hidden"
+        accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png"
+      />
+
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+          <ClipboardList className="w-4 h-4 mr-1" />
+          Assignments ({assignments.length})
+        </h3>
+        <div className="flex items-center space-x-1">
+          {isAdmin && assignments.length > 0 && matrixMembers.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setShowMatrix(true)}>
+              <Table className="w-4 h-4 mr-1" />
+              Matrix
+            </Button>
+          )}
+          {isAdmin && (
+            <Button variant="ghost" size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              New
+            </Button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-200 rounded-full"
+          >
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="mb-3 p-2 text-xs text-red-700 bg-red-50 rounded-lg border border-red-200">{error}</p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : assignments.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No assignments yet</p>
+      ) : (
+        <div className="space-y-2">
+          {assignments.map(assignment => {
+            const dueAt = new Date(assignment.due_at)
+            const overdue = dueAt.getTime() < Date.now()
+            const submission = mySubmissions.get(assignment.id)
+            const status = getSubmissionStatus(assignment, submission)
+            const counts = isAdmin ? statusCounts(assignment.id) : null
+            const busy = busyId === assignment.id
+
+            return (
+              <div key={assignment.id} className="p-3 rounded-lg bg-white border border-gray-100">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 break-words">{assignment.title}</p>
+                    <p className={cn('text-xs', overdue ? 'text-red-600' : 'text-gray-500')}>
+                      Due {format(dueAt, 'EEE, d MMM p')} ({formatDistanceToNow(dueAt, { addSuffix: true })})
+                      {!assignment.allow_late && ' • No late work'}
+                    </p>
+                  </div>
+                  {isAdmin ? (
+                    <button
+                      onClick={() => handleDelete(assignment)}
+                      className="p-1 text-gray-400 hover:text-red-600 flex-shrink-0"
+                      title="Delete assignment"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <Badge variant={STATUS_STYLES[status].variant} size="sm">{STATUS_STYLES[status].label}</Badge>
+                  )}
+                </div>
+
+                {assignment.instructions && (
+                  <p className="text-xs text-gray-600 mt-1 whitespace-pre-line break-words">{assignment.instructions}</p>
+                )}
+
+                {assignment.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {assignment.attachments.map(attachment => (
+                      <button
+                        key={attachment.url}
+                        onClick={() => downloadFile(attachment.url, attachment.name)}
+                        className="flex items-center text-xs text-blue-600 hover:underline max-w-full"
+                      >
+                        <Paperclip className="w-3 h-3 mr-1 flex-shrink-0" />
+                        <span className="truncate">{attachment.name}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {counts ? (
+                  <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="success" size="sm">{counts.on_time} on time</Badge>
+                      <Badge variant="warning" size="sm">{counts.late} late</Badge>
+                      <Badge variant={overdue ? 'error' : 'neutral'} size="sm">
+                        {overdue ? `${counts.missing} missing` : `${counts.pending} to go`}
+                      </Badge>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleZip(assignment)}
+                      loading={busy}
+                      disabled={busy || counts.on_time + counts.late === 0}
+                    >
+                      <FileArchive className="w-4 h-4 mr-1" />
+                      Download all
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+                    {submission ? (
+                      <button
+                        onClick={() => downloadSubmission(submission)}
+                        className="flex items-center text-xs text-gray-600 hover:underline min-w-0"
+                      >
+                        <Download className="w-3 h-3 mr-1 flex-shrink-0" />
+                        <span className="truncate">
+                          {submission.file_name} • {format(new Date(submission.submitted_at), 'd MMM p')}
+                        </span>
+                      </button>
+                    ) : (
+                      <span className="text-xs text-gray-500">Only admins will see what you submit</span>
+                    )}
+                    <div className="flex items-center gap-1">
+                      {submission && !overdue && (
+                        <Button variant="ghost" size="sm" onClick={() => handleWithdraw(assignment, submission)} disabled={busy}>
+                          Withdraw
+                        </Button>
+                      )}
+                      {isAssignmentOpen(assignment) && (
+                        <Button size="sm" onClick={() => pickSubmission(assignment)} loading={busy} disabled={busy}>
+                          <Upload className="w-4 h-4 mr-1" />
+                          {submission ? 'Replace' : 'Submit'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Modal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        title="New Assignment"
+        size="lg"
+      >
+        <form onSubmit={handleCreate} className="space-y-4">
+          {formError && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200">
+              {formError}
+            </div>
+          )}
+
+          <Input
+            label="Title *"
+            value={form.title}
+            onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="e.g., Lab 4: Normalisation exercises"
+            maxLength={150}
+            required
+            disabled={saving}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Instructions</label>
+            <textarea
+              value={form.instructions}
+              onChange={(e) => setForm(prev => ({ ...prev, instructions: e.target.value }))}
+              rows={3}
+              maxLength={5000}
+              className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="What to do and how to hand it in"
+              disabled={saving}
+            />
+          </div>
+
+          <Input
+            label="Due *"
+            type="datetime-local"
+            value={form.dueAt}
+            onChange={(e) => setForm(prev => ({ ...prev, dueAt: e.target.value }))}
+            required
+            disabled={saving}
+          />
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.allowLate}
+              onChange={(e) => setForm(prev => ({ ...prev, allowLate: e.target.checked }))}
+              disabled={saving}
+            />
+            <span>Accept late submissions (they are marked late)</span>
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Attachments</label>
+            <input
+              type="file"
+              multiple
+              accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png"
+              onChange={(e) => setForm(prev => ({ ...prev, files: Array.from(e.target.files || []) }))}
+              className="block w-full text-sm text-gray-600"
+              disabled={saving}
+            />
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)} disabled={saving} size="sm">
+              Cancel
+            </Button>
+            <Button type="submit" loading={saving} disabled={saving} size="sm">
+              Post Assignment
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={showMatrix}
+        onClose={() => setShowMatrix(false)}
+        title="Submissions"
+        size="xl"
+      >
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr>
+                <th className="text-left font-semibold text-gray-700 p-2 sticky left-0 bg-white">Member</th>
+                {assignments.map(assignment => (
+                  <th key={assignment.id} className="font-semibold text-gray-700 p-2 min-w-[96px] text-center">
+                    <span className="block truncate max-w-[140px]" title={assignment.title}>{assignment.title}</span>
+                    <span className="block font-normal text-gray-400">{format(new Date(assignment.due_at), 'd MMM')}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrixMembers.map(([memberId, name]) => (
+                <tr key={memberId} className="border-t border-gray-100">
+                  <td className="p-2 text-gray-900 whitespace-nowrap sticky left-0 bg-white">{name}</td>
+                  {assignments.map(assignment => {
+                    const cell = matrixCell(assignment.id, memberId)
+                    if (!cell) return <td key={assignment.id} className="p-2" />
+
+                    const style = STATUS_STYLES[cell.status]
+                    return (
+                      <td key={assignment.id} className="p-1 text-center">
+                        {cell.storage_bucket && cell.storage_path ? (
+                          <button
+                            onClick={() => downloadSubmission({
+                              storage_bucket: cell.storage_bucket!,
+                              storage_path: cell.storage_path!,
+                              file_name: cell.file_name || 'submission'
+                            })}
+                            className={cn('w-full rounded px-2 py-1 hover:opacity-80', style.cell)}
+                            title={`${cell.file_name} • ${format(new Date(cell.submitted_at!), 'd MMM p')}`}
+                          >
+                            {style.label}
+                          </button>
+                        ) : (
+                          <span className={cn('block rounded px-2 py-1', style.cell)}>{style.label}</span>
+                        )}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Modal>
+    </div>
+  )
+}
+
+export default GroupAssignmentsPanel
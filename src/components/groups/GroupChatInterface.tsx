@@ -11,8 +11,16 @@ import {
   FileText, 
   Image, 
   Download,
+  Link2,
   MoreVertical,
-  MessageCircle
+  MessageCircle,
+  CalendarDays,
+  BarChart3,
+  ClipboardList,
+  Megaphone,
+  MessageSquare,
+  Pin,
+  PinOff
 } from 'lucide-react'
 import { 
   getGroupMessages, 
@@ -22,25 +30,48 @@ import {
   leaveClassGroup,
   isGroupAdmin,
   ClassGroupWithDetails,
-  GroupMessageWithProfile,
   GroupMemberWithProfile
 } from '../../services/classGroupService'
 import { uploadGroupFile } from '../../services/groupFileService'
+import { checkStorageQuota } from '../../services/storageQuotaService'
 import { useRealtimeGroupMessages } from '../../hooks/useRealtime'
 import { useAuth } from '../../contexts/AuthContext'
 import { downloadFileSecurely } from '../../services/secureFileService'
+import { getThumbnailUrl } from '../../services/thumbnailService'
 import Button from '../ui/Button'
 import LoadingSpinner from '../ui/LoadingSpinner'
 import GroupAdminPanel from './GroupAdminPanel'
+import GroupEventsPanel from './GroupEventsPanel'
+import GroupAssignmentsPanel from './GroupAssignmentsPanel'
+import GroupAnnouncementsPanel from './GroupAnnouncementsPanel'
+import ImportantAnnouncementBanner from './ImportantAnnouncementBanner'
+import GroupPollCard from './GroupPollCard'
+import CreatePollModal from './CreatePollModal'
+import { GroupPoll, GroupPollResults } from '../../services/groupPollService'
+import {
+  getPinnedGroupMessages,
+  setGroupMessagePinned,
+  toggleGroupMessageReaction,
+  toggleReactionLocally,
+  ThreadedGroupMessage
+} from '../../services/groupMessageService'
+import MessageReactions from './MessageReactions'
+import GroupThreadPanel from './GroupThreadPanel'
+import PinnedMessagesBar from './PinnedMessagesBar'
+import ShareLinkModal from '../sharing/ShareLinkModal'
 import { circuitBreaker } from '../../utils/circuitBreaker'
+import { logger } from '../../utils/logger'
 
-interface OptimisticGroupMessage extends GroupMessageWithProfile {
+interface OptimisticGroupMessage extends ThreadedGroupMessage {
   isOptimistic?: boolean
   message_type?: string
   file_url?: string
   file_name?: string
   file_size?: number
   file_type?: string
+  thumbnail_path?: string | null
+  poll?: GroupPoll | null
+  poll_results?: GroupPollResults | null
 }
 
 interface GroupChatInterfaceProps {
@@ -62,18 +93,28 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
   const [sending, setSending] = useState(false)
   const [uploadingFile, setUploadingFile] = useState(false)
   const [leavingGroup, setLeavingGroup] = useState(false)
-  const [replyTo, setReplyTo] = useState<GroupMessageWithProfile | null>(null)
+  const [threadRootId, setThreadRootId] = useState<string | null>(null)
+  const [pinnedMessages, setPinnedMessages] = useState<ThreadedGroupMessage[]>([])
   const [showMembers, setShowMembers] = useState(false)
+  const [showEvents, setShowEvents] = useState(false)
+  const [showAssignments, setShowAssignments] = useState(false)
+  const [showAnnouncements, setShowAnnouncements] = useState(false)
+  const [announcementsVersion, setAnnouncementsVersion] = useState(0)
+  const [showPollModal, setShowPollModal] = useState(false)
   const [showAdminPanel, setShowAdminPanel] = useState(false)
   const [isUserAdmin, setIsUserAdmin] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [realtimeConnected, setRealtimeConnected] = useState(false)
+  const [sharingFile, setSharingFile] = useState<{ url: string; name: string } | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const messagesContainerRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Real-time message handlers
   const handleNewMessage = useCallback((message: any) => {
+    // Thread replies are shown in their thread panel; the thread's first message carries the reply count
+    if (message.reply_to) return
+
     setMessages(prev => {
       // Check if this message replaces an optimistic one
       let optimisticIndex = -1
@@ -120,6 +161,16 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
         msg.id === updatedMessage.id ? { ...msg, ...updatedMessage } : msg
       )
     )
+    setPinnedMessages(prev => {
+      const existing = prev.find(msg => msg.id === updatedMessage.id)
+      const isPinned = 'is_pinned' in updatedMessage ? updatedMessage.is_pinned : !!existing
+      if (!existing && !isPinned) return prev
+
+      const others = prev.filter(msg => msg.id !== updatedMessage.id)
+      if (!isPinned) return others
+      return [{ ...existing, ...updatedMessage }, ...others]
+        .sort((a, b) => (b.pinned_at || '').localeCompare(a.pinned_at || ''))
+    })
   }, [])
 
   const handleMessageDelete = useCallback((messageId: string) => {
@@ -222,15 +273,22 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
           // Try to load messages
           try {
             const messagesData = await getGroupMessages(group.id)
-            setMessages(messagesData)
+            setMessages(messagesData as OptimisticGroupMessage[])
           } catch (messagesError) {
             console.error('Failed to load messages:', messagesError)
             setMessages([])
           }
           
-          // Skip members and admin status for now
+          // Skip members for now
           setMembers([])
-          setIsUserAdmin(false)
+
+          // Pinned messages, and whether this user may pin and unpin them
+          const [pinned, adminStatus] = await Promise.all([
+            getPinnedGroupMessages(group.id).catch(() => []),
+            isGroupAdmin(group.id, user.id).catch(() => false)
+          ])
+          setPinnedMessages(pinned)
+          setIsUserAdmin(adminStatus || group.creator_id === user.id)
           
           // Instant scroll to bottom after messages are loaded (no animation to prevent flash)
           setTimeout(() => {
@@ -332,7 +390,6 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
     // Add optimistic message immediately
     setMessages(prev => [...prev, optimisticMessage])
     setNewMessage('')
-    setReplyTo(null)
     scrollToBottom()
 
     // Immediate fallback: Remove optimistic state after 5 seconds if no real-time update
@@ -352,9 +409,7 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
         group.id,
         user.id,
         newMessage.trim(),
-        'text',
-        undefined,
-        replyTo?.id
+        'text'
       )
       
       console.log('✅ Message sent successfully:', sentMessage.id)
@@ -402,6 +457,17 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
 
     setUploadingFile(true)
 
+    // Say so straight away when the file will not fit in the uploader's storage quota
+    const quota = await checkStorageQuota(user.id, file.size)
+    if (!quota.allowed) {
+      setError('This file would take you over your storage quota. Delete some files or ask an admin for more space.')
+      setUploadingFile(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+      return
+    }
+
     // Create optimistic file message immediately
     const tempId = `temp-file-${Date.now()}`
     const optimisticFileMessage: OptimisticGroupMessage = {
@@ -425,7 +491,6 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
 
     // Add optimistic file message immediately
     setMessages(prev => [...prev, optimisticFileMessage])
-    setReplyTo(null)
     scrollToBottom()
 
     try {
@@ -442,8 +507,7 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
         user.id,
         `📎 ${file.name}`,
         'file',
-        uploadResult,
-        replyTo?.id
+        uploadResult
       )
       
       console.log('File message sent:', fileMessage)
@@ -545,91 +609,203 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
     }
   }
 
+  const handleToggleReaction = async (message: ThreadedGroupMessage, emoji: string) => {
+    if (!user) return
+
+    handleMessageUpdate({ id: message.id, reactions: toggleReactionLocally(message.reactions, emoji, user.id) })
+    try {
+      const reactions = await toggleGroupMessageReaction(message.id, emoji)
+      handleMessageUpdate({ id: message.id, reactions })
+    } catch (error) {
+      logger.error('Error reacting to message:', error)
+      handleMessageUpdate({ id: message.id, reactions: message.reactions || {} })
+      setError('Could not add your reaction. Please try again.')
+    }
+  }
+
+  const handleTogglePin = async (message: ThreadedGroupMessage) => {
+    const isPinned = !message.is_pinned
+
+    try {
+      await setGroupMessagePinned(message.id, isPinned)
+      handleMessageUpdate({ ...message, is_pinned: isPinned, pinned_at: isPinned ? new Date().toISOString() : null })
+    } catch (error) {
+      logger.error('Error pinning message:', error)
+      setError('Could not update the pinned messages. Please try again.')
+    }
+  }
+
+  // Scroll to a pinned message when it is loaded, otherwise show it in its thread panel
+  const handleOpenPinned = (message: ThreadedGroupMessage) => {
+    const element = document.getElementById(`group-message-${message.id}`)
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    } else {
+      setThreadRootId(message.reply_to || message.id)
+    }
+  }
+
+  const threadRoot = threadRootId
+    ? messages.find(msg => msg.id === threadRootId) || pinnedMessages.find(msg => msg.id === threadRootId) || null
+    : null
+
   const renderMessage = (message: OptimisticGroupMessage) => {
     const isOwn = message.user_id === user?.id
     const isOptimistic = message.isOptimistic
     const isFileMessage = message.message_type === 'file' && message.file_url
+    const isPollMessage = message.message_type === 'poll' && message.poll
     const isUploading = isFileMessage && message.file_url === 'uploading'
+    const thumbnailUrl = isFileMessage && !isUploading ? getThumbnailUrl(message.thumbnail_path) : null
 
     return (
       <div
         key={message.id}
+        id={`group-message-${message.id}`}
         className={`flex mb-3 sm:mb-4 ${isOwn ? 'justify-end' : 'justify-start'}`}
       >
-        <div className={`max-w-[85%] sm:max-w-xs lg:max-w-md px-3 sm:px-4 py-2 sm:py-3 rounded-2xl break-words overflow-hidden shadow-sm ${
-          isOwn 
-            ? `bg-blue-500 text-white ${isOptimistic ? 'opacity-70' : ''}` 
-            : 'bg-white text-gray-800 border border-gray-200'
-        }`}>
-          {!isOwn && (
-            <p className="text-xs font-semibold mb-1 opacity-75">
-              {message.profiles?.full_name || message.profiles?.username || 'Unknown User'}
-            </p>
-          )}
+        <div className={`flex flex-col max-w-[85%] sm:max-w-xs lg:max-w-md ${isOwn ? 'items-end' : 'items-start'}`}>
+          <div className={`max-w-full px-3 sm:px-4 py-2 sm:py-3 rounded-2xl break-words overflow-hidden shadow-sm ${
+            isOwn 
+              ? `bg-blue-500 text-white ${isOptimistic ? 'opacity-70' : ''}` 
+              : 'bg-white text-gray-800 border border-gray-200'
+          }`}>
+            {!isOwn && (
+              <p className="text-xs font-semibold mb-1 opacity-75">
+                {message.profiles?.full_name || message.profiles?.username || 'Unknown User'}
+              </p>
+            )}
           
-          {isFileMessage ? (
-            <div className="space-y-2">
-              <div className={`flex items-center space-x-2 p-2 sm:p-3 rounded-lg ${
-                isOwn ? 'bg-white bg-opacity-10' : 'bg-gray-50'
-              }`}>
-                {getFileIcon(message.file_name || '')}
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium break-words">{message.file_name}</p>
-                  <p className="text-xs opacity-75">
-                    {message.file_size ? formatFileSize(message.file_size) : 'Unknown size'}
-                  </p>
-                  {isUploading && (
-                    <p className="text-xs opacity-75 animate-pulse">Uploading...</p>
-                  )}
-                </div>
-                {!isUploading && (
+            {isPollMessage ? (
+              <GroupPollCard
+                messageId={message.id}
+                poll={message.poll!}
+                results={message.poll_results || null}
+                userId={user!.id}
+                isOwn={isOwn}
+                onError={setError}
+              />
+            ) : isFileMessage ? (
+              <div className="space-y-2">
+                {thumbnailUrl && (
                   <button
+                    type="button"
                     onClick={() => handleFileDownload(message.file_url!, message.file_name!)}
-                    className={`p-2 rounded-full hover:bg-white hover:bg-opacity-20 transition-colors touch-manipulation ${
-                      isOwn ? 'text-white' : 'text-gray-600'
-                    }`}
+                    className="block w-full rounded-lg overflow-hidden bg-gray-100"
                     title="Download file"
                   >
-                    <Download className="h-4 w-4" />
+                    <img
+                      src={thumbnailUrl}
+                      alt={message.file_name || 'File preview'}
+                      loading="lazy"
+                      className="w-full max-h-48 object-cover object-top"
+                    />
                   </button>
                 )}
+                <div className={`flex items-center space-x-2 p-2 sm:p-3 rounded-lg ${
+                  isOwn ? 'bg-white bg-opacity-10' : 'bg-gray-50'
+                }`}>
+                  {getFileIcon(message.file_name || '')}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium break-words">{message.file_name}</p>
+                    <p className="text-xs opacity-75">
+                      {message.file_size ? formatFileSize(message.file_size) : 'Unknown size'}
+                    </p>
+                    {isUploading && (
+                      <p className="text-xs opacity-75 animate-pulse">Uploading...</p>
+                    )}
+                  </div>
+                  {!isUploading && (
+                    <button
+                      onClick={() => handleFileDownload(message.file_url!, message.file_name!)}
+                      className={`p-2 rounded-full hover:bg-white hover:bg-opacity-20 transition-colors touch-manipulation ${
+                        isOwn ? 'text-white' : 'text-gray-600'
+                      }`}
+                      title="Download file"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!isUploading && !isOptimistic && (
+                    <button
+                      onClick={() => setSharingFile({ url: message.file_url!, name: message.file_name! })}
+                      className={`p-2 rounded-full hover:bg-white hover:bg-opacity-20 transition-colors touch-manipulation ${
+                        isOwn ? 'text-white' : 'text-gray-600'
+                      }`}
+                      title="Share link"
+                    >
+                      <Link2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+                {message.message && message.message !== `📎 ${message.file_name}` && (
+                  <p className="text-sm break-words">{message.message}</p>
+                )}
               </div>
-              {message.message && message.message !== `📎 ${message.file_name}` && (
-                <p className="text-sm break-words">{message.message}</p>
-              )}
-            </div>
-          ) : (
-            <p className="text-sm sm:text-base break-words leading-relaxed">{message.message}</p>
-          )}
+            ) : (
+              <p className="text-sm sm:text-base break-words leading-relaxed">{message.message}</p>
+            )}
           
-          <p className="text-xs opacity-75 mt-2 flex items-center justify-between">
-            <span>
-              {new Date(message.created_at).toLocaleTimeString([], { 
-                hour: '2-digit', 
-                minute: '2-digit' 
-              })}
-            </span>
-            {isOptimistic && (
-              <span className="text-orange-400 ml-2">
-                {isUploading ? ' (uploading...)' : ' (sending...)'}
-                <button 
-                  onClick={() => {
-                    console.log('👆 Manually confirming message:', message.id)
-                    setMessages(prev => 
-                      prev.map(msg => 
-                        msg.id === message.id 
-                          ? { ...msg, isOptimistic: false }
-                          : msg
+            <p className="text-xs opacity-75 mt-2 flex items-center justify-between">
+              <span className="flex items-center">
+                {new Date(message.created_at).toLocaleTimeString([], { 
+                  hour: '2-digit', 
+                  minute: '2-digit' 
+                })}
+                {message.is_pinned && <Pin className="w-3 h-3 ml-1" aria-label="Pinned" />}
+              </span>
+              {isOptimistic && (
+                <span className="text-orange-400 ml-2">
+                  {isUploading ? ' (uploading...)' : ' (sending...)'}
+                  <button 
+                    onClick={() => {
+                      console.log('👆 Manually confirming message:', message.id)
+                      setMessages(prev => 
+                        prev.map(msg => 
+                          msg.id === message.id 
+                            ? { ...msg, isOptimistic: false }
+                            : msg
+                        )
                       )
-                    )
-                  }}
-                  className="ml-2 text-xs text-blue-400 hover:text-blue-300 underline touch-manipulation"
+                    }}
+                    className="ml-2 text-xs text-blue-400 hover:text-blue-300 underline touch-manipulation"
+                  >
+                    confirm
+                  </button>
+                </span>
+              )}
+            </p>
+          </div>
+
+          {!isOptimistic && (
+            <MessageReactions
+              reactions={message.reactions}
+              userId={user!.id}
+              onToggle={(emoji) => handleToggleReaction(message, emoji)}
+              align={isOwn ? 'end' : 'start'}
+            >
+              <button
+                onClick={() => setThreadRootId(message.id)}
+                className="flex items-center p-1 text-xs text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 touch-manipulation"
+                title="Reply in thread"
+              >
+                <MessageSquare className="w-4 h-4" />
+                {!!message.reply_count && (
+                  <span className="ml-1 font-medium text-blue-600">
+                    {message.reply_count} {message.reply_count === 1 ? 'reply' : 'replies'}
+                  </span>
+                )}
+              </button>
+              {isUserAdmin && (
+                <button
+                  onClick={() => handleTogglePin(message)}
+                  className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 touch-manipulation"
+                  title={message.is_pinned ? 'Unpin message' : 'Pin message'}
                 >
-                  confirm
+                  {message.is_pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
                 </button>
-              </span>
-            )}
-          </p>
+              )}
+            </MessageReactions>
+          )}
         </div>
       </div>
     )
@@ -669,6 +845,36 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
           
           {/* Mobile-optimized action buttons */}
           <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowAnnouncements(!showAnnouncements)}
+              className="p-2 hover:bg-gray-100 rounded-full flex-shrink-0"
+              title="Announcements"
+            >
+              <Megaphone className="w-4 h-4 sm:w-5 sm:h-5" />
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowEvents(!showEvents)}
+              className="p-2 hover:bg-gray-100 rounded-full flex-shrink-0"
+              title="Calendar"
+            >
+              <CalendarDays className="w-4 h-4 sm:w-5 sm:h-5" />
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowAssignments(!showAssignments)}
+              className="p-2 hover:bg-gray-100 rounded-full flex-shrink-0"
+              title="Assignments"
+            >
+              <ClipboardList className="w-4 h-4 sm:w-5 sm:h-5" />
+            </Button>
+
             <Button
               variant="ghost"
               size="sm"
@@ -724,6 +930,21 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
         </div>
       </div>
 
+      {/* Pinned Messages */}
+      <PinnedMessagesBar
+        messages={pinnedMessages}
+        isAdmin={isUserAdmin}
+        onOpen={handleOpenPinned}
+        onUnpin={handleTogglePin}
+      />
+
+      {/* Important Announcements */}
+      <ImportantAnnouncementBanner
+        groupId={group.id}
+        userId={user.id}
+        refreshKey={announcementsVersion}
+      />
+
       {/* Error Message */}
       {error && (
         <div className="p-4 bg-red-50 border-b border-red-200">
@@ -793,6 +1014,34 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
         </div>
       )}
 
+      {/* Announcements */}
+      {showAnnouncements && (
+        <GroupAnnouncementsPanel
+          group={group}
+          userId={user.id}
+          onClose={() => setShowAnnouncements(false)}
+          onChanged={() => setAnnouncementsVersion(version => version + 1)}
+        />
+      )}
+
+      {/* Group Calendar */}
+      {showEvents && (
+        <GroupEventsPanel
+          group={group}
+          userId={user.id}
+          onClose={() => setShowEvents(false)}
+        />
+      )}
+
+      {/* Assignments */}
+      {showAssignments && (
+        <GroupAssignmentsPanel
+          group={group}
+          userId={user.id}
+          onClose={() => setShowAssignments(false)}
+        />
+      )}
+
       {/* Mobile-Optimized Messages Area */}
       <div ref={messagesContainerRef} className="mobile-group-messages flex-1 overflow-y-auto p-3 sm:p-4 space-y-3 sm:space-y-4 bg-gray-50/30">
         {chatLoading ? (
@@ -831,26 +1080,6 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
         <div ref={messagesEndRef} />
       </div>
 
-      {/* Reply Banner */}
-      {replyTo && (
-        <div className="p-3 bg-blue-50 border-t border-blue-200 flex items-center justify-between">
-          <div className="flex-1 min-w-0">
-            <p className="text-xs text-blue-600 font-medium">
-              Replying to {replyTo.profiles?.full_name || 'Unknown User'}
-            </p>
-            <p className="text-sm text-gray-700 truncate">
-              {replyTo.message}
-            </p>
-          </div>
-          <button
-            onClick={() => setReplyTo(null)}
-            className="text-blue-400 hover:text-blue-600 ml-2 p-1 rounded-full hover:bg-blue-100"
-          >
-            <X className="w-4 h-4" />
-          </button>
-        </div>
-      )}
-
       {/* Mobile-First Message Input */}
       <div className="mobile-group-input sticky bottom-0 backdrop-blur-xl bg-white/90 border-t border-gray-200/50 p-3 sm:p-4 pb-safe">
         <div className="flex items-end space-x-2 sm:space-x-3">
@@ -871,6 +1100,15 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
           >
             <Paperclip className="w-4 h-4 sm:w-5 sm:h-5" />
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowPollModal(true)}
+            className="p-2 sm:p-3 hover:bg-gray-100 rounded-full flex-shrink-0"
+            title="Create poll"
+          >
+            <BarChart3 className="w-4 h-4 sm:w-5 sm:h-5" />
+          </Button>
           
           <div className="flex-1 relative">
             <textarea
@@ -910,6 +1148,43 @@ const GroupChatInterface: React.FC<GroupChatInterfaceProps> = ({
           </div>
         )}
       </div>
+
+      {/* Thread Side Panel */}
+      {threadRoot && (
+        <GroupThreadPanel
+          groupId={group.id}
+          root={threadRoot}
+          userId={user.id}
+          onClose={() => setThreadRootId(null)}
+          onToggleRootReaction={(emoji) => handleToggleReaction(threadRoot, emoji)}
+        />
+      )}
+
+      <CreatePollModal
+        isOpen={showPollModal}
+        onClose={() => setShowPollModal(false)}
+        groupId={group.id}
+        userId={user.id}
+        onCreated={(message) => handleNewMessage({
+          ...message,
+          profiles: {
+            id: user.id,
+            username: user.email?.split('@')[0] || 'user',
+            full_name: user.user_metadata?.full_name || 'Unknown User',
+            avatar_url: user.user_metadata?.avatar_url
+          }
+        })}
+      />
+
+      {sharingFile && (
+        <ShareLinkModal
+          isOpen={!!sharingFile}
+          onClose={() => setSharingFile(null)}
+          fileUrl={sharingFile.url}
+          fileName={sharingFile.name}
+          groupId={group.id}
+        />
+      )}
     </div>
   )
 }
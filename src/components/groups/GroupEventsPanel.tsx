@@ -0,0 +1,451 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { format, isSameDay, addDays } from 'date-fns'
+import { CalendarDays, Plus, X, Trash2, MapPin, Repeat, Bell, Rss, Copy, RefreshCw } from 'lucide-react'
+import {
+  getGroupEvents,
+  createGroupEvent,
+  deleteGroupEvent,
+  getEventOccurrences,
+  getGroupCalendarFeedUrl,
+  isValidMonthlyStart,
+  MONTHLY_LAST_START_DAY,
+  GroupEvent,
+  GroupEventType,
+  GroupEventRecurrence,
+  REMINDER_OPTIONS
+} from '../../services/groupEventService'
+import { isGroupAdmin, ClassGroupWithDetails } from '../../services/classGroupService'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import Badge from '../ui/Badge'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+interface GroupEventsPanelProps {
+  group: ClassGroupWithDetails
+  userId: string
+  onClose: () => void
+}
+
+// How far ahead the panel lists occurrences
+const UPCOMING_DAYS = 60
+
+const EVENT_TYPES: Record<GroupEventType, { label: string; variant: 'error' | 'warning' | 'primary' | 'neutral' }> = {
+  exam: { label: 'Exam', variant: 'error' },
+  deadline: { label: 'Deadline', variant: 'warning' },
+  class: { label: 'Extra class', variant: 'primary' },
+  other: { label: 'Event', variant: 'neutral' }
+}
+
+const RECURRENCE_LABELS: Record<GroupEventRecurrence, string> = {
+  none: 'Does not repeat',
+  daily: 'Every day',
+  weekly: 'Every week',
+  monthly: 'Every month'
+}
+
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  eventType: 'exam' as GroupEventType,
+  location: '',
+  startsAt: '',
+  endsAt: '',
+  recurrence: 'none' as GroupEventRecurrence,
+  recurrenceUntil: '',
+  reminders: [1440] as number[]
+}
+
+const GroupEventsPanel: React.FC<GroupEventsPanelProps> = ({ group, userId, onClose }) => {
+  const [events, setEvents] = useState<GroupEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [canManage, setCanManage] = useState(group.creator_id === userId)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState('')
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [feedLoading, setFeedLoading] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setEvents(await getGroupEvents(group.id))
+    } catch (error) {
+      logger.error('Failed to load group events:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [group.id])
+
+  useEffect(() => {
+    loadEvents()
+  }, [loadEvents])
+
+  useEffect(() => {
+    isGroupAdmin(group.id, userId)
+      .then(isAdmin => setCanManage(isAdmin || group.creator_id === userId))
+      .catch(() => setCanManage(group.creator_id === userId))
+  }, [group.id, group.creator_id, userId])
+
+  const now = new Date()
+  const occurrences = getEventOccurrences(events, now, addDays(now, UPCOMING_DAYS))
+
+  const toggleReminder = (minutes: number) => {
+    setForm(prev => ({
+      ...prev,
+      reminders: prev.reminders.includes(minutes)
+        ? prev.reminders.filter(value => value !== minutes)
+        : [...prev.reminders, minutes].slice(-3)
+    }))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!form.title.trim() || !form.startsAt) {
+      setFormError('Give the event a title and a start time')
+      return
+    }
+
+    const startsAt = new Date(form.startsAt)
+    const endsAt = form.endsAt ? new Date(form.endsAt) : null
+    if (endsAt && endsAt <= startsAt) {
+      setFormError('The event must end after it starts')
+      return
+    }
+
+    if (form.recurrence === 'monthly' && !isValidMonthlyStart(startsAt)) {
+      setFormError(`Monthly events must start between the 1st and the ${MONTHLY_LAST_START_DAY}th, so they fall on the same day every month`)
+      return
+    }
+
+    setSaving(true)
+    setFormError('')
+    try {
+      await createGroupEvent(group.id, userId, {
+        title: form.title,
+        description: form.description,
+        event_type: form.eventType,
+        location: form.location,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt?.toISOString() || null,
+        recurrence: form.recurrence,
+        // Repeat through the whole of the chosen last day
+        recurrence_until: form.recurrenceUntil ? new Date(`${form.recurrenceUntil}T23:59:59`).toISOString() : null,
+        reminder_minutes: form.reminders
+      })
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      await loadEvents()
+    } catch (error) {
+      setFormError(getErrorMessage(error, 'Failed to create event'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (event: GroupEvent) => {
+    const message = event.recurrence === 'none'
+      ? `Delete "${event.title}"?`
+      : `Delete "${event.title}" and all of its repeats?`
+    if (!confirm(message)) return
+
+    try {
+      await deleteGroupEvent(event.id)
+      setEvents(prev => prev.filter(e => e.id !== event.id))
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to delete event'))
+    }
+  }
+
+  const handleShowFeed = async (reset: boolean = false) => {
+    if (reset && !confirm('Calendar apps using the current link will stop updating. Continue?')) return
+
+    setFeedLoading(true)
+    try {
+      setFeedUrl(await getGroupCalendarFeedUrl(group.id, reset))
+      setCopied(false)
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to get calendar link'))
+    } finally {
+      setFeedLoading(false)
+    }
+  }
+
+  const handleCopyFeed = async () => {
+    if (!feedUrl) return
+
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setCopied(true)
+    } catch {
+      prompt('Copy this calendar link:', feedUrl)
+    }
+  }
+
+  return (
+    <div className="border-b border-gray-200 bg-gray-50/50 backdrop-blur-sm p-3 sm:p-4 max-h-72 sm:max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+          <CalendarDays className="w-4 h-4 mr-1" />
+          Upcoming ({occurrences.length})
+        </h3>
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" onClick={() => handleShowFeed()} loading={feedLoading} title="Subscribe in your calendar app">
+            <Rss className="w-4 h-4 mr-1" />
+            Subscribe
+          </Button>
+          {canManage && (
+            <Button variant="ghost" size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-200 rounded-full"
+          >
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {feedUrl && (
+        <div className="mb-3 p-3 bg-white rounded-lg border border-gray-200 text-xs text-gray-600 space-y-2">
+          <p>Add this link to Google Calendar, Outlook or Apple Calendar to get this group's events there. It is private to you.</p>
+          <div className="flex items-center space-x-2">
+            <input
+              value={feedUrl}
+              readOnly
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 rounded border border-gray-300 px-2 py-1 bg-gray-50"
+            />
+            <Button variant="outline" size="sm" onClick={handleCopyFeed}>
+              <Copy className="w-3 h-3 mr-1" />
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+          <div className="flex items-center justify-between">
+            <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="text-blue-600 hover:underline">
+              Open in calendar app
+            </a>
+            <button
+              onClick={() => handleShowFeed(true)}
+              className="flex items-center text-gray-500 hover:text-gray-700"
+            >
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Reset link
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : occurrences.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">
+          Nothing scheduled in the next {UPCOMING_DAYS} days
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {occurrences.map(({ event, startsAt, endsAt }, index) => {
+            const showDate = index === 0 || !isSameDay(occurrences[index - 1].startsAt, startsAt)
+            const type = EVENT_TYPES[event.event_type]
+
+            return (
+              <React.Fragment key={`${event.id}-${startsAt.getTime()}`}>
+                {showDate && (
+                  <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide pt-1">
+                    {format(startsAt, 'EEE, d MMM')}
+                  </p>
+                )}
+                <div className="flex items-start space-x-3 p-2 rounded-lg bg-white border border-gray-100">
+                  <div className="text-xs text-gray-600 w-20 flex-shrink-0 pt-0.5">
+                    {format(startsAt, 'p')}
+                    {endsAt && <span className="block text-gray-400">to {format(endsAt, isSameDay(startsAt, endsAt) ? 'p' : 'd MMM p')}</span>}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center flex-wrap gap-1">
+                      <p className="text-sm font-medium text-gray-900 break-words">{event.title}</p>
+                      <Badge variant={type.variant} size="sm">{type.label}</Badge>
+                    </div>
+                    {event.location && (
+                      <p className="text-xs text-gray-500 flex items-center mt-0.5">
+                        <MapPin className="w-3 h-3 mr-1 flex-shrink-0" />
+                        {event.location}
+                      </p>
+                    )}
+                    {event.description && (
+                      <p className="text-xs text-gray-600 mt-1 break-words">{event.description}</p>
+                    )}
+                    <div className="flex items-center gap-3 mt-1 text-xs text-gray-400">
+                      {event.recurrence !== 'none' && (
+                        <span className="flex items-center">
+                          <Repeat className="w-3 h-3 mr-1" />
+                          {RECURRENCE_LABELS[event.recurrence]}
+                        </span>
+                      )}
+                      {event.reminder_minutes.length > 0 && (
+                        <span className="flex items-center">
+                          <Bell className="w-3 h-3 mr-1" />
+                          {event.reminder_minutes.length} reminder{event.reminder_minutes.length > 1 ? 's' : ''}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {canManage && (
+                    <button
+                      onClick={() => handleDelete(event)}
+                      className="p-1 text-gray-400 hover:text-red-600 flex-shrink-0"
+                      title="Delete event"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </React.Fragment>
+            )
+          })}
+        </div>
+      )}
+
+      <Modal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        title="Add Event"
+        size="lg"
+      >
+        <form onSubmit={handleCreate} className="space-y-4">
+          {formError && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200">
+              {formError}
+            </div>
+          )}
+
+          <Input
+            label="Title *"
+            value={form.title}
+            onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="e.g., DBMS mid-sem exam"
+            maxLength={150}
+            required
+            disabled={saving}
+          />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+              <select
+                value={form.eventType}
+                onChange={(e) => setForm(prev => ({ ...prev, eventType: e.target.value as GroupEventType }))}
+                className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm bg-white"
+                disabled={saving}
+              >
+                {Object.entries(EVENT_TYPES).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <Input
+              label="Location"
+              value={form.location}
+              onChange={(e) => setForm(prev => ({ ...prev, location: e.target.value }))}
+              placeholder="e.g., Room 204"
+              maxLength={200}
+              disabled={saving}
+            />
+            <Input
+              label="Starts *"
+              type="datetime-local"
+              value={form.startsAt}
+              onChange={(e) => setForm(prev => ({ ...prev, startsAt: e.target.value }))}
+              required
+              disabled={saving}
+            />
+            <Input
+              label="Ends"
+              type="datetime-local"
+              value={form.endsAt}
+              onChange={(e) => setForm(prev => ({ ...prev, endsAt: e.target.value }))}
+              min={form.startsAt || undefined}
+              disabled={saving}
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Repeats</label>
+              <select
+                value={form.recurrence}
+                onChange={(e) => setForm(prev => ({ ...prev, recurrence: e.target.value as GroupEventRecurrence }))}
+                className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm bg-white"
+                disabled={saving}
+              >
+                {Object.entries(RECURRENCE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {form.recurrence !== 'none' && (
+              <Input
+                label="Repeat until"
+                type="date"
+                value={form.recurrenceUntil}
+                onChange={(e) => setForm(prev => ({ ...prev, recurrenceUntil: e.target.value }))}
+                min={form.startsAt.slice(0, 10) || undefined}
+                helpText="Leave empty to repeat indefinitely"
+                disabled={saving}
+              />
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              rows={2}
+              maxLength={2000}
+              className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="Syllabus, submission format, anything members should know"
+              disabled={saving}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Remind members (up to 3)</label>
+            <div className="flex flex-wrap gap-2">
+              {REMINDER_OPTIONS.map(option => (
+                <label
+                  key={option.value}
+                  className="flex items-center space-x-2 px-3 py-1.5 rounded-lg border border-gray-200 text-sm cursor-pointer hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.reminders.includes(option.value)}
+                    onChange={() => toggleReminder(option.value)}
+                    disabled={saving}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)} disabled={saving} size="sm">
+              Cancel
+            </Button>
+            <Button type="submit" loading={saving} disabled={saving} size="sm">
+              Add Event
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
+
+export default GroupEventsPanel
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { BarChart3, Check, Lock, EyeOff, Users } from 'lucide-react'
+import {
+  getMyPollVotes,
+  voteInGroupPoll,
+  closeGroupPoll,
+  getGroupPollVoters,
+  isPollClosed,
+  GroupPoll,
+  GroupPollResults,
+  GroupPollVoter
+} from '../../services/groupPollService'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+interface GroupPollCardProps {
+  messageId: string
+  poll: GroupPoll
+  results: GroupPollResults | null
+  userId: string
+  isOwn: boolean
+  onError: (message: string) => void
+}
+
+const GroupPollCard: React.FC<GroupPollCardProps> = ({ messageId, poll, results, userId, isOwn, onError }) => {
+  const [myVotes, setMyVotes] = useState<number[]>([])
+  const [liveResults, setLiveResults] = useState<GroupPollResults | null>(results)
+  const [voting, setVoting] = useState(false)
+  const [showVoters, setShowVoters] = useState(false)
+  const [voters, setVoters] = useState<GroupPollVoter[] | null>(null)
+  const [closed, setClosed] = useState(isPollClosed(poll))
+
+  // Results arrive as message updates on the group's realtime channel
+  useEffect(() => {
+    setLiveResults(results)
+  }, [results])
+
+  // Keep the named list in step with the counts while it is open
+  useEffect(() => {
+    if (!showVoters) {
+      setVoters(null)
+      return
+    }
+
+    getGroupPollVoters(messageId)
+      .then(setVoters)
+      .catch(error => {
+        setShowVoters(false)
+        onError(getErrorMessage(error, 'Could not load who voted'))
+      })
+  }, [showVoters, liveResults, messageId, onError])
+
+  useEffect(() => {
+    getMyPollVotes(messageId, userId)
+      .then(setMyVotes)
+      .catch(error => logger.error('Failed to load poll votes:', error))
+  }, [messageId, userId])
+
+  // Flip to closed when the close time passes while the chat is open
+  useEffect(() => {
+    setClosed(isPollClosed(poll))
+    if (!poll.closes_at) return
+
+    const remaining = new Date(poll.closes_at).getTime() - Date.now()
+    if (remaining <= 0 || remaining > 24 * 60 * 60 * 1000) return
+
+    const timer = setTimeout(() => setClosed(true), remaining)
+    return () => clearTimeout(timer)
+  }, [poll])
+
+  const counts = liveResults?.counts || poll.options.map(() => 0)
+  const totalVotes = counts.reduce((sum, count) => sum + count, 0)
+  const voterCount = liveResults?.voters || 0
+
+  const handleVote = async (index: number) => {
+    if (closed || voting) return
+
+    const previous = myVotes
+    const next = poll.allow_multiple
+      ? myVotes.includes(index) ? myVotes.filter(i => i !== index) : [...myVotes, index]
+      : myVotes.includes(index) ? [] : [index]
+
+    setMyVotes(next)
+    setVoting(true)
+    try {
+      setLiveResults(await voteInGroupPoll(messageId, next))
+    } catch (error) {
+      setMyVotes(previous)
+      onError(getErrorMessage(error, 'Could not record your vote'))
+    } finally {
+      setVoting(false)
+    }
+  }
+
+  const handleClose = async () => {
+    if (!confirm('Close this poll? Nobody will be able to vote after this.')) return
+
+    try {
+      await closeGroupPoll(messageId)
+      setClosed(true)
+    } catch (error) {
+      onError(getErrorMessage(error, 'Could not close the poll'))
+    }
+  }
+
+  return (
+    <div className="space-y-2 min-w-[200px] sm:min-w-[240px]">
+      <div className="flex items-start space-x-2">
+        <BarChart3 className="h-4 w-4 mt-1 flex-shrink-0" />
+        <p className="text-sm sm:text-base font-semibold break-words">{poll.question}</p>
+      </div>
+      <p className="text-xs opacity-75">
+        {poll.allow_multiple ? 'Choose one or more' : 'Choose one'}
+        {poll.is_anonymous && ' • Anonymous'}
+      </p>
+
+      <div className="space-y-1.5">
+        {poll.options.map((option, index) => {
+          const selected = myVotes.includes(index)
+          const share = totalVotes > 0 ? Math.round((counts[index] / totalVotes) * 100) : 0
+          const optionVoters = voters?.filter(voter => voter.option_index === index) || []
+
+          return (
+            <div key={index}>
+              <button
+                type="button"
+                onClick={() => handleVote(index)}
+                disabled={closed || voting}
+                className={cn(
+                  'relative w-full overflow-hidden rounded-lg border px-3 py-2 text-left text-sm transition-colors touch-manipulation',
+                  isOwn ? 'border-white/40' : 'border-gray-200',
+                  !closed && (isOwn ? 'hover:border-white' : 'hover:border-blue-400'),
+                  selected && (isOwn ? 'border-white' : 'border-blue-500')
+                )}
+              >
+                <span
+                  className={cn('absolute inset-y-0 left-0 transition-all', isOwn ? 'bg-white/25' : 'bg-blue-100')}
+                  style={{ width: `${share}%` }}
+                />
+                <span className="relative flex items-center justify-between space-x-2">
+                  <span className="flex items-center space-x-2 min-w-0">
+                    <span className={cn(
+                      'flex h-4 w-4 flex-shrink-0 items-center justify-center border',
+                      poll.allow_multiple ? 'rounded' : 'rounded-full',
+                      isOwn ? 'border-white' : 'border-gray-400',
+                      selected && (isOwn ? 'bg-white text-blue-500' : 'bg-blue-500 border-blue-500 text-white')
+                    )}>
+                      {selected && <Check className="h-3 w-3" />}
+                    </span>
+                    <span className="break-words">{option}</span>
+                  </span>
+                  <span className="text-xs font-medium flex-shrink-0">
+                    {counts[index]} · {share}%
+                  </span>
+                </span>
+              </button>
+              {optionVoters.length > 0 && (
+                <p className="text-xs opacity-75 mt-0.5 ml-1 break-words">
+                  {optionVoters.map(voter => voter.full_name || voter.username).join(', ')}
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between text-xs opacity-75 pt-1 gap-2">
+        <span>
+          {voterCount} {voterCount === 1 ? 'voter' : 'voters'}
+          {' • '}
+          {closed ? (
+            <span className="inline-flex items-center"><Lock className="h-3 w-3 mr-0.5" />Closed</span>
+          ) : poll.closes_at ? (
+            `Closes ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}`
+          ) : (
+            'Open'
+          )}
+        </span>
+        <span className="flex items-center space-x-2">
+          {poll.is_anonymous ? (
+            <EyeOff className="h-3 w-3" />
+          ) : voterCount > 0 && (
+            <button type="button" onClick={() => setShowVoters(!showVoters)} className="inline-flex items-center underline touch-manipulation">
+              <Users className="h-3 w-3 mr-0.5" />
+              {showVoters ? 'Hide votes' : 'See votes'}
+            </button>
+          )}
+          {isOwn && !closed && (
+            <button type="button" onClick={handleClose} className="underline touch-manipulation">
+              Close poll
+            </button>
+          )}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+export default GroupPollCard
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react'
+import { MessageSquare, Send, X } from 'lucide-react'
+import { sendGroupMessage } from '../../services/classGroupService'
+import {
+  getThreadReplies,
+  subscribeToThreadReplies,
+  toggleGroupMessageReaction,
+  toggleReactionLocally,
+  ThreadedGroupMessage
+} from '../../services/groupMessageService'
+import MessageReactions from './MessageReactions'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+
+interface GroupThreadPanelProps {
+  groupId: string
+  root: ThreadedGroupMessage
+  userId: string
+  onClose: () => void
+  onToggleRootReaction: (emoji: string) => void
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+const authorName = (message: ThreadedGroupMessage) =>
+  message.profiles?.full_name || message.profiles?.username || 'Group member'
+
+const GroupThreadPanel: React.FC<GroupThreadPanelProps> = ({ groupId, root, userId, onClose, onToggleRootReaction }) => {
+  const [replies, setReplies] = useState<ThreadedGroupMessage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [draft, setDraft] = useState('')
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState('')
+  const repliesEndRef = useRef<HTMLDivElement>(null)
+
+  const addReply = useCallback((reply: ThreadedGroupMessage) => {
+    setReplies(prev => prev.some(r => r.id === reply.id) ? prev : [...prev, reply])
+  }, [])
+
+  const updateReply = useCallback((update: Partial<ThreadedGroupMessage> & { id: string }) => {
+    setReplies(prev => prev.map(r => r.id === update.id ? { ...r, ...update } : r))
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setReplies([])
+
+    getThreadReplies(root.id)
+      .then(list => {
+        if (!cancelled) setReplies(list)
+      })
+      .catch(err => {
+        logger.error('Failed to load thread:', err)
+        if (!cancelled) setError('Could not load replies')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    const unsubscribe = subscribeToThreadReplies(root.id, addReply, updateReply)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [root.id, addReply, updateReply])
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [replies.length])
+
+  const handleSend = async () => {
+    if (!draft.trim() || sending) return
+
+    setSending(true)
+    setError('')
+    try {
+      const reply = await sendGroupMessage(groupId, userId, draft, 'text', undefined, root.id)
+      addReply(reply)
+      setDraft('')
+    } catch (err) {
+      logger.error('Error sending thread reply:', err)
+      setError('Could not send your reply. Please try again.')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSend()
+    }
+  }
+
+  const handleReplyReaction = async (reply: ThreadedGroupMessage, emoji: string) => {
+    updateReply({ id: reply.id, reactions: toggleReactionLocally(reply.reactions, emoji, userId) })
+    try {
+      updateReply({ id: reply.id, reactions: await toggleGroupMessageReaction(reply.id, emoji) })
+    } catch (err) {
+      logger.error('Error reacting to reply:', err)
+      updateReply({ id: reply.id, reactions: reply.reactions || {} })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+
+      <aside className="relative w-full sm:w-96 h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-3 sm:p-4 border-b border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-900 flex items-center">
+            <MessageSquare className="w-4 h-4 mr-1" />
+            Thread
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-200 rounded-full"
+          >
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-4">
+          <div className="pb-3 border-b border-gray-100">
+            <p className="text-xs font-semibold text-gray-600">
+              {root.user_id === userId ? 'You' : authorName(root)}
+              <span className="ml-2 font-normal text-gray-400">{formatTime(root.created_at)}</span>
+            </p>
+            <p className="text-sm text-gray-900 mt-1 whitespace-pre-line break-words">{root.message}</p>
+            <MessageReactions reactions={root.reactions} userId={userId} onToggle={onToggleRootReaction} />
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : replies.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No replies yet. Start the thread!</p>
+          ) : (
+            replies.map(reply => {
+              const isOwn = reply.user_id === userId
+
+              return (
+                <div key={reply.id} className={cn('flex flex-col', isOwn ? 'items-end' : 'items-start')}>
+                  <div
+                    className={cn(
+                      'max-w-[85%] px-3 py-2 rounded-2xl break-words shadow-sm',
+                      isOwn ? 'bg-blue-500 text-white' : 'bg-gray-50 text-gray-800 border border-gray-200'
+                    )}
+                  >
+                    {!isOwn && <p className="text-xs font-semibold mb-1 opacity-75">{authorName(reply)}</p>}
+                    <p className="text-sm whitespace-pre-line">{reply.message}</p>
+                    <p className="text-xs opacity-75 mt-1">{formatTime(reply.created_at)}</p>
+                  </div>
+                  <MessageReactions
+                    reactions={reply.reactions}
+                    userId={userId}
+                    onToggle={(emoji) => handleReplyReaction(reply, emoji)}
+                    align={isOwn ? 'end' : 'start'}
+                  />
+                </div>
+              )
+            })
+          )}
+          <div ref={repliesEndRef} />
+        </div>
+
+        {error && (
+          <p className="mx-3 mb-2 p-2 text-xs text-red-700 bg-red-50 rounded-lg border border-red-200">{error}</p>
+        )}
+
+        <div className="border-t border-gray-200 p-3 flex items-end space-x-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyPress={handleKeyPress}
+            placeholder="Reply in thread..."
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+            rows={1}
+            disabled={sending}
+          />
+          <button
+            onClick={handleSend}
+            disabled={!draft.trim() || sending}
+            className="p-2 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 rounded-full flex-shrink-0 touch-manipulation"
+            title="Send reply"
+          >
+            <Send className="w-4 h-4 text-white" />
+          </button>
+        </div>
+      </aside>
+    </div>
+  )
+}
+
+export default GroupThreadPanel
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import {
+  getGroupAnnouncements,
+  getAcknowledgedAnnouncementIds,
+  acknowledgeGroupAnnouncement,
+  GroupAnnouncementWithCreator
+} from '../../services/classGroupService'
+import Button from '../ui/Button'
+import { logger } from '../../utils/logger'
+
+interface ImportantAnnouncementBannerProps {
+  groupId: string
+  userId: string
+  refreshKey?: number
+}
+
+// Shows the member's unacknowledged important announcements one at a time, oldest first
+const ImportantAnnouncementBanner: React.FC<ImportantAnnouncementBannerProps> = ({ groupId, userId, refreshKey }) => {
+  const [pending, setPending] = useState<GroupAnnouncementWithCreator[]>([])
+  const [acknowledging, setAcknowledging] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const important = (await getGroupAnnouncements(groupId))
+          .filter(a => a.is_important && a.created_by !== userId)
+        const acknowledged = await getAcknowledgedAnnouncementIds(important.map(a => a.id), userId)
+
+        if (!cancelled) {
+          setPending(
+            important
+              .filter(a => !acknowledged.has(a.id))
+              .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          )
+        }
+      } catch (err) {
+        logger.error('Failed to load important announcements:', err)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [groupId, userId, refreshKey])
+
+  const current = pending[0]
+  if (!current) return null
+
+  const handleAcknowledge = async () => {
+    setAcknowledging(true)
+    try {
+      await acknowledgeGroupAnnouncement(current.id, userId)
+      setPending(prev => prev.filter(a => a.id !== current.id))
+    } catch (err) {
+      logger.error('Failed to acknowledge announcement:', err)
+    } finally {
+      setAcknowledging(false)
+    }
+  }
+
+  return (
+    <div className="border-b border-red-200 bg-red-50 p-3 sm:p-4" role="alert">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-red-900 break-words">
+            {current.title}
+            {pending.length > 1 && (
+              <span className="ml-2 text-xs font-normal text-red-700">1 of {pending.length}</span>
+            )}
+          </p>
+          <p className="text-sm text-red-800 mt-1 whitespace-pre-line break-words max-h-32 overflow-y-auto">
+            {current.content}
+          </p>
+          <p className="text-xs text-red-700 mt-1">
+            From {current.creator?.full_name || current.creator?.username || 'an admin'}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="danger"
+          onClick={handleAcknowledge}
+          loading={acknowledging}
+          disabled={acknowledging}
+          className="flex-shrink-0"
+        >
+          I've read this
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default ImportantAnnouncementBanner
@@ -0,0 +1,79 @@
+import React, { useState } from 'react'
+import { SmilePlus } from 'lucide-react'
+import { GroupMessageReactions, REACTION_EMOJIS } from '../../services/groupMessageService'
+import { cn } from '../../utils/cn'
+
+interface MessageReactionsProps {
+  reactions?: GroupMessageReactions | null
+  userId: string
+  onToggle: (emoji: string) => void
+  align?: 'start' | 'end'
+  children?: React.ReactNode
+}
+
+// Reaction counts under a message, an emoji picker, and any extra message actions passed as children
+const MessageReactions: React.FC<MessageReactionsProps> = ({ reactions, userId, onToggle, align = 'start', children }) => {
+  const [showPicker, setShowPicker] = useState(false)
+
+  const used = REACTION_EMOJIS.filter(emoji => (reactions?.[emoji]?.length || 0) > 0)
+
+  const pick = (emoji: string) => {
+    setShowPicker(false)
+    onToggle(emoji)
+  }
+
+  return (
+    <div className={cn('relative flex flex-wrap items-center gap-1 mt-1', align === 'end' && 'justify-end')}>
+      {used.map(emoji => {
+        const users = reactions![emoji]
+        const mine = users.includes(userId)
+
+        return (
+          <button
+            key={emoji}
+            onClick={() => onToggle(emoji)}
+            className={cn(
+              'flex items-center px-1.5 py-0.5 rounded-full border text-xs touch-manipulation',
+              mine ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            )}
+            title={mine ? 'Remove your reaction' : 'React'}
+          >
+            <span className="mr-1">{emoji}</span>
+            {users.length}
+          </button>
+        )
+      })}
+
+      <button
+        onClick={() => setShowPicker(!showPicker)}
+        className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 touch-manipulation"
+        title="Add reaction"
+      >
+        <SmilePlus className="w-4 h-4" />
+      </button>
+
+      {children}
+
+      {showPicker && (
+        <div
+          className={cn(
+            'absolute bottom-full mb-1 z-10 flex gap-1 p-1 bg-white border border-gray-200 rounded-full shadow-lg',
+            align === 'end' ? 'right-0' : 'left-0'
+          )}
+        >
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => pick(emoji)}
+              className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100 text-lg touch-manipulation"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default MessageReactions
@@ -0,0 +1,56 @@
+import React, { useState } from 'react'
+import { Pin, PinOff, ChevronDown } from 'lucide-react'
+import { ThreadedGroupMessage } from '../../services/groupMessageService'
+
+interface PinnedMessagesBarProps {
+  messages: ThreadedGroupMessage[]
+  isAdmin: boolean
+  onOpen: (message: ThreadedGroupMessage) => void
+  onUnpin: (message: ThreadedGroupMessage) => void
+}
+
+// The group's pinned messages, newest first; tapping one jumps to it, the arrow steps through the rest
+const PinnedMessagesBar: React.FC<PinnedMessagesBarProps> = ({ messages, isAdmin, onOpen, onUnpin }) => {
+  const [index, setIndex] = useState(0)
+
+  if (messages.length === 0) return null
+
+  const position = index % messages.length
+  const current = messages[position]
+
+  return (
+    <div className="border-b border-gray-200 bg-blue-50/60 px-3 sm:px-4 py-2 flex items-center gap-2">
+      <Pin className="w-4 h-4 text-blue-600 flex-shrink-0" />
+      <button
+        onClick={() => onOpen(current)}
+        className="flex-1 min-w-0 text-left"
+        title="Go to message"
+      >
+        <p className="text-xs font-semibold text-blue-700">
+          Pinned message{messages.length > 1 && ` ${position + 1} of ${messages.length}`}
+        </p>
+        <p className="text-sm text-gray-800 truncate">{current.message}</p>
+      </button>
+      {messages.length > 1 && (
+        <button
+          onClick={() => setIndex(position + 1)}
+          className="p-1 text-gray-500 hover:bg-blue-100 rounded-full flex-shrink-0"
+          title="Next pinned message"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+      )}
+      {isAdmin && (
+        <button
+          onClick={() => onUnpin(current)}
+          className="p-1 text-gray-500 hover:text-red-600 hover:bg-blue-100 rounded-full flex-shrink-0"
+          title="Unpin"
+        >
+          <PinOff className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default PinnedMessagesBar
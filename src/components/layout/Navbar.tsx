@@ -1,7 +1,7 @@
 import { Link } from 'react-router-dom'
 import React, { useState, useEffect } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
-import { BookOpen, Menu, X, User, LogOut, Upload, Settings, FileText, Shield, Sparkles, Mail, Users, Bell, Search } from 'lucide-react'
+import { BookOpen, Menu, X, User, LogOut, Upload, Settings, FileText, Shield, Sparkles, Mail, Users, Search, Bookmark, HandHelping } from 'lucide-react'
 import { useAuth } from '../../contexts/AuthContext'
 import { cn } from '../../utils/cn'
 import { appState } from '../../utils/appState'
@@ -9,11 +9,16 @@ import AuthModal from '../ui/AuthModal'
 import AdminPanel from '../admin/AdminPanel'
 import Button from '../ui/Button'
 import { usePrivateMessages } from '../../hooks/usePrivateMessages'
+import NotificationBell from './NotificationBell'
+
+// Matches Tailwind's md breakpoint, where the desktop auth section appears
+const DESKTOP_QUERY = '(min-width: 768px)'
 
 const Navbar: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false)
   const [showAuthModal, setShowAuthModal] = useState(false)
   const [showAdminPanel, setShowAdminPanel] = useState(false)
+  const [isDesktop, setIsDesktop] = useState(() => window.matchMedia(DESKTOP_QUERY).matches)
   const { user, profile, isGuest, signOut, debugAuthState } = useAuth()
   const location = useLocation()
   const navigate = useNavigate()
@@ -26,13 +31,24 @@ const Navbar: React.FC = () => {
     debugAuthState()
   }, [user, isGuest, debugAuthState])
 
+  // Only one notification bell is mounted, since each bell owns the user's realtime channel
+  useEffect(() => {
+    const query = window.matchMedia(DESKTOP_QUERY)
+    const handleChange = (e: MediaQueryListEvent) => setIsDesktop(e.matches)
+
+    query.addEventListener('change', handleChange)
+    return () => query.removeEventListener('change', handleChange)
+  }, [])
+
   const isActive = (path: string) => location.pathname === path
 
   const navigation = [
     { name: 'Browse', href: '/', icon: BookOpen, shortName: 'Home' },
     { name: 'Categories', href: '/categories', icon: FileText, shortName: 'Cat' },
+    { name: 'Collections', href: '/collections', icon: Bookmark, shortName: 'Saved' },
     { name: 'Groups', href: '/groups', icon: Users, shortName: 'Groups' },
     { name: 'Upload', href: '/upload', icon: Upload, shortName: 'Upload' },
+    { name: 'Request Board', href: '/request-board', icon: HandHelping, shortName: 'Board' },
     { name: 'Requests', href: '/my-requests', icon: Settings, shortName: 'Req' },
   ]
 
@@ -88,7 +104,7 @@ const Navbar: React.FC = () => {
               {/* Desktop Navigation */}
               <div className="hidden lg:ml-12 lg:flex lg:space-x-2">
                 {navigation.map((item) => {
-                  const requiresAuth = ['/upload', '/my-requests', '/groups', '/chat'].includes(item.href)
+                  const requiresAuth = ['/upload', '/my-requests', '/request-board', '/groups', '/chat', '/collections'].includes(item.href)
                   
                   return (
                     <Link
@@ -156,6 +172,9 @@ const Navbar: React.FC = () => {
                       </div>
                     )}
                   </button>
+
+                  {/* Notifications */}
+                  {isDesktop && <NotificationBell userId={user.id} />}
                   
                   {/* Admin Panel Button */}
                   {profile.is_admin && (
@@ -210,6 +229,9 @@ const Navbar: React.FC = () => {
 
             {/* Mobile menu button */}
             <div className="lg:hidden flex items-center">
+              {!isDesktop && user && profile && !isGuest && (
+                <NotificationBell userId={user.id} />
+              )}
               <button
                 onClick={() => setIsOpen(!isOpen)}
                 className="p-3 rounded-2xl text-gray-600 hover:text-primary-600 hover:bg-white/60 transition-all duration-500 hover:scale-110 active:scale-95 backdrop-blur-lg"
@@ -226,7 +248,7 @@ const Navbar: React.FC = () => {
           <div className="lg:hidden border-t border-white/30 glass-card backdrop-blur-2xl bg-white/80 animate-fade-in-down">
             <div className="px-6 pt-6 pb-8 space-y-4">
               {navigation.map((item) => {
-                const requiresAuth = ['/upload', '/my-requests', '/groups', '/chat'].includes(item.href)
+                const requiresAuth = ['/upload', '/my-requests', '/request-board', '/groups', '/chat', '/collections'].includes(item.href)
                 
                 return (
                   <Link
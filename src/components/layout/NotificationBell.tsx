@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Bell, CheckCheck } from 'lucide-react'
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  subscribeToNotifications,
+  Notification
+} from '../../services/notificationService'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { formatDistanceToNow } from 'date-fns'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+
+interface NotificationBellProps {
+  userId: string
+  className?: string
+}
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ userId, className }) => {
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    getUnreadNotificationCount(userId)
+      .then(setUnreadCount)
+      .catch(error => logger.error('Failed to load notification count:', error))
+
+    return subscribeToNotifications(userId, notification => {
+      setUnreadCount(count => count + 1)
+      setNotifications(prev => [notification, ...prev])
+    })
+  }, [userId])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const fetchNotifications = async () => {
+      setLoading(true)
+      try {
+        setNotifications(await getNotifications(userId))
+      } catch (error) {
+        logger.error('Failed to load notifications:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchNotifications()
+  }, [isOpen, userId])
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  const handleOpen = async (notification: Notification) => {
+    setIsOpen(false)
+
+    if (!notification.is_read) {
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, is_read: true } : n))
+      setUnreadCount(count => Math.max(0, count - 1))
+      markNotificationRead(notification.id).catch(error => logger.error('Failed to mark notification read:', error))
+    }
+
+    if (notification.link) {
+      navigate(notification.link)
+    } else if (notification.content_id) {
+      navigate(`/?content=${notification.content_id}`)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead(userId)
+      setNotifications(prev => prev.map(n => ({ ...n, is_read: true })))
+      setUnreadCount(0)
+    } catch (error) {
+      logger.error('Failed to mark notifications read:', error)
+    }
+  }
+
+  return (
+    <div className={cn('relative', className)} ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="relative p-3 text-gray-600 hover:text-primary-600 rounded-2xl hover:bg-white/60 transition-all duration-500 hover:scale-110 active:scale-95 backdrop-blur-lg"
+        title="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <div className="absolute -top-1 -right-1 min-w-[20px] h-[20px] bg-gradient-to-br from-red-400 to-red-600 text-white text-xs rounded-full flex items-center justify-center px-1 shadow-lg">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </div>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <span className="text-sm font-semibold text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+              >
+                <CheckCheck className="h-3 w-3" />
+                <span>Mark all read</span>
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={cn(
+                      'w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors',
+                      !notification.is_read && 'bg-primary-50/60'
+                    )}
+                  >
+                    <p className="text-sm text-gray-900 line-clamp-2">{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NotificationBell
@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import { Activity, Eye, Download } from 'lucide-react'
+import { format, subDays, eachDayOfInterval } from 'date-fns'
+import { getFileAnalytics, FileAnalytics, FileAnalyticsDay } from '../../services/userService'
+import Badge from '../ui/Badge'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+
+const RANGE_OPTIONS = [7, 30, 90]
+
+interface FileAnalyticsCardProps {
+  userId: string
+}
+
+const FileAnalyticsCard: React.FC<FileAnalyticsCardProps> = ({ userId }) => {
+  const [files, setFiles] = useState<FileAnalytics[]>([])
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(30)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setLoading(true)
+      try {
+        setFiles(await getFileAnalytics(userId, days))
+      } catch (error) {
+        logger.error('Failed to fetch file analytics:', error)
+        setFiles([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAnalytics()
+  }, [userId, days])
+
+  const selectedFile = files.find(file => file.id === selectedId) || null
+
+  // One entry per day in the range, with days that had no activity filled in as zero
+  const series = useMemo(() => {
+    const source = selectedFile ? [selectedFile] : files
+    const totals = new Map<string, FileAnalyticsDay>()
+
+    source.forEach(file => file.daily.forEach(day => {
+      const total = totals.get(day.day) || { day: day.day, views: 0, downloads: 0 }
+      total.views += day.views
+      total.downloads += day.downloads
+      totals.set(day.day, total)
+    }))
+
+    const today = new Date()
+    return eachDayOfInterval({ start: subDays(today, days - 1), end: today }).map(date => {
+      const key = format(date, 'yyyy-MM-dd')
+      return totals.get(key) || { day: key, views: 0, downloads: 0 }
+    })
+  }, [files, selectedFile, days])
+
+  const maxValue = Math.max(1, ...series.map(day => Math.max(day.views, day.downloads)))
+  const periodViews = series.reduce((sum, day) => sum + day.views, 0)
+  const periodDownloads = series.reduce((sum, day) => sum + day.downloads, 0)
+
+  const getPeriodTotals = (file: FileAnalytics) => ({
+    views: file.daily.reduce((sum, day) => sum + day.views, 0),
+    downloads: file.daily.reduce((sum, day) => sum + day.downloads, 0)
+  })
+
+  return (
+    <div className="card-premium p-4 sm:p-6 mb-6 sm:mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3 sm:mb-4">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <Activity className="h-4 w-4 sm:h-5 sm:w-5" />
+          <span>File Analytics</span>
+        </h3>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs sm:text-sm">
+          {RANGE_OPTIONS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setDays(option)}
+              className={cn(
+                'px-3 py-1.5 transition-colors',
+                days === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              )}
+            >
+              {option} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : files.length === 0 ? (
+        <p className="text-sm text-gray-500">Upload a file to see how often it is viewed and downloaded.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-gray-900 font-medium truncate">
+              {selectedFile ? selectedFile.title : 'All files'}
+            </span>
+            <div className="flex items-center space-x-3 text-xs sm:text-sm text-gray-600 flex-shrink-0 ml-2">
+              <span className="flex items-center space-x-1">
+                <span className="h-2.5 w-2.5 rounded-full bg-blue-400" />
+                <span>{periodViews} views</span>
+              </span>
+              <span className="flex items-center space-x-1">
+                <span className="h-2.5 w-2.5 rounded-full bg-primary-600" />
+                <span>{periodDownloads} downloads</span>
+              </span>
+            </div>
+          </div>
+
+          {/* Daily chart: views and downloads side by side for each day */}
+          <div className="flex items-end h-32 gap-px bg-gray-50 rounded-lg p-2">
+            {series.map(day => (
+              <div
+                key={day.day}
+                className="flex-1 flex items-end justify-center gap-px h-full"
+                title={`${format(new Date(`${day.day}T00:00:00`), 'MMM d')}: ${day.views} views, ${day.downloads} downloads`}
+              >
+                <div className="flex-1 bg-blue-400 rounded-t-sm" style={{ height: `${(day.views / maxValue) * 100}%` }} />
+                <div className="flex-1 bg-primary-600 rounded-t-sm" style={{ height: `${(day.downloads / maxValue) * 100}%` }} />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mt-1 mb-4">
+            <span>{format(subDays(new Date(), days - 1), 'MMM d')}</span>
+            <span>Today</span>
+          </div>
+
+          <p className="text-xs text-gray-500 mb-2">
+            Each person counts once per file per day. Select a file to see its chart.
+          </p>
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {files.map(file => {
+              const period = getPeriodTotals(file)
+              const isSelected = file.id === selectedId
+
+              return (
+                <button
+                  key={file.id}
+                  type="button"
+                  onClick={() => setSelectedId(isSelected ? null : file.id)}
+                  className={cn(
+                    'w-full flex items-center justify-between p-2 rounded-lg text-left text-sm transition-colors',
+                    isSelected ? 'bg-primary-50 ring-1 ring-primary-200' : 'hover:bg-gray-50'
+                  )}
+                >
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <span className="text-gray-800 truncate">{file.title}</span>
+                    {file.kind === 'group_file' && <Badge variant="neutral" size="sm">Group</Badge>}
+                  </div>
+                  <div className="flex items-center space-x-3 text-xs text-gray-600 flex-shrink-0 ml-2">
+                    {file.views !== null && (
+                      <span className="flex items-center space-x-1" title={`${period.views} in the last ${days} days`}>
+                        <Eye className="h-3.5 w-3.5" />
+                        <span>{file.views}</span>
+                      </span>
+                    )}
+                    <span className="flex items-center space-x-1" title={`${period.downloads} in the last ${days} days`}>
+                      <Download className="h-3.5 w-3.5" />
+                      <span>{file.downloads}</span>
+                    </span>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default FileAnalyticsCard
@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { HardDrive, Settings } from 'lucide-react'
+import { getStorageUsage, setStorageQuota, StoragePurpose, StorageUsage } from '../../services/storageQuotaService'
+import { formatFileSize } from '../../services/fileUploadService'
+import { useAuth } from '../../contexts/AuthContext'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import Badge from '../ui/Badge'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { cn } from '../../utils/cn'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+const BYTES_PER_MB = 1024 * 1024
+
+const PURPOSE_LABELS: Record<StoragePurpose, string> = {
+  content: 'Shared content',
+  group_file: 'Group files',
+  avatar: 'Profile pictures',
+  other: 'Other',
+  pending: 'Unfinished uploads'
+}
+
+const PURPOSE_COLORS: Record<StoragePurpose, string> = {
+  content: 'bg-primary-600',
+  group_file: 'bg-blue-600',
+  avatar: 'bg-green-600',
+  other: 'bg-gray-500',
+  pending: 'bg-yellow-500'
+}
+
+interface StorageUsageCardProps {
+  userId: string
+  /** Admins can change the quota of the user being viewed */
+  canManage?: boolean
+}
+
+const StorageUsageCard: React.FC<StorageUsageCardProps> = ({ userId, canManage = false }) => {
+  const { user } = useAuth()
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [showQuotaModal, setShowQuotaModal] = useState(false)
+  const [quotaForm, setQuotaForm] = useState({ quotaMb: '', reason: '' })
+  const [saving, setSaving] = useState(false)
+  const [quotaError, setQuotaError] = useState('')
+
+  const fetchUsage = useCallback(async () => {
+    setLoading(true)
+    try {
+      setUsage(await getStorageUsage(userId))
+    } catch (error) {
+      logger.error('Failed to fetch storage usage:', error)
+      setUsage(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    fetchUsage()
+  }, [fetchUsage])
+
+  const openQuotaModal = () => {
+    if (!usage) return
+    setQuotaForm({ quotaMb: String(Math.round(usage.quotaBytes / BYTES_PER_MB)), reason: '' })
+    setQuotaError('')
+    setShowQuotaModal(true)
+  }
+
+  const handleSaveQuota = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    const quotaMb = parseInt(quotaForm.quotaMb)
+    if (isNaN(quotaMb) || quotaMb < 1) {
+      setQuotaError('Enter a quota of at least 1 MB')
+      return
+    }
+
+    setSaving(true)
+    setQuotaError('')
+    try {
+      await setStorageQuota(userId, quotaMb * BYTES_PER_MB, user.id, quotaForm.reason.trim())
+      setShowQuotaModal(false)
+      await fetchUsage()
+    } catch (err) {
+      setQuotaError(getErrorMessage(err, 'Failed to update the quota'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="card-premium p-4 sm:p-6 mb-6 sm:mb-8 flex justify-center">
+        <LoadingSpinner size="sm" />
+      </div>
+    )
+  }
+
+  if (!usage) return null
+
+  const usedPercent = Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)
+  const remainingBytes = Math.max(0, usage.quotaBytes - usage.usedBytes)
+
+  return (
+    <div className="card-premium p-4 sm:p-6 mb-6 sm:mb-8">
+      <div className="flex items-center justify-between mb-3 sm:mb-4">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <HardDrive className="h-4 w-4 sm:h-5 sm:w-5" />
+          <span>Storage</span>
+          {usage.hasCustomQuota && <Badge variant="secondary" size="sm">Raised quota</Badge>}
+        </h3>
+        {canManage && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={openQuotaModal}
+            icon={<Settings className="h-4 w-4" />}
+          >
+            Change quota
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-baseline justify-between text-sm mb-2">
+        <span className="text-gray-900 font-medium">
+          {formatFileSize(usage.usedBytes)} of {formatFileSize(usage.quotaBytes)} used
+        </span>
+        <span className="text-gray-500 text-xs sm:text-sm">
+          {formatFileSize(remainingBytes)} left · {usage.fileCount} file{usage.fileCount === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {/* Stacked bar: one segment per purpose */}
+      <div className="w-full bg-gray-200 rounded-full h-3 flex overflow-hidden">
+        {usage.byPurpose.map(row => (
+          <div
+            key={row.purpose}
+            className={cn('h-3 transition-all duration-500', PURPOSE_COLORS[row.purpose] || PURPOSE_COLORS.other)}
+            style={{ width: `${(row.bytes / usage.quotaBytes) * 100}%` }}
+            title={`${PURPOSE_LABELS[row.purpose] || row.purpose}: ${formatFileSize(row.bytes)}`}
+          />
+        ))}
+      </div>
+
+      {usedPercent >= 90 && (
+        <p className="mt-2 text-xs sm:text-sm text-red-600">
+          {usedPercent >= 100
+            ? 'Storage is full. Delete some files or ask an admin for more space.'
+            : 'Storage is almost full.'}
+        </p>
+      )}
+
+      {usage.byPurpose.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {usage.byPurpose.map(row => (
+            <div key={row.purpose} className="flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className={cn('h-2.5 w-2.5 rounded-full flex-shrink-0', PURPOSE_COLORS[row.purpose] || PURPOSE_COLORS.other)} />
+                <span className="text-gray-700 truncate">{PURPOSE_LABELS[row.purpose] || row.purpose}</span>
+              </div>
+              <span className="text-gray-900 font-medium ml-2 flex-shrink-0">
+                {formatFileSize(row.bytes)}
+                <span className="text-gray-500 font-normal"> · {row.files} file{row.files === 1 ? '' : 's'}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Modal
+        isOpen={showQuotaModal}
+        onClose={() => setShowQuotaModal(false)}
+        title="Change storage quota"
+        size="sm"
+      >
+        <form onSubmit={handleSaveQuota} className="space-y-4">
+          {quotaError && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200">
+              {quotaError}
+            </div>
+          )}
+
+          <Input
+            type="number"
+            min={1}
+            label="Quota (MB)"
+            value={quotaForm.quotaMb}
+            onChange={(e) => setQuotaForm(prev => ({ ...prev, quotaMb: e.target.value }))}
+            helpText={`Currently using ${formatFileSize(usage.usedBytes)}`}
+            required
+            disabled={saving}
+          />
+
+          <Input
+            label="Reason (optional)"
+            value={quotaForm.reason}
+            onChange={(e) => setQuotaForm(prev => ({ ...prev, reason: e.target.value }))}
+            placeholder="e.g., Uploads full semester notes for the department"
+            disabled={saving}
+          />
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowQuotaModal(false)} disabled={saving} size="sm">
+              Cancel
+            </Button>
+            <Button type="submit" loading={saving} disabled={saving} size="sm">
+              Save Quota
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  )
+}
+
+export default StorageUsageCard
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Link2, Copy, Ban } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import {
+  createShareLink,
+  getShareLinksForFile,
+  revokeShareLink,
+  getShareLinkUrl,
+  getShareLinkStatus,
+  FileShareLink,
+  ShareLinkStatus,
+  SHARE_EXPIRY_OPTIONS
+} from '../../services/shareLinkService'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import Modal from '../ui/Modal'
+import Badge from '../ui/Badge'
+import LoadingSpinner from '../ui/LoadingSpinner'
+import { formatDistanceToNow } from 'date-fns'
+import { logger } from '../../utils/logger'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+const STATUS_BADGES: Record<ShareLinkStatus, { label: string; variant: 'success' | 'warning' | 'error' | 'neutral' }> = {
+  active: { label: 'Active', variant: 'success' },
+  expired: { label: 'Expired', variant: 'neutral' },
+  used_up: { label: 'Limit reached', variant: 'warning' },
+  revoked: { label: 'Revoked', variant: 'error' },
+  not_found: { label: 'Missing', variant: 'neutral' }
+}
+
+interface ShareLinkModalProps {
+  isOpen: boolean
+  onClose: () => void
+  fileUrl: string
+  fileName: string
+  /** Set one of these to say where the file is shared from */
+  contentId?: string
+  groupId?: string
+}
+
+const ShareLinkModal: React.FC<ShareLinkModalProps> = ({ isOpen, onClose, fileUrl, fileName, contentId, groupId }) => {
+  const { user } = useAuth()
+  const [links, setLinks] = useState<FileShareLink[]>([])
+  const [loading, setLoading] = useState(false)
+  const [form, setForm] = useState({ expiresInHours: 24, maxDownloads: '' })
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchLinks = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      setLinks(await getShareLinksForFile(fileUrl, user.id))
+    } catch (err) {
+      logger.error('Failed to fetch share links:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [fileUrl, user])
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('')
+      fetchLinks()
+    }
+  }, [isOpen, fetchLinks])
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(token))
+      alert('Share link copied to clipboard')
+    } catch {
+      prompt('Copy this link:', getShareLinkUrl(token))
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const maxDownloads = form.maxDownloads.trim() ? parseInt(form.maxDownloads) : null
+    if (maxDownloads !== null && (isNaN(maxDownloads) || maxDownloads < 1)) {
+      setError('Download limit must be at least 1, or left empty for no limit')
+      return
+    }
+
+    setCreating(true)
+    setError('')
+    try {
+      const link = await createShareLink({
+        fileUrl,
+        fileName,
+        contentId,
+        groupId,
+        expiresInHours: form.expiresInHours,
+        maxDownloads
+      })
+      setLinks(prev => [link, ...prev])
+      setForm(prev => ({ ...prev, maxDownloads: '' }))
+      await copyLink(link.token)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create share link'))
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (link: FileShareLink) => {
+    if (!confirm('Revoke this link? Anyone who has it will no longer be able to download the file.')) return
+
+    try {
+      await revokeShareLink(link.id)
+      setLinks(prev => prev.map(l => l.id === link.id ? { ...l, revoked_at: new Date().toISOString() } : l))
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to revoke link'))
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Share file" size="md">
+      <div className="space-y-6">
+        <form onSubmit={handleCreate} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Anyone with the link can download <span className="font-medium text-gray-900">{fileName}</span> without
+            signing in, until it expires or you revoke it.
+          </p>
+
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires after</label>
+              <select
+                value={form.expiresInHours}
+                onChange={(e) => setForm(prev => ({ ...prev, expiresInHours: Number(e.target.value) }))}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                disabled={creating}
+              >
+                {SHARE_EXPIRY_OPTIONS.map(option => (
+                  <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <Input
+              type="number"
+              min={1}
+              label="Download limit"
+              value={form.maxDownloads}
+              onChange={(e) => setForm(prev => ({ ...prev, maxDownloads: e.target.value }))}
+              placeholder="No limit"
+              disabled={creating}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" loading={creating} disabled={creating} icon={<Link2 className="h-4 w-4" />}>
+              Create Link
+            </Button>
+          </div>
+        </form>
+
+        <div className="border-t border-gray-200 pt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-3">Your links for this file</h4>
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-500">You haven't shared this file yet.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {links.map(link => {
+                const status = getShareLinkStatus(link)
+                const badge = STATUS_BADGES[status]
+
+                return (
+                  <div key={link.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                        <span className="text-xs text-gray-500">
+                          {link.download_count}{link.max_downloads != null ? ` / ${link.max_downloads}` : ''} downloads
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">
+                        Created {formatDistanceToNow(new Date(link.created_at), { addSuffix: true })}
+                        {status === 'active' && ` · expires ${formatDistanceToNow(new Date(link.expires_at), { addSuffix: true })}`}
+                      </p>
+                    </div>
+
+                    {status === 'active' && (
+                      <div className="flex items-center space-x-1 ml-2 flex-shrink-0">
+                        <Button variant="ghost" size="sm" onClick={() => copyLink(link.token)} title="Copy link">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleRevoke(link)} title="Revoke link">
+                          <Ban className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export default ShareLinkModal
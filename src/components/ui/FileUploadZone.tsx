@@ -7,6 +7,8 @@ interface FileUploadZoneProps {
   onFileSelect: (file: File) => void
   onFileRemove: () => void
   selectedFile: File | null
+  multiple?: boolean
+  onFilesSelect?: (files: File[]) => void
   accept?: string
   maxSize?: number
   disabled?: boolean
@@ -19,6 +21,8 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
   onFileSelect,
   onFileRemove,
   selectedFile,
+  multiple = false,
+  onFilesSelect,
   accept = ".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png,.gif",
   disabled = false,
   uploading = false,
@@ -42,7 +46,22 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
     onFileSelect(file)
   }
 
+  // In multiple mode every file is handed over as-is; the caller validates and reports each one
+  const handleFilesSelect = (fileList: FileList) => {
+    setError(null)
+    const files = Array.from(fileList)
+    if (files.length > 0) {
+      onFilesSelect?.(files)
+    }
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (multiple && e.target.files) {
+      handleFilesSelect(e.target.files)
+      e.target.value = ''
+      return
+    }
+
     const file = e.target.files?.[0]
     if (file) {
       handleFileSelect(file)
@@ -54,6 +73,11 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
     setDragOver(false)
     
     if (disabled || uploading) return
+
+    if (multiple) {
+      handleFilesSelect(e.dataTransfer.files)
+      return
+    }
     
     const file = e.dataTransfer.files[0]
     if (file) {
@@ -90,7 +114,7 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
   return (
     <div className={cn("space-y-4", className)}>
       {/* Upload Zone */}
-      {!selectedFile ? (
+      {multiple || !selectedFile ? (
         <div
           onDrop={handleDrop}
           onDragOver={handleDragOver}
@@ -105,7 +129,9 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
         >
           <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
           <p className="text-base text-gray-600 mb-2">
-            {dragOver ? 'Drop your file here' : 'Click to select a file or drag and drop'}
+            {multiple
+              ? (dragOver ? 'Drop your files here' : 'Click to select files or drag and drop several at once')
+              : (dragOver ? 'Drop your file here' : 'Click to select a file or drag and drop')}
           </p>
           <p className="text-sm text-gray-500">
             Supported: PDF, Word documents, text files, images (Max 5MB)
@@ -116,6 +142,7 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
             type="file"
             onChange={handleInputChange}
             accept={accept}
+            multiple={multiple}
             className="hidden"
             disabled={disabled || uploading}
           />
@@ -180,7 +207,7 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
       )}
 
       {/* Success State */}
-      {selectedFile && !uploading && !error && (
+      {!multiple && selectedFile && !uploading && !error && (
         <div className="p-3 text-sm text-green-600 bg-green-50 rounded-lg border border-green-200 flex items-center space-x-2">
           <CheckCircle className="h-4 w-4" />
           <span>File ready for upload</span>
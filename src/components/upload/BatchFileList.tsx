@@ -0,0 +1,136 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { FileText, X, CheckCircle, AlertCircle, Loader2, Pause } from 'lucide-react'
+import { formatFileSize } from '../../services/fileUploadService'
+import { DuplicateContentMatch } from '../../services/duplicateContentService'
+import { cn } from '../../utils/cn'
+
+export type BatchItemStatus = 'checking' | 'ready' | 'invalid' | 'uploading' | 'paused' | 'done' | 'failed'
+
+export interface BatchUploadItem {
+  id: string
+  file: File
+  title: string
+  status: BatchItemStatus
+  progress: number
+  originalSize?: number
+  error?: string
+  duplicateOf?: DuplicateContentMatch
+}
+
+interface BatchFileListProps {
+  items: BatchUploadItem[]
+  onTitleChange: (id: string, title: string) => void
+  onRemove: (id: string) => void
+  disabled?: boolean
+}
+
+const BatchFileList: React.FC<BatchFileListProps> = ({ items, onTitleChange, onRemove, disabled = false }) => {
+  if (items.length === 0) return null
+
+  const getStatusIcon = (status: BatchItemStatus) => {
+    switch (status) {
+      case 'checking':
+      case 'uploading':
+        return <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />
+      case 'paused':
+        return <Pause className="h-4 w-4 text-amber-600" />
+      case 'done':
+        return <CheckCircle className="h-4 w-4 text-green-600" />
+      case 'invalid':
+      case 'failed':
+        return <AlertCircle className="h-4 w-4 text-red-600" />
+      default:
+        return <FileText className="h-4 w-4 text-blue-600" />
+    }
+  }
+
+  return (
+    <ul className="space-y-2">
+      {items.map(item => {
+        const locked = disabled || item.status === 'uploading' || item.status === 'done'
+
+        return (
+          <li
+            key={item.id}
+            className={cn(
+              'border rounded-lg p-3',
+              item.status === 'done' ? 'border-green-200 bg-green-50/50' :
+              item.status === 'invalid' || item.status === 'failed' ? 'border-red-200 bg-red-50/50' :
+              'border-gray-200'
+            )}
+          >
+            <div className="flex items-start space-x-2 sm:space-x-3">
+              <div className="mt-2 flex-shrink-0">{getStatusIcon(item.status)}</div>
+
+              <div className="min-w-0 flex-1">
+                <input
+                  type="text"
+                  value={item.title}
+                  onChange={(e) => onTitleChange(item.id, e.target.value)}
+                  placeholder="Title for this file"
+                  disabled={locked || item.status === 'invalid'}
+                  className="block w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
+                />
+                <p className="mt-1 text-xs text-gray-500 truncate">
+                  {item.file.name} ·{' '}
+                  {item.originalSize ? (
+                    <>
+                      <span className="line-through">{formatFileSize(item.originalSize)}</span>
+                      {' → '}
+                      <span className="text-green-700 font-medium">{formatFileSize(item.file.size)}</span>
+                    </>
+                  ) : (
+                    formatFileSize(item.file.size)
+                  )}
+                </p>
+
+                {item.status === 'uploading' && (
+                  <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+                    <div
+                      className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+                      style={{ width: `${item.progress}%` }}
+                    />
+                  </div>
+                )}
+
+                {item.status === 'paused' && (
+                  <p className="mt-1 text-xs text-amber-700">
+                    Paused at {Math.round(item.progress)}%
+                  </p>
+                )}
+
+                {item.error && (
+                  <p className="mt-1 text-xs text-red-600 break-words">
+                    {item.error}
+                    {item.duplicateOf && (
+                      <>
+                        {' '}
+                        <Link to={`/?content=${item.duplicateOf.id}`} className="underline hover:text-red-700">
+                          View existing
+                        </Link>
+                      </>
+                    )}
+                  </p>
+                )}
+              </div>
+
+              {!locked && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(item.id)}
+                  className="text-red-600 hover:text-red-700 p-1 flex-shrink-0"
+                  title="Remove file"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default BatchFileList
@@ -1,18 +1,34 @@
 import React, { useState, useRef } from 'react'
-import { Upload, X, FileText, AlertCircle, Shield } from 'lucide-react'
-import { uploadFile, AllowedFileType } from '../../services/fileUploadService'
+import { Link } from 'react-router-dom'
+import { Upload, X, FileText, AlertCircle, Shield, Copy, Files, Pause, FileStack, ScanLine, HandHelping } from 'lucide-react'
+import { uploadFile, validateFile, formatFileSize, AllowedFileType } from '../../services/fileUploadService'
+import { compressImage, isCompressibleImage, mergeImagesToPdf } from '../../services/compressionService'
+import { DuplicateContentMatch } from '../../services/duplicateContentService'
 import { getAllCategories, CategoryWithChildren } from '../../services/categoryService'
 import { createContent } from '../../services/contentService'
+import { fulfilResourceRequest, ResourceRequest } from '../../services/resourceRequestService'
 import { validateFileName, validateFileContent } from '../../services/securityService'
+import { UPLOAD_CANCELLED, UPLOAD_PAUSED } from '../../services/resumableUploadService'
 import { useAuth } from '../../contexts/AuthContext'
 import Button from '../ui/Button'
 import Input from '../ui/Input'
+import FileUploadZone from '../ui/FileUploadZone'
+import BatchFileList, { BatchUploadItem } from './BatchFileList'
+import InterruptedUploads from './InterruptedUploads'
+import NoteScanner from './NoteScanner'
+import { cn } from '../../utils/cn'
+import { getErrorMessage } from '../../utils/errorHandling'
+import { logger } from '../../utils/logger'
 
 interface FileUploadFormProps {
   onSuccess?: () => void
+  // Request from the request board that this upload answers
+  fulfilRequest?: ResourceRequest | null
 }
 
-const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
+const getTitleFromFileName = (fileName: string) => fileName.split('.').slice(0, -1).join('.') || fileName
+
+const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess, fulfilRequest }) => {
   const { user } = useAuth()
   const fileInputRef = useRef<HTMLInputElement>(null)
   
@@ -21,6 +37,18 @@ const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
   const [success, setSuccess] = useState('')
   const [categories, setCategories] = useState<CategoryWithChildren[]>([])
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [originalSize, setOriginalSize] = useState<number | null>(null)
+  const [compressing, setCompressing] = useState(false)
+  const [duplicate, setDuplicate] = useState<DuplicateContentMatch | null>(null)
+  const [uploadMode, setUploadMode] = useState<'single' | 'batch' | 'scan'>('single')
+  const [fromScanner, setFromScanner] = useState(false)
+  const [batchItems, setBatchItems] = useState<BatchUploadItem[]>([])
+  const [uploadProgress, setUploadProgress] = useState(0)
+  const [paused, setPaused] = useState(false)
+  const [sessionsRefreshKey, setSessionsRefreshKey] = useState(0)
+  const [answering, setAnswering] = useState<ResourceRequest | null>(null)
+  const uploadControllerRef = useRef<AbortController | null>(null)
+  const batchMode = uploadMode === 'batch'
   
   const [formData, setFormData] = useState({
     title: '',
@@ -44,17 +72,52 @@ const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
     fetchCategories()
   }, [])
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
+  // Start from what the requester asked for
+  React.useEffect(() => {
+    if (!fulfilRequest || fulfilRequest.status !== 'open') return
+
+    setAnswering(fulfilRequest)
+    setFormData(prev => ({
+      ...prev,
+      title: prev.title || fulfilRequest.title,
+      contentType: fulfilRequest.content_type && fulfilRequest.content_type !== 'assignments'
+        ? fulfilRequest.content_type
+        : prev.contentType,
+      categoryId: fulfilRequest.category_id || prev.categoryId,
+      year: fulfilRequest.year ? String(fulfilRequest.year) : prev.year,
+      semester: fulfilRequest.semester ? String(fulfilRequest.semester) : prev.semester,
+    }))
+  }, [fulfilRequest])
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0]
+    if (!picked) return
 
     // Validate file name
-    const nameValidation = validateFileName(file.name)
+    const nameValidation = validateFileName(picked.name)
     if (!nameValidation.isValid) {
       setError(nameValidation.error || 'This file name is not allowed')
       return
     }
 
+    // Shrink large photos before they are checked against the size limit
+    let file = picked
+    setOriginalSize(null)
+    if (isCompressibleImage(picked)) {
+      setCompressing(true)
+      try {
+        const result = await compressImage(picked)
+        if (result.compressed) {
+          file = result.file
+          setOriginalSize(result.originalSize)
+        }
+      } catch (compressionError) {
+        logger.warn('Image compression failed:', compressionError)
+      } finally {
+        setCompressing(false)
+      }
+    }
+
     // Validate file content asynchronously
     validateFileContent(file).then(contentValidation => {
       if (!contentValidation.isValid) {
@@ -68,17 +131,153 @@ const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
     })
 
     setSelectedFile(file)
+    setFromScanner(false)
+    setDuplicate(null)
+    setPaused(false)
     setError('')
     
     // Auto-fill title if empty
     if (!formData.title) {
-      const nameWithoutExtension = file.name.split('.').slice(0, -1).join('.')
-      setFormData(prev => ({ ...prev, title: nameWithoutExtension }))
+      setFormData(prev => ({ ...prev, title: getTitleFromFileName(picked.name) }))
     }
   }
 
+  const updateBatchItem = (id: string, changes: Partial<BatchUploadItem>) => {
+    setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item))
+  }
+
+  // Each file is validated on its own so one bad file does not block the others
+  const handleBatchFilesSelect = (files: File[]) => {
+    const newItems: BatchUploadItem[] = files.map(file => ({
+      id: `batch-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      file,
+      title: getTitleFromFileName(file.name),
+      status: 'checking',
+      progress: 0
+    }))
+
+    setBatchItems(prev => [...prev, ...newItems])
+    setError('')
+    setSuccess('')
+
+    // Photos are compressed one at a time to keep memory use down
+    const checkItems = async () => {
+      for (const item of newItems) {
+        const nameValidation = validateFileName(item.file.name)
+        if (!nameValidation.isValid) {
+          updateBatchItem(item.id, { status: 'invalid', error: nameValidation.error || 'This file name is not allowed' })
+          continue
+        }
+
+        let file = item.file
+        if (isCompressibleImage(file)) {
+          try {
+            const result = await compressImage(file)
+            if (result.compressed) {
+              file = result.file
+              updateBatchItem(item.id, { file, originalSize: result.originalSize })
+            }
+          } catch (compressionError) {
+            logger.warn('Image compression failed:', compressionError)
+          }
+        }
+
+        const validation = validateFile(file)
+        if (!validation.isValid) {
+          updateBatchItem(item.id, { status: 'invalid', error: validation.error })
+          continue
+        }
+
+        const contentValidation = await validateFileContent(file)
+        updateBatchItem(item.id, contentValidation.isValid
+          ? { status: 'ready' }
+          : { status: 'invalid', error: contentValidation.error || 'This file cannot be uploaded' })
+      }
+    }
+
+    checkItems()
+  }
+
+  // Photos that are ready to go can be combined into a single multi-page PDF
+  const mergeablePhotos = batchItems.filter(item => item.status === 'ready' && isCompressibleImage(item.file))
+
+  const handleMergePhotos = async () => {
+    if (mergeablePhotos.length < 2) return
+
+    setCompressing(true)
+    setError('')
+    try {
+      const title = mergeablePhotos[0].title.trim() || 'Scanned pages'
+      const merged = await mergeImagesToPdf(
+        mergeablePhotos.map(item => item.file),
+        title.replace(/[^a-zA-Z0-9 ._-]/g, '_')
+      )
+
+      const validation = validateFile(merged.file)
+      if (!validation.isValid) {
+        setError(validation.error || 'The combined PDF cannot be uploaded')
+        return
+      }
+
+      const mergedIds = new Set(mergeablePhotos.map(item => item.id))
+      const mergedItem: BatchUploadItem = {
+        id: `batch-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        file: merged.file,
+        title,
+        status: 'ready',
+        progress: 0,
+        originalSize: mergeablePhotos.reduce((total, item) => total + (item.originalSize || item.file.size), 0)
+      }
+
+      setBatchItems(prev => [...prev.filter(item => !mergedIds.has(item.id)), mergedItem])
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to combine photos into a PDF'))
+    } finally {
+      setCompressing(false)
+    }
+  }
+
+  const handleBatchTitleChange = (id: string, title: string) => {
+    updateBatchItem(id, { title })
+  }
+
+  const handleBatchRemove = (id: string) => {
+    setBatchItems(prev => prev.filter(item => item.id !== id))
+  }
+
+  const handlePauseUpload = () => {
+    uploadControllerRef.current?.abort(UPLOAD_PAUSED)
+  }
+
+  const handleCancelUpload = () => {
+    uploadControllerRef.current?.abort(UPLOAD_CANCELLED)
+  }
+
+  const handleModeChange = (mode: 'single' | 'batch' | 'scan') => {
+    if (loading) return
+    setUploadMode(mode)
+    setError('')
+    setSuccess('')
+    setDuplicate(null)
+  }
+
+  // Scanned pages always become a single notes upload
+  const handleScanComplete = (file: File, title: string) => {
+    setSelectedFile(file)
+    setOriginalSize(null)
+    setFromScanner(true)
+    setDuplicate(null)
+    setPaused(false)
+    setFormData(prev => ({ ...prev, title: prev.title || title, contentType: 'notes' }))
+    setUploadMode('single')
+  }
+
   const handleRemoveFile = () => {
     setSelectedFile(null)
+    setOriginalSize(null)
+    setFromScanner(false)
+    setDuplicate(null)
+    setPaused(false)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -89,13 +288,120 @@ const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
     setFormData(prev => ({ ...prev, [name]: value }))
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
+    if (batchMode) {
+      submitBatch()
+    } else {
+      submitUpload(false)
+    }
+  }
+
+  // Metadata applied to every file in a batch
+  const getSharedFields = () => ({
+    content_type: formData.contentType,
+    category_id: formData.categoryId || null,
+    year: formData.year ? parseInt(formData.year) : null,
+    semester: formData.semester ? parseInt(formData.semester) : null,
+    tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+  })
+
+  const submitBatch = async () => {
+    if (!user) return
+
+    // Failed and paused files are retried; finished and invalid ones are left alone
+    const queue = batchItems.filter(item => item.status === 'ready' || item.status === 'failed' || item.status === 'paused')
+    if (queue.length === 0) return
+
+    setLoading(true)
+    setError('')
+    setSuccess('')
+
+    const controller = new AbortController()
+    uploadControllerRef.current = controller
+    const sharedFields = getSharedFields()
+    let uploaded = 0
+    let stopped = false
+
+    for (const item of queue) {
+      updateBatchItem(item.id, { status: 'uploading', progress: 0, error: undefined, duplicateOf: undefined })
+
+      try {
+        const upload = await uploadFile(item.file, user.id, {
+          folder: 'content',
+          checkDuplicates: true,
+          signal: controller.signal,
+          onProgress: progress => updateBatchItem(item.id, { progress: progress.percentage })
+        })
+
+        // Pausing or cancelling stops the rest of the batch too
+        if (upload.cancelled) {
+          updateBatchItem(item.id, { status: 'ready', progress: 0 })
+          stopped = true
+          break
+        }
+
+        if (upload.paused) {
+          updateBatchItem(item.id, {
+            status: 'paused',
+            error: controller.signal.aborted ? undefined : upload.error
+          })
+          stopped = true
+          break
+        }
+
+        if (upload.duplicateOf) {
+          updateBatchItem(item.id, { status: 'failed', error: upload.error, duplicateOf: upload.duplicateOf })
+          continue
+        }
+
+        if (!upload.success || !upload.fileUrl) {
+          throw new Error(upload.error || 'Failed to upload file')
+        }
+
+        await createContent({
+          ...sharedFields,
+          title: item.title.trim(),
+          description: null,
+          uploaded_by: user.id,
+          file_url: upload.fileUrl,
+          file_size: item.file.size,
+          content_hash: upload.contentHash,
+          file_type: item.file.name.split('.').pop()?.toLowerCase() as AllowedFileType,
+        })
+
+        updateBatchItem(item.id, { status: 'done', progress: 100 })
+        uploaded++
+      } catch (err) {
+        updateBatchItem(item.id, { status: 'failed', error: getErrorMessage(err, 'Upload failed') })
+      }
+    }
+
+    if (uploaded > 0) {
+      setSuccess(`${uploaded} of ${queue.length} files uploaded successfully and are now available to everyone!`)
+      onSuccess?.()
+    }
+    if (!stopped && uploaded < queue.length) {
+      setError(`${queue.length - uploaded} file${queue.length - uploaded === 1 ? '' : 's'} could not be uploaded. Fix or remove them and upload again to retry.`)
+    }
+
+    uploadControllerRef.current = null
+    setSessionsRefreshKey(key => key + 1)
+    setLoading(false)
+  }
+
+  const submitUpload = async (allowDuplicate: boolean) => {
     if (!user || !selectedFile) return
 
     setLoading(true)
     setError('')
     setSuccess('')
+    setDuplicate(null)
+    setPaused(false)
+    setUploadProgress(0)
+
+    const controller = new AbortController()
+    uploadControllerRef.current = controller
 
     try {
       // Upload file
@@ -107,33 +413,59 @@ const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
         throw new Error('User not authenticated')
       }
 
-      // Prepare metadata for security validation
-      const metadata = {
-        title: formData.title,
-        description: formData.description,
-        tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
-        year: formData.year,
-        semester: formData.semester
+      const upload = await uploadFile(selectedFile, user.id, {
+        folder: 'content',
+        checkDuplicates: !allowDuplicate,
+        signal: controller.signal,
+        onProgress: progress => setUploadProgress(progress.percentage)
+      })
+
+      if (upload.cancelled) {
+        setUploadProgress(0)
+        return
+      }
+
+      // Paused uploads, by the user or by a dropped connection, continue on the next submit
+      if (upload.paused) {
+        setPaused(true)
+        if (!controller.signal.aborted) setError(upload.error || 'Upload paused')
+        return
+      }
+
+      // Offer the copy that is already shared instead of uploading it again
+      if (upload.duplicateOf) {
+        setDuplicate(upload.duplicateOf)
+        return
       }
 
-      const { fileUrl } = await uploadFile(selectedFile, user.id, 'content', metadata)
+      if (!upload.success || !upload.fileUrl) {
+        throw new Error(upload.error || 'Failed to upload file')
+      }
       
       // Create content record
-      await createContent({
+      const created = await createContent({
+        ...getSharedFields(),
         title: formData.title.trim(),
         description: formData.description.trim() || null,
-        content_type: formData.contentType,
-        category_id: formData.categoryId || null,
         uploaded_by: user.id,
-        file_url: fileUrl,
+        file_url: upload.fileUrl,
         file_size: selectedFile.size,
+        content_hash: upload.contentHash,
         file_type: selectedFile.name.split('.').pop()?.toLowerCase() as AllowedFileType,
-        year: formData.year ? parseInt(formData.year) : null,
-        semester: formData.semester ? parseInt(formData.semester) : null,
-        tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
       })
 
-      setSuccess('Content uploaded successfully and is now available to everyone!')
+      if (answering) {
+        try {
+          await fulfilResourceRequest(answering.id, created.id)
+          setSuccess(`Content uploaded successfully and answered the request "${answering.title}". The requester has been notified.`)
+        } catch (fulfilError) {
+          logger.error('Failed to fulfil resource request:', fulfilError)
+          setSuccess(`Content uploaded successfully, but it could not be linked to the request: ${getErrorMessage(fulfilError, 'unknown error')}`)
+        }
+        setAnswering(null)
+      } else {
+        setSuccess('Content uploaded successfully and is now available to everyone!')
+      }
       
       // Reset form
       setFormData({
@@ -146,6 +478,8 @@ const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
         tags: '',
       })
       setSelectedFile(null)
+      setOriginalSize(null)
+      setFromScanner(false)
       if (fileInputRef.current) {
         fileInputRef.current.value = ''
       }
@@ -171,10 +505,17 @@ const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
       
       setError(errorMessage)
     } finally {
+      uploadControllerRef.current = null
+      setSessionsRefreshKey(key => key + 1)
       setLoading(false)
     }
   }
 
+  const pendingBatchItems = batchItems.filter(item => item.status === 'ready' || item.status === 'failed' || item.status === 'paused')
+  const batchReady = pendingBatchItems.length > 0 &&
+    pendingBatchItems.every(item => item.title.trim()) &&
+    !batchItems.some(item => item.status === 'checking')
+
   const renderCategoryOptions = (cats: CategoryWithChildren[], depth = 0) => {
     return cats.flatMap(cat => [
       <option key={cat.id} value={cat.id}>
@@ -194,195 +535,383 @@ const FileUploadForm: React.FC<FileUploadFormProps> = ({ onSuccess }) => {
           </p>
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
-          {error && (
-            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200 flex items-start space-x-2">
-              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
-              <span className="break-words">{error}</span>
-            </div>
-          )}
-
-          {success && (
-            <div className="p-3 text-sm text-green-600 bg-green-50 rounded-lg border border-green-200">
-              {success}
-            </div>
-          )}
-
-          {/* Security Notice */}
-          <div className="p-3 text-sm text-blue-600 bg-blue-50 rounded-lg border border-blue-200 flex items-start space-x-2">
-            <Shield className="h-4 w-4 mt-0.5 flex-shrink-0" />
-            <div>
-              <p className="font-medium">Security Notice</p>
+        {answering && (
+          <div className="p-3 mb-4 sm:mb-6 text-sm text-primary-800 bg-primary-50 rounded-lg border border-primary-200 flex items-start space-x-2">
+            <HandHelping className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <p className="font-medium break-words">Answering: "{answering.title}"</p>
               <p className="text-xs mt-1">
-                All files are automatically scanned for security threats and validated before upload. 
-                Your content will be available immediately after passing security checks.
+                A single file upload will be linked to this request and the requester notified.
               </p>
             </div>
+            <button
+              type="button"
+              onClick={() => setAnswering(null)}
+              className="text-primary-600 hover:text-primary-800 flex-shrink-0"
+              aria-label="Don't link this upload to the request"
+            >
+              <X className="h-4 w-4" />
+            </button>
           </div>
-          
-          {/* File Upload */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Select File *
-            </label>
-            
-            {!selectedFile ? (
-              <div
-                onClick={() => fileInputRef.current?.click()}
-                className="border-2 border-dashed border-gray-300 rounded-lg p-4 sm:p-6 lg:p-8 text-center cursor-pointer hover:border-blue-400 transition-colors"
-              >
-                <Upload className="h-8 w-8 sm:h-10 sm:w-10 lg:h-12 lg:w-12 text-gray-400 mx-auto mb-3 sm:mb-4" />
-                <p className="text-sm sm:text-base text-gray-600 mb-2">Click to select a file or drag and drop</p>
-                <p className="text-xs sm:text-sm text-gray-500">
-                  Supported: PDF, DOC, DOCX, TXT, JPG, PNG
+        )}
+
+        {/* Upload Mode */}
+        <div className="grid grid-cols-3 gap-1 p-1 mb-4 sm:mb-6 bg-gray-100 rounded-lg text-sm font-medium">
+          {([
+            { mode: 'single', label: 'Single file', icon: FileText },
+            { mode: 'batch', label: 'Batch upload', icon: Files },
+            { mode: 'scan', label: 'Scan notes', icon: ScanLine }
+          ] as const).map(({ mode, label, icon: Icon }) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => handleModeChange(mode)}
+              disabled={loading}
+              className={cn(
+                'flex items-center justify-center space-x-2 py-2 rounded-md transition-colors',
+                uploadMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              )}
+            >
+              <Icon className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">{label}</span>
+            </button>
+          ))}
+        </div>
+
+        {uploadMode === 'scan' ? (
+          <NoteScanner
+            onComplete={handleScanComplete}
+            onCancel={() => handleModeChange('single')}
+          />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200 flex items-start space-x-2">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span className="break-words">{error}</span>
+              </div>
+            )}
+
+            {duplicate && (
+              <div className="p-3 text-sm text-amber-800 bg-amber-50 rounded-lg border border-amber-200">
+                <div className="flex items-start space-x-2">
+                  <Copy className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium">This file is already shared</p>
+                    <p className="text-xs mt-1 break-words">
+                      An identical file was uploaded as "{duplicate.title}". You can use that copy instead of uploading it again.
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-col sm:flex-row sm:justify-end gap-2 mt-3">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => submitUpload(true)}
+                    disabled={loading}
+                  >
+                    Upload anyway
+                  </Button>
+                  <Link to={`/?content=${duplicate.id}`}>
+                    <Button type="button" size="sm" className="w-full sm:w-auto">
+                      View existing
+                    </Button>
+                  </Link>
+                </div>
+              </div>
+            )}
+
+            {success && (
+              <div className="p-3 text-sm text-green-600 bg-green-50 rounded-lg border border-green-200">
+                {success}
+              </div>
+            )}
+
+            {user && !loading && (
+              <InterruptedUploads userId={user.id} refreshKey={sessionsRefreshKey} />
+            )}
+
+            {/* Security Notice */}
+            <div className="p-3 text-sm text-blue-600 bg-blue-50 rounded-lg border border-blue-200 flex items-start space-x-2">
+              <Shield className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="font-medium">Security Notice</p>
+                <p className="text-xs mt-1">
+                  All files are automatically scanned for security threats and validated before upload. 
+                  Your content will be available immediately after passing security checks.
                 </p>
               </div>
+            </div>
+          
+            {/* File Upload */}
+            {batchMode ? (
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  Select Files *
+                </label>
+                <FileUploadZone
+                  multiple
+                  selectedFile={null}
+                  onFileSelect={file => handleBatchFilesSelect([file])}
+                  onFilesSelect={handleBatchFilesSelect}
+                  onFileRemove={() => setBatchItems([])}
+                  accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png,.webp"
+                  disabled={loading || compressing}
+                />
+                {mergeablePhotos.length >= 2 && (
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 text-sm text-blue-700 bg-blue-50 rounded-lg border border-blue-200">
+                    <span>Uploading pages of the same notes? Combine the photos into one PDF.</span>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={handleMergePhotos}
+                      loading={compressing}
+                      disabled={loading || compressing}
+                      icon={<FileStack className="h-4 w-4" />}
+                    >
+                      Combine {mergeablePhotos.length} photos
+                    </Button>
+                  </div>
+                )}
+                <BatchFileList
+                  items={batchItems}
+                  onTitleChange={handleBatchTitleChange}
+                  onRemove={handleBatchRemove}
+                  disabled={loading}
+                />
+                {batchItems.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    The content type, category, year, semester and tags below are applied to every file.
+                  </p>
+                )}
+              </div>
             ) : (
-              <div className="border border-gray-200 rounded-lg p-3 sm:p-4 flex items-center justify-between">
-                <div className="flex items-center space-x-2 sm:space-x-3 min-w-0 flex-1">
-                  <FileText className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600 flex-shrink-0" />
-                  <div className="min-w-0 flex-1">
-                    <p className="font-medium text-gray-900 text-sm sm:text-base truncate">{selectedFile.name}</p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Select File *
+                </label>
+              
+                {compressing ? (
+                  <div className="border-2 border-dashed border-gray-300 rounded-lg p-4 sm:p-6 lg:p-8 text-center text-sm text-gray-600">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto mb-3"></div>
+                    Compressing image...
+                  </div>
+                ) : !selectedFile ? (
+                  <div
+                    onClick={() => fileInputRef.current?.click()}
+                    className="border-2 border-dashed border-gray-300 rounded-lg p-4 sm:p-6 lg:p-8 text-center cursor-pointer hover:border-blue-400 transition-colors"
+                  >
+                    <Upload className="h-8 w-8 sm:h-10 sm:w-10 lg:h-12 lg:w-12 text-gray-400 mx-auto mb-3 sm:mb-4" />
+                    <p className="text-sm sm:text-base text-gray-600 mb-2">Click to select a file or drag and drop</p>
                     <p className="text-xs sm:text-sm text-gray-500">
-                      {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB
+                      Supported: PDF, DOC, DOCX, TXT, JPG, PNG, WEBP. Large photos are compressed automatically
                     </p>
                   </div>
-                </div>
-                <button
-                  type="button"
-                  onClick={handleRemoveFile}
-                  className="text-red-600 hover:text-red-700 p-1 ml-2 flex-shrink-0"
-                >
-                  <X className="h-4 w-4 sm:h-5 sm:w-5" />
-                </button>
+                ) : (
+                  <div className="border border-gray-200 rounded-lg p-3 sm:p-4 flex items-center justify-between">
+                    <div className="flex items-center space-x-2 sm:space-x-3 min-w-0 flex-1">
+                      <FileText className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium text-gray-900 text-sm sm:text-base truncate">{selectedFile.name}</p>
+                        <p className="text-xs sm:text-sm text-gray-500">
+                          {originalSize ? (
+                            <>
+                              <span className="line-through">{formatFileSize(originalSize)}</span>
+                              {' → '}
+                              <span className="text-green-700 font-medium">{formatFileSize(selectedFile.size)}</span>
+                              {' (compressed)'}
+                            </>
+                          ) : (
+                            `${(selectedFile.size / (1024 * 1024)).toFixed(2)} MB`
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleRemoveFile}
+                      className="text-red-600 hover:text-red-700 p-1 ml-2 flex-shrink-0"
+                    >
+                      <X className="h-4 w-4 sm:h-5 sm:w-5" />
+                    </button>
+                  </div>
+                )}
+              
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  onChange={handleFileSelect}
+                  accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png,.webp"
+                  className="hidden"
+                />
               </div>
             )}
-            
-            <input
-              ref={fileInputRef}
-              type="file"
-              onChange={handleFileSelect}
-              accept=".pdf,.doc,.docx,.txt,.jpg,.png"
-              className="hidden"
-            />
-          </div>
 
-          {/* Title */}
-          <Input
-            name="title"
-            label="Title *"
-            value={formData.title}
-            onChange={handleInputChange}
-            placeholder="Enter a descriptive title"
-            required
-            disabled={loading}
-          />
+            {!batchMode && (
+              <>
+                {/* Title */}
+                <Input
+                  name="title"
+                  label="Title *"
+                  value={formData.title}
+                  onChange={handleInputChange}
+                  placeholder="Enter a descriptive title"
+                  required
+                  disabled={loading}
+                />
 
-          {/* Description */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Description
-            </label>
-            <textarea
-              name="description"
-              value={formData.description}
-              onChange={handleInputChange}
-              placeholder="Describe the content (optional)"
-              rows={3}
-              className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 resize-none"
-              disabled={loading}
-            />
-          </div>
+                {/* Description */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Description
+                  </label>
+                  <textarea
+                    name="description"
+                    value={formData.description}
+                    onChange={handleInputChange}
+                    placeholder="Describe the content (optional)"
+                    rows={3}
+                    className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 resize-none"
+                    disabled={loading}
+                  />
+                </div>
+              </>
+            )}
 
-          {/* Content Type */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Content Type *
-            </label>
-            <select
-              name="contentType"
-              value={formData.contentType}
-              onChange={handleInputChange}
-              required
-              className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 appearance-none bg-white"
-              disabled={loading}
-            >
-              <option value="notes">Study Notes</option>
-              <option value="question_paper">Question Paper</option>
-              <option value="syllabus">Syllabus</option>
-              <option value="assignments">Assignments</option>
-              <option value="other">Other</option>
-            </select>
-          </div>
+            {/* Content Type */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Content Type *
+              </label>
+              <select
+                name="contentType"
+                value={formData.contentType}
+                onChange={handleInputChange}
+                required
+                className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 appearance-none bg-white"
+                disabled={loading || fromScanner}
+              >
+                <option value="notes">Study Notes</option>
+                <option value="question_paper">Question Paper</option>
+                <option value="syllabus">Syllabus</option>
+                <option value="assignments">Assignments</option>
+                <option value="other">Other</option>
+              </select>
+              {fromScanner && (
+                <p className="mt-1 text-xs text-gray-500">Scanned notes are always uploaded as study notes.</p>
+              )}
+            </div>
 
-          {/* Category */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Category
-            </label>
-            <select
-              name="categoryId"
-              value={formData.categoryId}
-              onChange={handleInputChange}
-              className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 appearance-none bg-white"
-              disabled={loading}
-            >
-              <option value="">Select a category (optional)</option>
-              {renderCategoryOptions(categories)}
-            </select>
-          </div>
+            {/* Category */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Category
+              </label>
+              <select
+                name="categoryId"
+                value={formData.categoryId}
+                onChange={handleInputChange}
+                className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 appearance-none bg-white"
+                disabled={loading}
+              >
+                <option value="">Select a category (optional)</option>
+                {renderCategoryOptions(categories)}
+              </select>
+            </div>
 
-          {/* Year and Semester */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-            <Input
-              name="year"
-              label="Academic Year"
-              type="number"
-              value={formData.year}
-              onChange={handleInputChange}
-              placeholder="e.g., 2024"
-              min="2000"
-              max="2030"
-              disabled={loading}
-              helpText="Optional"
-            />
+            {/* Year and Semester */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              <Input
+                name="year"
+                label="Academic Year"
+                type="number"
+                value={formData.year}
+                onChange={handleInputChange}
+                placeholder="e.g., 2024"
+                min="2000"
+                max="2030"
+                disabled={loading}
+                helpText="Optional"
+              />
             
+              <Input
+                name="semester"
+                label="Semester"
+                type="number"
+                value={formData.semester}
+                onChange={handleInputChange}
+                placeholder="e.g., 1"
+                min="1"
+                max="8"
+                disabled={loading}
+                helpText="Optional"
+              />
+            </div>
+
+            {/* Tags */}
             <Input
-              name="semester"
-              label="Semester"
-              type="number"
-              value={formData.semester}
+              name="tags"
+              label="Tags"
+              value={formData.tags}
               onChange={handleInputChange}
-              placeholder="e.g., 1"
-              min="1"
-              max="8"
+              placeholder="algorithms, programming, data structures"
+              helpText="Comma-separated tags"
               disabled={loading}
-              helpText="Optional"
             />
-          </div>
 
-          {/* Tags */}
-          <Input
-            name="tags"
-            label="Tags"
-            value={formData.tags}
-            onChange={handleInputChange}
-            placeholder="algorithms, programming, data structures"
-            helpText="Comma-separated tags"
-            disabled={loading}
-          />
+            {loading && !batchMode && (
+              <div>
+                <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                  <span>Uploading...</span>
+                  <span>{Math.round(uploadProgress)}%</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${uploadProgress}%` }}
+                  />
+                </div>
+              </div>
+            )}
 
-          <div className="flex flex-col sm:flex-row justify-end space-y-3 sm:space-y-0 sm:space-x-3 pt-2">
-            <Button
-              type="submit"
-              className="w-full sm:w-auto order-1 sm:order-2"
-              loading={loading}
-              disabled={loading || !selectedFile || !formData.title.trim()}
-            >
-              Upload Content
-            </Button>
-          </div>
-        </form>
+            <div className="flex flex-col sm:flex-row justify-end space-y-3 sm:space-y-0 sm:space-x-3 pt-2">
+              {loading && (
+                <>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full sm:w-auto"
+                    onClick={handleCancelUpload}
+                    icon={<X className="h-4 w-4" />}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    className="w-full sm:w-auto"
+                    onClick={handlePauseUpload}
+                    icon={<Pause className="h-4 w-4" />}
+                  >
+                    Pause
+                  </Button>
+                </>
+              )}
+              <Button
+                type="submit"
+                className="w-full sm:w-auto order-1 sm:order-2"
+                loading={loading}
+                disabled={loading || compressing || (batchMode ? !batchReady : !selectedFile || !formData.title.trim())}
+              >
+                {batchMode && pendingBatchItems.length > 0
+                  ? `${batchItems.some(item => item.status === 'paused') ? 'Resume' : 'Upload'} ${pendingBatchItems.length} File${pendingBatchItems.length === 1 ? '' : 's'}`
+                  : paused ? 'Resume Upload' : 'Upload Content'}
+              </Button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   )
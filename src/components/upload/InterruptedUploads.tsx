@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react'
+import { History, Trash2 } from 'lucide-react'
+import { fileUploadTrackingService } from '../../services/enhancedServices'
+import { cancelChunkedUpload } from '../../services/resumableUploadService'
+import { formatFileSize } from '../../services/fileUploadService'
+import { FileUploadSession } from '../../types/enhanced-schema.types'
+import { formatDistanceToNow } from 'date-fns'
+
+interface InterruptedUploadsProps {
+  userId: string
+  refreshKey?: number
+}
+
+/**
+ * Lists chunked uploads that stopped part-way. Choosing the same file again resumes it.
+ */
+const InterruptedUploads: React.FC<InterruptedUploadsProps> = ({ userId, refreshKey = 0 }) => {
+  const [sessions, setSessions] = useState<FileUploadSession[]>([])
+  const [discarding, setDiscarding] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fileUploadTrackingService.getInterruptedSessions(userId).then(data => {
+      if (!cancelled) setSessions(data)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, refreshKey])
+
+  const handleDiscard = async (session: FileUploadSession) => {
+    setDiscarding(session.id)
+    try {
+      await cancelChunkedUpload(session)
+      setSessions(prev => prev.filter(item => item.id !== session.id))
+    } finally {
+      setDiscarding(null)
+    }
+  }
+
+  if (sessions.length === 0) return null
+
+  return (
+    <div className="p-3 text-sm text-amber-800 bg-amber-50 rounded-lg border border-amber-200">
+      <div className="flex items-start space-x-2">
+        <History className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="font-medium">Unfinished uploads</p>
+          <p className="text-xs mt-1">
+            Select the same file again and upload it to continue where it stopped.
+          </p>
+
+          <ul className="mt-2 space-y-2">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between space-x-2 bg-white/60 rounded-md px-2 py-1.5">
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-medium truncate">{session.file_name}</p>
+                  <p className="text-xs text-amber-700">
+                    {session.upload_progress}% of {formatFileSize(session.file_size)}
+                    {session.updated_at && ` · ${formatDistanceToNow(new Date(session.updated_at), { addSuffix: true })}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDiscard(session)}
+                  disabled={discarding === session.id}
+                  className="p-1 text-amber-700 hover:text-red-600 disabled:opacity-50 flex-shrink-0"
+                  title="Discard upload"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default InterruptedUploads
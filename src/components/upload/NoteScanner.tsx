@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Camera, Images, ChevronLeft, ChevronRight, Crop, Trash2, AlertCircle, FileText } from 'lucide-react'
+import {
+  DEFAULT_PAGE_EDITS,
+  ScanPageEdits,
+  createScannedPdf,
+  loadScanImage,
+  renderScanPage
+} from '../../services/scanService'
+import ScanPageEditor from './ScanPageEditor'
+import Button from '../ui/Button'
+import Input from '../ui/Input'
+import { getErrorMessage } from '../../utils/errorHandling'
+
+const THUMBNAIL_MAX_DIMENSION = 320
+
+interface ScanPage {
+  id: string
+  image: ImageBitmap
+  edits: ScanPageEdits
+  thumbnail: string
+}
+
+interface NoteScannerProps {
+  onComplete: (file: File, title: string) => void
+  onCancel: () => void
+}
+
+const renderThumbnail = (image: ImageBitmap, edits: ScanPageEdits) =>
+  renderScanPage(image, edits, THUMBNAIL_MAX_DIMENSION).toDataURL('image/jpeg', 0.7)
+
+/**
+ * Turns photos of notebook pages into a single PDF: capture or pick photos,
+ * crop and straighten each page, optionally clean it up, and put the pages in order.
+ */
+const NoteScanner: React.FC<NoteScannerProps> = ({ onComplete, onCancel }) => {
+  const cameraInputRef = useRef<HTMLInputElement>(null)
+  const galleryInputRef = useRef<HTMLInputElement>(null)
+  const pagesRef = useRef<ScanPage[]>([])
+
+  const [pages, setPages] = useState<ScanPage[]>([])
+  const [title, setTitle] = useState('Scanned notes')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [adding, setAdding] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState('')
+
+  // Decoded photos hold a lot of memory, so release them once the scanner closes
+  useEffect(() => {
+    pagesRef.current = pages
+  }, [pages])
+
+  useEffect(() => {
+    return () => pagesRef.current.forEach(page => page.image.close())
+  }, [])
+
+  const handleAddPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    setAdding(true)
+    setError('')
+
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) {
+        setError(`"${file.name}" is not a photo and was skipped`)
+        continue
+      }
+
+      try {
+        const image = await loadScanImage(file)
+        const page: ScanPage = {
+          id: `page-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+          image,
+          edits: DEFAULT_PAGE_EDITS,
+          thumbnail: renderThumbnail(image, DEFAULT_PAGE_EDITS)
+        }
+        setPages(prev => [...prev, page])
+      } catch (err) {
+        setError(getErrorMessage(err, 'A photo could not be added'))
+      }
+    }
+
+    setAdding(false)
+  }
+
+  const movePage = (index: number, direction: -1 | 1) => {
+    setPages(prev => {
+      const target = index + direction
+      if (target < 0 || target >= prev.length) return prev
+
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const removePage = (id: string) => {
+    setPages(prev => {
+      prev.find(page => page.id === id)?.image.close()
+      return prev.filter(page => page.id !== id)
+    })
+  }
+
+  const handleSaveEdits = (edits: ScanPageEdits) => {
+    setPages(prev => prev.map(page => page.id === editingId
+      ? { ...page, edits, thumbnail: renderThumbnail(page.image, edits) }
+      : page))
+    setEditingId(null)
+  }
+
+  // Apply the document filter to every page at once
+  const setFilterForAll = (documentFilter: boolean) => {
+    setPages(prev => prev.map(page => {
+      const edits = { ...page.edits, documentFilter }
+      return { ...page, edits, thumbnail: renderThumbnail(page.image, edits) }
+    }))
+  }
+
+  const handleCreatePdf = async () => {
+    const safeTitle = title.trim().replace(/[^a-zA-Z0-9 ._-]/g, '_') || 'Scanned notes'
+
+    setCreating(true)
+    setError('')
+    try {
+      const file = await createScannedPdf(pages, safeTitle)
+      onComplete(file, title.trim() || 'Scanned notes')
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create the PDF'))
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const editingIndex = pages.findIndex(page => page.id === editingId)
+  const editingPage = editingIndex >= 0 ? pages[editingIndex] : null
+  const allFiltered = pages.length > 0 && pages.every(page => page.edits.documentFilter)
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200 flex items-start space-x-2">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span className="break-words">{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          type="button"
+          onClick={() => cameraInputRef.current?.click()}
+          disabled={adding || creating}
+          className="flex flex-col items-center justify-center p-4 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 transition-colors disabled:opacity-50"
+        >
+          <Camera className="h-6 w-6 text-gray-400 mb-2" />
+          Take photo
+        </button>
+        <button
+          type="button"
+          onClick={() => galleryInputRef.current?.click()}
+          disabled={adding || creating}
+          className="flex flex-col items-center justify-center p-4 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-blue-400 transition-colors disabled:opacity-50"
+        >
+          <Images className="h-6 w-6 text-gray-400 mb-2" />
+          Choose photos
+        </button>
+
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handleAddPhotos}
+          className="hidden"
+        />
+        <input
+          ref={galleryInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleAddPhotos}
+          className="hidden"
+        />
+      </div>
+
+      {adding && (
+        <p className="text-sm text-gray-500 text-center animate-pulse">Adding pages...</p>
+      )}
+
+      {pages.length > 0 ? (
+        <>
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-700">
+              {pages.length} page{pages.length === 1 ? '' : 's'}
+            </p>
+            <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allFiltered}
+                onChange={(e) => setFilterForAll(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Black &amp; white for all pages</span>
+            </label>
+          </div>
+
+          <ol className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {pages.map((page, index) => (
+              <li key={page.id} className="border border-gray-200 rounded-lg overflow-hidden bg-white">
+                <button
+                  type="button"
+                  onClick={() => setEditingId(page.id)}
+                  className="block w-full h-36 sm:h-40 bg-gray-100"
+                  title="Crop and straighten"
+                >
+                  <img src={page.thumbnail} alt={`Page ${index + 1}`} className="w-full h-full object-contain" />
+                </button>
+                <div className="flex items-center justify-between px-2 py-1.5 text-xs text-gray-600">
+                  <span className="font-medium">Page {index + 1}</span>
+                  <div className="flex items-center">
+                    <button
+                      type="button"
+                      onClick={() => movePage(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                      title="Move earlier"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => movePage(index, 1)}
+                      disabled={index === pages.length - 1}
+                      className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                      title="Move later"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(page.id)}
+                      className="p-1 rounded hover:bg-gray-100"
+                      title="Crop and straighten"
+                    >
+                      <Crop className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removePage(page.id)}
+                      className="p-1 rounded text-red-600 hover:bg-red-50"
+                      title="Remove page"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <Input
+            label="PDF title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g., Data Structures lecture 4"
+            disabled={creating}
+          />
+        </>
+      ) : !adding && (
+        <div className="text-center py-6 text-sm text-gray-500">
+          <FileText className="h-10 w-10 text-gray-300 mx-auto mb-2" />
+          Photograph each page of your notes, then crop, straighten and order them here.
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={creating}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          onClick={handleCreatePdf}
+          loading={creating}
+          disabled={pages.length === 0 || adding || creating}
+        >
+          Create PDF{pages.length > 0 ? ` (${pages.length} page${pages.length === 1 ? '' : 's'})` : ''}
+        </Button>
+      </div>
+
+      <ScanPageEditor
+        isOpen={!!editingPage}
+        image={editingPage?.image || null}
+        edits={editingPage?.edits || DEFAULT_PAGE_EDITS}
+        pageNumber={editingIndex + 1}
+        onSave={handleSaveEdits}
+        onClose={() => setEditingId(null)}
+      />
+    </div>
+  )
+}
+
+export default NoteScanner
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { RotateCcw, RotateCw, Contrast, Maximize } from 'lucide-react'
+import {
+  CropRect,
+  FULL_CROP,
+  MAX_SKEW_DEGREES,
+  PageRotation,
+  ScanPageEdits,
+  applyDocumentFilter,
+  renderStraightened
+} from '../../services/scanService'
+import Modal from '../ui/Modal'
+import Button from '../ui/Button'
+import { cn } from '../../utils/cn'
+
+const PREVIEW_MAX_DIMENSION = 900
+const MIN_CROP_SIZE = 0.1
+
+type Corner = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight'
+
+const CORNERS: { corner: Corner; className: string }[] = [
+  { corner: 'topLeft', className: '-left-2 -top-2 cursor-nwse-resize' },
+  { corner: 'topRight', className: '-right-2 -top-2 cursor-nesw-resize' },
+  { corner: 'bottomLeft', className: '-left-2 -bottom-2 cursor-nesw-resize' },
+  { corner: 'bottomRight', className: '-right-2 -bottom-2 cursor-nwse-resize' }
+]
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+// Move one corner of the crop to a point, keeping the opposite corner fixed
+const moveCorner = (crop: CropRect, corner: Corner, px: number, py: number): CropRect => {
+  let left = crop.x
+  let top = crop.y
+  let right = crop.x + crop.width
+  let bottom = crop.y + crop.height
+
+  if (corner === 'topLeft' || corner === 'bottomLeft') left = clamp(px, 0, right - MIN_CROP_SIZE)
+  if (corner === 'topRight' || corner === 'bottomRight') right = clamp(px, left + MIN_CROP_SIZE, 1)
+  if (corner === 'topLeft' || corner === 'topRight') top = clamp(py, 0, bottom - MIN_CROP_SIZE)
+  if (corner === 'bottomLeft' || corner === 'bottomRight') bottom = clamp(py, top + MIN_CROP_SIZE, 1)
+
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+interface ScanPageEditorProps {
+  isOpen: boolean
+  image: ImageBitmap | null
+  edits: ScanPageEdits
+  pageNumber: number
+  onSave: (edits: ScanPageEdits) => void
+  onClose: () => void
+}
+
+const ScanPageEditor: React.FC<ScanPageEditorProps> = ({
+  isOpen,
+  image,
+  edits,
+  pageNumber,
+  onSave,
+  onClose
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const frameRef = useRef<HTMLDivElement>(null)
+  const [draft, setDraft] = useState<ScanPageEdits>(edits)
+  const [dragging, setDragging] = useState<Corner | null>(null)
+
+  useEffect(() => {
+    if (isOpen) setDraft(edits)
+  }, [isOpen, edits])
+
+  // Redraw the straightened preview; cropping is shown as an overlay on top of it
+  useEffect(() => {
+    if (!isOpen || !image || !canvasRef.current) return
+
+    const preview = renderStraightened(image, draft.rotation, draft.skew, PREVIEW_MAX_DIMENSION)
+    if (draft.documentFilter) applyDocumentFilter(preview)
+
+    const canvas = canvasRef.current
+    canvas.width = preview.width
+    canvas.height = preview.height
+    canvas.getContext('2d')?.drawImage(preview, 0, 0)
+  }, [isOpen, image, draft.rotation, draft.skew, draft.documentFilter])
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging || !frameRef.current) return
+
+    const bounds = frameRef.current.getBoundingClientRect()
+    const px = clamp((e.clientX - bounds.left) / bounds.width, 0, 1)
+    const py = clamp((e.clientY - bounds.top) / bounds.height, 0, 1)
+    setDraft(prev => ({ ...prev, crop: moveCorner(prev.crop, dragging, px, py) }))
+  }
+
+  // Quarter turns change the image's shape, so the crop starts over
+  const rotate = (direction: 1 | -1) => {
+    setDraft(prev => ({
+      ...prev,
+      rotation: ((prev.rotation + direction * 90 + 360) % 360) as PageRotation,
+      crop: FULL_CROP
+    }))
+  }
+
+  const { crop } = draft
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Edit page ${pageNumber}`} size="lg">
+      <div className="space-y-4">
+        <div className="flex justify-center bg-gray-100 rounded-lg p-2 sm:p-4">
+          <div
+            ref={frameRef}
+            className="relative inline-block overflow-hidden touch-none select-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragging(null)}
+          >
+            <canvas ref={canvasRef} className="block max-w-full max-h-[55vh] w-auto h-auto" />
+
+            {/* Darken everything outside the crop */}
+            <div
+              className="absolute border-2 border-blue-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`
+              }}
+            >
+              {CORNERS.map(({ corner, className }) => (
+                <span
+                  key={corner}
+                  onPointerDown={(e) => {
+                    e.preventDefault()
+                    // Keep receiving moves while the pointer is outside the image
+                    e.currentTarget.setPointerCapture(e.pointerId)
+                    setDragging(corner)
+                  }}
+                  className={cn(
+                    'absolute h-4 w-4 rounded-full bg-white border-2 border-blue-500 pointer-events-auto',
+                    className
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <div className="flex items-center justify-between text-sm text-gray-700 mb-1">
+              <label htmlFor="scan-skew">Straighten</label>
+              <span className="text-xs text-gray-500">{draft.skew.toFixed(1)}°</span>
+            </div>
+            <input
+              id="scan-skew"
+              type="range"
+              min={-MAX_SKEW_DEGREES}
+              max={MAX_SKEW_DEGREES}
+              step={0.5}
+              value={draft.skew}
+              onChange={(e) => setDraft(prev => ({ ...prev, skew: parseFloat(e.target.value) }))}
+              className="w-full accent-blue-600"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => rotate(-1)} icon={<RotateCcw className="h-4 w-4" />}>
+              Rotate left
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => rotate(1)} icon={<RotateCw className="h-4 w-4" />}>
+              Rotate right
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setDraft(prev => ({ ...prev, crop: FULL_CROP }))}
+              icon={<Maximize className="h-4 w-4" />}
+            >
+              Reset crop
+            </Button>
+            <Button
+              type="button"
+              variant={draft.documentFilter ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setDraft(prev => ({ ...prev, documentFilter: !prev.documentFilter }))}
+              icon={<Contrast className="h-4 w-4" />}
+            >
+              Black &amp; white {draft.documentFilter ? 'on' : 'off'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-2 pt-2 border-t border-gray-200">
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => onSave(draft)}>
+            Apply
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export default ScanPageEditor
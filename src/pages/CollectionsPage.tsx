@@ -0,0 +1,367 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Plus, Bookmark, Lock, Users, Globe, ChevronUp, ChevronDown, Trash2, Edit, Link2, X, FolderOpen } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  getUserCollections,
+  getCollectionWithItems,
+  deleteCollection,
+  removeFromCollection,
+  reorderCollectionItems,
+  getCollectionShareUrl,
+  CollectionWithCount,
+  CollectionWithItems
+} from '../services/collectionService'
+import { ContentWithCategory } from '../services/contentService'
+import ContentCard from '../components/content/ContentCard'
+import ContentViewer from '../components/content/ContentViewer'
+import CollectionFormModal from '../components/collections/CollectionFormModal'
+import LoadingSpinner from '../components/ui/LoadingSpinner'
+import Button from '../components/ui/Button'
+import Badge from '../components/ui/Badge'
+import { logger } from '../utils/logger'
+import { getErrorMessage } from '../utils/errorHandling'
+
+const VISIBILITY_ICONS = {
+  private: Lock,
+  group: Users,
+  public: Globe,
+} as const
+
+const CollectionsPage: React.FC = () => {
+  const { user } = useAuth()
+  const [ownCollections, setOwnCollections] = useState<CollectionWithCount[]>([])
+  const [sharedCollections, setSharedCollections] = useState<CollectionWithCount[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [selected, setSelected] = useState<CollectionWithItems | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [itemsLoading, setItemsLoading] = useState(false)
+  const [showFormModal, setShowFormModal] = useState(false)
+  const [editing, setEditing] = useState<CollectionWithCount | null>(null)
+  const [selectedContent, setSelectedContent] = useState<ContentWithCategory | null>(null)
+  const [showViewer, setShowViewer] = useState(false)
+
+  const fetchCollections = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { own, shared } = await getUserCollections(user.id)
+      setOwnCollections(own)
+      setSharedCollections(shared)
+      setSelectedId(current => current ?? own[0]?.id ?? shared[0]?.id ?? null)
+    } catch (error) {
+      logger.error('Failed to fetch collections:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  const fetchSelected = useCallback(async () => {
+    if (!selectedId) {
+      setSelected(null)
+      return
+    }
+
+    setItemsLoading(true)
+    try {
+      setSelected(await getCollectionWithItems(selectedId))
+    } catch (error) {
+      logger.error('Failed to fetch collection:', error)
+    } finally {
+      setItemsLoading(false)
+    }
+  }, [selectedId])
+
+  useEffect(() => {
+    fetchCollections()
+  }, [fetchCollections])
+
+  useEffect(() => {
+    fetchSelected()
+  }, [fetchSelected])
+
+  const isOwner = !!selected && selected.owner_id === user?.id
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    if (!selected) return
+
+    const target = index + direction
+    if (target < 0 || target >= selected.items.length) return
+
+    const items = [...selected.items]
+    ;[items[index], items[target]] = [items[target], items[index]]
+    setSelected({ ...selected, items })
+
+    try {
+      await reorderCollectionItems(selected.id, items.map(item => item.id))
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to reorder collection'))
+      fetchSelected()
+    }
+  }
+
+  const handleRemove = async (contentId: string) => {
+    if (!selected || !user) return
+
+    try {
+      await removeFromCollection(selected.id, contentId, user.id)
+      setSelected({
+        ...selected,
+        items: selected.items.filter(item => item.id !== contentId),
+        item_count: selected.item_count - 1
+      })
+      fetchCollections()
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to remove item'))
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected || !user) return
+    if (!confirm(`Delete "${selected.name}"? The saved resources themselves are not affected.`)) return
+
+    try {
+      await deleteCollection(selected.id, user.id)
+      setSelectedId(null)
+      setSelected(null)
+      await fetchCollections()
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to delete collection'))
+    }
+  }
+
+  const handleCopyLink = async () => {
+    if (!selected) return
+
+    try {
+      await navigator.clipboard.writeText(getCollectionShareUrl(selected.share_token))
+      alert('Share link copied to clipboard')
+    } catch {
+      prompt('Copy this link:', getCollectionShareUrl(selected.share_token))
+    }
+  }
+
+  const renderCollection = (collection: CollectionWithCount) => {
+    const Icon = collection.is_default ? Bookmark : VISIBILITY_ICONS[collection.visibility as keyof typeof VISIBILITY_ICONS] || Lock
+
+    return (
+      <button
+        key={collection.id}
+        onClick={() => setSelectedId(collection.id)}
+        className={`w-full p-3 bg-white border border-gray-200 rounded-lg hover:shadow-md transition-all text-left ${
+          selectedId === collection.id ? 'ring-2 ring-blue-500 border-blue-500' : ''
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 min-w-0">
+            <Icon className="h-4 w-4 text-blue-600 flex-shrink-0" />
+            <span className="font-medium text-gray-900 text-sm sm:text-base truncate">{collection.name}</span>
+          </div>
+          <Badge variant="neutral" size="sm">{collection.item_count}</Badge>
+        </div>
+        {collection.visibility === 'group' && collection.class_groups && (
+          <p className="text-xs text-gray-500 mt-1 truncate">Shared with {collection.class_groups.name}</p>
+        )}
+      </button>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20 sm:pb-4 md:pb-0">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-12">
+        <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between mb-4 sm:mb-6 lg:mb-8 space-y-4 lg:space-y-0">
+          <div className="text-center lg:text-left w-full lg:w-auto">
+            <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mb-2 sm:mb-4">My Collections</h1>
+            <p className="text-sm sm:text-base text-gray-600 max-w-2xl px-4 sm:px-0">
+              Keep the resources you come back to every semester in named, shareable lists
+            </p>
+          </div>
+
+          <Button
+            onClick={() => {
+              setEditing(null)
+              setShowFormModal(true)
+            }}
+            className="flex items-center justify-center space-x-2 w-full sm:w-auto"
+            size="sm"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Collection</span>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8">
+          {/* Collections Sidebar */}
+          <div className="lg:col-span-1 space-y-4">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-3 sm:p-4 lg:p-6">
+              <h2 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">Your Collections</h2>
+              <div className="space-y-2 max-h-64 sm:max-h-80 lg:max-h-96 overflow-y-auto">
+                {ownCollections.length === 0 ? (
+                  <p className="text-gray-500 text-center py-4 text-sm">
+                    Use the bookmark on any resource to start your Saved list
+                  </p>
+                ) : (
+                  ownCollections.map(renderCollection)
+                )}
+              </div>
+            </div>
+
+            {sharedCollections.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-3 sm:p-4 lg:p-6">
+                <h2 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 sm:mb-4">Shared With You</h2>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {sharedCollections.map(renderCollection)}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Collection Content */}
+          <div className="lg:col-span-2">
+            {selected ? (
+              <div>
+                <div className="mb-4 sm:mb-6 flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 mb-1 truncate">
+                      {selected.name}
+                    </h2>
+                    {selected.description && (
+                      <p className="text-sm sm:text-base text-gray-600">{selected.description}</p>
+                    )}
+                  </div>
+
+                  {isOwner && (
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      {selected.visibility === 'public' && (
+                        <Button size="sm" variant="outline" onClick={handleCopyLink} className="flex items-center space-x-1">
+                          <Link2 className="h-4 w-4" />
+                          <span>Copy Link</span>
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setEditing(selected)
+                          setShowFormModal(true)
+                        }}
+                        title="Edit collection"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      {!selected.is_default && (
+                        <Button size="sm" variant="ghost" onClick={handleDelete} title="Delete collection">
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {itemsLoading ? (
+                  <div className="flex justify-center py-8 sm:py-12">
+                    <LoadingSpinner />
+                  </div>
+                ) : selected.items.length === 0 ? (
+                  <div className="text-center py-8 sm:py-12">
+                    <FolderOpen className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">
+                      This collection is empty
+                    </h3>
+                    <p className="text-sm sm:text-base text-gray-600 px-4">
+                      Open any resource and choose "Add to Collection"
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-4 sm:space-y-6">
+                    {selected.items.map((content, index) => (
+                      <div key={content.id} className="flex items-stretch gap-2">
+                        {isOwner && (
+                          <div className="flex flex-col justify-center space-y-1">
+                            <button
+                              onClick={() => handleMove(index, -1)}
+                              disabled={index === 0}
+                              className="p-1 rounded text-gray-400 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-30"
+                              title="Move up"
+                            >
+                              <ChevronUp className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleMove(index, 1)}
+                              disabled={index === selected.items.length - 1}
+                              className="p-1 rounded text-gray-400 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-30"
+                              title="Move down"
+                            >
+                              <ChevronDown className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleRemove(content.id)}
+                              className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                              title="Remove from collection"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <ContentCard
+                            content={content}
+                            onClick={() => {
+                              setSelectedContent(content)
+                              setShowViewer(true)
+                            }}
+                            showUploader={true}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 sm:p-12 text-center">
+                <Bookmark className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">
+                  No collection selected
+                </h3>
+                <p className="text-sm sm:text-base text-gray-600 px-4">
+                  Create a collection or bookmark a resource to get started
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Content Viewer Modal */}
+        <ContentViewer
+          content={selectedContent}
+          isOpen={showViewer}
+          onClose={() => {
+            setShowViewer(false)
+            setSelectedContent(null)
+            fetchSelected()
+          }}
+        />
+
+        <CollectionFormModal
+          isOpen={showFormModal}
+          onClose={() => setShowFormModal(false)}
+          onSaved={() => {
+            fetchCollections()
+            fetchSelected()
+          }}
+          collection={editing}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default CollectionsPage
@@ -1,20 +1,36 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { Search, Filter, BookOpen, FileText, Users, TrendingUp, Sparkles, Star, Zap, Shield } from 'lucide-react'
-import { getApprovedContent, getContentStats, ContentWithCategory } from '../services/contentService'
+import {
+  getFacetedContent,
+  getContentStats,
+  getContentById,
+  ContentWithCategory,
+  ContentSearchResult,
+  ContentFacets,
+  ContentFacetFilters,
+  ContentSortOrder
+} from '../services/contentService'
 import { getAllCategories, CategoryWithChildren } from '../services/categoryService'
 import { isSupabaseConfigured } from '../lib/supabase'
 import { appState } from '../utils/appState'
 import { useAuth } from '../contexts/AuthContext'
 import ContentCard from '../components/content/ContentCard'
 import ContentViewer from '../components/content/ContentViewer'
+import ContentFacetSidebar from '../components/content/ContentFacetSidebar'
+import TrendingSection from '../components/content/TrendingSection'
+import RecommendedRail from '../components/content/RecommendedRail'
 import LoadingSpinner from '../components/ui/LoadingSpinner'
 import Button from '../components/ui/Button'
 import Badge from '../components/ui/Badge'
 import AuthModal from '../components/ui/AuthModal'
 import DemoModeBanner from '../components/ui/DemoModeBanner'
+import { logger } from '../utils/logger'
 
 const HomePage: React.FC = () => {
   const { user, isGuest } = useAuth()
+  const location = useLocation()
+  const navigate = useNavigate()
   const [content, setContent] = useState<ContentWithCategory[]>([])
   const [categories, setCategories] = useState<CategoryWithChildren[]>([])
   const [loading, setLoading] = useState(true)
@@ -22,6 +38,10 @@ const HomePage: React.FC = () => {
   const [searchInput, setSearchInput] = useState('') // Separate state for input vs actual search
   const [selectedCategory, setSelectedCategory] = useState('')
   const [selectedContentType, setSelectedContentType] = useState('')
+  const [facetFilters, setFacetFilters] = useState<Omit<ContentFacetFilters, 'contentType' | 'categoryId'>>({})
+  const [facets, setFacets] = useState<ContentFacets | null>(null)
+  const [filtering, setFiltering] = useState(false)
+  const [sortBy, setSortBy] = useState<ContentSortOrder>('default')
   const [selectedContent, setSelectedContent] = useState<ContentWithCategory | null>(null)
   const [showViewer, setShowViewer] = useState(false)
   const [showAuthModal, setShowAuthModal] = useState(false)
@@ -111,12 +131,13 @@ const HomePage: React.FC = () => {
 
       try {
         const [contentData, categoriesData, statsData] = await Promise.all([
-          getApprovedContent(),
+          getFacetedContent(),
           getAllCategories(),
           getContentStats()
         ])
         
-        setContent(contentData)
+        setContent(contentData.items)
+        setFacets(contentData.facets)
         setCategories(categoriesData)
         setStats(statsData)
         setConnectionError(false) // Clear any previous error
@@ -136,56 +157,76 @@ const HomePage: React.FC = () => {
     }
   }, []) // Remove any dependencies to prevent re-runs
 
+  const hasFacetFilters = !!(
+    facetFilters.year ||
+    facetFilters.semester ||
+    facetFilters.fileType ||
+    (facetFilters.tags && facetFilters.tags.length > 0)
+  )
+  const hasActiveFilters = !!(searchQuery || selectedCategory || selectedContentType || hasFacetFilters)
+
   useEffect(() => {
     const fetchFilteredContent = async () => {
       if (!isSupabaseConfigured()) return
       
-      setLoading(true)
+      setFiltering(true)
       try {
-        const data = await getApprovedContent(
-          selectedContentType as any,
-          selectedCategory,
-          searchQuery
+        const data = await getFacetedContent(
+          {
+            ...facetFilters,
+            contentType: (selectedContentType || undefined) as ContentFacetFilters['contentType'],
+            categoryId: selectedCategory || undefined
+          },
+          searchQuery,
+          20,
+          0,
+          sortBy
         )
-        setContent(data)
+        setContent(data.items)
+        setFacets(data.facets)
       } catch (error) {
         console.error('Failed to fetch filtered content:', error)
         setConnectionError(true)
       } finally {
-        setLoading(false)
+        setFiltering(false)
       }
     }
 
-    // Only fetch when filters change and we're not showing all content
-    if (searchQuery || selectedCategory || selectedContentType) {
-      fetchFilteredContent()
-    }
-  }, [searchQuery, selectedCategory, selectedContentType])
+    fetchFilteredContent()
+  }, [searchQuery, selectedCategory, selectedContentType, facetFilters, sortBy])
 
-  // Separate useEffect for resetting to all content
-  useEffect(() => {
-    const fetchAllContent = async () => {
-      if (!isSupabaseConfigured()) return
-      
-      try {
-        const data = await getApprovedContent()
-        setContent(data)
-      } catch (error) {
-        console.error('Failed to fetch content:', error)
-      }
-    }
+  const clearAllFilters = () => {
+    setSearchQuery('')
+    setSearchInput('')
+    setSelectedCategory('')
+    setSelectedContentType('')
+    setFacetFilters({})
+  }
 
-    // Only fetch all content when all filters are cleared
-    if (!searchQuery && !selectedCategory && !selectedContentType) {
-      fetchAllContent()
-    }
-  }, [searchQuery, selectedCategory, selectedContentType])
+  const handleFacetChange = (filters: ContentFacetFilters) => {
+    const { contentType, ...rest } = filters
+    setSelectedContentType(contentType || '')
+    setFacetFilters(rest)
+  }
 
   const handleContentClick = (contentItem: ContentWithCategory) => {
     setSelectedContent(contentItem)
     setShowViewer(true)
   }
 
+  // Deep links such as notifications open a resource with ?content=<id>
+  const linkedContentId = new URLSearchParams(location.search).get('content')
+
+  useEffect(() => {
+    if (!linkedContentId) return
+
+    getContentById(linkedContentId)
+      .then(contentItem => {
+        if (contentItem) handleContentClick(contentItem)
+      })
+      .catch(error => logger.error('Failed to open linked content:', error))
+  }, [linkedContentId])
+
   const handleManualSearch = () => {
     if (searchInput.trim().length >= 2 || searchInput.trim().length === 0) {
       setSearchQuery(searchInput.trim())
@@ -417,6 +458,16 @@ const HomePage: React.FC = () => {
 
       {/* Search and Filters */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12" id="content-section">
+        {/* Recommended for you */}
+        {user && !isGuest && isSupabaseConfigured() && !connectionError && (
+          <RecommendedRail key={user.id} onSelect={handleContentClick} />
+        )}
+
+        {/* Trending */}
+        {isSupabaseConfigured() && !connectionError && (
+          <TrendingSection onSelect={handleContentClick} />
+        )}
+
         <div className="card-premium p-4 sm:p-6 md:p-8 mb-8 sm:mb-12 animate-fade-in-up">
           <div className="text-center mb-6 sm:mb-8">
             <h2 className="text-xl sm:text-2xl font-bold text-secondary-900 mb-2 text-gradient">
@@ -499,7 +550,7 @@ const HomePage: React.FC = () => {
           </div>
           
           {/* Active Filters Display */}
-          {(searchQuery || selectedCategory || selectedContentType) && (
+          {hasActiveFilters && (
             <div className="mt-6 flex flex-wrap items-center gap-3">
               <span className="text-sm font-medium text-secondary-600">Active filters:</span>
               
@@ -548,15 +599,62 @@ const HomePage: React.FC = () => {
                 </Badge>
               )}
               
+              {facetFilters.year && (
+                <Badge variant="premium" className="flex items-center gap-2">
+                  Year {facetFilters.year}
+                  <button
+                    onClick={() => setFacetFilters(prev => ({ ...prev, year: undefined }))}
+                    className="ml-1 hover:text-red-500 transition-colors"
+                    title="Remove year filter"
+                  >
+                    ✕
+                  </button>
+                </Badge>
+              )}
+
+              {facetFilters.semester && (
+                <Badge variant="premium" className="flex items-center gap-2">
+                  Sem {facetFilters.semester}
+                  <button
+                    onClick={() => setFacetFilters(prev => ({ ...prev, semester: undefined }))}
+                    className="ml-1 hover:text-red-500 transition-colors"
+                    title="Remove semester filter"
+                  >
+                    ✕
+                  </button>
+                </Badge>
+              )}
+
+              {facetFilters.fileType && (
+                <Badge variant="premium" className="flex items-center gap-2">
+                  .{facetFilters.fileType}
+                  <button
+                    onClick={() => setFacetFilters(prev => ({ ...prev, fileType: undefined }))}
+                    className="ml-1 hover:text-red-500 transition-colors"
+                    title="Remove file type filter"
+                  >
+                    ✕
+                  </button>
+                </Badge>
+              )}
+
+              {facetFilters.tags?.map(tag => (
+                <Badge key={tag} variant="premium" className="flex items-center gap-2">
+                  #{tag}
+                  <button
+                    onClick={() => setFacetFilters(prev => ({ ...prev, tags: prev.tags?.filter(t => t !== tag) }))}
+                    className="ml-1 hover:text-red-500 transition-colors"
+                    title="Remove tag filter"
+                  >
+                    ✕
+                  </button>
+                </Badge>
+              ))}
+              
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => {
-                  setSearchQuery('')
-                  setSearchInput('')
-                  setSelectedCategory('')
-                  setSelectedContentType('')
-                }}
+                onClick={clearAllFilters}
                 className="text-secondary-500 hover:text-primary-600"
               >
                 Clear all filters
@@ -565,83 +663,109 @@ const HomePage: React.FC = () => {
           )}
         </div>
 
-        {/* Content Grid */}
-        <div className="mb-8 flex flex-col sm:flex-row items-start sm:items-center justify-between space-y-4 sm:space-y-0">
-          <div className="space-y-2">
-            <h2 className="text-2xl md:text-3xl font-bold text-secondary-900 text-gradient">
-              {searchQuery || selectedCategory || selectedContentType ? 'Filtered Results' : 'All Resources'}
-            </h2>
-            <p className="text-secondary-600">
-              {content.length} {content.length === 1 ? 'resource' : 'resources'} found
-              {(searchQuery || selectedCategory || selectedContentType) && (
-                <span className="text-primary-600 font-medium"> matching your criteria</span>
-              )}
-            </p>
-          </div>
-          
-          <div className="flex items-center space-x-2">
-            <Badge variant="premium" glow>
-              <Sparkles className="w-3 h-3 mr-1" />
-              Enjoy
-            </Badge>
-          </div>
-        </div>
-
-        {content.length === 0 ? (
-          <div className="text-center py-12 md:py-20">
-            <div className="card-premium p-12 max-w-md mx-auto">
-              <BookOpen className="h-20 w-20 text-secondary-300 mx-auto mb-6 animate-bounce-subtle" />
-              {searchQuery || selectedCategory || selectedContentType ? (
-                <>
-                  <h3 className="text-xl font-semibold text-secondary-900 mb-4">No matching resources found</h3>
-                  <p className="text-secondary-600 mb-6">
-                    No resources match your current search criteria. Try:
-                  </p>
-                  <ul className="text-sm text-secondary-600 mb-6 text-left space-y-2">
-                    <li>• Using different keywords</li>
-                    <li>• Checking your spelling</li>
-                    <li>• Selecting a different category</li>
-                    <li>• Browsing all content types</li>
-                  </ul>
-                </>
-              ) : (
-                <>
-                  <h3 className="text-xl font-semibold text-secondary-900 mb-4">No resources available</h3>
-                  <p className="text-secondary-600 mb-6">
-                    There are currently no approved resources in the database.
-                  </p>
-                </>
-              )}
-              <Button 
-                variant="premium" 
-                onClick={() => {
-                  setSearchQuery('')
-                  setSearchInput('')
-                  setSelectedCategory('')
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 lg:gap-8">
+          {/* Facet Sidebar */}
+          {facets && (
+            <div className="lg:col-span-1">
+              <ContentFacetSidebar
+                facets={facets}
+                filters={{ ...facetFilters, contentType: (selectedContentType || undefined) as ContentFacetFilters['contentType'] }}
+                onChange={handleFacetChange}
+                onClear={() => {
                   setSelectedContentType('')
+                  setFacetFilters({})
                 }}
-              >
-                {searchQuery || selectedCategory || selectedContentType ? 'Clear Filters' : 'Refresh'}
-              </Button>
+                loading={filtering}
+              />
             </div>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6 lg:gap-8 animate-fade-in-up">
-            {content.map((item, index) => (
-              <div 
-                key={item.id} 
-                className="animate-fade-in-up w-full"
-                style={{ animationDelay: `${index * 0.1}s` }}
-              >
-                <ContentCard
-                  content={item}
-                  onClick={() => handleContentClick(item)}
-                  showUploader={true}
-                />
+          )}
+
+          <div className={facets ? 'lg:col-span-3' : 'lg:col-span-4'}>
+            {/* Content Grid */}
+            <div className="mb-8 flex flex-col sm:flex-row items-start sm:items-center justify-between space-y-4 sm:space-y-0">
+              <div className="space-y-2">
+                <h2 className="text-2xl md:text-3xl font-bold text-secondary-900 text-gradient">
+                  {hasActiveFilters ? 'Filtered Results' : 'All Resources'}
+                </h2>
+                <p className="text-secondary-600">
+                  {content.length} {content.length === 1 ? 'resource' : 'resources'} found
+                  {hasActiveFilters && (
+                    <span className="text-primary-600 font-medium"> matching your criteria</span>
+                  )}
+                </p>
               </div>
-            ))}
+          
+              <div className="flex items-center space-x-2">
+                {filtering && <LoadingSpinner size="sm" />}
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as ContentSortOrder)}
+                  className="input-premium appearance-none cursor-pointer py-2 text-sm"
+                  aria-label="Sort resources"
+                >
+                  <option value="default">{searchQuery ? 'Best match' : 'Newest'}</option>
+                  <option value="rating">Top rated</option>
+                </select>
+                <Badge variant="premium" glow>
+                  <Sparkles className="w-3 h-3 mr-1" />
+                  Enjoy
+                </Badge>
+              </div>
+            </div>
+
+            {content.length === 0 ? (
+              <div className="text-center py-12 md:py-20">
+                <div className="card-premium p-12 max-w-md mx-auto">
+                  <BookOpen className="h-20 w-20 text-secondary-300 mx-auto mb-6 animate-bounce-subtle" />
+                  {hasActiveFilters ? (
+                    <>
+                      <h3 className="text-xl font-semibold text-secondary-900 mb-4">No matching resources found</h3>
+                      <p className="text-secondary-600 mb-6">
+                        No resources match your current search criteria. Try:
+                      </p>
+                      <ul className="text-sm text-secondary-600 mb-6 text-left space-y-2">
+                        <li>• Using different keywords</li>
+                        <li>• Checking your spelling</li>
+                        <li>• Selecting a different category</li>
+                        <li>• Browsing all content types</li>
+                      </ul>
+                    </>
+                  ) : (
+                    <>
+                      <h3 className="text-xl font-semibold text-secondary-900 mb-4">No resources available</h3>
+                      <p className="text-secondary-600 mb-6">
+                        There are currently no approved resources in the database.
+                      </p>
+                    </>
+                  )}
+                  <Button 
+                    variant="premium" 
+                    onClick={clearAllFilters}
+                  >
+                    {hasActiveFilters ? 'Clear Filters' : 'Refresh'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6 lg:gap-8 animate-fade-in-up">
+                {content.map((item, index) => (
+                  <div 
+                    key={item.id} 
+                    className="animate-fade-in-up w-full"
+                    style={{ animationDelay: `${index * 0.1}s` }}
+                  >
+                    <ContentCard
+                      content={item}
+                      onClick={() => handleContentClick(item)}
+                      showUploader={true}
+                      highlight={(item as ContentSearchResult).highlight}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
-        )}
+        </div>
 
         {/* Quick Access Categories */}
         <div className="mt-8 sm:mt-12 lg:mt-16 xl:mt-20">
@@ -692,6 +816,7 @@ const HomePage: React.FC = () => {
           onClose={() => {
             setShowViewer(false)
             setSelectedContent(null)
+            if (linkedContentId) navigate('/', { replace: true })
           }}
         />
 
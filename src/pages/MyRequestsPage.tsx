@@ -1,12 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react'
 import { Navigate } from 'react-router-dom'
-import { Plus, Clock, CheckCircle, XCircle, FileText, MessageSquare, AlertTriangle, Lightbulb, Edit, Trash2, HelpCircle } from 'lucide-react'
+import { Plus, Clock, CheckCircle, XCircle, FileText, MessageSquare, AlertTriangle, Lightbulb, Edit, Trash2, HelpCircle, Paperclip } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { 
   getUserUpdateRequests, 
   createUpdateRequest,
+  createUpdateRequestWithFile,
   UpdateRequestWithProfile 
 } from '../services/updateRequestService'
+import { validateFile } from '../services/fileUploadService'
 import Button from '../components/ui/Button'
 import Input from '../components/ui/Input'
 import Modal from '../components/ui/Modal'
@@ -27,6 +29,10 @@ const MyRequestsPage: React.FC = () => {
     issueDescription: '',
     suggestedChanges: '',
   })
+  const [replacementFile, setReplacementFile] = useState<File | null>(null)
+
+  // A corrected file only makes sense when updating a specific piece of content
+  const canAttachReplacement = newRequest.contentType === 'content_update' && !!newRequest.contentId.trim()
 
   const fetchData = useCallback(async () => {
     try {
@@ -57,13 +63,19 @@ const MyRequestsPage: React.FC = () => {
         dbContentType = 'notes' // Use 'notes' as fallback for new request types
       }
 
-      await createUpdateRequest({
+      const requestData = {
         user_id: user.id,
         content_type: dbContentType as any,
         content_id: newRequest.contentId || null,
         issue_description: newRequest.issueDescription.trim(),
         suggested_changes: newRequest.suggestedChanges.trim() || null,
-      })
+      }
+
+      if (canAttachReplacement && replacementFile) {
+        await createUpdateRequestWithFile(requestData, replacementFile)
+      } else {
+        await createUpdateRequest(requestData)
+      }
 
       // Reset form and close modal
       setNewRequest({
@@ -72,6 +84,7 @@ const MyRequestsPage: React.FC = () => {
         issueDescription: '',
         suggestedChanges: '',
       })
+      setReplacementFile(null)
       setShowNewRequestModal(false)
       
       // Refresh requests
@@ -83,6 +96,19 @@ const MyRequestsPage: React.FC = () => {
     }
   }
 
+  const handleReplacementFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null
+    if (file) {
+      const validation = validateFile(file)
+      if (!validation.isValid) {
+        alert(validation.error)
+        e.target.value = ''
+        return
+      }
+    }
+    setReplacementFile(file)
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -283,6 +309,14 @@ const MyRequestsPage: React.FC = () => {
                         </>
                       )}
                       
+                      {request.replacement_file_name && (
+                        <p className="flex items-center text-xs sm:text-sm text-gray-600 mb-3">
+                          <Paperclip className="h-3 w-3 mr-1" />
+                          Replacement file: {request.replacement_file_name}
+                          {request.status === 'approved' && ' (published as a new version)'}
+                        </p>
+                      )}
+
                       {request.admin_notes && (
                         <>
                           <h4 className="font-medium text-gray-900 mb-1 text-sm sm:text-base">
@@ -407,6 +441,24 @@ const MyRequestsPage: React.FC = () => {
               />
             </div>
 
+            {canAttachReplacement && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Corrected File (Optional)
+                </label>
+                <input
+                  type="file"
+                  accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png"
+                  onChange={handleReplacementFileChange}
+                  className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-lg file:border-0 file:bg-blue-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-blue-700 hover:file:bg-blue-100"
+                  disabled={submitting}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  If approved, this file replaces the current one as a new version. Your suggestions become its changelog.
+                </p>
+              </div>
+            )}
+
             <div className="flex flex-col sm:flex-row justify-end space-y-3 sm:space-y-0 sm:space-x-3 pt-2">
               <Button
                 type="button"
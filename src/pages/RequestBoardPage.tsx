@@ -0,0 +1,536 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Plus, ChevronUp, CheckCircle, Search, Upload, Link2, Inbox, XCircle, RotateCcw } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  getResourceRequests,
+  createResourceRequest,
+  toggleResourceRequestVote,
+  fulfilResourceRequest,
+  reopenResourceRequest,
+  closeResourceRequest,
+  ResourceRequestWithDetails,
+  ResourceRequestStatus,
+  ResourceRequestContentType
+} from '../services/resourceRequestService'
+import { searchContent, ContentSearchResult } from '../services/contentService'
+import { getAllCategories, CategoryWithChildren } from '../services/categoryService'
+import Button from '../components/ui/Button'
+import Input from '../components/ui/Input'
+import Modal from '../components/ui/Modal'
+import Badge from '../components/ui/Badge'
+import LoadingSpinner from '../components/ui/LoadingSpinner'
+import { cn } from '../utils/cn'
+import { formatDistanceToNow } from 'date-fns'
+import { logger } from '../utils/logger'
+import { getErrorMessage } from '../utils/errorHandling'
+
+const CONTENT_TYPE_LABELS: Record<ResourceRequestContentType, string> = {
+  question_paper: 'Question Paper',
+  notes: 'Study Notes',
+  syllabus: 'Syllabus',
+  assignments: 'Assignments',
+  other: 'Other'
+}
+
+const EMPTY_FORM = {
+  title: '',
+  details: '',
+  contentType: '' as ResourceRequestContentType | '',
+  categoryId: '',
+  year: '',
+  semester: ''
+}
+
+const RequestBoardPage: React.FC = () => {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [requests, setRequests] = useState<ResourceRequestWithDetails[]>([])
+  const [loading, setLoading] = useState(true)
+  const [status, setStatus] = useState<ResourceRequestStatus>('open')
+  const [sortBy, setSortBy] = useState<'top' | 'newest'>('top')
+  const [categories, setCategories] = useState<CategoryWithChildren[]>([])
+
+  const [showNewModal, setShowNewModal] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [submitting, setSubmitting] = useState(false)
+  const [formError, setFormError] = useState('')
+
+  const [fulfilling, setFulfilling] = useState<ResourceRequestWithDetails | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<ContentSearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+  const [linking, setLinking] = useState<string | null>(null)
+
+  const fetchRequests = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      setRequests(await getResourceRequests(user.id, { status, sortBy }))
+    } catch (error) {
+      logger.error('Failed to fetch resource requests:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, status, sortBy])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  useEffect(() => {
+    getAllCategories().then(setCategories).catch(error => logger.error('Failed to fetch categories:', error))
+  }, [])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    if (form.title.trim().length < 5) {
+      setFormError('Describe what you need in at least 5 characters')
+      return
+    }
+
+    setSubmitting(true)
+    setFormError('')
+    try {
+      await createResourceRequest(user.id, {
+        title: form.title,
+        details: form.details,
+        content_type: form.contentType || null,
+        category_id: form.categoryId || null,
+        year: form.year ? parseInt(form.year) : null,
+        semester: form.semester ? parseInt(form.semester) : null
+      })
+      setForm(EMPTY_FORM)
+      setShowNewModal(false)
+      setStatus('open')
+      setSortBy('newest')
+      await fetchRequests()
+    } catch (error) {
+      setFormError(getErrorMessage(error, 'Failed to post request'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleVote = async (request: ResourceRequestWithDetails) => {
+    if (!user) return
+
+    // Update optimistically; the trigger keeps the real count
+    const delta = request.has_voted ? -1 : 1
+    setRequests(prev => prev.map(r => r.id === request.id
+      ? { ...r, has_voted: !r.has_voted, upvote_count: r.upvote_count + delta }
+      : r
+    ))
+
+    try {
+      await toggleResourceRequestVote(request.id, user.id, request.has_voted)
+    } catch (error) {
+      setRequests(prev => prev.map(r => r.id === request.id ? request : r))
+      alert(getErrorMessage(error, 'Failed to update vote'))
+    }
+  }
+
+  const handleClose = async (request: ResourceRequestWithDetails) => {
+    if (!confirm('Close this request? Others will no longer be able to answer it.')) return
+
+    try {
+      await closeResourceRequest(request.id)
+      setRequests(prev => prev.filter(r => r.id !== request.id))
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to close request'))
+    }
+  }
+
+  const handleReopen = async (request: ResourceRequestWithDetails) => {
+    if (!confirm('Reopen this request? The linked resource will no longer count as its answer.')) return
+
+    try {
+      await reopenResourceRequest(request.id)
+      setRequests(prev => prev.filter(r => r.id !== request.id))
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to reopen request'))
+    }
+  }
+
+  const openFulfilModal = (request: ResourceRequestWithDetails) => {
+    setFulfilling(request)
+    setSearchQuery(request.title)
+    setSearchResults([])
+  }
+
+  const handleSearch = async (e?: React.FormEvent) => {
+    e?.preventDefault()
+    if (!searchQuery.trim()) return
+
+    setSearching(true)
+    try {
+      setSearchResults(await searchContent(searchQuery, { limit: 8 }))
+    } catch (error) {
+      logger.error('Failed to search content:', error)
+      setSearchResults([])
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const handleLink = async (contentId: string) => {
+    if (!fulfilling) return
+
+    setLinking(contentId)
+    try {
+      await fulfilResourceRequest(fulfilling.id, contentId)
+      setFulfilling(null)
+      setRequests(prev => prev.filter(r => r.id !== fulfilling.id))
+    } catch (error) {
+      alert(getErrorMessage(error, 'Failed to answer request'))
+    } finally {
+      setLinking(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-4 sm:py-6 lg:py-12 px-4 pb-20 sm:pb-4 lg:pb-0">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-6 gap-4">
+            <div>
+              <h1 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900">Request Board</h1>
+              <p className="text-sm sm:text-base text-gray-600 mt-1">
+                Ask for papers and notes that aren't here yet, or help a classmate who is looking.
+              </p>
+              <Link to="/my-requests" className="text-xs sm:text-sm text-primary-600 hover:underline">
+                Reporting a problem with existing content? Use Support & Requests
+              </Link>
+            </div>
+            <Button
+              onClick={() => setShowNewModal(true)}
+              className="flex items-center justify-center space-x-2 w-full sm:w-auto"
+              size="sm"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Ask for Material</span>
+            </Button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm self-start">
+              {(['open', 'fulfilled'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setStatus(option)}
+                  className={cn(
+                    'px-3 py-1.5 transition-colors',
+                    status === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                  )}
+                >
+                  {option === 'open' ? 'Open' : 'Fulfilled'}
+                </button>
+              ))}
+            </div>
+            {status === 'open' && (
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as 'top' | 'newest')}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm bg-white self-start"
+                aria-label="Sort requests"
+              >
+                <option value="top">Most upvoted</option>
+                <option value="newest">Newest</option>
+              </select>
+            )}
+          </div>
+
+          {/* Requests List */}
+          {loading ? (
+            <div className="flex justify-center py-8 sm:py-12">
+              <LoadingSpinner />
+            </div>
+          ) : requests.length === 0 ? (
+            <div className="text-center py-8 sm:py-12">
+              <Inbox className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">
+                {status === 'open' ? 'No open requests' : 'Nothing fulfilled yet'}
+              </h3>
+              <p className="text-sm sm:text-base text-gray-600 px-4">
+                {status === 'open'
+                  ? "Can't find something? Ask for it and classmates can upvote or answer."
+                  : 'Answered requests will show up here.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3 sm:space-y-4">
+              {requests.map(request => {
+                const isOwn = request.requested_by === user?.id
+
+                return (
+                  <div
+                    key={request.id}
+                    className="border border-gray-200 rounded-lg p-3 sm:p-4 flex items-start space-x-3 sm:space-x-4"
+                  >
+                    {/* Upvotes */}
+                    <button
+                      type="button"
+                      onClick={() => handleVote(request)}
+                      disabled={isOwn || request.status !== 'open'}
+                      className={cn(
+                        'flex flex-col items-center justify-center w-12 py-1 rounded-lg border text-sm font-semibold flex-shrink-0 transition-colors',
+                        request.has_voted
+                          ? 'border-primary-500 bg-primary-50 text-primary-700'
+                          : 'border-gray-200 text-gray-600 hover:border-primary-300',
+                        (isOwn || request.status !== 'open') && 'cursor-default hover:border-gray-200'
+                      )}
+                      title={isOwn ? 'Your request' : request.has_voted ? 'Remove upvote' : 'I need this too'}
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                      {request.upvote_count}
+                    </button>
+
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium text-gray-900 text-sm sm:text-base break-words">{request.title}</h3>
+                      <div className="flex flex-wrap items-center gap-2 mt-1 mb-2">
+                        {request.content_type && (
+                          <Badge variant="neutral" size="sm">{CONTENT_TYPE_LABELS[request.content_type]}</Badge>
+                        )}
+                        {request.categories && <Badge variant="secondary" size="sm">{request.categories.name}</Badge>}
+                        {request.year && <Badge variant="neutral" size="sm">Year {request.year}</Badge>}
+                        {request.semester && <Badge variant="neutral" size="sm">Sem {request.semester}</Badge>}
+                      </div>
+                      {request.details && (
+                        <p className="text-sm text-gray-700 mb-2 leading-relaxed">{request.details}</p>
+                      )}
+
+                      {request.status === 'fulfilled' && request.fulfilled_content && (
+                        <button
+                          type="button"
+                          onClick={() => navigate(`/?content=${request.fulfilled_content!.id}`)}
+                          className="flex items-center text-sm text-green-700 hover:underline mb-2 text-left"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+                          <span className="break-words">
+                            Answered with "{request.fulfilled_content.title}"
+                            {request.fulfiller && ` by @${request.fulfiller.username}`}
+                          </span>
+                        </button>
+                      )}
+
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-xs sm:text-sm text-gray-500">
+                        <span>
+                          {isOwn ? 'You' : `@${request.requester?.username || 'unknown'}`} asked{' '}
+                          {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                        </span>
+                        {request.status === 'fulfilled' && isOwn && (
+                          <Button variant="ghost" size="sm" onClick={() => handleReopen(request)}>
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Not what I needed
+                          </Button>
+                        )}
+                        {request.status === 'open' && (
+                          <div className="flex items-center gap-2">
+                            {isOwn && (
+                              <Button variant="ghost" size="sm" onClick={() => handleClose(request)}>
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Close
+                              </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => openFulfilModal(request)}>
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              I have this
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* New Request Modal */}
+        <Modal
+          isOpen={showNewModal}
+          onClose={() => setShowNewModal(false)}
+          title="Ask for Material"
+          size="lg"
+        >
+          <form onSubmit={handleCreate} className="space-y-4">
+            {formError && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200">
+                {formError}
+              </div>
+            )}
+
+            <Input
+              label="What do you need? *"
+              value={form.title}
+              onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="e.g., 2023 OS mid-sem paper"
+              maxLength={150}
+              required
+              disabled={submitting}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Details (optional)</label>
+              <textarea
+                value={form.details}
+                onChange={(e) => setForm(prev => ({ ...prev, details: e.target.value }))}
+                rows={3}
+                maxLength={1000}
+                className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                placeholder="Professor, section, or anything that helps someone find the right file"
+                disabled={submitting}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                <select
+                  value={form.contentType}
+                  onChange={(e) => setForm(prev => ({ ...prev, contentType: e.target.value as ResourceRequestContentType | '' }))}
+                  className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm bg-white"
+                  disabled={submitting}
+                >
+                  <option value="">Any</option>
+                  {Object.entries(CONTENT_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Subject</label>
+                <select
+                  value={form.categoryId}
+                  onChange={(e) => setForm(prev => ({ ...prev, categoryId: e.target.value }))}
+                  className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm bg-white"
+                  disabled={submitting}
+                >
+                  <option value="">Any</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Year</label>
+                <select
+                  value={form.year}
+                  onChange={(e) => setForm(prev => ({ ...prev, year: e.target.value }))}
+                  className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm bg-white"
+                  disabled={submitting}
+                >
+                  <option value="">Any</option>
+                  {[1, 2, 3, 4, 5].map(year => (
+                    <option key={year} value={year}>Year {year}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Semester</label>
+                <select
+                  value={form.semester}
+                  onChange={(e) => setForm(prev => ({ ...prev, semester: e.target.value }))}
+                  className="block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm bg-white"
+                  disabled={submitting}
+                >
+                  <option value="">Any</option>
+                  {Array.from({ length: 10 }, (_, i) => i + 1).map(semester => (
+                    <option key={semester} value={semester}>Semester {semester}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={() => setShowNewModal(false)} disabled={submitting} size="sm">
+                Cancel
+              </Button>
+              <Button type="submit" loading={submitting} disabled={submitting} size="sm">
+                Post Request
+              </Button>
+            </div>
+          </form>
+        </Modal>
+
+        {/* Fulfil Modal */}
+        <Modal
+          isOpen={!!fulfilling}
+          onClose={() => setFulfilling(null)}
+          title="Answer this request"
+          size="lg"
+        >
+          {fulfilling && (
+            <div className="space-y-5">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-900">{fulfilling.title}</p>
+                {fulfilling.details && <p className="text-sm text-gray-600 mt-1">{fulfilling.details}</p>}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2 flex items-center">
+                  <Link2 className="h-4 w-4 mr-1" />
+                  Link a resource that's already here
+                </h4>
+                <form onSubmit={handleSearch} className="flex gap-2 mb-3">
+                  <input
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search resources"
+                    className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                  />
+                  <Button type="submit" size="sm" variant="outline" loading={searching} disabled={searching}>
+                    <Search className="h-4 w-4" />
+                  </Button>
+                </form>
+                {searchResults.length > 0 && (
+                  <div className="space-y-2 max-h-60 overflow-y-auto">
+                    {searchResults.map(result => (
+                      <div key={result.id} className="flex items-center justify-between p-2 border border-gray-200 rounded-lg">
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-900 truncate">{result.title}</p>
+                          {result.categories && <p className="text-xs text-gray-500 truncate">{result.categories.name}</p>}
+                        </div>
+                        <Button
+                          size="sm"
+                          onClick={() => handleLink(result.id)}
+                          loading={linking === result.id}
+                          disabled={!!linking}
+                          className="ml-2 flex-shrink-0"
+                        >
+                          Link
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="border-t border-gray-200 pt-4">
+                <h4 className="text-sm font-medium text-gray-900 mb-2 flex items-center">
+                  <Upload className="h-4 w-4 mr-1" />
+                  Or upload it
+                </h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  Once your upload is done, the request is answered and {fulfilling.requester ? `@${fulfilling.requester.username}` : 'the requester'} is notified.
+                </p>
+                <Button size="sm" onClick={() => navigate(`/upload?request=${fulfilling.id}`)}>
+                  Upload a File
+                </Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+      </div>
+    </div>
+  )
+}
+
+export default RequestBoardPage
@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Globe, FolderOpen, User } from 'lucide-react'
+import { getSharedCollection, SharedCollection } from '../services/collectionService'
+import { ContentWithCategory } from '../services/contentService'
+import ContentCard from '../components/content/ContentCard'
+import ContentViewer from '../components/content/ContentViewer'
+import LoadingSpinner from '../components/ui/LoadingSpinner'
+import Button from '../components/ui/Button'
+import { formatDistanceToNow } from 'date-fns'
+import { logger } from '../utils/logger'
+
+const SharedCollectionPage: React.FC = () => {
+  const { shareToken } = useParams<{ shareToken: string }>()
+  const [collection, setCollection] = useState<SharedCollection | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [selectedContent, setSelectedContent] = useState<ContentWithCategory | null>(null)
+  const [showViewer, setShowViewer] = useState(false)
+
+  useEffect(() => {
+    const fetchCollection = async () => {
+      if (!shareToken) return
+
+      try {
+        setCollection(await getSharedCollection(shareToken))
+      } catch (error) {
+        logger.error('Failed to fetch shared collection:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCollection()
+  }, [shareToken])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 sm:p-12 text-center max-w-md">
+          <FolderOpen className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-base sm:text-lg font-medium text-gray-900 mb-2">Collection not available</h1>
+          <p className="text-sm sm:text-base text-gray-600 mb-6">
+            This link is invalid, or the owner has stopped sharing the collection.
+          </p>
+          <Link to="/">
+            <Button size="sm">Browse Resources</Button>
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20 sm:pb-4 md:pb-0">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-12">
+        <div className="mb-6 sm:mb-8">
+          <div className="flex items-center space-x-2 text-sm text-gray-500 mb-2">
+            <Globe className="h-4 w-4" />
+            <span>Shared collection</span>
+          </div>
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900 mb-2">{collection.name}</h1>
+          {collection.description && (
+            <p className="text-sm sm:text-base text-gray-600 mb-3">{collection.description}</p>
+          )}
+          <div className="flex items-center space-x-2 text-xs sm:text-sm text-gray-500">
+            <User className="h-4 w-4" />
+            <span>
+              @{collection.owner.username} · {collection.items.length} {collection.items.length === 1 ? 'resource' : 'resources'} · updated{' '}
+              {formatDistanceToNow(new Date(collection.updated_at), { addSuffix: true })}
+            </span>
+          </div>
+        </div>
+
+        {collection.items.length === 0 ? (
+          <div className="text-center py-8 sm:py-12">
+            <FolderOpen className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-sm sm:text-base text-gray-600">This collection is empty</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 sm:gap-6">
+            {collection.items.map(content => (
+              <ContentCard
+                key={content.id}
+                content={content}
+                onClick={() => {
+                  setSelectedContent(content)
+                  setShowViewer(true)
+                }}
+                showUploader={true}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Content Viewer Modal */}
+        <ContentViewer
+          content={selectedContent}
+          isOpen={showViewer}
+          onClose={() => {
+            setShowViewer(false)
+            setSelectedContent(null)
+          }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default SharedCollectionPage
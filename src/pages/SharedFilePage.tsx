@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Download, FileText, Link2, User, Clock } from 'lucide-react'
+import { getSharedFileInfo, redeemShareLink, SharedFileInfo, ShareLinkStatus } from '../services/shareLinkService'
+import LoadingSpinner from '../components/ui/LoadingSpinner'
+import Button from '../components/ui/Button'
+import { formatDistanceToNow } from 'date-fns'
+import { logger } from '../utils/logger'
+import { getErrorMessage } from '../utils/errorHandling'
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<ShareLinkStatus, 'active'>, { title: string; message: string }> = {
+  not_found: { title: 'Link not found', message: 'This link is invalid. Check that you copied all of it.' },
+  revoked: { title: 'Link revoked', message: 'The person who shared this file has turned the link off.' },
+  expired: { title: 'Link expired', message: 'This link has expired. Ask the person who shared it for a new one.' },
+  used_up: { title: 'Download limit reached', message: 'This link has been used as many times as it allows.' }
+}
+
+const SharedFilePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>()
+  const [info, setInfo] = useState<SharedFileInfo | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [downloading, setDownloading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchInfo = async () => {
+      if (!token) return
+
+      try {
+        setInfo(await getSharedFileInfo(token))
+      } catch (err) {
+        logger.error('Failed to fetch shared file:', err)
+        setInfo({ status: 'not_found' })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchInfo()
+  }, [token])
+
+  const handleDownload = async () => {
+    if (!token) return
+
+    setDownloading(true)
+    setError('')
+    try {
+      const { secureUrl } = await redeemShareLink(token)
+      window.location.href = secureUrl
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to download file'))
+    } finally {
+      setDownloading(false)
+    }
+
+    // Refresh the remaining downloads without counting another one
+    getSharedFileInfo(token).then(setInfo).catch(err => logger.error('Failed to refresh shared file:', err))
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!info || info.status !== 'active') {
+    const unavailable = UNAVAILABLE_MESSAGES[info && info.status !== 'active' ? info.status : 'not_found']
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 sm:p-12 text-center max-w-md">
+          <Link2 className="h-12 w-12 sm:h-16 sm:w-16 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-base sm:text-lg font-medium text-gray-900 mb-2">{unavailable.title}</h1>
+          <p className="text-sm sm:text-base text-gray-600 mb-6">{unavailable.message}</p>
+          <Link to="/">
+            <Button size="sm">Browse Resources</Button>
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4 pb-20 sm:pb-4 md:pb-0">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 sm:p-10 max-w-md w-full">
+        <div className="flex items-center space-x-2 text-sm text-gray-500 mb-4">
+          <Link2 className="h-4 w-4" />
+          <span>Shared file</span>
+        </div>
+
+        <div className="flex items-start space-x-3 mb-6">
+          <FileText className="h-10 w-10 text-primary-600 flex-shrink-0" />
+          <h1 className="text-lg sm:text-xl font-bold text-gray-900 break-words">{info.fileName}</h1>
+        </div>
+
+        <div className="space-y-2 text-sm text-gray-600 mb-6">
+          {info.sharedBy && (
+            <div className="flex items-center space-x-2">
+              <User className="h-4 w-4" />
+              <span>Shared by @{info.sharedBy.username}</span>
+            </div>
+          )}
+          {info.expiresAt && (
+            <div className="flex items-center space-x-2">
+              <Clock className="h-4 w-4" />
+              <span>Expires {formatDistanceToNow(new Date(info.expiresAt), { addSuffix: true })}</span>
+            </div>
+          )}
+          {info.remainingDownloads != null && (
+            <div className="flex items-center space-x-2">
+              <Download className="h-4 w-4" />
+              <span>
+                {info.remainingDownloads} download{info.remainingDownloads === 1 ? '' : 's'} left
+              </span>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 mb-4 text-sm text-red-600 bg-red-50 rounded-lg border border-red-200">
+            {error}
+          </div>
+        )}
+
+        <Button
+          onClick={handleDownload}
+          loading={downloading}
+          disabled={downloading}
+          className="w-full"
+          icon={<Download className="h-4 w-4" />}
+        >
+          Download
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default SharedFilePage
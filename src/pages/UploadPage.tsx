@@ -1,11 +1,29 @@
-import React from 'react'
-import { Navigate } from 'react-router-dom'
+import React, { useState, useEffect } from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import FileUploadForm from '../components/upload/FileUploadForm'
 import LoadingSpinner from '../components/ui/LoadingSpinner'
+import { getResourceRequest, ResourceRequest } from '../services/resourceRequestService'
+import { logger } from '../utils/logger'
 
 const UploadPage: React.FC = () => {
   const { user, loading, isGuest } = useAuth()
+  const location = useLocation()
+  const [fulfilRequest, setFulfilRequest] = useState<ResourceRequest | null>(null)
+
+  // Uploads started from the request board answer that request
+  const requestId = new URLSearchParams(location.search).get('request')
+
+  useEffect(() => {
+    if (!requestId) {
+      setFulfilRequest(null)
+      return
+    }
+
+    getResourceRequest(requestId)
+      .then(setFulfilRequest)
+      .catch(error => logger.error('Failed to load resource request:', error))
+  }, [requestId])
 
   if (loading) {
     return (
@@ -21,9 +39,9 @@ const UploadPage: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gray-50 py-4 sm:py-6 lg:py-12 px-4 pb-20 sm:pb-4 lg:pb-0">
-      <FileUploadForm />
+      <FileUploadForm fulfilRequest={fulfilRequest} />
     </div>
   )
 }
 
-export default UploadPage
\ No newline at end of file
+export default UploadPage
@@ -6,6 +6,8 @@ import { ContentWithCategory } from '../services/contentService'
 import { useAuth } from '../contexts/AuthContext'
 import ContentCard from '../components/content/ContentCard'
 import ContentViewer from '../components/content/ContentViewer'
+import StorageUsageCard from '../components/profile/StorageUsageCard'
+import FileAnalyticsCard from '../components/profile/FileAnalyticsCard'
 import Button from '../components/ui/Button'
 import Input from '../components/ui/Input'
 import Modal from '../components/ui/Modal'
@@ -15,7 +17,7 @@ import { formatDistanceToNow } from 'date-fns'
 
 const UserProfilePage: React.FC = () => {
   const { userId } = useParams<{ userId: string }>()
-  const { user: currentUser } = useAuth()
+  const { user: currentUser, profile: currentProfile } = useAuth()
   
   const [profile, setProfile] = useState<any>(null)
   const [stats, setStats] = useState<UserStats | null>(null)
@@ -35,6 +37,7 @@ const UserProfilePage: React.FC = () => {
   })
 
   const isOwnProfile = currentUser?.id === userId
+  const isAdmin = !!currentProfile?.is_admin
 
   const fetchUserData = useCallback(async () => {
     if (!userId) return
@@ -224,6 +227,16 @@ const UserProfilePage: React.FC = () => {
           </div>
         )}
 
+        {/* Storage usage is private to the user and admins */}
+        {userId && (isOwnProfile || isAdmin) && (
+          <StorageUsageCard userId={userId} canManage={isAdmin} />
+        )}
+
+        {/* Per-file views and downloads, for the uploader and admins */}
+        {userId && (isOwnProfile || isAdmin) && (
+          <FileAnalyticsCard userId={userId} />
+        )}
+
         {/* Content Breakdown */}
         {stats && (stats.contentTypes.length > 0 || stats.categories.length > 0) && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 lg:gap-8 mb-6 sm:mb-8">
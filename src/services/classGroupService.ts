@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase'
 import { Database } from '../types/database.types'
+import { uploadFile } from './fileUploadService'
 
 // Rate limiting to prevent excessive API calls
 const API_CALL_LIMITS = {
@@ -132,6 +133,29 @@ export interface GroupMessage extends GroupMessage {
   file_size?: number | null
 }
 
+export interface GroupAnnouncementWithCreator {
+  id: string
+  group_id: string
+  created_by: string
+  title: string
+  content: string
+  is_important: boolean
+  is_pinned: boolean
+  expires_at: string | null
+  created_at: string
+  creator: {
+    username: string
+    full_name: string | null
+  } | null
+}
+
+export interface AnnouncementAcknowledgement {
+  user_id: string
+  username: string
+  full_name: string | null
+  acknowledged_at: string | null
+}
+
 // Get all available class groups
 export const getAllClassGroups = async (): Promise<ClassGroupWithDetails[]> => {
   if (!supabase) {
@@ -515,6 +539,7 @@ export const getGroupMessages = async (
       .from('group_messages')
       .select('*')
       .eq('group_id', groupId)
+      .is('reply_to', null) // Thread replies load in their thread
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1)
 
@@ -608,27 +633,18 @@ export const uploadGroupFile = async (
 ): Promise<GroupFile> => {
   if (!supabase) throw new Error('Supabase not available')
 
-  // Upload file to storage
-  const fileName = `${Date.now()}-${file.name}`
-  const filePath = `group-files/${groupId}/${fileName}`
-
-  const { error: uploadError } = await supabase.storage
-    .from('files')
-    .upload(filePath, file)
-
-  if (uploadError) throw uploadError
-
-  // Get public URL
-  const { data: urlData } = supabase.storage
-    .from('files')
-    .getPublicUrl(filePath)
+  // Goes through quarantine; the scan releases it to storage
+  const upload = await uploadFile(file, userId, { folder: 'group-files', purpose: 'group_file', groupId })
+  if (!upload.success || !upload.fileUrl) {
+    throw new Error(upload.error || 'Upload failed')
+  }
 
   // Save file record
   const fileData = {
     group_id: groupId,
     uploaded_by: userId,
     file_name: file.name,
-    file_url: urlData.publicUrl,
+    file_url: upload.fileUrl,
     file_size: file.size,
     file_type: file.type,
     category,
@@ -681,7 +697,8 @@ export const createGroupAnnouncement = async (
   title: string,
   content: string,
   isImportant: boolean = false,
-  expiresAt?: string
+  expiresAt?: string,
+  isPinned: boolean = false
 ): Promise<GroupAnnouncement> => {
   if (!supabase) throw new Error('Supabase not available')
 
@@ -691,6 +708,7 @@ export const createGroupAnnouncement = async (
     title: title.trim(),
     content: content.trim(),
     is_important: isImportant,
+    is_pinned: isPinned,
     expires_at: expiresAt
   }
 
@@ -704,10 +722,10 @@ export const createGroupAnnouncement = async (
   return data
 }
 
-// Get group announcements
+// Get a group's unexpired announcements, pinned ones first
 export const getGroupAnnouncements = async (
   groupId: string
-): Promise<Array<GroupAnnouncement & { creator: { username: string; full_name: string } }>> => {
+): Promise<GroupAnnouncementWithCreator[]> => {
   if (!supabase) return []
 
   const { data, error } = await supabase
@@ -720,18 +738,88 @@ export const getGroupAnnouncements = async (
       )
     `)
     .eq('group_id', groupId)
-    .or('expires_at.is.null,expires_at.gt.now()')
-    .order('is_important', { ascending: false })
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('is_pinned', { ascending: false })
     .order('created_at', { ascending: false })
 
   if (error) throw error
   return data || []
 }
 
-// Subscribe to group messages
+// Pin or unpin an announcement (group admins only)
+export const setGroupAnnouncementPinned = async (announcementId: string, isPinned: boolean): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('group_announcements')
+    .update({ is_pinned: isPinned })
+    .eq('id', announcementId)
+
+  if (error) throw error
+}
+
+// Delete an announcement (group admins only)
+export const deleteGroupAnnouncement = async (announcementId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('group_announcements')
+    .delete()
+    .eq('id', announcementId)
+
+  if (error) throw error
+}
+
+// Get the ids of the announcements the user has already acknowledged
+export const getAcknowledgedAnnouncementIds = async (
+  announcementIds: string[],
+  userId: string
+): Promise<Set<string>> => {
+  if (!supabase || announcementIds.length === 0) return new Set()
+
+  const { data, error } = await supabase
+    .from('group_announcement_acks')
+    .select('announcement_id')
+    .in('announcement_id', announcementIds)
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return new Set((data || []).map((ack: { announcement_id: string }) => ack.announcement_id))
+}
+
+// Record that the user has read an important announcement
+export const acknowledgeGroupAnnouncement = async (announcementId: string, userId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('group_announcement_acks')
+    .upsert(
+      { announcement_id: announcementId, user_id: userId },
+      { onConflict: 'announcement_id,user_id', ignoreDuplicates: true }
+    )
+
+  if (error) throw error
+}
+
+// Get every active member and when they acknowledged an announcement (group admins only)
+export const getAnnouncementAcknowledgements = async (
+  announcementId: string
+): Promise<AnnouncementAcknowledgement[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase.rpc('get_announcement_acknowledgements', {
+    p_announcement_id: announcementId
+  })
+
+  if (error) throw error
+  return data || []
+}
+
+// Subscribe to group messages; updates carry edits such as new poll results
 export const subscribeToGroupMessages = (
   groupId: string,
-  callback: (message: GroupMessageWithProfile) => void
+  callback: (message: GroupMessageWithProfile) => void,
+  onUpdate?: (message: GroupMessage) => void
 ) => {
   if (!supabase) return () => {}
 
@@ -778,6 +866,16 @@ export const subscribeToGroupMessages = (
         }
       }
     )
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'group_messages',
+        filter: `group_id=eq.${groupId}`
+      },
+      (payload) => onUpdate?.(payload.new as GroupMessage)
+    )
     .subscribe()
 
   return () => {
@@ -0,0 +1,351 @@
+import { supabase } from '../lib/supabase'
+import { Database } from '../types/database.types'
+import { apiCache } from '../utils/apiCache'
+import { ContentWithCategory } from './contentService'
+
+type Collection = Database['public']['Tables']['collections']['Row']
+type CollectionInsert = Database['public']['Tables']['collections']['Insert']
+type CollectionUpdate = Database['public']['Tables']['collections']['Update']
+
+export type CollectionVisibility = 'private' | 'group' | 'public'
+
+export interface CollectionWithCount extends Collection {
+  item_count: number
+  class_groups?: {
+    id: string
+    name: string
+  } | null
+}
+
+export interface CollectionWithItems extends CollectionWithCount {
+  items: ContentWithCategory[]
+}
+
+export interface SharedCollection {
+  id: string
+  name: string
+  description: string | null
+  updated_at: string
+  owner: {
+    id: string
+    username: string
+    full_name: string
+  }
+  items: ContentWithCategory[]
+}
+
+// Collection rows as selected with their nested items
+type CollectionRow = Omit<CollectionWithCount, 'item_count'> & {
+  collection_items?: { count: number }[]
+}
+
+interface CollectionItemRow {
+  content_id: string
+  position: number
+  added_at: string
+}
+
+const DEFAULT_COLLECTION_NAME = 'Saved'
+
+const savedContentKey = (userId: string) => apiCache.generateKey('saved_content_ids', { userId })
+
+// Fetch content rows with their relations, preserving the given id order
+const hydrateContent = async (contentIds: string[]): Promise<ContentWithCategory[]> => {
+  if (!supabase || contentIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('content')
+    .select(`
+      *,
+      categories (
+        id,
+        name,
+        slug
+      ),
+      profiles (
+        id,
+        username,
+        full_name
+      )
+    `)
+    .in('id', contentIds)
+
+  if (error) throw error
+
+  const rowMap = new Map<string, ContentWithCategory>()
+  data?.forEach((row: ContentWithCategory) => rowMap.set(row.id, row))
+
+  return contentIds
+    .filter(id => rowMap.has(id))
+    .map(id => rowMap.get(id)!)
+}
+
+// Build a shareable link for a public collection
+export const getCollectionShareUrl = (shareToken: string): string => {
+  return `${window.location.origin}${window.location.pathname}#/collections/shared/${shareToken}`
+}
+
+// Get the user's own collections, plus group-shared collections they can see
+export const getUserCollections = async (userId: string): Promise<{
+  own: CollectionWithCount[]
+  shared: CollectionWithCount[]
+}> => {
+  if (!supabase) return { own: [], shared: [] }
+
+  const { data, error } = await supabase
+    .from('collections')
+    .select(`
+      *,
+      class_groups (
+        id,
+        name
+      ),
+      collection_items (count)
+    `)
+    .order('is_default', { ascending: false })
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+
+  const collections: CollectionWithCount[] = ((data || []) as CollectionRow[]).map(row => {
+    const { collection_items, ...collection } = row
+    return { ...collection, item_count: collection_items?.[0]?.count || 0 }
+  })
+
+  return {
+    own: collections.filter(c => c.owner_id === userId),
+    shared: collections.filter(c => c.owner_id !== userId)
+  }
+}
+
+// Get a collection with its content in saved order
+export const getCollectionWithItems = async (
+  collectionId: string
+): Promise<CollectionWithItems | null> => {
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('collections')
+    .select(`
+      *,
+      class_groups (
+        id,
+        name
+      ),
+      collection_items (
+        content_id,
+        position,
+        added_at
+      )
+    `)
+    .eq('id', collectionId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const { collection_items, ...collection } = data as Omit<CollectionWithCount, 'item_count'> & {
+    collection_items?: CollectionItemRow[]
+  }
+  const orderedIds = (collection_items || [])
+    .sort((a, b) => a.position - b.position || a.added_at.localeCompare(b.added_at))
+    .map(item => item.content_id)
+
+  return {
+    ...collection,
+    item_count: orderedIds.length,
+    items: await hydrateContent(orderedIds)
+  }
+}
+
+// Resolve a public share link
+export const getSharedCollection = async (shareToken: string): Promise<SharedCollection | null> => {
+  if (!supabase) return null
+
+  const { data, error } = await supabase.rpc('get_shared_collection', {
+    p_share_token: shareToken
+  })
+
+  if (error) throw error
+  if (!data) return null
+
+  const { content_ids, ...collection } = data
+  return {
+    ...collection,
+    items: await hydrateContent(content_ids || [])
+  }
+}
+
+// Create a collection
+export const createCollection = async (
+  collectionData: Omit<CollectionInsert, 'is_default' | 'share_token'>
+): Promise<Collection> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase
+    .from('collections')
+    .insert([{ ...collectionData, name: collectionData.name.trim() }])
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Rename a collection or change who can see it
+export const updateCollection = async (
+  collectionId: string,
+  updates: Pick<CollectionUpdate, 'name' | 'description' | 'visibility' | 'group_id'>
+): Promise<Collection> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase
+    .from('collections')
+    .update({
+      ...updates,
+      group_id: updates.visibility && updates.visibility !== 'group' ? null : updates.group_id
+    })
+    .eq('id', collectionId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Delete a collection and its items
+export const deleteCollection = async (collectionId: string, userId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('collections')
+    .delete()
+    .eq('id', collectionId)
+
+  if (error) throw error
+  apiCache.invalidate(savedContentKey(userId))
+}
+
+// Add content to a collection
+export const addToCollection = async (
+  collectionId: string,
+  contentId: string,
+  userId: string
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('collection_items')
+    .insert([{ collection_id: collectionId, content_id: contentId }])
+
+  // Already in the collection
+  if (error && error.code !== '23505') throw error
+  apiCache.invalidate(savedContentKey(userId))
+}
+
+// Remove content from a collection
+export const removeFromCollection = async (
+  collectionId: string,
+  contentId: string,
+  userId: string
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('collection_items')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('content_id', contentId)
+
+  if (error) throw error
+  apiCache.invalidate(savedContentKey(userId))
+}
+
+// Persist a new item order
+export const reorderCollectionItems = async (
+  collectionId: string,
+  contentIds: string[]
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase.rpc('reorder_collection_items', {
+    p_collection_id: collectionId,
+    p_content_ids: contentIds
+  })
+
+  if (error) throw error
+}
+
+// Get or lazily create the user's default "Saved" collection
+const getDefaultCollection = async (userId: string): Promise<Collection> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data: existing, error } = await supabase
+    .from('collections')
+    .select('*')
+    .eq('owner_id', userId)
+    .eq('is_default', true)
+    .maybeSingle()
+
+  if (error) throw error
+  if (existing) return existing
+
+  const { data, error: insertError } = await supabase
+    .from('collections')
+    .insert([{ owner_id: userId, name: DEFAULT_COLLECTION_NAME, is_default: true }])
+    .select()
+    .single()
+
+  if (insertError) throw insertError
+  return data
+}
+
+// Content ids in the user's default collection (shared by every ContentCard on a page)
+export const getSavedContentIds = async (userId: string): Promise<Set<string>> => {
+  if (!supabase) return new Set()
+
+  return apiCache.getOrFetch(savedContentKey(userId), async () => {
+    const { data, error } = await supabase!
+      .from('collection_items')
+      .select('content_id, collections!inner(owner_id, is_default)')
+      .eq('collections.owner_id', userId)
+      .eq('collections.is_default', true)
+
+    if (error) throw error
+    return new Set<string>((data || []).map((item: { content_id: string }) => item.content_id))
+  }, 60000) // Cache for 1 minute
+}
+
+// One-click bookmark: toggle content in the default collection; returns true if now saved
+export const toggleSavedContent = async (
+  contentId: string,
+  userId: string,
+  isSaved: boolean
+): Promise<boolean> => {
+  const collection = await getDefaultCollection(userId)
+
+  if (isSaved) {
+    await removeFromCollection(collection.id, contentId, userId)
+    return false
+  }
+
+  await addToCollection(collection.id, contentId, userId)
+  return true
+}
+
+// Ids of the user's collections that already contain a content item
+export const getCollectionIdsForContent = async (
+  contentId: string,
+  userId: string
+): Promise<string[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('collection_items')
+    .select('collection_id, collections!inner(owner_id)')
+    .eq('content_id', contentId)
+    .eq('collections.owner_id', userId)
+
+  if (error) throw error
+  return (data || []).map((item: { collection_id: string }) => item.collection_id)
+}
@@ -0,0 +1,131 @@
+import { supabase } from '../lib/supabase'
+import { Database } from '../types/database.types'
+
+type ContentComment = Database['public']['Tables']['content_comments']['Row']
+
+export const MAX_COMMENT_LENGTH = 2000
+
+export interface ContentCommentWithProfile extends ContentComment {
+  profiles?: {
+    id: string
+    username: string
+    full_name: string
+  } | null
+}
+
+export interface CommentThread extends ContentCommentWithProfile {
+  replies: CommentThread[]
+}
+
+// Nest a flat, oldest-first comment list into reply threads
+const buildThreads = (comments: ContentCommentWithProfile[]): CommentThread[] => {
+  const nodes = new Map<string, CommentThread>()
+  comments.forEach(comment => nodes.set(comment.id, { ...comment, replies: [] }))
+
+  const roots: CommentThread[] = []
+  nodes.forEach(node => {
+    // Replies to a hidden comment surface at the top level rather than vanishing
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+    if (parent) {
+      parent.replies.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  return roots
+}
+
+const validateBody = (body: string): string => {
+  const trimmed = body.trim()
+  if (!trimmed) {
+    throw new Error('Comment cannot be empty')
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comment must be ${MAX_COMMENT_LENGTH} characters or fewer`)
+  }
+  return trimmed
+}
+
+// Get the comment threads for a content item
+export const getContentComments = async (contentId: string): Promise<{
+  threads: CommentThread[]
+  total: number
+}> => {
+  if (!supabase) return { threads: [], total: 0 }
+
+  const { data, error } = await supabase
+    .from('content_comments')
+    .select(`
+      *,
+      profiles!content_comments_user_id_fkey (
+        id,
+        username,
+        full_name
+      )
+    `)
+    .eq('content_id', contentId)
+    .eq('is_hidden', false)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  const comments: ContentCommentWithProfile[] = data || []
+  return {
+    threads: buildThreads(comments),
+    total: comments.filter(comment => !comment.is_deleted).length
+  }
+}
+
+// Post a top-level comment or a reply
+export const createComment = async (
+  contentId: string,
+  userId: string,
+  body: string,
+  parentId?: string
+): Promise<ContentComment> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase
+    .from('content_comments')
+    .insert([{
+      content_id: contentId,
+      user_id: userId,
+      parent_id: parentId || null,
+      body: validateBody(body)
+    }])
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Edit the text of the user's own comment
+export const updateComment = async (
+  commentId: string,
+  body: string
+): Promise<ContentComment> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase
+    .from('content_comments')
+    .update({ body: validateBody(body) })
+    .eq('id', commentId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Delete a comment (replies to it are kept under a placeholder)
+export const deleteComment = async (commentId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase.rpc('delete_content_comment', {
+    p_comment_id: commentId
+  })
+
+  if (error) throw error
+}
@@ -0,0 +1,203 @@
+/**
+ * In-browser file compression
+ *
+ * Phone photos of notes are usually far above the 5MB upload limit. Images are
+ * resized and re-encoded until they fit a target size, and several photos can be
+ * merged into a single PDF so a set of pages uploads as one document.
+ */
+
+// Images above this size are re-encoded even when they are under the upload limit
+export const COMPRESSION_TARGET_BYTES = 2 * 1024 * 1024 // 2MB
+
+const COMPRESSIBLE_IMAGE_TYPES = ['jpg', 'jpeg', 'png', 'webp']
+
+// Longest edge kept for photos; enough to read handwriting when zoomed in
+const MAX_IMAGE_DIMENSION = 2560
+const MIN_IMAGE_DIMENSION = 800
+const QUALITY_STEPS = [0.85, 0.75, 0.65, 0.55]
+
+// A4 portrait in PDF points
+const PDF_PAGE_WIDTH = 595.28
+const PDF_PAGE_HEIGHT = 841.89
+
+export interface CompressionResult {
+  file: File
+  originalSize: number
+  compressed: boolean
+}
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || ''
+
+const replaceExtension = (fileName: string, extension: string) => {
+  const base = fileName.includes('.') ? fileName.split('.').slice(0, -1).join('.') : fileName
+  return `${base}.${extension}`
+}
+
+/**
+ * Whether a file is an image this service can resize and re-encode
+ */
+export const isCompressibleImage = (file: File): boolean =>
+  COMPRESSIBLE_IMAGE_TYPES.includes(getExtension(file.name))
+
+const loadImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch {
+    throw new Error('This image could not be read for compression')
+  }
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Image encoding failed'))),
+      type,
+      quality
+    )
+  })
+
+/**
+ * Draw an image at a given scale and encode it, flattening transparency onto white
+ */
+const encodeImage = async (
+  image: ImageBitmap,
+  scale: number,
+  type: string,
+  quality: number
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(image.width * scale))
+  canvas.height = Math.max(1, Math.round(image.height * scale))
+
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Image compression is not supported in this browser')
+
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+  return canvasToBlob(canvas, type, quality)
+}
+
+/**
+ * Resize and re-encode an image until it is at most `targetBytes`.
+ * Quality is lowered first, then the image is scaled down step by step.
+ */
+export const compressImage = async (
+  file: File,
+  targetBytes: number = COMPRESSION_TARGET_BYTES
+): Promise<CompressionResult> => {
+  const originalSize = file.size
+  if (!isCompressibleImage(file) || file.size <= targetBytes) {
+    return { file, originalSize, compressed: false }
+  }
+
+  const image = await loadImage(file)
+
+  try {
+    // WebP stays WebP; everything else becomes JPEG, which suits photos best
+    const keepWebp = getExtension(file.name) === 'webp'
+    const type = keepWebp ? 'image/webp' : 'image/jpeg'
+    const extension = keepWebp ? 'webp' : 'jpg'
+
+    let scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.width, image.height))
+    let smallest = await encodeImage(image, scale, type, QUALITY_STEPS[0])
+
+    const tryEncode = async (quality: number) => {
+      const blob = await encodeImage(image, scale, type, quality)
+      if (blob.size < smallest.size) smallest = blob
+    }
+
+    while (smallest.size > targetBytes) {
+      for (const quality of QUALITY_STEPS.slice(1)) {
+        await tryEncode(quality)
+        if (smallest.size <= targetBytes) break
+      }
+
+      const longestEdge = Math.max(image.width, image.height) * scale
+      if (smallest.size <= targetBytes || longestEdge * 0.8 < MIN_IMAGE_DIMENSION) break
+
+      scale *= 0.8
+      await tryEncode(QUALITY_STEPS[0])
+    }
+
+    // Never hand back something larger than what the user picked
+    if (smallest.size >= originalSize) {
+      return { file, originalSize, compressed: false }
+    }
+
+    return {
+      file: new File([smallest], replaceExtension(file.name, extension), {
+        type,
+        lastModified: file.lastModified
+      }),
+      originalSize,
+      compressed: true
+    }
+  } finally {
+    image.close()
+  }
+}
+
+/**
+ * Merge photos into one PDF named `<title>.pdf`, with a page per photo in the order given.
+ * Each photo is compressed first so the whole document fits `targetBytes`.
+ */
+export const mergeImagesToPdf = async (
+  files: File[],
+  title: string,
+  targetBytes: number = COMPRESSION_TARGET_BYTES
+): Promise<CompressionResult> => {
+  if (files.length === 0) throw new Error('Choose at least one photo to combine')
+
+  const { PDFDocument } = await import('pdf-lib')
+  const pdf = await PDFDocument.create()
+  const originalSize = files.reduce((total, file) => total + file.size, 0)
+  const perPageTarget = Math.max(200 * 1024, Math.floor(targetBytes / files.length))
+
+  for (const file of files) {
+    const { file: pageImage } = await compressImage(file, perPageTarget)
+    const bytes = await pageImage.arrayBuffer()
+    const extension = getExtension(pageImage.name)
+
+    // pdf-lib only embeds JPEG and PNG, so WebP pages are re-encoded as JPEG
+    let embedded
+    if (extension === 'png') {
+      embedded = await pdf.embedPng(bytes)
+    } else if (extension === 'jpg' || extension === 'jpeg') {
+      embedded = await pdf.embedJpg(bytes)
+    } else {
+      const image = await loadImage(pageImage)
+      try {
+        const jpeg = await encodeImage(image, 1, 'image/jpeg', QUALITY_STEPS[0])
+        embedded = await pdf.embedJpg(await jpeg.arrayBuffer())
+      } finally {
+        image.close()
+      }
+    }
+
+    // Fit each photo on an A4 page, turning the page for landscape photos
+    const landscape = embedded.width > embedded.height
+    const pageWidth = landscape ? PDF_PAGE_HEIGHT : PDF_PAGE_WIDTH
+    const pageHeight = landscape ? PDF_PAGE_WIDTH : PDF_PAGE_HEIGHT
+    const fit = Math.min(pageWidth / embedded.width, pageHeight / embedded.height)
+    const width = embedded.width * fit
+    const height = embedded.height * fit
+
+    const page = pdf.addPage([pageWidth, pageHeight])
+    page.drawImage(embedded, {
+      x: (pageWidth - width) / 2,
+      y: (pageHeight - height) / 2,
+      width,
+      height
+    })
+  }
+
+  const pdfBytes = await pdf.save()
+
+  return {
+    file: new File([new Uint8Array(pdfBytes)], `${title}.pdf`, { type: 'application/pdf' }),
+    originalSize,
+    compressed: true
+  }
+}
@@ -2,6 +2,8 @@ import { supabase } from '../lib/supabase'
 import { isSupabaseConfigured } from '../lib/supabase'
 import { Database } from '../types/database.types'
 import { apiCache } from '../utils/apiCache'
+import { getErrorMessage } from '../utils/errorHandling'
+import { logger } from '../utils/logger'
 
 type Content = Database['public']['Tables']['content']['Row']
 type ContentInsert = Database['public']['Tables']['content']['Insert']
@@ -93,6 +95,293 @@ export const getApprovedContent = async (
   }, 30000) // Cache for 30 seconds
 }
 
+export interface HighlightSegment {
+  text: string
+  matched: boolean
+}
+
+export interface ContentSearchResult extends ContentWithCategory {
+  search_rank: number
+  highlight: {
+    title: HighlightSegment[]
+    snippet: HighlightSegment[]
+  }
+}
+
+export interface ContentFacetFilters {
+  contentType?: Content['content_type']
+  categoryId?: string
+  year?: number
+  semester?: number
+  fileType?: string
+  tags?: string[]
+}
+
+// 'default' is relevance when searching and newest first otherwise
+export type ContentSortOrder = 'default' | 'rating'
+
+export interface ContentSearchOptions extends ContentFacetFilters {
+  limit?: number
+  offset?: number
+  sortBy?: ContentSortOrder
+}
+
+export interface FacetBucket<T = string> {
+  value: T
+  count: number
+}
+
+export interface ContentFacets {
+  total: number
+  content_type: FacetBucket<Content['content_type']>[]
+  year: FacetBucket<number>[]
+  semester: FacetBucket<number>[]
+  file_type: FacetBucket[]
+  tags: FacetBucket[]
+}
+
+export interface FacetedContentResult {
+  items: ContentWithCategory[]
+  facets: ContentFacets
+}
+
+const EMPTY_FACETS: ContentFacets = {
+  total: 0,
+  content_type: [],
+  year: [],
+  semester: [],
+  file_type: [],
+  tags: []
+}
+
+// One row returned by the search_content function
+interface ContentSearchMatch {
+  content_id: string
+  search_rank: number
+  title_highlight: string | null
+  snippet: string | null
+}
+
+// ts_headline wraps matched terms in U+0002 ... U+0003 (see search_content in migrations)
+const HIGHLIGHT_START = '\u0002'
+const HIGHLIGHT_END = '\u0003'
+
+const parseHighlight = (headline: string | null): HighlightSegment[] => {
+  if (!headline) return []
+
+  const [leading, ...highlighted] = headline.split(HIGHLIGHT_START)
+  const segments: HighlightSegment[] = [{ text: leading, matched: false }]
+
+  for (const part of highlighted) {
+    const [matched, ...rest] = part.split(HIGHLIGHT_END)
+    segments.push({ text: matched, matched: true }, { text: rest.join(''), matched: false })
+  }
+
+  return segments.filter(segment => segment.text)
+}
+
+// Map UI filters onto the filter parameters shared by search_content and get_content_facets
+const toFacetParams = (filters: ContentFacetFilters) => ({
+  content_type_filter: filters.contentType || null,
+  category_filter: filters.categoryId || null,
+  year_filter: filters.year ?? null,
+  semester_filter: filters.semester ?? null,
+  file_type_filter: filters.fileType || null,
+  tags_filter: filters.tags && filters.tags.length > 0 ? filters.tags : null
+})
+
+// Ranked full-text search over title, description, tags and category name
+export const searchContent = async (
+  searchQuery: string,
+  options: ContentSearchOptions = {}
+): Promise<ContentSearchResult[]> => {
+  const { limit = 20, offset = 0, sortBy = 'default', ...filters } = options
+  const trimmedQuery = searchQuery.trim()
+
+  if (!isSupabaseConfigured() || !trimmedQuery) {
+    return []
+  }
+
+  const cacheKey = apiCache.generateKey('search_content', {
+    trimmedQuery,
+    ...filters,
+    limit,
+    offset,
+    sortBy
+  })
+
+  return apiCache.getOrFetch(cacheKey, async () => {
+    try {
+      if (!supabase) {
+        logger.warn('Supabase client is not available')
+        return []
+      }
+
+      const { data, error: searchError } = await supabase.rpc('search_content', {
+        search_query: trimmedQuery,
+        ...toFacetParams(filters),
+        result_limit: limit,
+        result_offset: offset,
+        sort_by: sortBy === 'rating' ? 'rating' : 'relevance'
+      })
+
+      if (searchError) throw searchError
+      const matches = (data || []) as ContentSearchMatch[]
+      if (matches.length === 0) return []
+
+      // Fetch the full rows with their relations, then restore rank order
+      const { data: rows, error } = await supabase
+        .from('content')
+        .select(`
+          *,
+          categories (
+            id,
+            name,
+            slug
+          ),
+          profiles (
+            id,
+            username,
+            full_name
+          )
+        `)
+        .in('id', matches.map(match => match.content_id))
+
+      if (error) throw error
+
+      const rowMap = new Map<string, ContentWithCategory>()
+      rows?.forEach((row: ContentWithCategory) => rowMap.set(row.id, row))
+
+      return matches
+        .filter(match => rowMap.has(match.content_id))
+        .map(match => ({
+          ...rowMap.get(match.content_id)!,
+          search_rank: match.search_rank,
+          highlight: {
+            title: parseHighlight(match.title_highlight),
+            snippet: parseHighlight(match.snippet)
+          }
+        }))
+    } catch (error) {
+      logger.error('Failed to search content:', error)
+      if (error instanceof TypeError || getErrorMessage(error, '').includes('Failed to fetch')) {
+        throw new Error('Connection problem. Please check your internet.')
+      }
+      throw new Error('Search failed. Please try again.')
+    }
+  }, 30000) // Cache for 30 seconds
+}
+
+// Count matching content per facet value for the current selection
+export const getContentFacets = async (
+  filters: ContentFacetFilters = {},
+  searchQuery?: string
+): Promise<ContentFacets> => {
+  if (!isSupabaseConfigured()) {
+    return EMPTY_FACETS
+  }
+
+  const cacheKey = apiCache.generateKey('content_facets', {
+    ...filters,
+    searchQuery: searchQuery?.trim() || undefined
+  })
+
+  return apiCache.getOrFetch(cacheKey, async () => {
+    if (!supabase) return EMPTY_FACETS
+
+    const { data, error } = await supabase.rpc('get_content_facets', {
+      search_query: searchQuery?.trim() || null,
+      ...toFacetParams(filters)
+    })
+
+    if (error) {
+      logger.error('Failed to fetch content facets:', error)
+      throw new Error('Could not load filters. Please try again.')
+    }
+
+    return { ...EMPTY_FACETS, ...(data || {}) }
+  }, 30000) // Cache for 30 seconds
+}
+
+// Matching rows plus facet counts in one call for the filter sidebar
+export const getFacetedContent = async (
+  filters: ContentFacetFilters = {},
+  searchQuery?: string,
+  limit: number = 20,
+  offset: number = 0,
+  sortBy: ContentSortOrder = 'default'
+): Promise<FacetedContentResult> => {
+  if (!isSupabaseConfigured()) {
+    return { items: [], facets: EMPTY_FACETS }
+  }
+
+  const fetchItems = async (): Promise<ContentWithCategory[]> => {
+    if (searchQuery?.trim()) {
+      return searchContent(searchQuery, { ...filters, limit, offset, sortBy })
+    }
+
+    const cacheKey = apiCache.generateKey('faceted_content', { ...filters, limit, offset, sortBy })
+
+    return apiCache.getOrFetch(cacheKey, async () => {
+      if (!supabase) return []
+
+      let query = supabase
+        .from('content')
+        .select(`
+          *,
+          categories (
+            id,
+            name,
+            slug
+          ),
+          profiles (
+            id,
+            username,
+            full_name
+          )
+        `)
+        .eq('is_approved', true)
+
+      if (sortBy === 'rating') {
+        query = query
+          .order('average_rating', { ascending: false })
+          .order('rating_count', { ascending: false })
+      }
+
+      query = query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (filters.contentType) query = query.eq('content_type', filters.contentType)
+      if (filters.categoryId) query = query.eq('category_id', filters.categoryId)
+      if (filters.year) query = query.eq('year', filters.year)
+      if (filters.semester) query = query.eq('semester', filters.semester)
+      if (filters.fileType) query = query.eq('file_type', filters.fileType)
+      if (filters.tags && filters.tags.length > 0) query = query.contains('tags', filters.tags)
+
+      const { data, error } = await query
+
+      if (error) throw error
+      return data || []
+    }, 30000) // Cache for 30 seconds
+  }
+
+  try {
+    const [items, facets] = await Promise.all([
+      fetchItems(),
+      getContentFacets(filters, searchQuery)
+    ])
+
+    return { items, facets }
+  } catch (error) {
+    logger.error('Failed to fetch faceted content:', error)
+    if (error instanceof TypeError || getErrorMessage(error, '').includes('Failed to fetch')) {
+      throw new Error('Connection problem. Please check your internet.')
+    }
+    throw new Error('Could not load content. Please try again.')
+  }
+}
+
 const getUserContent = async (userId: string): Promise<ContentWithCategory[]> => {
   if (!isSupabaseConfigured()) {
     return []
@@ -157,24 +446,85 @@ export const incrementViewCount = async (contentId: string): Promise<void> => {
     content_id: contentId
   })
 
-  if (error) {
-    // Fallback to manual increment if RPC doesn't exist
-    const { data: content } = await supabase
-      .from('content')
-      .select('view_count')
-      .eq('id', contentId)
-      .single()
+  if (error) throw error
+}
 
-    if (content) {
-      await supabase
-        .from('content')
-        .update({ view_count: (content.view_count || 0) + 1 })
-        .eq('id', contentId)
-    }
+export type TrendingPeriod = 'week' | 'semester'
+
+export interface TrendingContent extends ContentWithCategory {
+  trending: {
+    score: number
+    recentViews: number
+    recentDownloads: number
+    recentRatings: number
   }
 }
 
-const getContentById = async (contentId: string): Promise<ContentWithCategory | null> => {
+// Get the highest-scoring content for a period from the scheduled trending feed
+export const getTrendingContent = async (
+  period: TrendingPeriod = 'week',
+  limit: number = 10
+): Promise<TrendingContent[]> => {
+  if (!isSupabaseConfigured()) return []
+
+  const cacheKey = apiCache.generateKey('trending_content', { period, limit })
+
+  return apiCache.getOrFetch(cacheKey, async () => {
+    if (!supabase) return []
+
+    const { data: scores, error: scoresError } = await supabase
+      .from('trending_content')
+      .select('content_id, score, recent_views, recent_downloads, recent_ratings')
+      .eq('period', period)
+      .order('score', { ascending: false })
+      .limit(limit)
+
+    if (scoresError) throw scoresError
+    if (!scores || scores.length === 0) return []
+
+    const { data: items, error } = await supabase
+      .from('content')
+      .select(`
+        *,
+        categories (
+          id,
+          name,
+          slug
+        ),
+        profiles (
+          id,
+          username,
+          full_name
+        )
+      `)
+      .in('id', scores.map(score => score.content_id))
+      .eq('is_approved', true)
+
+    if (error) throw error
+
+    // Keep the feed's order; items removed since the last refresh drop out
+    const itemsById = new Map((items || []).map(item => [item.id, item]))
+    return scores.flatMap(score => {
+      const item = itemsById.get(score.content_id)
+      if (!item) return []
+
+      return [{
+        ...item,
+        trending: {
+          score: Number(score.score),
+          recentViews: Number(score.recent_views),
+          recentDownloads: Number(score.recent_downloads),
+          recentRatings: Number(score.recent_ratings)
+        }
+      }]
+    })
+  }, 60000) // The feed only changes when it is refreshed
+}
+
+// Get a single content item with its relations
+export const getContentById = async (contentId: string): Promise<ContentWithCategory | null> => {
+  if (!supabase) return null
+
   const { data, error } = await supabase
     .from('content')
     .select(`
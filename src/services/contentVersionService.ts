@@ -0,0 +1,72 @@
+import { supabase } from '../lib/supabase'
+import { Database } from '../types/database.types'
+import { uploadFile, FileUploadOptions } from './fileUploadService'
+
+type ContentVersion = Database['public']['Tables']['content_versions']['Row']
+
+export interface ContentVersionWithUploader extends ContentVersion {
+  profiles?: {
+    id: string
+    username: string
+    full_name: string
+  } | null
+}
+
+// Get every published version of a content item, newest first
+export const getContentVersions = async (
+  contentId: string
+): Promise<ContentVersionWithUploader[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('content_versions')
+    .select(`
+      *,
+      profiles!content_versions_uploaded_by_fkey (
+        id,
+        username,
+        full_name
+      )
+    `)
+    .eq('content_id', contentId)
+    .order('version_number', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Upload a replacement file and publish it as the next version
+export const publishContentVersion = async (
+  contentId: string,
+  file: File,
+  userId: string,
+  changelog: string,
+  options: Pick<FileUploadOptions, 'onProgress'> = {}
+): Promise<ContentVersion> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  if (!changelog.trim()) {
+    throw new Error('Please describe what changed in this version')
+  }
+
+  const upload = await uploadFile(file, userId, {
+    folder: 'versions',
+    onProgress: options.onProgress
+  })
+
+  if (!upload.success || !upload.fileUrl) {
+    throw new Error(upload.error || 'Failed to upload file. Please try again')
+  }
+
+  const { data, error } = await supabase.rpc('publish_content_version', {
+    p_content_id: contentId,
+    p_file_url: upload.fileUrl,
+    p_file_name: file.name,
+    p_file_size: file.size,
+    p_file_type: file.name.split('.').pop()?.toLowerCase() || null,
+    p_changelog: changelog.trim()
+  })
+
+  if (error) throw error
+  return data
+}
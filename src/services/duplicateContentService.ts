@@ -0,0 +1,87 @@
+import { supabase } from '../lib/supabase'
+import { ContentWithCategory } from './contentService'
+
+export interface DuplicateContentMatch {
+  id: string
+  title: string
+  content_type: string
+  created_at: string
+  uploaded_by: string | null
+}
+
+export interface DuplicateCluster {
+  content_hash: string
+  items: ContentWithCategory[]
+}
+
+// Find a published content item whose file has the given SHA-256
+export const findContentByHash = async (contentHash: string): Promise<DuplicateContentMatch | null> => {
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('content')
+    .select('id, title, content_type, created_at, uploaded_by')
+    .eq('content_hash', contentHash)
+    .eq('is_approved', true)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Get groups of content items that share the same file (admin only)
+export const getDuplicateClusters = async (): Promise<DuplicateCluster[]> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data: clusters, error } = await supabase.rpc('get_duplicate_content_clusters')
+
+  if (error) throw error
+  if (!clusters || clusters.length === 0) return []
+
+  const allIds = clusters.flatMap((cluster: { content_ids: string[] }) => cluster.content_ids)
+  const { data: rows, error: contentError } = await supabase
+    .from('content')
+    .select(`
+      *,
+      categories (
+        id,
+        name,
+        slug
+      ),
+      profiles (
+        id,
+        username,
+        full_name
+      )
+    `)
+    .in('id', allIds)
+
+  if (contentError) throw contentError
+
+  const rowMap = new Map<string, ContentWithCategory>()
+  rows?.forEach((row: ContentWithCategory) => rowMap.set(row.id, row))
+
+  return clusters.map((cluster: { content_hash: string; content_ids: string[] }) => ({
+    content_hash: cluster.content_hash,
+    items: cluster.content_ids
+      .filter(id => rowMap.has(id))
+      .map(id => rowMap.get(id)!)
+  }))
+}
+
+// Merge duplicates into the item to keep; the duplicates are deleted (admin only)
+export const mergeDuplicateContent = async (
+  keepId: string,
+  duplicateIds: string[]
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase.rpc('merge_duplicate_content', {
+    p_keep_id: keepId,
+    p_duplicate_ids: duplicateIds
+  })
+
+  if (error) throw error
+}
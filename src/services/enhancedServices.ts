@@ -270,6 +270,102 @@ export const fileUploadTrackingService = {
       logger.error('Error marking upload as failed:', error)
       return false
     }
+  },
+
+  async findResumableSession(
+    userId: string,
+    contentHash: string,
+    fileSize: number
+  ): Promise<FileUploadSession | null> {
+    try {
+      if (!supabase) return null
+
+      const { data, error } = await supabase
+        .from('file_upload_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('content_hash', contentHash)
+        .eq('file_size', fileSize)
+        .in('upload_status', ['uploading', 'paused'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) throw error
+      return data as FileUploadSession | null
+    } catch (error) {
+      logger.error('Error finding resumable upload session:', error)
+      return null
+    }
+  },
+
+  async getInterruptedSessions(userId: string): Promise<FileUploadSession[]> {
+    try {
+      if (!supabase) return []
+
+      const { data, error } = await supabase
+        .from('file_upload_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .in('upload_status', ['uploading', 'paused'])
+        .not('total_chunks', 'is', null)
+        .order('updated_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as FileUploadSession[]
+    } catch (error) {
+      logger.error('Error fetching interrupted uploads:', error)
+      return []
+    }
+  },
+
+  async startChunkedUpload(
+    sessionId: string,
+    plan: {
+      storagePath: string
+      contentHash: string
+      chunkSize: number
+    }
+  ): Promise<boolean> {
+    try {
+      if (!supabase) return false
+
+      // The plan is recorded server-side; it always targets the user's quarantine folder
+      const { error } = await supabase.rpc('start_chunked_upload', {
+        p_session_id: sessionId,
+        p_storage_path: plan.storagePath,
+        p_content_hash: plan.contentHash,
+        p_chunk_size: plan.chunkSize
+      })
+
+      if (error) logger.error('Error starting chunked upload:', error)
+      return !error
+    } catch (error) {
+      logger.error('Error starting chunked upload:', error)
+      return false
+    }
+  },
+
+  async updateChunkProgress(
+    sessionId: string,
+    progress: number
+  ): Promise<boolean> {
+    try {
+      if (!supabase) return false
+
+      const { error } = await supabase
+        .from('file_upload_sessions')
+        .update({
+          upload_progress: Math.max(0, Math.min(100, Math.round(progress))),
+          upload_status: 'uploading'
+        })
+        .eq('id', sessionId)
+
+      return !error
+    } catch (error) {
+      logger.error('Error updating chunk progress:', error)
+      return false
+    }
   }
 }
 
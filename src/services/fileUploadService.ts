@@ -12,9 +12,20 @@
 import { supabase } from '../lib/supabase'
 import { 
   validateFileName, 
-  validateFileContent
+  validateFileContent,
+  performVirusScan
 } from './securityService'
 import { logger } from '../utils/logger'
+import { findContentByHash, DuplicateContentMatch } from './duplicateContentService'
+import { compressImage, isCompressibleImage } from './compressionService'
+import { requestThumbnail, supportsThumbnail } from './thumbnailService'
+import { STORAGE_QUOTA_EXCEEDED, StorageUsage, UploadPurpose, checkStorageQuota } from './storageQuotaService'
+import {
+  CHUNK_SIZE,
+  UPLOAD_CANCELLED,
+  getChunkPlan,
+  uploadFileInChunks
+} from './resumableUploadService'
 
 // File size limits in bytes (5MB max for all file types)
 const FILE_SIZE_LIMIT = 5 * 1024 * 1024 // 5MB
@@ -30,6 +41,12 @@ const FILE_SIZE_LIMITS = {
   webp: FILE_SIZE_LIMIT
 }
 
+// New uploads land here and are moved to their bucket only after a clean malware scan
+const QUARANTINE_BUCKET = 'quarantine'
+
+// The only bucket anyone can read; thumbnails are public too
+const PUBLIC_FILES_BUCKET = 'files'
+
 const ALLOWED_FILE_TYPES = ['pdf', 'doc', 'docx', 'txt', 'jpg', 'png', 'jpeg', 'gif', 'webp'] as const
 
 export type AllowedFileType = typeof ALLOWED_FILE_TYPES[number]
@@ -48,6 +65,10 @@ export interface FileUploadResult {
   fileName?: string
   fileSize?: number
   uploadId?: string
+  contentHash?: string
+  duplicateOf?: DuplicateContentMatch
+  paused?: boolean
+  cancelled?: boolean
   error?: string
 }
 
@@ -56,6 +77,12 @@ export interface FileUploadOptions {
   onError?: (error: string) => void
   bucket?: string
   folder?: string
+  checkDuplicates?: boolean
+  /** What the file is for; the scan only releases it to the place its purpose allows */
+  purpose?: UploadPurpose
+  groupId?: string
+  /** Abort with UPLOAD_PAUSED to keep the progress for later, or UPLOAD_CANCELLED to discard it */
+  signal?: AbortSignal
 }
 
 /**
@@ -113,6 +140,11 @@ export const formatFileSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
 }
 
+const getQuotaExceededMessage = (usage: StorageUsage | null): string =>
+  usage
+    ? `You have used ${formatFileSize(usage.usedBytes)} of your ${formatFileSize(usage.quotaBytes)} storage. Delete some files or ask an admin for more space`
+    : 'You have run out of storage space. Delete some files or ask an admin for more space'
+
 /**
  * Get file type category for better organization
  */
@@ -130,6 +162,16 @@ export const getFileTypeCategory = (fileName: string): 'document' | 'image' | 'o
   return 'other'
 }
 
+/**
+ * Compute the hex SHA-256 of a file's bytes
+ */
+export const computeFileHash = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
 /**
  * Enhanced file upload with progress tracking and user-friendly error messages
  */
@@ -138,10 +180,37 @@ export const uploadFile = async (
   userId: string,
   options: FileUploadOptions = {}
 ): Promise<FileUploadResult> => {
-  const { onProgress, onError, bucket = 'files', folder = 'general' } = options
+  const {
+    onProgress,
+    onError,
+    bucket = 'files',
+    folder = 'general',
+    checkDuplicates = false,
+    purpose = 'content',
+    groupId,
+    signal
+  } = options
   let uploadSession: any = null
 
   try {
+    // Shrink oversized photos before validation rejects them
+    if (file.size > FILE_SIZE_LIMIT && isCompressibleImage(file)) {
+      onProgress?.({
+        loaded: 0,
+        total: 100,
+        percentage: 0,
+        stage: 'validating',
+        message: 'Compressing image...'
+      })
+
+      try {
+        file = (await compressImage(file, FILE_SIZE_LIMIT)).file
+      } catch (compressionError) {
+        logger.warn('Image compression failed:', compressionError)
+        // Fall through so validation reports the size problem
+      }
+    }
+
     // Create upload tracking session
     const { fileUploadTrackingService } = await import('./enhancedServices')
     uploadSession = await fileUploadTrackingService.createUploadSession(
@@ -204,6 +273,36 @@ export const uploadFile = async (
       // Continue with upload even if validation fails (non-blocking)
     }
 
+    // Hash the file so identical uploads can be recognised
+    const contentHash = await computeFileHash(file)
+
+    if (checkDuplicates) {
+      try {
+        const existing = await findContentByHash(contentHash)
+        if (existing) {
+          const error = `This file has already been shared as "${existing.title}"`
+          if (uploadSession) {
+            await fileUploadTrackingService.markUploadFailed(uploadSession.id, error)
+          }
+          return { success: false, contentHash, duplicateOf: existing, error }
+        }
+      } catch (lookupError) {
+        logger.warn('Duplicate check failed:', lookupError)
+        // Continue with upload if the lookup fails (non-blocking)
+      }
+    }
+
+    // Refuse before sending any bytes if the file would not fit in the user's quota
+    const quota = await checkStorageQuota(userId, file.size)
+    if (!quota.allowed) {
+      const error = getQuotaExceededMessage(quota.usage)
+      if (uploadSession) {
+        await fileUploadTrackingService.markUploadFailed(uploadSession.id, error)
+      }
+      onError?.(error)
+      return { success: false, error }
+    }
+
     // Upload stage
     onProgress?.({
       loaded: 20,
@@ -215,16 +314,94 @@ export const uploadFile = async (
 
     const fileExtension = file.name.split('.').pop()?.toLowerCase()
     const timestamp = Date.now()
-    const fileName = `${userId}_${timestamp}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`
-    const uploadPath = `${folder}/${fileName}`
+    let fileName = `${userId}_${timestamp}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`
+    let uploadPath = `${folder}/${fileName}`
+    let quarantinePath = `${userId}/${uploadPath}`
+    let storageError: { message?: string } | null = null
+
+    if (file.size > CHUNK_SIZE && uploadSession) {
+      // Larger files go up in chunks so an interrupted upload can pick up where it stopped
+      const resumable = await fileUploadTrackingService.findResumableSession(userId, contentHash, file.size)
+
+      if (resumable && resumable.bucket === QUARANTINE_BUCKET && resumable.storage_path?.startsWith(`${userId}/`)) {
+        await fileUploadTrackingService.updateUploadProgress(uploadSession.id, 0, 'cancelled')
+        uploadSession = resumable
+        quarantinePath = resumable.storage_path
+        uploadPath = quarantinePath.slice(userId.length + 1)
+        fileName = uploadPath.split('/').pop() || fileName
+      } else {
+        const plan = getChunkPlan(file.size)
+        const started = await fileUploadTrackingService.startChunkedUpload(uploadSession.id, {
+          storagePath: quarantinePath,
+          contentHash,
+          chunkSize: plan.chunkSize
+        })
+        if (!started) {
+          const error = 'Could not start the upload. Please try again'
+          onError?.(error)
+          return { success: false, error }
+        }
+        uploadSession = {
+          ...uploadSession,
+          bucket: QUARANTINE_BUCKET,
+          storage_path: quarantinePath,
+          content_hash: contentHash,
+          chunk_size: plan.chunkSize,
+          total_chunks: plan.totalChunks,
+          uploaded_chunks: 0
+        }
+      }
 
-    // Upload to Supabase storage with progress tracking
-    const { error: storageError } = await supabase.storage
-      .from(bucket)
-      .upload(uploadPath, file, {
-        cacheControl: '3600',
-        upsert: false
-      })
+      try {
+        const outcome = await uploadFileInChunks(file, uploadSession, {
+          signal,
+          onProgress: uploadedBytes => {
+            const percentage = 20 + Math.round((uploadedBytes / file.size) * 50)
+            onProgress?.({
+              loaded: percentage,
+              total: 100,
+              percentage,
+              stage: 'uploading',
+              message: 'Uploading file...'
+            })
+          }
+        })
+
+        if (outcome !== 'completed') {
+          const cancelled = outcome === 'cancelled'
+          return {
+            success: false,
+            paused: !cancelled,
+            cancelled,
+            error: cancelled ? 'Upload cancelled' : 'Upload paused'
+          }
+        }
+      } catch (chunkError) {
+        // Keep the session resumable; uploading the same file again continues from the last chunk
+        logger.error('Chunked upload error:', chunkError)
+        await fileUploadTrackingService.updateUploadProgress(uploadSession.id, uploadSession.upload_progress || 0, 'paused')
+        const error = 'The connection dropped during upload. Upload the same file again to continue where it stopped'
+        onError?.(error)
+        return { success: false, paused: true, error }
+      }
+    } else {
+      if (signal?.aborted) {
+        const cancelled = signal.reason === UPLOAD_CANCELLED
+        if (uploadSession) {
+          await fileUploadTrackingService.updateUploadProgress(uploadSession.id, 0, cancelled ? 'cancelled' : 'paused')
+        }
+        return { success: false, paused: !cancelled, cancelled, error: cancelled ? 'Upload cancelled' : 'Upload paused' }
+      }
+
+      // Upload to quarantine with progress tracking
+      const { error } = await supabase.storage
+        .from(QUARANTINE_BUCKET)
+        .upload(quarantinePath, file, {
+          cacheControl: '3600',
+          upsert: false
+        })
+      storageError = error
+    }
 
     if (storageError) {
       let userFriendlyError = 'Failed to upload file. Please try again'
@@ -278,6 +455,11 @@ export const uploadFile = async (
       file_size: file.size,
       file_type: normalizedFileType as 'pdf' | 'doc' | 'docx' | 'txt' | 'jpg' | 'png',
       upload_path: uploadPath,
+      storage_bucket: bucket,
+      quarantine_path: quarantinePath,
+      upload_purpose: purpose,
+      group_id: groupId || null,
+      content_hash: contentHash,
       is_processed: false
     }
 
@@ -290,17 +472,47 @@ export const uploadFile = async (
     if (dbError) {
       // Clean up uploaded file if database insert fails
       try {
-        await supabase.storage.from(bucket).remove([uploadPath])
+        await supabase.storage.from(QUARANTINE_BUCKET).remove([quarantinePath])
       } catch (cleanupError) {
         logger.error('Failed to cleanup file after DB error:', cleanupError)
       }
       
-      const error = 'Failed to save file information. Please try again'
+      const error = dbError.message?.includes(STORAGE_QUOTA_EXCEEDED)
+        ? getQuotaExceededMessage(null)
+        : 'Failed to save file information. Please try again'
       logger.error('Database insert error:', dbError)
       onError?.(error)
       return { success: false, error }
     }
 
+    // The file stays in quarantine until the scan releases it
+    onProgress?.({
+      loaded: 85,
+      total: 100,
+      percentage: 85,
+      stage: 'processing',
+      message: 'Scanning for malware...'
+    })
+
+    const scan = await performVirusScan(data.id)
+    if (!scan.isClean) {
+      const error = scan.status === 'infected'
+        ? `This file was blocked because it may be harmful (${scan.threats.join(', ')})`
+        : scan.details?.error === STORAGE_QUOTA_EXCEEDED
+          ? getQuotaExceededMessage(null)
+          : 'We could not finish checking this file for malware. Please try again later'
+      if (uploadSession) {
+        await fileUploadTrackingService.markUploadFailed(uploadSession.id, error)
+      }
+      onError?.(error)
+      return { success: false, uploadId: data.id, contentHash, error }
+    }
+
+    // Render a preview thumbnail in the background; it is attached to the file's rows when ready
+    if (bucket === PUBLIC_FILES_BUCKET && supportsThumbnail(file.name)) {
+      void requestThumbnail(urlData.publicUrl)
+    }
+
     // Complete
     onProgress?.({
       loaded: 100,
@@ -333,7 +545,8 @@ export const uploadFile = async (
       fileUrl: urlData.publicUrl,
       fileName: file.name,
       fileSize: file.size,
-      uploadId: data.id
+      uploadId: data.id,
+      contentHash
     }
 
   } catch (error) {
@@ -0,0 +1,281 @@
+import { supabase } from '../lib/supabase'
+import { uploadFile } from './fileUploadService'
+
+export type SubmissionStatus = 'on_time' | 'late' | 'pending' | 'missing'
+
+// Private bucket; submission files are only reachable through signed links
+const SUBMISSIONS_BUCKET = 'assignment-submissions'
+const SUBMISSION_LINK_EXPIRY = 60 // seconds
+
+export interface AssignmentAttachment {
+  url: string
+  name: string
+  size: number
+}
+
+export interface GroupAssignment {
+  id: string
+  group_id: string
+  created_by: string
+  title: string
+  instructions: string | null
+  due_at: string
+  allow_late: boolean
+  attachments: AssignmentAttachment[]
+  created_at: string
+  updated_at: string
+}
+
+export interface AssignmentSubmission {
+  id: string
+  assignment_id: string
+  user_id: string
+  file_upload_id: string
+  storage_bucket: string
+  storage_path: string
+  file_name: string
+  file_size: number | null
+  note: string | null
+  submitted_at: string
+}
+
+export interface SubmissionMatrixRow {
+  assignment_id: string
+  user_id: string
+  username: string
+  full_name: string | null
+  status: SubmissionStatus
+  submitted_at: string | null
+  submission_id: string | null
+  file_name: string | null
+  storage_bucket: string | null
+  storage_path: string | null
+}
+
+export interface NewGroupAssignment {
+  title: string
+  instructions?: string
+  dueAt: string
+  allowLate: boolean
+  files: File[]
+}
+
+// Where a member stands on an assignment, given their submission (if any)
+export const getSubmissionStatus = (
+  assignment: GroupAssignment,
+  submission: AssignmentSubmission | null | undefined
+): SubmissionStatus => {
+  const dueAt = new Date(assignment.due_at).getTime()
+
+  if (!submission) return Date.now() <= dueAt ? 'pending' : 'missing'
+  return new Date(submission.submitted_at).getTime() <= dueAt ? 'on_time' : 'late'
+}
+
+// Whether a member can still hand in or replace their work
+export const isAssignmentOpen = (assignment: GroupAssignment) =>
+  assignment.allow_late || Date.now() <= new Date(assignment.due_at).getTime()
+
+const uploadAssignmentFile = async (file: File, userId: string, groupId: string, folder: string) => {
+  const upload = await uploadFile(file, userId, { folder, purpose: 'group_file', groupId })
+  if (!upload.success || !upload.fileUrl) {
+    throw new Error(upload.error || `Failed to upload ${file.name}`)
+  }
+
+  return { url: upload.fileUrl, name: file.name, size: file.size }
+}
+
+// Get a group's assignments, soonest deadline first
+export const getGroupAssignments = async (groupId: string): Promise<GroupAssignment[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('group_assignments')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('due_at', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+// Post an assignment with its attachments (group admins only)
+export const createGroupAssignment = async (
+  groupId: string,
+  userId: string,
+  assignment: NewGroupAssignment
+): Promise<GroupAssignment> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const attachments: AssignmentAttachment[] = []
+  for (const file of assignment.files) {
+    attachments.push(await uploadAssignmentFile(file, userId, groupId, 'assignments'))
+  }
+
+  const { data, error } = await supabase
+    .from('group_assignments')
+    .insert({
+      group_id: groupId,
+      created_by: userId,
+      title: assignment.title.trim(),
+      instructions: assignment.instructions?.trim() || null,
+      due_at: assignment.dueAt,
+      allow_late: assignment.allowLate,
+      attachments
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Delete an assignment and every submission to it (group admins only)
+export const deleteGroupAssignment = async (assignmentId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('group_assignments')
+    .delete()
+    .eq('id', assignmentId)
+
+  if (error) throw error
+}
+
+// Get the user's own submissions to a set of assignments
+export const getMySubmissions = async (
+  assignmentIds: string[],
+  userId: string
+): Promise<AssignmentSubmission[]> => {
+  if (!supabase || assignmentIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('group_assignment_submissions')
+    .select('*')
+    .in('assignment_id', assignmentIds)
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return data || []
+}
+
+// Hand in a file, replacing any earlier submission; only the user and group admins can see it
+export const submitAssignment = async (
+  assignment: GroupAssignment,
+  userId: string,
+  file: File,
+  note?: string
+): Promise<AssignmentSubmission> => {
+  if (!supabase) throw new Error('Supabase not available')
+  if (!isAssignmentOpen(assignment)) throw new Error('The deadline has passed and late work is not accepted')
+
+  const upload = await uploadFile(file, userId, {
+    bucket: SUBMISSIONS_BUCKET,
+    folder: 'submissions',
+    purpose: 'group_file',
+    groupId: assignment.group_id
+  })
+  if (!upload.success || !upload.uploadId) {
+    throw new Error(upload.error || `Failed to upload ${file.name}`)
+  }
+
+  // The database copies the file's location from the upload row
+  const { data, error } = await supabase
+    .from('group_assignment_submissions')
+    .upsert({
+      assignment_id: assignment.id,
+      user_id: userId,
+      file_upload_id: upload.uploadId,
+      file_name: file.name,
+      note: note?.trim() || null
+    }, { onConflict: 'assignment_id,user_id' })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Download a submitted file through a short-lived signed link (the submitter and group admins only)
+export const downloadSubmissionFile = async (submission: {
+  storage_bucket: string
+  storage_path: string
+  file_name: string
+}): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase.storage
+    .from(submission.storage_bucket)
+    .createSignedUrl(submission.storage_path, SUBMISSION_LINK_EXPIRY, { download: submission.file_name })
+
+  if (error || !data?.signedUrl) throw error || new Error('Could not open this submission')
+
+  const link = document.createElement('a')
+  link.href = data.signedUrl
+  link.download = submission.file_name
+  link.style.display = 'none'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+// Withdraw a submission before the deadline
+export const withdrawSubmission = async (submissionId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('group_assignment_submissions')
+    .delete()
+    .eq('id', submissionId)
+
+  if (error) throw error
+}
+
+// Get every member's status on every assignment in a group (group admins only)
+export const getSubmissionMatrix = async (groupId: string): Promise<SubmissionMatrixRow[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase.rpc('get_group_submission_matrix', {
+    p_group_id: groupId
+  })
+
+  if (error) throw error
+  return data || []
+}
+
+// Download all submissions to an assignment as one zip (group admins only)
+export const downloadSubmissionsZip = async (assignment: GroupAssignment): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Please sign in again to download submissions')
+
+  // Fetched directly because functions.invoke does not hand back binary bodies as a Blob
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/assignment-submissions-zip`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ assignmentId: assignment.id })
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || 'Failed to build the submissions archive')
+  }
+
+  const archive = await response.blob()
+  const url = URL.createObjectURL(archive)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${assignment.title.replace(/[\\/:*?"<>|]+/g, '_')} - submissions.zip`
+  link.style.display = 'none'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,171 @@
+import { supabase } from '../lib/supabase'
+
+export type GroupEventType = 'exam' | 'deadline' | 'class' | 'other'
+export type GroupEventRecurrence = 'none' | 'daily' | 'weekly' | 'monthly'
+
+export interface GroupEvent {
+  id: string
+  group_id: string
+  created_by: string
+  title: string
+  description: string | null
+  event_type: GroupEventType
+  location: string | null
+  starts_at: string
+  ends_at: string | null
+  recurrence: GroupEventRecurrence
+  recurrence_until: string | null
+  reminder_minutes: number[]
+  created_at: string
+  updated_at: string
+}
+
+export interface NewGroupEvent {
+  title: string
+  description?: string | null
+  event_type: GroupEventType
+  location?: string | null
+  starts_at: string
+  ends_at?: string | null
+  recurrence?: GroupEventRecurrence
+  recurrence_until?: string | null
+  reminder_minutes?: number[]
+}
+
+// A single dated instance of a (possibly recurring) event
+export interface GroupEventOccurrence {
+  event: GroupEvent
+  startsAt: Date
+  endsAt: Date | null
+}
+
+export const REMINDER_OPTIONS = [
+  { value: 10, label: '10 minutes before' },
+  { value: 60, label: '1 hour before' },
+  { value: 1440, label: '1 day before' },
+  { value: 10080, label: '1 week before' }
+]
+
+// Get every event in a group, earliest first
+export const getGroupEvents = async (groupId: string): Promise<GroupEvent[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('group_events')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('starts_at', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+// Create an event (group admins only)
+export const createGroupEvent = async (
+  groupId: string,
+  userId: string,
+  event: NewGroupEvent
+): Promise<GroupEvent> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase
+    .from('group_events')
+    .insert({
+      group_id: groupId,
+      created_by: userId,
+      title: event.title.trim(),
+      description: event.description?.trim() || null,
+      event_type: event.event_type,
+      location: event.location?.trim() || null,
+      starts_at: event.starts_at,
+      ends_at: event.ends_at || null,
+      recurrence: event.recurrence || 'none',
+      recurrence_until: event.recurrence && event.recurrence !== 'none' ? event.recurrence_until || null : null,
+      reminder_minutes: event.reminder_minutes || []
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Delete an event along with all its occurrences (group admins only)
+export const deleteGroupEvent = async (eventId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('group_events')
+    .delete()
+    .eq('id', eventId)
+
+  if (error) throw error
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Monthly events start on the 1st to 28th so every month has their day (the database checks the UTC date)
+export const MONTHLY_LAST_START_DAY = 28
+
+export const isValidMonthlyStart = (startsAt: Date) =>
+  startsAt.getUTCDate() <= MONTHLY_LAST_START_DAY && startsAt.getDate() <= MONTHLY_LAST_START_DAY
+
+// Steps are counted in UTC from the first start, like the database and the feed's UTC start times
+const stepOccurrence = (start: Date, recurrence: GroupEventRecurrence, step: number) => {
+  switch (recurrence) {
+    case 'daily':
+      return new Date(start.getTime() + step * DAY_MS)
+    case 'weekly':
+      return new Date(start.getTime() + step * 7 * DAY_MS)
+    default: {
+      const next = new Date(start)
+      next.setUTCMonth(start.getUTCMonth() + step)
+      return next
+    }
+  }
+}
+
+/**
+ * Expand events into the occurrences that start between `from` and `to`, sorted by start.
+ * Mirrors `group_event_occurrences` in the database, which drives the reminders.
+ */
+export const getEventOccurrences = (events: GroupEvent[], from: Date, to: Date): GroupEventOccurrence[] => {
+  const occurrences: GroupEventOccurrence[] = []
+
+  for (const event of events) {
+    const start = new Date(event.starts_at)
+    const duration = event.ends_at ? new Date(event.ends_at).getTime() - start.getTime() : null
+    const until = event.recurrence_until ? new Date(event.recurrence_until) : to
+    const last = until < to ? until : to
+
+    for (let step = 0; ; step++) {
+      const startsAt = event.recurrence === 'none' ? start : stepOccurrence(start, event.recurrence, step)
+      if (startsAt > last) break
+
+      if (startsAt >= from) {
+        occurrences.push({
+          event,
+          startsAt,
+          endsAt: duration !== null ? new Date(startsAt.getTime() + duration) : null
+        })
+      }
+
+      if (event.recurrence === 'none') break
+    }
+  }
+
+  return occurrences.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+}
+
+// Get the URL calendar apps can subscribe to for this group's events
+export const getGroupCalendarFeedUrl = async (groupId: string, reset: boolean = false): Promise<string> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data: token, error } = await supabase.rpc(
+    reset ? 'reset_group_calendar_token' : 'get_group_calendar_token',
+    { p_group_id: groupId }
+  )
+
+  if (error) throw error
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/group-calendar?token=${token}`
+}
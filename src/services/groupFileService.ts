@@ -15,6 +15,7 @@ interface GroupFileRecord {
   file_name: string
   file_size: number
   message_type: 'file'
+  thumbnail_path?: string | null
   created_at: string
 }
 
@@ -30,9 +31,14 @@ export const uploadGroupFile = async ({
   
   try {
     
-    // Upload file to Supabase storage in group-specific folder
-    const folder = `group-files/${groupId}`
-    const { fileUrl } = await uploadFile(file, userId, folder)
+    // Counts towards the uploader's storage quota; uploadFile refuses files that do not fit.
+    // Group files go in the one-level group-files folder because deleteGroupFile and the cleanup
+    // jobs rebuild the storage path from the last two URL segments.
+    const upload = await uploadFile(file, userId, { folder: 'group-files', purpose: 'group_file', groupId })
+    if (!upload.success || !upload.fileUrl) {
+      throw new Error(upload.error || 'Upload failed')
+    }
+    const fileUrl = upload.fileUrl
     
     
     // Create group message with file data
@@ -98,6 +104,7 @@ export const getGroupFiles = async (groupId: string): Promise<GroupFileRecord[]>
         file_name,
         file_size,
         message_type,
+        thumbnail_path,
         created_at,
         profiles (
           id,
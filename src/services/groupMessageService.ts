@@ -0,0 +1,163 @@
+import { supabase } from '../lib/supabase'
+import { GroupMessageWithProfile } from './classGroupService'
+import { logger } from '../utils/logger'
+
+// Emoji mapped to the ids of the members who reacted with it, oldest first
+export type GroupMessageReactions = Record<string, string[]>
+
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🎉']
+
+export interface ThreadedGroupMessage extends GroupMessageWithProfile {
+  id: string
+  group_id: string
+  user_id: string
+  message: string
+  created_at: string
+  reply_to?: string | null
+  reply_count?: number
+  last_reply_at?: string | null
+  reactions?: GroupMessageReactions
+  is_pinned?: boolean
+  pinned_at?: string | null
+}
+
+const MESSAGE_WITH_PROFILE = `
+  *,
+  profiles (
+    id,
+    username,
+    full_name,
+    avatar_url
+  )
+`
+
+// Add or remove the user's reaction locally, ahead of the database's recount
+export const toggleReactionLocally = (
+  reactions: GroupMessageReactions | null | undefined,
+  emoji: string,
+  userId: string
+): GroupMessageReactions => {
+  const next = { ...(reactions || {}) }
+  const users = next[emoji] || []
+
+  if (users.includes(userId)) {
+    const remaining = users.filter(id => id !== userId)
+    if (remaining.length > 0) {
+      next[emoji] = remaining
+    } else {
+      delete next[emoji]
+    }
+  } else {
+    next[emoji] = [...users, userId]
+  }
+
+  return next
+}
+
+// Get the replies in a thread, oldest first
+export const getThreadReplies = async (rootMessageId: string): Promise<ThreadedGroupMessage[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('group_messages')
+    .select(MESSAGE_WITH_PROFILE)
+    .eq('reply_to', rootMessageId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+// Subscribe to new replies in a thread and to changes on them, such as reactions
+export const subscribeToThreadReplies = (
+  rootMessageId: string,
+  onReply: (message: ThreadedGroupMessage) => void,
+  onUpdate: (message: ThreadedGroupMessage) => void
+) => {
+  if (!supabase) return () => {}
+
+  const channel = supabase
+    .channel(`group_thread_${rootMessageId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'group_messages',
+        filter: `reply_to=eq.${rootMessageId}`
+      },
+      async (payload) => {
+        if (!supabase) return
+
+        const { data, error } = await supabase
+          .from('group_messages')
+          .select(MESSAGE_WITH_PROFILE)
+          .eq('id', payload.new.id)
+          .single()
+
+        if (error) {
+          logger.error('Error fetching new thread reply:', error)
+          return
+        }
+        if (data) onReply(data)
+      }
+    )
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'group_messages',
+        filter: `reply_to=eq.${rootMessageId}`
+      },
+      (payload) => onUpdate(payload.new as ThreadedGroupMessage)
+    )
+    .subscribe()
+
+  return () => {
+    supabase?.removeChannel(channel)
+  }
+}
+
+// React to a message, or take the reaction back; returns the message's new reactions
+export const toggleGroupMessageReaction = async (
+  messageId: string,
+  emoji: string
+): Promise<GroupMessageReactions> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase.rpc('toggle_group_message_reaction', {
+    p_message_id: messageId,
+    p_emoji: emoji
+  })
+
+  if (error) throw error
+  return data || {}
+}
+
+// Get a group's pinned messages, most recently pinned first
+export const getPinnedGroupMessages = async (groupId: string): Promise<ThreadedGroupMessage[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('group_messages')
+    .select(MESSAGE_WITH_PROFILE)
+    .eq('group_id', groupId)
+    .eq('is_pinned', true)
+    .order('pinned_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Pin or unpin a message (group admins only)
+export const setGroupMessagePinned = async (messageId: string, isPinned: boolean): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase.rpc('set_group_message_pinned', {
+    p_message_id: messageId,
+    p_pinned: isPinned
+  })
+
+  if (error) throw error
+}
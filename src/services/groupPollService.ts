@@ -0,0 +1,117 @@
+import { supabase } from '../lib/supabase'
+
+export interface GroupPoll {
+  question: string
+  options: string[]
+  allow_multiple: boolean
+  is_anonymous: boolean
+  closes_at: string | null
+}
+
+export interface GroupPollResults {
+  counts: number[]
+  voters: number
+}
+
+export interface GroupPollVoter {
+  option_index: number
+  user_id: string
+  username: string
+  full_name: string | null
+}
+
+export interface NewGroupPoll {
+  question: string
+  options: string[]
+  allowMultiple: boolean
+  isAnonymous: boolean
+  closesAt?: string | null
+}
+
+export const MAX_POLL_OPTIONS = 10
+
+export const isPollClosed = (poll: GroupPoll) =>
+  !!poll.closes_at && new Date(poll.closes_at).getTime() <= Date.now()
+
+// Post a poll to a group chat; the database starts its results at zero
+export const createGroupPoll = async (groupId: string, userId: string, poll: NewGroupPoll) => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const question = poll.question.trim()
+  const options = poll.options.map(option => option.trim()).filter(Boolean)
+
+  if (!question) throw new Error('Ask a question')
+  if (options.length < 2) throw new Error('Add at least two options')
+  if (options.length > MAX_POLL_OPTIONS) throw new Error(`A poll can have at most ${MAX_POLL_OPTIONS} options`)
+
+  const { data, error } = await supabase
+    .from('group_messages')
+    .insert({
+      group_id: groupId,
+      user_id: userId,
+      message: `📊 ${question}`,
+      message_type: 'poll',
+      poll: {
+        question,
+        options,
+        allow_multiple: poll.allowMultiple,
+        is_anonymous: poll.isAnonymous,
+        closes_at: poll.closesAt || null
+      }
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Get the options the user picked in a poll
+export const getMyPollVotes = async (messageId: string, userId: string): Promise<number[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('group_poll_votes')
+    .select('option_index')
+    .eq('message_id', messageId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return (data || []).map(vote => vote.option_index)
+}
+
+// Replace the user's choices in a poll; pass an empty list to withdraw the vote
+export const voteInGroupPoll = async (messageId: string, optionIndexes: number[]): Promise<GroupPollResults> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase.rpc('vote_in_group_poll', {
+    p_message_id: messageId,
+    p_options: optionIndexes
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Close a poll before its close time (author or group admin)
+export const closeGroupPoll = async (messageId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase.rpc('close_group_poll', {
+    p_message_id: messageId
+  })
+
+  if (error) throw error
+}
+
+// Get who voted for each option of a named poll
+export const getGroupPollVoters = async (messageId: string): Promise<GroupPollVoter[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase.rpc('get_group_poll_voters', {
+    p_message_id: messageId
+  })
+
+  if (error) throw error
+  return data || []
+}
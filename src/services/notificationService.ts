@@ -0,0 +1,89 @@
+import { supabase } from '../lib/supabase'
+import { Database } from '../types/database.types'
+
+export type Notification = Database['public']['Tables']['notifications']['Row']
+
+// Get the user's most recent notifications
+export const getNotifications = async (
+  userId: string,
+  limit: number = 20
+): Promise<Notification[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return data || []
+}
+
+// Count unread notifications
+export const getUnreadNotificationCount = async (userId: string): Promise<number> => {
+  if (!supabase) return 0
+
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_read', false)
+
+  if (error) throw error
+  return count || 0
+}
+
+// Mark one notification as read
+export const markNotificationRead = async (notificationId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true })
+    .eq('id', notificationId)
+
+  if (error) throw error
+}
+
+// Mark all of the user's notifications as read
+export const markAllNotificationsRead = async (userId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true })
+    .eq('user_id', userId)
+    .eq('is_read', false)
+
+  if (error) throw error
+}
+
+// Subscribe to new notifications for a user
+export const subscribeToNotifications = (
+  userId: string,
+  callback: (notification: Notification) => void
+) => {
+  if (!supabase) return () => {}
+
+  const channel = supabase
+    .channel(`notifications_${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${userId}`
+      },
+      (payload) => callback(payload.new as Notification)
+    )
+    .subscribe()
+
+  return () => {
+    if (supabase) {
+      supabase.removeChannel(channel)
+    }
+  }
+}
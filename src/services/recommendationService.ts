@@ -0,0 +1,70 @@
+import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
+import { ContentWithCategory } from './contentService'
+
+export interface RecommendedContent extends ContentWithCategory {
+  recommendation: {
+    score: number
+    reason: string
+  }
+}
+
+// Get content ranked for the signed-in user, each with a short reason it was picked
+export const getRecommendedContent = async (limit: number = 10): Promise<RecommendedContent[]> => {
+  if (!supabase) return []
+
+  const { data: picks, error: picksError } = await supabase.rpc('get_recommended_content', {
+    limit_param: limit
+  })
+
+  if (picksError) throw picksError
+  if (!picks || picks.length === 0) return []
+
+  const { data: items, error } = await supabase
+    .from('content')
+    .select(`
+      *,
+      categories (
+        id,
+        name,
+        slug
+      ),
+      profiles (
+        id,
+        username,
+        full_name
+      )
+    `)
+    .in('id', picks.map((pick: { content_id: string }) => pick.content_id))
+
+  if (error) throw error
+
+  const itemsById = new Map((items || []).map(item => [item.id, item]))
+  return picks.flatMap((pick: { content_id: string; score: number; reason: string }) => {
+    const item = itemsById.get(pick.content_id)
+    if (!item) return []
+
+    return [{ ...item, recommendation: { score: Number(pick.score), reason: pick.reason } }]
+  })
+}
+
+/**
+ * Record that a user opened or downloaded a resource, so its category counts towards
+ * their recommendations. Never throws; a missed log only makes recommendations less precise.
+ */
+export const logContentActivity = async (
+  userId: string,
+  activityType: 'content_view' | 'download',
+  content: ContentWithCategory
+): Promise<void> => {
+  try {
+    const { activityService } = await import('./enhancedServices')
+    await activityService.logActivity(userId, activityType, {
+      contentId: content.id,
+      categoryId: content.category_id,
+      contentType: content.content_type
+    })
+  } catch (error) {
+    logger.warn('Failed to log content activity:', error)
+  }
+}
@@ -5,6 +5,10 @@ type ContentReport = Database['public']['Tables']['content_reports']['Row']
 type ContentReportInsert = Database['public']['Tables']['content_reports']['Insert']
 type ChatReport = Database['public']['Tables']['chat_reports']['Row']
 type ChatReportInsert = Database['public']['Tables']['chat_reports']['Insert']
+type ReviewReport = Database['public']['Tables']['review_reports']['Row']
+type ReviewReportInsert = Database['public']['Tables']['review_reports']['Insert']
+type CommentReport = Database['public']['Tables']['comment_reports']['Row']
+type CommentReportInsert = Database['public']['Tables']['comment_reports']['Insert']
 
 export interface ContentReportWithDetails extends ContentReport {
   content?: {
@@ -42,6 +46,47 @@ export interface ChatReportWithDetails extends ChatReport {
   } | null
 }
 
+export interface ReviewReportWithDetails extends ReviewReport {
+  content_reviews?: {
+    id: string
+    content_id: string
+    user_id: string
+    rating: number
+    review_text: string | null
+    is_hidden: boolean
+  } | null
+  reporter?: {
+    id: string
+    username: string
+    full_name: string
+  } | null
+  reviewer?: {
+    id: string
+    username: string
+    full_name: string
+  } | null
+}
+
+export interface CommentReportWithDetails extends CommentReport {
+  content_comments?: {
+    id: string
+    content_id: string
+    user_id: string
+    body: string
+    is_hidden: boolean
+  } | null
+  reporter?: {
+    id: string
+    username: string
+    full_name: string
+  } | null
+  reviewer?: {
+    id: string
+    username: string
+    full_name: string
+  } | null
+}
+
 // Report content
 export const reportContent = async (
   contentId: string,
@@ -114,6 +159,82 @@ export const reportChatMessage = async (
   return data
 }
 
+// Report a content review
+export const reportReview = async (
+  reviewId: string,
+  reportedBy: string,
+  reason: string,
+  description?: string
+): Promise<ReviewReport> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  // Check if user has already reported this review
+  const { data: existingReport } = await supabase
+    .from('review_reports')
+    .select('id')
+    .eq('review_id', reviewId)
+    .eq('reporter_id', reportedBy)
+    .maybeSingle()
+
+  if (existingReport) {
+    throw new Error('You have already reported this review')
+  }
+
+  const reportData: ReviewReportInsert = {
+    review_id: reviewId,
+    reporter_id: reportedBy,
+    reason: reason.trim(),
+    description: description?.trim() || null
+  }
+
+  const { data, error } = await supabase
+    .from('review_reports')
+    .insert([reportData])
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Report a comment on content
+export const reportComment = async (
+  commentId: string,
+  reportedBy: string,
+  reason: string,
+  description?: string
+): Promise<CommentReport> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  // Check if user has already reported this comment
+  const { data: existingReport } = await supabase
+    .from('comment_reports')
+    .select('id')
+    .eq('comment_id', commentId)
+    .eq('reporter_id', reportedBy)
+    .maybeSingle()
+
+  if (existingReport) {
+    throw new Error('You have already reported this comment')
+  }
+
+  const reportData: CommentReportInsert = {
+    comment_id: commentId,
+    reporter_id: reportedBy,
+    reason: reason.trim(),
+    description: description?.trim() || null
+  }
+
+  const { data, error } = await supabase
+    .from('comment_reports')
+    .insert([reportData])
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
 // Get all content reports (admin only)
 export const getAllContentReports = async (
   status?: string
@@ -186,6 +307,87 @@ export const getAllChatReports = async (
   return data || []
 }
 
+// Get all review reports (admin only)
+export const getAllReviewReports = async (
+  status?: string
+): Promise<ReviewReportWithDetails[]> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  let query = supabase
+    .from('review_reports')
+    .select(`
+      *,
+      content_reviews (
+        id,
+        content_id,
+        user_id,
+        rating,
+        review_text,
+        is_hidden
+      ),
+      reporter:profiles!review_reports_reporter_id_fkey (
+        id,
+        username,
+        full_name
+      ),
+      reviewer:profiles!review_reports_reviewed_by_fkey (
+        id,
+        username,
+        full_name
+      )
+    `)
+    .order('created_at', { ascending: false })
+
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+  return data || []
+}
+
+// Get all comment reports (admin only)
+export const getAllCommentReports = async (
+  status?: string
+): Promise<CommentReportWithDetails[]> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  let query = supabase
+    .from('comment_reports')
+    .select(`
+      *,
+      content_comments (
+        id,
+        content_id,
+        user_id,
+        body,
+        is_hidden
+      ),
+      reporter:profiles!comment_reports_reporter_id_fkey (
+        id,
+        username,
+        full_name
+      ),
+      reviewer:profiles!comment_reports_reviewed_by_fkey (
+        id,
+        username,
+        full_name
+      )
+    `)
+    .order('created_at', { ascending: false })
+
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+  return data || []
+}
+
 // Update content report status (admin only)
 export const updateContentReportStatus = async (
   reportId: string,
@@ -232,6 +434,56 @@ export const updateChatReportStatus = async (
   return data
 }
 
+// Update review report status (admin only)
+export const updateReviewReportStatus = async (
+  reportId: string,
+  status: 'reviewed' | 'resolved' | 'dismissed',
+  reviewedBy: string,
+  adminNotes?: string
+): Promise<ReviewReport> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase
+    .from('review_reports')
+    .update({
+      status,
+      reviewed_by: reviewedBy,
+      admin_notes: adminNotes?.trim() || null,
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('id', reportId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Update comment report status (admin only)
+export const updateCommentReportStatus = async (
+  reportId: string,
+  status: 'reviewed' | 'resolved' | 'dismissed',
+  reviewedBy: string,
+  adminNotes?: string
+): Promise<CommentReport> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase
+    .from('comment_reports')
+    .update({
+      status,
+      reviewed_by: reviewedBy,
+      admin_notes: adminNotes?.trim() || null,
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('id', reportId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
 // Remove content based on report (admin only)
 export const removeReportedContent = async (
   contentId: string,
@@ -270,6 +522,47 @@ export const removeReportedChatMessage = async (
   if (error) throw error
 }
 
+// Hide a review based on report (admin only)
+export const removeReportedReview = async (
+  reviewId: string,
+  reportId: string,
+  adminId: string,
+  reason: string
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  // Update the report status first
+  await updateReviewReportStatus(reportId, 'resolved', adminId, `Review removed: ${reason}`)
+
+  // Hidden reviews drop out of the public list and the content's average rating
+  const { error } = await supabase
+    .from('content_reviews')
+    .update({ is_hidden: true })
+    .eq('id', reviewId)
+
+  if (error) throw error
+}
+
+// Hide a comment based on report (admin only)
+export const removeReportedComment = async (
+  commentId: string,
+  reportId: string,
+  adminId: string,
+  reason: string
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  // Update the report status first
+  await updateCommentReportStatus(reportId, 'resolved', adminId, `Comment removed: ${reason}`)
+
+  const { error } = await supabase
+    .from('content_comments')
+    .update({ is_hidden: true })
+    .eq('id', commentId)
+
+  if (error) throw error
+}
+
 // Get user's own reports
 const getUserReports = async (userId: string): Promise<{
   contentReports: ContentReportWithDetails[]
@@ -328,19 +621,45 @@ export const getReportStatistics = async (): Promise<{
     resolved: number
     dismissed: number
   }
+  reviewReports: {
+    total: number
+    pending: number
+    reviewed: number
+    resolved: number
+    dismissed: number
+  }
+  commentReports: {
+    total: number
+    pending: number
+    reviewed: number
+    resolved: number
+    dismissed: number
+  }
 }> => {
-  const [contentReports, chatReports] = await Promise.all([
+  if (!supabase) throw new Error('Supabase not available')
+
+  const [contentReports, chatReports, reviewReports, commentReports] = await Promise.all([
     supabase
       .from('content_reports')
       .select('status'),
     
     supabase
       .from('chat_reports')
+      .select('status'),
+
+    supabase
+      .from('review_reports')
+      .select('status'),
+
+    supabase
+      .from('comment_reports')
       .select('status')
   ])
 
   if (contentReports.error) throw contentReports.error
   if (chatReports.error) throw chatReports.error
+  if (reviewReports.error) throw reviewReports.error
+  if (commentReports.error) throw commentReports.error
 
   const contentStats = {
     total: contentReports.data.length,
@@ -358,8 +677,26 @@ export const getReportStatistics = async (): Promise<{
     dismissed: chatReports.data.filter(r => r.status === 'dismissed').length
   }
 
+  const reviewStats = {
+    total: reviewReports.data.length,
+    pending: reviewReports.data.filter(r => r.status === 'pending').length,
+    reviewed: reviewReports.data.filter(r => r.status === 'reviewed').length,
+    resolved: reviewReports.data.filter(r => r.status === 'resolved').length,
+    dismissed: reviewReports.data.filter(r => r.status === 'dismissed').length
+  }
+
+  const commentStats = {
+    total: commentReports.data.length,
+    pending: commentReports.data.filter(r => r.status === 'pending').length,
+    reviewed: commentReports.data.filter(r => r.status === 'reviewed').length,
+    resolved: commentReports.data.filter(r => r.status === 'resolved').length,
+    dismissed: commentReports.data.filter(r => r.status === 'dismissed').length
+  }
+
   return {
     contentReports: contentStats,
-    chatReports: chatStats
+    chatReports: chatStats,
+    reviewReports: reviewStats,
+    commentReports: commentStats
   }
 }
\ No newline at end of file
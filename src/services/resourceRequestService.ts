@@ -0,0 +1,201 @@
+import { supabase } from '../lib/supabase'
+
+export type ResourceRequestStatus = 'open' | 'fulfilled' | 'closed'
+export type ResourceRequestContentType = 'question_paper' | 'notes' | 'syllabus' | 'assignments' | 'other'
+
+export interface ResourceRequest {
+  id: string
+  requested_by: string
+  title: string
+  details: string | null
+  content_type: ResourceRequestContentType | null
+  category_id: string | null
+  year: number | null
+  semester: number | null
+  upvote_count: number
+  status: ResourceRequestStatus
+  fulfilled_content_id: string | null
+  fulfilled_by: string | null
+  fulfilled_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ResourceRequestWithDetails extends ResourceRequest {
+  requester: { username: string; full_name: string } | null
+  fulfiller: { username: string; full_name: string } | null
+  categories: { name: string } | null
+  fulfilled_content: { id: string; title: string } | null
+  has_voted: boolean
+}
+
+export interface NewResourceRequest {
+  title: string
+  details?: string | null
+  content_type?: ResourceRequestContentType | null
+  category_id?: string | null
+  year?: number | null
+  semester?: number | null
+}
+
+const REQUEST_SELECT = `
+  *,
+  requester:profiles!resource_requests_requested_by_fkey (
+    username,
+    full_name
+  ),
+  fulfiller:profiles!resource_requests_fulfilled_by_fkey (
+    username,
+    full_name
+  ),
+  categories (
+    name
+  ),
+  fulfilled_content:content!resource_requests_fulfilled_content_id_fkey (
+    id,
+    title
+  )
+`
+
+// Get requests on the board, most upvoted first, marking the ones the user has upvoted
+export const getResourceRequests = async (
+  userId: string,
+  options: { status?: ResourceRequestStatus; sortBy?: 'top' | 'newest' } = {}
+): Promise<ResourceRequestWithDetails[]> => {
+  if (!supabase) return []
+
+  const { status = 'open', sortBy = 'top' } = options
+
+  let query = supabase
+    .from('resource_requests')
+    .select(REQUEST_SELECT)
+    .eq('status', status)
+    .limit(100)
+
+  if (sortBy === 'top') {
+    query = query.order('upvote_count', { ascending: false })
+  }
+  query = query.order('created_at', { ascending: false })
+
+  const { data, error } = await query
+
+  if (error) throw error
+  if (!data || data.length === 0) return []
+
+  const { data: votes, error: votesError } = await supabase
+    .from('resource_request_votes')
+    .select('request_id')
+    .eq('user_id', userId)
+    .in('request_id', data.map(request => request.id))
+
+  if (votesError) throw votesError
+
+  const voted = new Set((votes || []).map(vote => vote.request_id))
+  return data.map(request => ({ ...request, has_voted: voted.has(request.id) }))
+}
+
+// Get a single request, e.g. when uploading content to fulfil it
+export const getResourceRequest = async (requestId: string): Promise<ResourceRequestWithDetails | null> => {
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('resource_requests')
+    .select(REQUEST_SELECT)
+    .eq('id', requestId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? { ...data, has_voted: false } : null
+}
+
+// Post a new request
+export const createResourceRequest = async (
+  userId: string,
+  request: NewResourceRequest
+): Promise<ResourceRequest> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase
+    .from('resource_requests')
+    .insert({
+      requested_by: userId,
+      title: request.title.trim(),
+      details: request.details?.trim() || null,
+      content_type: request.content_type || null,
+      category_id: request.category_id || null,
+      year: request.year || null,
+      semester: request.semester || null
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Withdraw an open request (requester only)
+export const deleteResourceRequest = async (requestId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('resource_requests')
+    .delete()
+    .eq('id', requestId)
+
+  if (error) throw error
+}
+
+// Add or remove the user's upvote
+export const toggleResourceRequestVote = async (
+  requestId: string,
+  userId: string,
+  hasVoted: boolean
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = hasVoted
+    ? await supabase
+        .from('resource_request_votes')
+        .delete()
+        .eq('request_id', requestId)
+        .eq('user_id', userId)
+    : await supabase
+        .from('resource_request_votes')
+        .insert({ request_id: requestId, user_id: userId })
+
+  if (error) throw error
+}
+
+// Answer a request with a content item; the requester is notified and the request closes
+export const fulfilResourceRequest = async (requestId: string, contentId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase.rpc('fulfil_resource_request', {
+    p_request_id: requestId,
+    p_content_id: contentId
+  })
+
+  if (error) throw error
+}
+
+// Reject the answer to one of the user's requests and open it again
+export const reopenResourceRequest = async (requestId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase.rpc('reopen_resource_request', {
+    p_request_id: requestId
+  })
+
+  if (error) throw error
+}
+
+// Close a request the requester no longer needs
+export const closeResourceRequest = async (requestId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase.rpc('close_resource_request', {
+    p_request_id: requestId
+  })
+
+  if (error) throw error
+}
@@ -0,0 +1,194 @@
+/**
+ * Resumable chunked uploads
+ *
+ * Files are stored as numbered chunks under `<userId>/chunks/<sessionId>/` and joined
+ * into the final object by the `assemble-upload` edge function. Progress is kept in
+ * `file_upload_sessions`, so an upload interrupted by a reload or a dropped connection
+ * continues from the last stored chunk when the same file is uploaded again.
+ */
+
+import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
+import { FileUploadSession } from '../types/enhanced-schema.types'
+
+export const CHUNK_SIZE = 512 * 1024 // 512KB
+
+// Abort reasons understood by uploadFile's `signal` option
+export const UPLOAD_PAUSED = 'paused'
+export const UPLOAD_CANCELLED = 'cancelled'
+
+export type ChunkedUploadOutcome = 'completed' | 'paused' | 'cancelled'
+
+const MAX_CHUNK_ATTEMPTS = 5
+const RETRY_DELAY_MS = 2000
+
+const getChunkFolder = (session: FileUploadSession) => `${session.user_id}/chunks/${session.id}`
+
+/**
+ * Resolve once the browser is online again (or the upload is stopped)
+ */
+const waitForConnection = (signal?: AbortSignal): Promise<void> => {
+  if (navigator.onLine || signal?.aborted) return Promise.resolve()
+
+  return new Promise(resolve => {
+    const done = () => {
+      window.removeEventListener('online', done)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    window.addEventListener('online', done)
+    signal?.addEventListener('abort', done)
+  })
+}
+
+/**
+ * Store one chunk, retrying with backoff and waiting out connection drops
+ */
+const uploadChunk = async (
+  bucket: string,
+  path: string,
+  chunk: Blob,
+  contentType: string,
+  signal?: AbortSignal
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  for (let attempt = 1; ; attempt++) {
+    await waitForConnection(signal)
+    if (signal?.aborted) return
+
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(path, chunk, { contentType, upsert: true })
+
+    if (!error) return
+    if (attempt >= MAX_CHUNK_ATTEMPTS) throw error
+
+    logger.warn(`Chunk upload failed (attempt ${attempt}), retrying:`, error)
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt))
+  }
+}
+
+/**
+ * Count the chunks already stored for a session. Chunks go up in order, so this is the
+ * first missing index; the stored objects are the record, not a client-written counter.
+ */
+const countStoredChunks = async (bucket: string, session: FileUploadSession): Promise<number> => {
+  if (!supabase) return 0
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .list(getChunkFolder(session), { limit: session.total_chunks || 100 })
+
+  if (error) {
+    logger.warn('Failed to list stored chunks, starting from the first:', error)
+    return 0
+  }
+
+  const stored = new Set((data || []).map(chunk => chunk.name))
+  let count = 0
+  while (stored.has(String(count))) count++
+  return count
+}
+
+/**
+ * Split a file into chunks for a new upload session
+ */
+export const getChunkPlan = (fileSize: number) => ({
+  chunkSize: CHUNK_SIZE,
+  totalChunks: Math.max(1, Math.ceil(fileSize / CHUNK_SIZE))
+})
+
+/**
+ * Upload the remaining chunks of a session and assemble the final file.
+ * Stops between chunks when `signal` is aborted with UPLOAD_PAUSED or UPLOAD_CANCELLED.
+ */
+export const uploadFileInChunks = async (
+  file: File,
+  session: FileUploadSession,
+  options: {
+    signal?: AbortSignal
+    onProgress?: (uploadedBytes: number) => void
+  } = {}
+): Promise<ChunkedUploadOutcome> => {
+  if (!supabase) throw new Error('Supabase not available')
+  if (!session.bucket || !session.chunk_size || !session.total_chunks) {
+    throw new Error('Upload session is missing its chunk plan')
+  }
+
+  const { signal, onProgress } = options
+
+  // Assembled by an earlier attempt whose response was lost; the chunks are already gone
+  if (session.assembled_at) {
+    onProgress?.(file.size)
+    return 'completed'
+  }
+
+  const { fileUploadTrackingService } = await import('./enhancedServices')
+  const folder = getChunkFolder(session)
+  let uploadedChunks = await countStoredChunks(session.bucket, session)
+
+  const getUploadedBytes = () => Math.min(uploadedChunks * session.chunk_size!, file.size)
+
+  const stop = async (): Promise<ChunkedUploadOutcome> => {
+    if (signal?.reason === UPLOAD_CANCELLED) {
+      await cancelChunkedUpload(session)
+      return 'cancelled'
+    }
+
+    await fileUploadTrackingService.updateUploadProgress(
+      session.id,
+      (getUploadedBytes() / file.size) * 100,
+      'paused'
+    )
+    return 'paused'
+  }
+
+  onProgress?.(getUploadedBytes())
+
+  while (uploadedChunks < session.total_chunks) {
+    if (signal?.aborted) return stop()
+
+    const start = uploadedChunks * session.chunk_size
+    const chunk = file.slice(start, Math.min(start + session.chunk_size, file.size))
+    await uploadChunk(session.bucket, `${folder}/${uploadedChunks}`, chunk, file.type, signal)
+    if (signal?.aborted) return stop()
+
+    uploadedChunks++
+    await fileUploadTrackingService.updateChunkProgress(
+      session.id,
+      (getUploadedBytes() / file.size) * 100
+    )
+    onProgress?.(getUploadedBytes())
+  }
+
+  // Join the chunks into the final object
+  const { error } = await supabase.functions.invoke('assemble-upload', {
+    body: { sessionId: session.id }
+  })
+
+  if (error) throw error
+  return 'completed'
+}
+
+/**
+ * Discard an unfinished upload and its stored chunks
+ */
+export const cancelChunkedUpload = async (session: FileUploadSession): Promise<void> => {
+  if (!supabase) return
+
+  const { fileUploadTrackingService } = await import('./enhancedServices')
+  const bucket = session.bucket || 'files'
+  const folder = getChunkFolder(session)
+
+  try {
+    const { data: chunks } = await supabase.storage.from(bucket).list(folder)
+    if (chunks && chunks.length > 0) {
+      await supabase.storage.from(bucket).remove(chunks.map(chunk => `${folder}/${chunk.name}`))
+    }
+  } catch (error) {
+    logger.warn('Failed to remove upload chunks:', error)
+  }
+
+  await fileUploadTrackingService.updateUploadProgress(session.id, session.upload_progress || 0, 'cancelled')
+}
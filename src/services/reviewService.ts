@@ -0,0 +1,136 @@
+import { supabase } from '../lib/supabase'
+import { Database } from '../types/database.types'
+
+export type ContentReview = Database['public']['Tables']['content_reviews']['Row']
+
+export interface ContentReviewWithProfile extends ContentReview {
+  profiles?: {
+    id: string
+    username: string
+    full_name: string
+  } | null
+  has_voted?: boolean
+}
+
+// Get visible reviews for a content item, most helpful first
+export const getContentReviews = async (
+  contentId: string,
+  userId?: string
+): Promise<ContentReviewWithProfile[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from('content_reviews')
+    .select(`
+      *,
+      profiles!content_reviews_user_id_fkey (
+        id,
+        username,
+        full_name
+      )
+    `)
+    .eq('content_id', contentId)
+    .eq('is_hidden', false)
+    .order('helpful_count', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  if (!data || data.length === 0 || !userId) return data || []
+
+  // Mark the reviews this user already found helpful
+  const { data: votes, error: votesError } = await supabase
+    .from('content_review_votes')
+    .select('review_id')
+    .eq('user_id', userId)
+    .in('review_id', data.map((review: ContentReview) => review.id))
+
+  if (votesError) throw votesError
+
+  const votedIds = new Set((votes || []).map((vote: { review_id: string }) => vote.review_id))
+  return data.map((review: ContentReview) => ({ ...review, has_voted: votedIds.has(review.id) }))
+}
+
+// Get the current user's review of a content item, if any
+export const getUserReview = async (
+  contentId: string,
+  userId: string
+): Promise<ContentReview | null> => {
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from('content_reviews')
+    .select('*')
+    .eq('content_id', contentId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Create or replace the user's review (one per user per content item)
+export const saveReview = async (
+  contentId: string,
+  userId: string,
+  rating: number,
+  reviewText?: string
+): Promise<ContentReview> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error('Please choose a rating between 1 and 5 stars')
+  }
+
+  const { data, error } = await supabase
+    .from('content_reviews')
+    .upsert({
+      content_id: contentId,
+      user_id: userId,
+      rating,
+      review_text: reviewText?.trim() || null
+    }, { onConflict: 'content_id,user_id' })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Delete the user's review
+export const deleteReview = async (reviewId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('content_reviews')
+    .delete()
+    .eq('id', reviewId)
+
+  if (error) throw error
+}
+
+// Toggle a helpful vote; returns true if the review is now marked helpful
+export const toggleHelpfulVote = async (
+  reviewId: string,
+  userId: string,
+  hasVoted: boolean
+): Promise<boolean> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  if (hasVoted) {
+    const { error } = await supabase
+      .from('content_review_votes')
+      .delete()
+      .eq('review_id', reviewId)
+      .eq('user_id', userId)
+
+    if (error) throw error
+    return false
+  }
+
+  const { error } = await supabase
+    .from('content_review_votes')
+    .insert([{ review_id: reviewId, user_id: userId }])
+
+  if (error) throw error
+  return true
+}
@@ -0,0 +1,203 @@
+/**
+ * Document scanning helpers for turning phone photos of notes into PDF pages
+ *
+ * Each page is straightened (quarter turns plus a small deskew angle), cropped and
+ * optionally run through a black-and-white document filter before the pages are
+ * merged into one PDF.
+ */
+
+import { mergeImagesToPdf } from './compressionService'
+
+export const MAX_SKEW_DEGREES = 15
+
+export type PageRotation = 0 | 90 | 180 | 270
+
+// Crop rectangle as fractions of the straightened image
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ScanPageEdits {
+  rotation: PageRotation
+  skew: number
+  crop: CropRect
+  documentFilter: boolean
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 }
+
+export const DEFAULT_PAGE_EDITS: ScanPageEdits = {
+  rotation: 0,
+  skew: 0,
+  crop: FULL_CROP,
+  documentFilter: false
+}
+
+// Pages are rendered at most this large before going into the PDF
+const PAGE_MAX_DIMENSION = 2000
+const PAGE_JPEG_QUALITY = 0.85
+
+// Bradley adaptive threshold: window is 1/16 of the page width, 15% below the local mean is ink
+const FILTER_WINDOW_DIVISOR = 16
+const FILTER_THRESHOLD = 0.15
+
+/**
+ * Decode a photo, honouring its EXIF orientation
+ */
+export const loadScanImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch {
+    throw new Error(`"${file.name}" could not be opened as an image`)
+  }
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Scanning is not supported in this browser')
+
+  return { canvas, context }
+}
+
+/**
+ * Draw the image turned by `rotation + skew` degrees on a white canvas that fits the result
+ */
+export const renderStraightened = (
+  image: ImageBitmap,
+  rotation: PageRotation,
+  skew: number,
+  maxDimension: number
+): HTMLCanvasElement => {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height))
+  const width = image.width * scale
+  const height = image.height * scale
+  const angle = ((rotation + skew) * Math.PI) / 180
+  const cos = Math.abs(Math.cos(angle))
+  const sin = Math.abs(Math.sin(angle))
+
+  const { canvas, context } = createCanvas(width * cos + height * sin, width * sin + height * cos)
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.translate(canvas.width / 2, canvas.height / 2)
+  context.rotate(angle)
+  context.drawImage(image, -width / 2, -height / 2, width, height)
+
+  return canvas
+}
+
+/**
+ * Turn a photo into clean black text on white, tolerating uneven lighting and shadows
+ */
+export const applyDocumentFilter = (canvas: HTMLCanvasElement): void => {
+  const context = canvas.getContext('2d')
+  if (!context) return
+
+  const { width, height } = canvas
+  const imageData = context.getImageData(0, 0, width, height)
+  const pixels = imageData.data
+
+  const gray = new Uint8Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4
+    gray[i] = (pixels[offset] * 299 + pixels[offset + 1] * 587 + pixels[offset + 2] * 114) / 1000
+  }
+
+  // Integral image so every local mean is four lookups
+  const integral = new Float64Array((width + 1) * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x]
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum
+    }
+  }
+
+  const half = Math.max(1, Math.floor(width / FILTER_WINDOW_DIVISOR / 2))
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half)
+    const y1 = Math.min(height - 1, y + half)
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half)
+      const x1 = Math.min(width - 1, x + half)
+      const count = (x1 - x0 + 1) * (y1 - y0 + 1)
+      const sum =
+        integral[(y1 + 1) * (width + 1) + x1 + 1] -
+        integral[y0 * (width + 1) + x1 + 1] -
+        integral[(y1 + 1) * (width + 1) + x0] +
+        integral[y0 * (width + 1) + x0]
+
+      const value = gray[y * width + x] * count <= sum * (1 - FILTER_THRESHOLD) ? 0 : 255
+      const offset = (y * width + x) * 4
+      pixels[offset] = value
+      pixels[offset + 1] = value
+      pixels[offset + 2] = value
+      pixels[offset + 3] = 255
+    }
+  }
+
+  context.putImageData(imageData, 0, 0)
+}
+
+/**
+ * Apply all edits to a page and return the finished canvas
+ */
+export const renderScanPage = (
+  image: ImageBitmap,
+  edits: ScanPageEdits,
+  maxDimension: number = PAGE_MAX_DIMENSION
+): HTMLCanvasElement => {
+  const straightened = renderStraightened(image, edits.rotation, edits.skew, maxDimension)
+  const { crop } = edits
+
+  const sx = crop.x * straightened.width
+  const sy = crop.y * straightened.height
+  const sw = crop.width * straightened.width
+  const sh = crop.height * straightened.height
+
+  const { canvas, context } = createCanvas(sw, sh)
+  context.drawImage(straightened, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height)
+
+  if (edits.documentFilter) {
+    applyDocumentFilter(canvas)
+  }
+
+  return canvas
+}
+
+const canvasToFile = (canvas: HTMLCanvasElement, fileName: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob
+        ? resolve(new File([blob], fileName, { type: 'image/jpeg' }))
+        : reject(new Error('Failed to render a scanned page')),
+      'image/jpeg',
+      PAGE_JPEG_QUALITY
+    )
+  })
+
+/**
+ * Render every page with its edits and merge them, in order, into `<title>.pdf`
+ */
+export const createScannedPdf = async (
+  pages: { image: ImageBitmap; edits: ScanPageEdits }[],
+  title: string
+): Promise<File> => {
+  if (pages.length === 0) throw new Error('Add at least one page to scan')
+
+  const pageFiles: File[] = []
+  for (const [index, page] of pages.entries()) {
+    const canvas = renderScanPage(page.image, page.edits)
+    pageFiles.push(await canvasToFile(canvas, `page-${index + 1}.jpg`))
+  }
+
+  const { file } = await mergeImagesToPdf(pageFiles, title)
+  return file
+}
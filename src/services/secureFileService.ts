@@ -1,37 +1,63 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
 
 /**
  * Secure File Download Service
  * Provides temporary signed URLs for file downloads without exposing storage details
  */
 
+/**
+ * secure-download turned the request down (4xx); the reason is shown to the user
+ * instead of signing the URL some other way
+ */
+export class DownloadRefusedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DownloadRefusedError'
+  }
+}
+
 interface SecureDownloadOptions {
   fileUrl: string
   fileName: string
   userId: string
   groupId?: string
+  contentId?: string
 }
 
 /**
  * Generate a secure temporary download URL for a file
- * For now, uses direct signed URLs which still provide good security
+ * The secure-download edge function issues the URL and counts the download
+ * against the content item or group file
  */
 export const getSecureDownloadUrl = async (
   fileUrl: string, 
   userId: string, 
-  groupId?: string
+  groupId?: string,
+  contentId?: string
 ): Promise<string> => {
   if (!supabase) throw new Error('Supabase not available')
   
   try {
     console.log('🔐 Generating secure download URL for:', fileUrl)
     
-    // For now, use direct signed URL generation
-    // This still provides security benefits:
-    // 1. URLs expire after 1 hour
-    // 2. User authorization is checked
-    // 3. Hides the direct storage path structure
-    return await getSecureDownloadUrlDirect(fileUrl, userId, groupId)
+    const { data, error } = await supabase.functions.invoke('secure-download', {
+      body: { fileUrl, groupId, contentId }
+    })
+    
+    if (error instanceof FunctionsHttpError && error.context.status < 500) {
+      const body = await error.context.json().catch(() => null)
+      throw new DownloadRefusedError(body?.error || 'You cannot download this file')
+    }
+
+    if (error || !data?.secureUrl) {
+      // Only when the function is unreachable or failing; the download still works, it just goes uncounted
+      logger.warn('secure-download unavailable, signing URL directly:', error || data?.error)
+      return await getSecureDownloadUrlDirect(fileUrl, userId, groupId)
+    }
+    
+    return data.secureUrl
     
   } catch (error: any) {
     console.error('❌ Secure download URL generation failed:', error.message)
@@ -39,13 +65,28 @@ export const getSecureDownloadUrl = async (
   }
 }
 
+// Preview links only need to outlive the viewer being open
+const PREVIEW_URL_EXPIRY = 300 // 5 minutes
+
+/**
+ * Generate a short-lived signed URL for previewing a file in the browser
+ */
+export const getSecurePreviewUrl = async (
+  fileUrl: string,
+  userId: string,
+  groupId?: string
+): Promise<string> => {
+  return getSecureDownloadUrlDirect(fileUrl, userId, groupId, PREVIEW_URL_EXPIRY)
+}
+
 /**
  * Fallback method: Direct signed URL generation
  */
 const getSecureDownloadUrlDirect = async (
   fileUrl: string, 
   userId: string, 
-  groupId?: string
+  groupId?: string,
+  expiresIn: number = 3600
 ): Promise<string> => {
   if (!supabase) throw new Error('Supabase not available')
   
@@ -98,10 +139,10 @@ const getSecureDownloadUrlDirect = async (
       }
     }
     
-    // Generate a signed URL that expires in 1 hour
+    // Generate a signed URL that expires in 1 hour unless a shorter expiry is requested
     const { data, error } = await supabase.storage
       .from(bucket)
-      .createSignedUrl(filePath, 3600) // 1 hour expiry
+      .createSignedUrl(filePath, expiresIn)
     
     if (error) {
       console.error('❌ Error generating signed URL:', error)
@@ -128,13 +169,14 @@ export const downloadFileSecurely = async ({
   fileUrl,
   fileName,
   userId,
-  groupId
+  groupId,
+  contentId
 }: SecureDownloadOptions): Promise<void> => {
   try {
     console.log('🔒 Starting secure download for:', fileName)
     
     // Get secure signed URL (with user authorization)
-    const secureUrl = await getSecureDownloadUrl(fileUrl, userId, groupId)
+    const secureUrl = await getSecureDownloadUrl(fileUrl, userId, groupId, contentId)
     
     // Create temporary download link
     const link = document.createElement('a')
@@ -151,6 +193,7 @@ export const downloadFileSecurely = async ({
     
   } catch (error: any) {
     console.error('❌ Secure download failed:', error.message)
+    if (error instanceof DownloadRefusedError) throw error
     
     // Fallback to direct download if secure download fails
     console.log('⚠️ Falling back to direct download for:', fileName)
@@ -180,7 +223,8 @@ export const getFileMetadata = async (
   userId: string
 ): Promise<{ size: number; type: string; lastModified: Date } | null> => {
   try {
-    const secureUrl = await getSecureDownloadUrl(fileUrl, userId)
+    // Signed directly so a metadata lookup is not counted as a download
+    const secureUrl = await getSecureDownloadUrlDirect(fileUrl, userId)
     
     // Fetch file metadata using HEAD request
     const response = await fetch(secureUrl, { method: 'HEAD' })
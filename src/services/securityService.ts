@@ -1,10 +1,12 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
 
 // File security validation service
-interface SecurityScanResult {
+export interface SecurityScanResult {
   isClean: boolean
+  status: 'clean' | 'infected' | 'error'
   threats: string[]
-  scanId: string
+  scanId: string | null
   details?: any
 }
 
@@ -161,81 +163,39 @@ export const validateFileContent = async (file: File): Promise<{ isValid: boolea
   }
 }
 
-// Mock virus scanning function (in production, integrate with actual antivirus API)
-export const performVirusScan = async (file: File): Promise<SecurityScanResult> => {
-  try {
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 1000))
-
-    // In production, integrate with services like:
-    // - VirusTotal API
-    // - ClamAV
-    // - Windows Defender API
-    // - Sophos API
-    
-    // Mock scan result - in production this would be real scan results
-    const mockResult: SecurityScanResult = {
-      isClean: true,
-      threats: [],
-      scanId: `scan_${Date.now()}_${Math.random().toString(36).substring(2)}`,
-      details: {
-        scanEngine: 'MockAV',
-        scanTime: new Date().toISOString(),
-        fileHash: await generateFileHash(file)
-      }
-    }
+/**
+ * Scan an uploaded file held in quarantine with the server-side scan engines
+ * (ClamAV plus PDF/Office active content checks). A clean file is released to its
+ * bucket; an infected one is deleted. The verdict is stored in `file_security_scans`.
+ */
+export const performVirusScan = async (uploadId: string): Promise<SecurityScanResult> => {
+  if (!supabase) {
+    throw new Error('Supabase client not available')
+  }
 
-    // Simulate threat detection for demo purposes (files with "virus" in name)
-    if (file.name.toLowerCase().includes('virus') || file.name.toLowerCase().includes('malware')) {
-      mockResult.isClean = false
-      mockResult.threats = ['Trojan.Generic.Mock', 'Suspicious.File.Pattern']
-    }
+  const { data, error } = await supabase.functions.invoke('scan-file', {
+    body: { uploadId }
+  })
 
-    return mockResult
-  } catch (error) {
+  if (error) {
     console.error('Virus scan error:', error)
+    // The function explains refusals, such as a full storage quota, in the response body
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null
     return {
       isClean: false,
-      threats: ['Scan.Error'],
-      scanId: `error_${Date.now()}`,
-      details: { error: error instanceof Error ? error.message : 'Unknown error' }
+      status: 'error',
+      threats: [],
+      scanId: null,
+      details: { error: body?.error || error.message }
     }
   }
-}
-
-// Generate file hash for integrity checking
-const generateFileHash = async (file: File): Promise<string> => {
-  const buffer = await file.arrayBuffer()
-  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer)
-  const hashArray = Array.from(new Uint8Array(hashBuffer))
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('')
-}
-
-// Store security scan results
-export const storeSecurityScanResult = async (
-  contentId: string,
-  scanResult: SecurityScanResult
-): Promise<void> => {
-  if (!supabase) {
-    throw new Error('Supabase client not available')
-  }
 
-  const { error } = await supabase
-    .from('file_security_scans')
-    .insert([{
-      content_id: contentId,
-      scan_status: scanResult.isClean ? 'clean' : 'infected',
-      scan_results: {
-        threats: scanResult.threats,
-        scanId: scanResult.scanId,
-        details: scanResult.details
-      },
-      scanned_at: new Date().toISOString()
-    }])
-
-  if (error) {
-    console.error('Failed to store security scan result:', error)
-    throw error
+  return {
+    isClean: data.status === 'clean',
+    status: data.status,
+    threats: data.threats || [],
+    scanId: data.scanId,
+    details: { engines: data.engines }
   }
 }
 
@@ -0,0 +1,131 @@
+import { supabase } from '../lib/supabase'
+
+export interface FileShareLink {
+  id: string
+  token: string
+  created_by: string
+  bucket: string
+  file_path: string
+  file_name: string
+  content_id: string | null
+  group_id: string | null
+  expires_at: string
+  max_downloads: number | null
+  download_count: number
+  last_downloaded_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'used_up' | 'revoked' | 'not_found'
+
+export interface SharedFileInfo {
+  status: ShareLinkStatus
+  fileName?: string
+  expiresAt?: string
+  remainingDownloads?: number | null
+  sharedBy?: { username: string; full_name: string } | null
+}
+
+export interface CreateShareLinkOptions {
+  fileUrl: string
+  fileName: string
+  /** Exactly one of contentId or groupId says where the file is shared from */
+  contentId?: string
+  groupId?: string
+  expiresInHours: number
+  /** Leave out for unlimited downloads until the link expires */
+  maxDownloads?: number | null
+}
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' }
+]
+
+// Build the public URL for a share link
+export const getShareLinkUrl = (token: string): string => {
+  return `${window.location.origin}${window.location.pathname}#/files/shared/${token}`
+}
+
+// Where a link stands right now, worked out the same way as the edge function
+export const getShareLinkStatus = (link: FileShareLink): ShareLinkStatus => {
+  if (link.revoked_at) return 'revoked'
+  if (new Date(link.expires_at) <= new Date()) return 'expired'
+  if (link.max_downloads != null && link.download_count >= link.max_downloads) return 'used_up'
+  return 'active'
+}
+
+// Create a share link for a content or group file
+export const createShareLink = async (options: CreateShareLinkOptions): Promise<FileShareLink> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase.functions.invoke('secure-download', {
+    body: { action: 'create_share', ...options }
+  })
+
+  if (error) throw error
+  if (data?.error) throw new Error(data.error)
+  return data.link
+}
+
+// Get the current user's links for one file, newest first
+export const getShareLinksForFile = async (fileUrl: string, userId: string): Promise<FileShareLink[]> => {
+  if (!supabase) return []
+
+  const path = fileUrl.split('/storage/v1/object/public/')[1]?.split('?')[0]
+  if (!path) return []
+
+  const [bucket, ...pathParts] = path.split('/')
+
+  const { data, error } = await supabase
+    .from('file_share_links')
+    .select('*')
+    .eq('created_by', userId)
+    .eq('bucket', bucket)
+    .eq('file_path', decodeURIComponent(pathParts.join('/')))
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+// Revoke a share link (owner only)
+export const revokeShareLink = async (linkId: string): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('file_share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId)
+
+  if (error) throw error
+}
+
+// Look up a share link without using up a download
+export const getSharedFileInfo = async (token: string): Promise<SharedFileInfo> => {
+  if (!supabase) return { status: 'not_found' }
+
+  const { data, error } = await supabase.functions.invoke('secure-download', {
+    body: { shareToken: token }
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Count a download against a share link and get a URL that starts it
+export const redeemShareLink = async (token: string): Promise<{ secureUrl: string; fileName: string }> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { data, error } = await supabase.functions.invoke('secure-download', {
+    body: { action: 'redeem_share', shareToken: token }
+  })
+
+  if (error) {
+    throw new Error('This link has expired, been revoked or reached its download limit')
+  }
+  return data
+}
@@ -0,0 +1,88 @@
+import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
+
+export type UploadPurpose = 'content' | 'group_file' | 'avatar' | 'other'
+
+// Usage is also reported for quarantined objects no upload has claimed yet, such as chunks
+export type StoragePurpose = UploadPurpose | 'pending'
+
+export interface StoragePurposeUsage {
+  purpose: StoragePurpose
+  bytes: number
+  files: number
+}
+
+export interface StorageUsage {
+  quotaBytes: number
+  usedBytes: number
+  fileCount: number
+  hasCustomQuota: boolean
+  byPurpose: StoragePurposeUsage[]
+}
+
+// Raised by the file_uploads quota trigger
+export const STORAGE_QUOTA_EXCEEDED = 'storage_quota_exceeded'
+
+// Get a user's quota and how much of it is used, by upload purpose (own usage, or any user for admins)
+export const getStorageUsage = async (userId: string): Promise<StorageUsage | null> => {
+  if (!supabase) return null
+
+  const { data, error } = await supabase.rpc('get_storage_usage', {
+    user_id_param: userId
+  })
+
+  if (error) throw error
+  if (!data) return null
+
+  return {
+    quotaBytes: Number(data.quota_bytes),
+    usedBytes: Number(data.used_bytes),
+    fileCount: Number(data.file_count),
+    hasCustomQuota: !!data.has_custom_quota,
+    byPurpose: (data.by_purpose || []).map((row: { purpose: StoragePurpose; bytes: number; files: number }) => ({
+      purpose: row.purpose,
+      bytes: Number(row.bytes),
+      files: Number(row.files)
+    }))
+  }
+}
+
+/**
+ * Check whether a file of `fileSize` bytes still fits in the user's quota.
+ * If usage cannot be read the upload is allowed; the database trigger has the final say.
+ */
+export const checkStorageQuota = async (
+  userId: string,
+  fileSize: number
+): Promise<{ allowed: boolean; usage: StorageUsage | null }> => {
+  try {
+    const usage = await getStorageUsage(userId)
+    if (!usage) return { allowed: true, usage: null }
+
+    return { allowed: usage.usedBytes + fileSize <= usage.quotaBytes, usage }
+  } catch (error) {
+    logger.warn('Storage quota check failed:', error)
+    return { allowed: true, usage: null }
+  }
+}
+
+// Set a user's storage quota (admin only)
+export const setStorageQuota = async (
+  userId: string,
+  quotaBytes: number,
+  adminId: string,
+  reason?: string
+): Promise<void> => {
+  if (!supabase) throw new Error('Supabase not available')
+
+  const { error } = await supabase
+    .from('user_storage_quotas')
+    .upsert({
+      user_id: userId,
+      quota_bytes: quotaBytes,
+      reason: reason || null,
+      updated_by: adminId
+    }, { onConflict: 'user_id' })
+
+  if (error) throw error
+}
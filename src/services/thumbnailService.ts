@@ -0,0 +1,42 @@
+import { supabase } from '../lib/supabase'
+import { logger } from '../utils/logger'
+
+const THUMBNAIL_FILE_TYPES = ['pdf', 'jpg', 'jpeg', 'png', 'gif', 'webp']
+
+/**
+ * Whether the thumbnail edge function can render this file
+ */
+export const supportsThumbnail = (fileName: string): boolean => {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  return THUMBNAIL_FILE_TYPES.includes(extension || '')
+}
+
+/**
+ * Ask the server to render a thumbnail for an uploaded file. The result is
+ * written to the rows that reference the file, so callers do not wait for it.
+ */
+export const requestThumbnail = async (fileUrl: string): Promise<string | null> => {
+  if (!supabase) return null
+
+  try {
+    const { data, error } = await supabase.functions.invoke('generate-thumbnail', {
+      body: { fileUrl }
+    })
+
+    if (error) throw error
+    return data?.thumbnailPath || null
+  } catch (error) {
+    logger.warn('Thumbnail generation failed:', error)
+    return null
+  }
+}
+
+/**
+ * Public URL for a stored thumbnail path
+ */
+export const getThumbnailUrl = (thumbnailPath: string | null | undefined): string | null => {
+  if (!supabase || !thumbnailPath) return null
+
+  const { data } = supabase.storage.from('thumbnails').getPublicUrl(thumbnailPath)
+  return data?.publicUrl || null
+}
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase'
 import { Database } from '../types/database.types'
+import { uploadFile } from './fileUploadService'
 
 type UpdateRequest = Database['public']['Tables']['update_requests']['Row']
 type UpdateRequestInsert = Database['public']['Tables']['update_requests']['Insert']
@@ -31,6 +32,28 @@ export const createUpdateRequest = async (
   return data
 }
 
+// Create a request with a corrected file that replaces the content's file once approved
+export const createUpdateRequestWithFile = async (
+  requestData: UpdateRequestInsert,
+  replacementFile: File
+): Promise<UpdateRequest> => {
+  const upload = await uploadFile(replacementFile, requestData.user_id, {
+    folder: 'update-requests'
+  })
+
+  if (!upload.success || !upload.fileUrl) {
+    throw new Error(upload.error || 'Failed to upload file. Please try again')
+  }
+
+  return createUpdateRequest({
+    ...requestData,
+    replacement_file_url: upload.fileUrl,
+    replacement_file_name: replacementFile.name,
+    replacement_file_size: replacementFile.size,
+    replacement_file_type: replacementFile.name.split('.').pop()?.toLowerCase() || null
+  })
+}
+
 export const getUserUpdateRequests = async (
   userId: string
 ): Promise<UpdateRequestWithProfile[]> => {
@@ -86,7 +109,8 @@ const getAllUpdateRequests = async (
   return data || []
 }
 
-const updateRequestStatus = async (
+// Approving a request with a replacement file publishes a new content version (see copper_ledger migration)
+export const updateRequestStatus = async (
   requestId: string,
   status: UpdateRequest['status'],
   adminNotes?: string,
@@ -96,6 +120,7 @@ const updateRequestStatus = async (
     status,
     admin_notes: adminNotes,
     reviewed_by: reviewedBy,
+    reviewed_at: status === 'pending' ? null : new Date().toISOString(),
     updated_at: new Date().toISOString(),
   }
 
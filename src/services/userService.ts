@@ -163,4 +163,57 @@ export const getUserContent = async (
 
   if (error) throw error
   return data || []
-}
\ No newline at end of file
+}
+export interface FileAnalyticsDay {
+  day: string
+  views: number
+  downloads: number
+}
+
+export interface FileAnalytics {
+  kind: 'content' | 'group_file'
+  id: string
+  title: string
+  /** Group files have no view count */
+  views: number | null
+  downloads: number
+  createdAt: string
+  daily: FileAnalyticsDay[]
+}
+
+// One file in the get_file_analytics result
+interface FileAnalyticsRow {
+  kind: FileAnalytics['kind']
+  id: string
+  title: string
+  views: number | null
+  downloads: number
+  created_at: string
+  daily: FileAnalyticsDay[] | null
+}
+
+// Get views and downloads over the last `days` days for each file a user uploaded (own files, or any user for admins)
+export const getFileAnalytics = async (userId: string, days: number = 30): Promise<FileAnalytics[]> => {
+  if (!supabase) return []
+
+  const { data, error } = await supabase.rpc('get_file_analytics', {
+    user_id_param: userId,
+    days_param: days
+  })
+
+  if (error) throw error
+
+  return ((data || []) as FileAnalyticsRow[]).map(file => ({
+    kind: file.kind,
+    id: file.id,
+    title: file.title,
+    views: file.views == null ? null : Number(file.views),
+    downloads: Number(file.downloads),
+    createdAt: file.created_at,
+    daily: (file.daily || []).map(day => ({
+      day: day.day,
+      views: Number(day.views),
+      downloads: Number(day.downloads)
+    }))
+  }))
+}
@@ -2,7 +2,7 @@
 export interface UserActivityLog {
   id: string
   user_id: string
-  activity_type: 'login' | 'logout' | 'upload' | 'download' | 'message' | 'group_join' | 'group_leave' | 'profile_update' | 'error'
+  activity_type: 'login' | 'logout' | 'upload' | 'download' | 'content_view' | 'message' | 'group_join' | 'group_leave' | 'profile_update' | 'error'
   activity_data: Record<string, any>
   ip_address: string | null
   user_agent: string | null
@@ -27,11 +27,18 @@ export interface FileUploadSession {
   file_name: string
   file_size: number
   file_type: string
-  upload_status: 'pending' | 'uploading' | 'completed' | 'failed' | 'cancelled'
+  upload_status: 'pending' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled'
   upload_progress: number
   error_message: string | null
   storage_path: string | null
+  bucket?: string | null
+  content_hash?: string | null
+  chunk_size?: number | null
+  total_chunks?: number | null
+  uploaded_chunks?: number
+  assembled_at?: string | null
   created_at: string
+  updated_at?: string
   completed_at: string | null
 }
 
@@ -378,3 +378,15 @@ export function createFriendlyError(error: unknown): AppError {
   
   return new AppError(message)
 }
+
+/**
+ * Message of a caught error for display. Supabase returns plain `{ message }` objects
+ * rather than Error instances, so both are read.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string' && error.message) {
+    return error.message
+  }
+
+  return fallback
+}
@@ -0,0 +1,166 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Chunked uploads are only ever assembled into the uploader's own quarantine folder
+const QUARANTINE_BUCKET = 'quarantine'
+const MAX_FILE_SIZE = 5242880 // 5MB
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    )
+
+    // Service role client so the final object can be written regardless of bucket policies
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Get the current user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    // Parse request body
+    const { sessionId } = await req.json()
+
+    if (!sessionId) {
+      return jsonResponse({ error: 'Missing sessionId parameter' }, 400)
+    }
+
+    const { data: session, error: sessionError } = await serviceClient
+      .from('file_upload_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (sessionError || !session) {
+      return jsonResponse({ error: 'Upload session not found' }, 404)
+    }
+
+    if (!session.bucket || !session.storage_path || !session.total_chunks) {
+      return jsonResponse({ error: 'Upload session is not a chunked upload' }, 400)
+    }
+
+    // Never trust the stored target: it must be a file in the user's own quarantine folder
+    const storagePath: string = session.storage_path
+    const pathParts = storagePath.split('/')
+    if (
+      session.bucket !== QUARANTINE_BUCKET ||
+      pathParts[0] !== user.id ||
+      pathParts.length < 2 ||
+      pathParts[1] === 'chunks' ||
+      pathParts.some(part => part === '' || part === '.' || part === '..')
+    ) {
+      return jsonResponse({ error: 'Invalid upload target' }, 400)
+    }
+
+    // A retry after a lost response gets the same answer as the call that assembled the file
+    if (session.assembled_at) {
+      return jsonResponse({ storagePath }, 200)
+    }
+
+    if (!session.file_size || session.file_size > MAX_FILE_SIZE) {
+      return jsonResponse({ error: 'Invalid file size' }, 400)
+    }
+
+    // Download the chunks in order and join them
+    const folder = `${user.id}/chunks/${session.id}`
+    const joined = new Uint8Array(session.file_size)
+    let offset = 0
+
+    for (let index = 0; index < session.total_chunks; index++) {
+      const { data: chunk, error: chunkError } = await serviceClient.storage
+        .from(QUARANTINE_BUCKET)
+        .download(`${folder}/${index}`)
+
+      if (chunkError || !chunk) {
+        console.error(`Missing chunk ${index}:`, chunkError)
+        return jsonResponse({ error: `Chunk ${index} is missing` }, 409)
+      }
+
+      const bytes = new Uint8Array(await chunk.arrayBuffer())
+      if (offset + bytes.length > joined.length) {
+        return jsonResponse({ error: 'Uploaded chunks do not match the file size' }, 409)
+      }
+
+      joined.set(bytes, offset)
+      offset += bytes.length
+    }
+
+    if (offset !== session.file_size) {
+      return jsonResponse({ error: 'Uploaded chunks do not match the file size' }, 409)
+    }
+
+    const { error: uploadError } = await serviceClient.storage
+      .from(QUARANTINE_BUCKET)
+      .upload(storagePath, joined, {
+        contentType: session.file_type || 'application/octet-stream',
+        cacheControl: '3600',
+        upsert: false
+      })
+
+    // An existing object means an earlier call stored the file but did not get to record it
+    if (uploadError && !/exists/i.test(uploadError.message || '')) {
+      console.error('Error storing assembled file:', uploadError)
+      return jsonResponse({ error: 'Failed to store file' }, 500)
+    }
+
+    const { error: markError } = await serviceClient
+      .from('file_upload_sessions')
+      .update({ uploaded_chunks: session.total_chunks, assembled_at: new Date().toISOString() })
+      .eq('id', session.id)
+
+    if (markError) {
+      console.error('Error marking session assembled:', markError)
+      return jsonResponse({ error: 'Failed to record the assembled file' }, 500)
+    }
+
+    // The chunks are no longer needed once the file is in place
+    const chunkPaths = Array.from({ length: session.total_chunks }, (_, index) => `${folder}/${index}`)
+    const { error: removeError } = await serviceClient.storage
+      .from(QUARANTINE_BUCKET)
+      .remove(chunkPaths)
+
+    if (removeError) {
+      console.error('Error removing chunks:', removeError)
+    }
+
+    return jsonResponse({ storagePath }, 200)
+
+  } catch (error) {
+    console.error('Assemble upload error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,165 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import JSZip from 'https://esm.sh/jszip@3.10.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'content-disposition',
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+const SUBMISSIONS_BUCKET = 'assignment-submissions'
+
+// Keep archive entry names portable across operating systems
+const safeName = (value: string) => value.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'file'
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    )
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { assignmentId } = await req.json()
+    if (!assignmentId) {
+      return jsonResponse({ error: 'Missing assignmentId parameter' }, 400)
+    }
+
+    // Service role client, since submission files belong to many different members
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: assignment } = await serviceClient
+      .from('group_assignments')
+      .select('id, group_id, title, due_at')
+      .eq('id', assignmentId)
+      .maybeSingle()
+
+    if (!assignment) {
+      return jsonResponse({ error: 'Assignment not found' }, 404)
+    }
+
+    const { data: isAdmin } = await serviceClient.rpc('is_group_admin', {
+      group_id_param: assignment.group_id,
+      user_id_param: user.id
+    })
+
+    if (!isAdmin) {
+      return jsonResponse({ error: 'Only group admins can download submissions' }, 403)
+    }
+
+    const { data: submissions, error: submissionsError } = await serviceClient
+      .from('group_assignment_submissions')
+      .select(`
+        user_id,
+        file_upload_id,
+        storage_bucket,
+        storage_path,
+        file_name,
+        submitted_at,
+        submitter:profiles!group_assignment_submissions_user_id_fkey (
+          username,
+          full_name
+        )
+      `)
+      .eq('assignment_id', assignmentId)
+      .order('submitted_at', { ascending: true })
+
+    if (submissionsError) throw submissionsError
+    if (!submissions || submissions.length === 0) {
+      return jsonResponse({ error: 'Nothing has been submitted yet' }, 404)
+    }
+
+    // Only read files that the upload records say belong to the member who submitted them
+    const { data: uploads, error: uploadsError } = await serviceClient
+      .from('file_uploads')
+      .select('id, user_id, storage_bucket, upload_path, scan_status')
+      .in('id', submissions.map(submission => submission.file_upload_id))
+
+    if (uploadsError) throw uploadsError
+    const uploadsById = new Map((uploads || []).map(upload => [upload.id, upload]))
+
+    const zip = new JSZip()
+    const usedNames = new Set<string>()
+    const failed: string[] = []
+
+    for (const submission of submissions) {
+      const submitter = submission.submitter as { username: string; full_name: string | null } | null
+      const who = submitter?.full_name || submitter?.username || 'unknown'
+      const late = new Date(submission.submitted_at) > new Date(assignment.due_at)
+
+      let entryName = safeName(`${who}${late ? ' (LATE)' : ''} - ${submission.file_name}`)
+      for (let copy = 2; usedNames.has(entryName); copy++) {
+        entryName = safeName(`${who}${late ? ' (LATE)' : ''} (${copy}) - ${submission.file_name}`)
+      }
+
+      const upload = uploadsById.get(submission.file_upload_id)
+      const verified = upload &&
+        upload.user_id === submission.user_id &&
+        upload.scan_status === 'clean' &&
+        upload.storage_bucket === SUBMISSIONS_BUCKET &&
+        submission.storage_bucket === SUBMISSIONS_BUCKET &&
+        upload.upload_path === submission.storage_path
+
+      const { data: file, error: downloadError } = verified
+        ? await serviceClient.storage.from(SUBMISSIONS_BUCKET).download(upload.upload_path)
+        : { data: null, error: new Error('Submission file does not match its upload') }
+
+      if (downloadError || !file) {
+        console.error('Error downloading submission:', submission.storage_path, downloadError)
+        failed.push(`${who}: ${submission.file_name}`)
+        continue
+      }
+
+      usedNames.add(entryName)
+      zip.file(entryName, new Uint8Array(await file.arrayBuffer()))
+    }
+
+    if (failed.length > 0) {
+      zip.file('MISSING FILES.txt', `These submissions could not be added to the archive:\r\n\r\n${failed.join('\r\n')}\r\n`)
+    }
+
+    const archive = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+    const archiveName = `${safeName(assignment.title)} - submissions.zip`
+
+    return new Response(archive, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${archiveName.replace(/"/g, '')}"`
+      }
+    })
+  } catch (error) {
+    console.error('Submission archive error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
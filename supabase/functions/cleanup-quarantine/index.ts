@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const QUARANTINE_BUCKET = 'quarantine'
+// Storage API removals are capped per request
+const REMOVE_BATCH_SIZE = 100
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduled job may run the cleanup; it calls with the service role key
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const authHeader = req.headers.get('Authorization')
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const serviceClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+
+    const { data: staleObjects, error: lookupError } = await serviceClient
+      .rpc('get_stale_quarantine_objects')
+
+    if (lookupError) {
+      console.error('Error finding stale quarantine objects:', lookupError)
+      return jsonResponse({ error: 'Failed to find stale quarantine objects' }, 500)
+    }
+
+    const names = (staleObjects || []).map((row: { object_name: string }) => row.object_name)
+    let removed = 0
+
+    for (let start = 0; start < names.length; start += REMOVE_BATCH_SIZE) {
+      const batch = names.slice(start, start + REMOVE_BATCH_SIZE)
+      const { error: removeError } = await serviceClient.storage
+        .from(QUARANTINE_BUCKET)
+        .remove(batch)
+
+      if (removeError) {
+        console.error('Error removing stale quarantine objects:', removeError)
+        continue
+      }
+      removed += batch.length
+    }
+
+    return jsonResponse({ success: true, found: names.length, removed }, 200)
+
+  } catch (error) {
+    console.error('Quarantine cleanup error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
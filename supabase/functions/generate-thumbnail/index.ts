@@ -0,0 +1,187 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import * as mupdf from 'npm:mupdf@1.3.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Thumbnails are rendered to fit inside this box, never upscaled
+const THUMBNAIL_MAX_WIDTH = 320
+const THUMBNAIL_MAX_HEIGHT = 480
+
+// Thumbnails are public, so only files that are public already get one; private
+// buckets such as group-files would leak a preview at a guessable path
+const THUMBNAIL_BUCKET = 'thumbnails'
+const SOURCE_BUCKETS = ['files']
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp'
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    // Client acting as the caller, used for the access checks
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    )
+
+    // Service role client for reading private files and writing thumbnails
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Get the current user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    // Parse request body
+    const { fileUrl } = await req.json()
+
+    if (!fileUrl) {
+      return jsonResponse({ error: 'Missing fileUrl parameter' }, 400)
+    }
+
+    // Extract bucket and file path from URL
+    const urlParts = fileUrl.split('/storage/v1/object/public/')
+    if (urlParts.length < 2) {
+      return jsonResponse({ error: 'Invalid file URL format' }, 400)
+    }
+
+    const [bucket, ...pathParts] = urlParts[1].split('?')[0].split('/')
+    const filePath = decodeURIComponent(pathParts.join('/'))
+
+    if (!bucket || !filePath) {
+      return jsonResponse({ error: 'Invalid file URL format' }, 400)
+    }
+
+    if (!SOURCE_BUCKETS.includes(bucket)) {
+      return jsonResponse({ error: 'Thumbnails are only generated for public files' }, 422)
+    }
+
+    const extension = filePath.split('.').pop()?.toLowerCase() || ''
+    const mimeType = MIME_TYPES[extension]
+    if (!mimeType) {
+      return jsonResponse({ error: 'Thumbnails are not supported for this file type' }, 422)
+    }
+
+    // Only the uploader or an admin may (re)generate a thumbnail
+    const { data: upload } = await serviceClient
+      .from('file_uploads')
+      .select('id, user_id')
+      .eq('upload_path', filePath)
+      .maybeSingle()
+
+    if (upload?.user_id !== user.id) {
+      const { data: profile } = await serviceClient
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_admin) {
+        return jsonResponse({ error: 'Access denied: User not authorized to access this file' }, 403)
+      }
+    }
+
+    // Download the original file
+    const { data: fileData, error: downloadError } = await serviceClient.storage
+      .from(bucket)
+      .download(filePath)
+
+    if (downloadError || !fileData) {
+      console.error('Error downloading file:', downloadError)
+      return jsonResponse({ error: 'File not found' }, 404)
+    }
+
+    // Render the first page (or the image itself) scaled down to the thumbnail box
+    let png: Uint8Array
+    try {
+      const document = mupdf.Document.openDocument(new Uint8Array(await fileData.arrayBuffer()), mimeType)
+      const page = document.loadPage(0)
+      const [x0, y0, x1, y1] = page.getBounds()
+      const scale = Math.min(THUMBNAIL_MAX_WIDTH / (x1 - x0), THUMBNAIL_MAX_HEIGHT / (y1 - y0), 1)
+      const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false, true)
+      png = pixmap.asPNG()
+    } catch (renderError) {
+      console.error('Error rendering thumbnail:', renderError)
+      return jsonResponse({ error: 'This file could not be rendered' }, 422)
+    }
+
+    const thumbnailPath = `${bucket}/${filePath}.png`
+    const { error: uploadError } = await serviceClient.storage
+      .from(THUMBNAIL_BUCKET)
+      .upload(thumbnailPath, png, {
+        contentType: 'image/png',
+        cacheControl: '86400',
+        upsert: true
+      })
+
+    if (uploadError) {
+      console.error('Error storing thumbnail:', uploadError)
+      return jsonResponse({ error: 'Failed to store thumbnail' }, 500)
+    }
+
+    // Record the thumbnail on the upload and on any rows already pointing at the file
+    await serviceClient
+      .from('file_uploads')
+      .update({ thumbnail_path: thumbnailPath })
+      .eq('upload_path', filePath)
+
+    for (const table of ['content', 'group_messages', 'group_files']) {
+      const { error: updateError } = await serviceClient
+        .from(table)
+        .update({ thumbnail_path: thumbnailPath })
+        .eq('file_url', fileUrl)
+
+      if (updateError) {
+        console.error(`Error recording thumbnail on ${table}:`, updateError)
+      }
+    }
+
+    const { data: urlData } = serviceClient.storage
+      .from(THUMBNAIL_BUCKET)
+      .getPublicUrl(thumbnailPath)
+
+    return jsonResponse({
+      thumbnailPath,
+      thumbnailUrl: urlData.publicUrl
+    }, 200)
+
+  } catch (error) {
+    console.error('Thumbnail generation error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,203 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Events ending before this are left out of the feed
+const FEED_HISTORY_DAYS = 90
+
+// Calendar apps default to an hour when an event has no end time
+const DEFAULT_DURATION_MS = 60 * 60 * 1000
+
+interface GroupEvent {
+  id: string
+  title: string
+  description: string | null
+  event_type: 'exam' | 'deadline' | 'class' | 'other'
+  location: string | null
+  starts_at: string
+  ends_at: string | null
+  recurrence: 'none' | 'daily' | 'weekly' | 'monthly'
+  recurrence_until: string | null
+  reminder_minutes: number[]
+  created_at: string
+  updated_at: string
+}
+
+const textResponse = (body: string, status: number) =>
+  new Response(body, {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' }
+  })
+
+// 2025-09-15T09:30:00.000Z -> 20250915T093000Z
+const formatUtc = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+// Escape TEXT values as RFC 5545 requires
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+// Fold lines longer than 75 octets onto continuation lines starting with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+const RRULE_FREQUENCIES = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY'
+} as const
+
+const buildEvent = (event: GroupEvent): string[] => {
+  const endsAt = event.ends_at ?? new Date(new Date(event.starts_at).getTime() + DEFAULT_DURATION_MS)
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@juconnects`,
+    `DTSTAMP:${formatUtc(event.updated_at)}`,
+    `CREATED:${formatUtc(event.created_at)}`,
+    `LAST-MODIFIED:${formatUtc(event.updated_at)}`,
+    `DTSTART:${formatUtc(event.starts_at)}`,
+    `DTEND:${formatUtc(endsAt)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `CATEGORIES:${event.event_type.toUpperCase()}`
+  ]
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+
+  // DTSTART is in UTC and monthly events start by the 28th, so calendar apps step exactly like the app
+  if (event.recurrence !== 'none') {
+    const until = event.recurrence_until ? `;UNTIL=${formatUtc(event.recurrence_until)}` : ''
+    lines.push(`RRULE:FREQ=${RRULE_FREQUENCIES[event.recurrence]}${until}`)
+  }
+
+  for (const minutes of event.reminder_minutes ?? []) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:-PT${minutes}M`,
+      'END:VALARM'
+    )
+  }
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+const buildCalendar = (groupName: string, events: GroupEvent[]) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//JU CONNECTS//Group Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(groupName)}`,
+    'X-PUBLISHED-TTL:PT1H',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    ...events.flatMap(buildEvent),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Calendar apps cannot sign in, so the member's feed token is the credential
+    const token = new URL(req.url).searchParams.get('token')?.replace(/\.ics$/, '')
+    if (!token || !/^[0-9a-f-]{36}$/i.test(token)) {
+      return textResponse('Missing or invalid calendar token', 400)
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: feed, error: feedError } = await serviceClient
+      .from('group_calendar_tokens')
+      .select('group_id, user_id')
+      .eq('token', token)
+      .maybeSingle()
+
+    if (feedError) throw feedError
+    if (!feed) {
+      return textResponse('Calendar feed not found', 404)
+    }
+
+    // Members who leave the group lose the feed along with the chat
+    const { data: membership } = await serviceClient
+      .from('group_members')
+      .select('id')
+      .eq('group_id', feed.group_id)
+      .eq('user_id', feed.user_id)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (!membership) {
+      return textResponse('You are no longer a member of this group', 403)
+    }
+
+    const { data: group, error: groupError } = await serviceClient
+      .from('class_groups')
+      .select('name')
+      .eq('id', feed.group_id)
+      .single()
+
+    if (groupError) throw groupError
+
+    const cutoff = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const { data: events, error: eventsError } = await serviceClient
+      .from('group_events')
+      .select('*')
+      .eq('group_id', feed.group_id)
+      .or(`starts_at.gte.${cutoff},recurrence.neq.none`)
+      .order('starts_at', { ascending: true })
+
+    if (eventsError) throw eventsError
+
+    const calendar = buildCalendar(group.name, (events ?? []) as GroupEvent[])
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="group-calendar.ics"',
+        'Cache-Control': 'private, max-age=900'
+      }
+    })
+  } catch (error) {
+    console.error('Error building group calendar:', error)
+    return textResponse('Could not build the calendar feed', 500)
+  }
+})
@@ -0,0 +1,302 @@
+/**
+ * Scan engines used by the scan-file function
+ *
+ * Each engine looks at the raw bytes of a file and reports the threats it found.
+ * Engines are enabled with the SCAN_ENGINES environment variable, a comma separated
+ * list of engine names (default "clamav,document").
+ */
+
+export interface EngineResult {
+  threats: string[]
+  details?: Record<string, unknown>
+}
+
+export interface ScanEngine {
+  name: string
+  scan: (bytes: Uint8Array) => Promise<EngineResult>
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// ClamAV daemon connection; a local clamd listening on TCP by default
+const CLAMD_HOST = Deno.env.get('CLAMD_HOST') ?? '127.0.0.1'
+const CLAMD_PORT = Number(Deno.env.get('CLAMD_PORT') ?? '3310')
+const CLAMD_TIMEOUT_MS = Number(Deno.env.get('CLAMD_TIMEOUT_MS') ?? '30000')
+const CLAMD_CHUNK_SIZE = 64 * 1024
+
+const writeAll = async (conn: Deno.Conn, data: Uint8Array) => {
+  let written = 0
+  while (written < data.length) {
+    written += await conn.write(data.subarray(written))
+  }
+}
+
+// clamd ends its reply with a null byte when the command is prefixed with "z"
+const readReply = async (conn: Deno.Conn): Promise<string> => {
+  const buffer = new Uint8Array(1024)
+  let reply = ''
+
+  while (true) {
+    const read = await conn.read(buffer)
+    if (read === null) break
+
+    const chunk = buffer.subarray(0, read)
+    const end = chunk.indexOf(0)
+    reply += decoder.decode(end === -1 ? chunk : chunk.subarray(0, end))
+    if (end !== -1) break
+  }
+
+  return reply.trim()
+}
+
+/**
+ * Streams the file to clamd with the INSTREAM command
+ */
+export const clamdEngine: ScanEngine = {
+  name: 'clamav',
+  scan: async (bytes) => {
+    const conn = await Deno.connect({ hostname: CLAMD_HOST, port: CLAMD_PORT })
+    const timer = setTimeout(() => conn.close(), CLAMD_TIMEOUT_MS)
+
+    let reply: string
+    try {
+      await writeAll(conn, encoder.encode('zINSTREAM\0'))
+
+      for (let offset = 0; offset < bytes.length; offset += CLAMD_CHUNK_SIZE) {
+        const chunk = bytes.subarray(offset, offset + CLAMD_CHUNK_SIZE)
+        const header = new Uint8Array(4)
+        new DataView(header.buffer).setUint32(0, chunk.length)
+        await writeAll(conn, header)
+        await writeAll(conn, chunk)
+      }
+
+      // A zero-length chunk marks the end of the stream
+      await writeAll(conn, new Uint8Array(4))
+      reply = await readReply(conn)
+    } catch (error) {
+      throw new Error(`clamd did not respond: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      clearTimeout(timer)
+      try {
+        conn.close()
+      } catch {
+        // Already closed by the timeout
+      }
+    }
+
+    // Replies look like "stream: OK" or "stream: Win.Test.EICAR_HDB-1 FOUND"
+    const found = reply.match(/^stream: (.+) FOUND$/)
+    if (found) {
+      return { threats: [found[1]], details: { reply } }
+    }
+
+    if (reply !== 'stream: OK') {
+      throw new Error(`clamd returned an error: ${reply || 'empty reply'}`)
+    }
+
+    return { threats: [], details: { reply } }
+  }
+}
+
+const PDF_SIGNATURE = encoder.encode('%PDF-')
+const ZIP_SIGNATURE = new Uint8Array([0x50, 0x4b, 0x03, 0x04])
+const OLE_SIGNATURE = new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+
+// Compressed object streams are inflated up to this size in total, so a zip bomb cannot exhaust memory
+const MAX_INFLATED_BYTES = 20 * 1024 * 1024
+
+const startsWith = (bytes: Uint8Array, signature: Uint8Array) =>
+  bytes.length >= signature.length && signature.every((byte, index) => bytes[index] === byte)
+
+const indexOfBytes = (haystack: Uint8Array, needle: Uint8Array, from = 0) => {
+  const first = needle[0]
+  for (let i = haystack.indexOf(first, from); i !== -1 && i <= haystack.length - needle.length; i = haystack.indexOf(first, i + 1)) {
+    let matches = true
+    for (let j = 1; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        matches = false
+        break
+      }
+    }
+    if (matches) return i
+  }
+  return -1
+}
+
+const utf16le = (text: string) => {
+  const bytes = new Uint8Array(text.length * 2)
+  for (let i = 0; i < text.length; i++) bytes[i * 2] = text.charCodeAt(i)
+  return bytes
+}
+
+const inflate = async (data: Uint8Array, limit: number): Promise<Uint8Array | null> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate')).getReader()
+  const parts: Uint8Array[] = []
+  let size = 0
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      size += value.length
+      if (size > limit) {
+        await reader.cancel()
+        return null
+      }
+      parts.push(value)
+    }
+  } catch {
+    // Damaged streams are common in real PDFs; whatever was inflated is still scanned
+  }
+
+  const joined = new Uint8Array(size)
+  let offset = 0
+  for (const part of parts) {
+    joined.set(part, offset)
+    offset += part.length
+  }
+  return joined
+}
+
+// PDF names may hide letters as #xx escapes, e.g. /J#61vaScript
+const normalisePdfNames = (text: string) =>
+  text.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+
+const PDF_ACTIVE_CONTENT: { threat: string; pattern: RegExp }[] = [
+  { threat: 'PDF.ActiveContent.JavaScript', pattern: /\/(JavaScript|JS)(?![A-Za-z0-9])/ },
+  { threat: 'PDF.ActiveContent.LaunchAction', pattern: /\/Launch(?![A-Za-z0-9])/ }
+]
+
+const scanPdf = async (bytes: Uint8Array): Promise<EngineResult> => {
+  const raw = new TextDecoder('latin1').decode(bytes)
+  const sources = [normalisePdfNames(raw)]
+
+  // Objects can be packed into compressed object streams, where the raw bytes hide them
+  const streamKeyword = /(?<!end)stream\r?\n/g
+  let budget = MAX_INFLATED_BYTES
+  let inflatedStreams = 0
+  let position = raw.indexOf('/ObjStm')
+
+  while (position !== -1) {
+    streamKeyword.lastIndex = position
+    const keyword = streamKeyword.exec(raw)
+    if (!keyword) break
+
+    const objectStart = raw.lastIndexOf(' obj', position)
+    const dictionary = raw.slice(objectStart === -1 ? position : objectStart, keyword.index)
+    const start = keyword.index + keyword[0].length
+    const end = raw.indexOf('endstream', start)
+    if (end === -1) break
+
+    if (dictionary.includes('/FlateDecode')) {
+      const inflated = await inflate(bytes.subarray(start, end), budget)
+      if (!inflated) {
+        return { threats: ['PDF.Suspicious.OversizedObjectStream'], details: { format: 'pdf', inflatedStreams } }
+      }
+
+      budget -= inflated.length
+      inflatedStreams++
+      sources.push(normalisePdfNames(new TextDecoder('latin1').decode(inflated)))
+    }
+
+    position = raw.indexOf('/ObjStm', end)
+  }
+
+  const threats = PDF_ACTIVE_CONTENT
+    .filter(({ pattern }) => sources.some(source => pattern.test(source)))
+    .map(({ threat }) => threat)
+
+  return { threats, details: { format: 'pdf', inflatedStreams } }
+}
+
+// Names of the parts inside an Office Open XML (zip) package, read from the central directory
+const listZipEntries = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const signature = new Uint8Array([0x50, 0x4b, 0x01, 0x02])
+  const names: string[] = []
+
+  for (let offset = indexOfBytes(bytes, signature); offset !== -1 && offset + 46 <= bytes.length; offset = indexOfBytes(bytes, signature, offset + 46)) {
+    const nameLength = view.getUint16(offset + 28, true)
+    names.push(decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)))
+  }
+
+  return names
+}
+
+const scanOfficeZip = (bytes: Uint8Array): EngineResult => {
+  const entries = listZipEntries(bytes)
+  const macroParts = entries.filter(name => /(^|\/)vba(Project\.bin|Data\.xml)$/i.test(name))
+
+  return {
+    threats: macroParts.length > 0 ? ['Office.Macro'] : [],
+    details: { format: 'ooxml', macroParts }
+  }
+}
+
+// Legacy Office files keep macros in storages named "Macros" (Word) or "_VBA_PROJECT_CUR" (Excel).
+// Only real directory entries count: 128-byte aligned after the 512-byte header, with a matching name length.
+const OLE_MACRO_STORAGES = ['Macros', '_VBA_PROJECT_CUR', '_VBA_PROJECT']
+
+const scanOfficeOle = (bytes: Uint8Array): EngineResult => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  const macroStorages = OLE_MACRO_STORAGES.filter(name => {
+    const needle = utf16le(`${name}\0`)
+    for (let index = indexOfBytes(bytes, needle); index !== -1; index = indexOfBytes(bytes, needle, index + 1)) {
+      if (index >= 512 && (index - 512) % 128 === 0 && index + 66 <= bytes.length &&
+        view.getUint16(index + 64, true) === needle.length) {
+        return true
+      }
+    }
+    return false
+  })
+
+  return {
+    threats: macroStorages.length > 0 ? ['Office.Macro'] : [],
+    details: { format: 'ole', macroStorages }
+  }
+}
+
+/**
+ * Flags documents that can run code when opened: PDF JavaScript or launch actions and Office macros
+ */
+export const documentEngine: ScanEngine = {
+  name: 'document',
+  scan: async (bytes) => {
+    // Readers accept a PDF header anywhere in the first kilobyte
+    if (indexOfBytes(bytes.subarray(0, 1024), PDF_SIGNATURE) !== -1) {
+      return scanPdf(bytes)
+    }
+    if (startsWith(bytes, ZIP_SIGNATURE)) {
+      return scanOfficeZip(bytes)
+    }
+    if (startsWith(bytes, OLE_SIGNATURE)) {
+      return scanOfficeOle(bytes)
+    }
+
+    return { threats: [], details: { format: 'other' } }
+  }
+}
+
+const ENGINES: Record<string, ScanEngine> = {
+  [clamdEngine.name]: clamdEngine,
+  [documentEngine.name]: documentEngine
+}
+
+/**
+ * Engines enabled for this deployment, in the order they run
+ */
+export const getEnabledEngines = (): ScanEngine[] => {
+  const names = (Deno.env.get('SCAN_ENGINES') ?? 'clamav,document')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+
+  return names.map(name => {
+    const engine = ENGINES[name]
+    if (!engine) throw new Error(`Unknown scan engine "${name}"`)
+    return engine
+  })
+}
@@ -0,0 +1,270 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getEnabledEngines } from './engines.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const QUARANTINE_BUCKET = 'quarantine'
+const RELEASE_BUCKETS = ['files', 'assignment-submissions']
+const STORAGE_QUOTA_EXCEEDED = 'storage_quota_exceeded'
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    )
+
+    // Service role client: verdicts and the release out of quarantine bypass user policies
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Get the current user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    // Parse request body
+    const { uploadId } = await req.json()
+
+    if (!uploadId) {
+      return jsonResponse({ error: 'Missing uploadId parameter' }, 400)
+    }
+
+    const { data: upload, error: uploadLookupError } = await serviceClient
+      .from('file_uploads')
+      .select('id, user_id, content_id, group_id, upload_purpose, upload_path, storage_bucket, quarantine_path, scan_status')
+      .eq('id', uploadId)
+      .single()
+
+    if (uploadLookupError || !upload) {
+      return jsonResponse({ error: 'Upload not found' }, 404)
+    }
+
+    // Only the uploader or an admin may scan (or rescan) a file
+    if (upload.user_id !== user.id) {
+      const { data: profile } = await serviceClient
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.is_admin) {
+        return jsonResponse({ error: 'Access denied: User not authorized to access this file' }, 403)
+      }
+    }
+
+    // Already released or deleted; report the verdict that decided it
+    if (!upload.quarantine_path) {
+      return jsonResponse({ scanId: null, status: upload.scan_status, threats: [], engines: [] }, 200)
+    }
+
+    // The paths come from the client, so make sure the release cannot write outside the uploader's files
+    const fileName = upload.upload_path.split('/').pop() || ''
+    if (
+      !RELEASE_BUCKETS.includes(upload.storage_bucket) ||
+      upload.quarantine_path !== `${upload.user_id}/${upload.upload_path}` ||
+      upload.upload_path.includes('..') ||
+      !fileName.startsWith(`${upload.user_id}_`)
+    ) {
+      return jsonResponse({ error: 'Invalid upload location' }, 400)
+    }
+
+    // Group files are only released while the uploader still belongs to the group
+    if (upload.upload_purpose === 'group_file') {
+      const { data: membership } = await serviceClient
+        .from('group_members')
+        .select('id')
+        .eq('group_id', upload.group_id)
+        .eq('user_id', upload.user_id)
+        .eq('is_active', true)
+        .maybeSingle()
+
+      if (!upload.group_id || !membership) {
+        return jsonResponse({ error: 'Access denied: User is not a member of this group' }, 403)
+      }
+    }
+
+    let engines
+    try {
+      engines = getEnabledEngines()
+    } catch (configError) {
+      console.error('Scan engine configuration error:', configError)
+      return jsonResponse({ error: 'Malware scanning is not configured' }, 500)
+    }
+    const engineNames = engines.map(engine => engine.name)
+
+    await serviceClient
+      .from('file_uploads')
+      .update({ scan_status: 'scanning' })
+      .eq('id', upload.id)
+
+    const { data: scan, error: scanInsertError } = await serviceClient
+      .from('file_security_scans')
+      .insert({
+        file_upload_id: upload.id,
+        content_id: upload.content_id,
+        scan_status: 'scanning',
+        scan_engine: engineNames.join('+')
+      })
+      .select('id')
+      .single()
+
+    if (scanInsertError || !scan) {
+      console.error('Error recording scan:', scanInsertError)
+      return jsonResponse({ error: 'Failed to start scan' }, 500)
+    }
+
+    const { data: fileData, error: downloadError } = await serviceClient.storage
+      .from(QUARANTINE_BUCKET)
+      .download(upload.quarantine_path)
+
+    if (downloadError || !fileData) {
+      console.error('Error downloading quarantined file:', downloadError)
+      await serviceClient
+        .from('file_security_scans')
+        .update({ scan_status: 'error', scan_results: { error: 'File not found in quarantine' }, scanned_at: new Date().toISOString() })
+        .eq('id', scan.id)
+      await serviceClient
+        .from('file_uploads')
+        .update({ scan_status: 'error', processing_error: 'File not found in quarantine' })
+        .eq('id', upload.id)
+      return jsonResponse({ error: 'File not found' }, 404)
+    }
+
+    const bytes = new Uint8Array(await fileData.arrayBuffer())
+
+    // Every engine runs even after a hit, so the stored results show the full picture
+    const results: { engine: string; threats: string[]; details?: Record<string, unknown>; error?: string }[] = []
+    for (const engine of engines) {
+      try {
+        results.push({ engine: engine.name, ...(await engine.scan(bytes)) })
+      } catch (engineError) {
+        console.error(`Scan engine ${engine.name} failed:`, engineError)
+        results.push({
+          engine: engine.name,
+          threats: [],
+          error: engineError instanceof Error ? engineError.message : String(engineError)
+        })
+      }
+    }
+
+    const threats = [...new Set(results.flatMap(result => result.threats))]
+    const status = threats.length > 0
+      ? 'infected'
+      : results.some(result => result.error) ? 'error' : 'clean'
+
+    await serviceClient
+      .from('file_security_scans')
+      .update({
+        scan_status: status,
+        scan_results: { engines: results, fileSize: bytes.length },
+        threats_found: threats,
+        scanned_at: new Date().toISOString()
+      })
+      .eq('id', scan.id)
+
+    if (status === 'clean') {
+      // Measured from the stored bytes, since the size the client reported when recording the upload may be wrong
+      const { data: overQuota, error: quotaError } = await serviceClient.rpc('is_over_storage_quota', {
+        user_id_param: upload.user_id
+      })
+
+      if (quotaError) {
+        console.error('Error checking storage quota:', quotaError)
+        await serviceClient
+          .from('file_uploads')
+          .update({ scan_status: 'error', processing_error: 'Storage quota could not be checked' })
+          .eq('id', upload.id)
+        return jsonResponse({ error: 'Failed to check storage quota' }, 500)
+      }
+
+      if (overQuota) {
+        await serviceClient
+          .from('file_uploads')
+          .update({ quarantine_path: null, deleted_at: new Date().toISOString(), processing_error: 'Storage quota exceeded' })
+          .eq('id', upload.id)
+        await serviceClient.storage.from(QUARANTINE_BUCKET).remove([upload.quarantine_path])
+        return jsonResponse({ error: STORAGE_QUOTA_EXCEEDED }, 413)
+      }
+
+      const { error: releaseError } = await serviceClient.storage
+        .from(upload.storage_bucket)
+        .upload(upload.upload_path, bytes, {
+          contentType: fileData.type || 'application/octet-stream',
+          cacheControl: '3600',
+          upsert: false
+        })
+
+      if (releaseError) {
+        console.error('Error releasing file from quarantine:', releaseError)
+        await serviceClient
+          .from('file_uploads')
+          .update({ scan_status: 'error', processing_error: 'File passed the scan but could not be released' })
+          .eq('id', upload.id)
+        return jsonResponse({ error: 'Failed to release file' }, 500)
+      }
+
+      await serviceClient
+        .from('file_uploads')
+        .update({ scan_status: 'clean', quarantine_path: null, processing_error: null, is_processed: true })
+        .eq('id', upload.id)
+    } else if (status === 'infected') {
+      await serviceClient
+        .from('file_uploads')
+        .update({ scan_status: 'infected', quarantine_path: null, processing_error: `Blocked by malware scan: ${threats.join(', ')}` })
+        .eq('id', upload.id)
+    } else {
+      // Held in quarantine so the file can be rescanned once the engines are reachable
+      await serviceClient
+        .from('file_uploads')
+        .update({ scan_status: 'error', processing_error: 'Malware scan could not be completed' })
+        .eq('id', upload.id)
+    }
+
+    // Clean files now live in their bucket and infected ones are never kept
+    if (status !== 'error') {
+      const { error: removeError } = await serviceClient.storage
+        .from(QUARANTINE_BUCKET)
+        .remove([upload.quarantine_path])
+
+      if (removeError) {
+        console.error('Error removing quarantined file:', removeError)
+      }
+    }
+
+    return jsonResponse({ scanId: scan.id, status, threats, engines: engineNames }, 200)
+
+  } catch (error) {
+    console.error('Scan file error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -1,11 +1,236 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const SHARE_BUCKETS = ['files', 'group-files']
+const MAX_SHARE_EXPIRY_HOURS = 24 * 30 // 30 days
+const MAX_SHARE_DOWNLOADS = 1000
+
+// Redeemed share links hand out a URL that is only good for starting the download
+const SHARE_DOWNLOAD_URL_EXPIRY = 60
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
+// Split a storage URL into its bucket and object path
+const parseStorageUrl = (fileUrl: string): { bucket: string; filePath: string } | null => {
+  const urlParts = fileUrl.split('/storage/v1/object/public/')
+  if (urlParts.length < 2) return null
+
+  const [bucket, ...pathParts] = urlParts[1].split('?')[0].split('/')
+  const filePath = decodeURIComponent(pathParts.join('/'))
+  return bucket && filePath ? { bucket, filePath } : null
+}
+
+/**
+ * Count a download against the content item or group file behind a URL.
+ * The database keeps one download per user, file and day.
+ */
+const recordDownload = async (
+  serviceClient: SupabaseClient,
+  userId: string,
+  fileUrl: string,
+  contentId?: string,
+  groupId?: string
+) => {
+  let target: { p_content_id?: string; p_group_file_id?: string } | null = null
+
+  if (contentId) {
+    const { data: content } = await serviceClient
+      .from('content')
+      .select('id, file_url')
+      .eq('id', contentId)
+      .maybeSingle()
+
+    if (content?.file_url === fileUrl) target = { p_content_id: content.id }
+  } else if (groupId) {
+    const { data: groupFile } = await serviceClient
+      .from('group_files')
+      .select('id')
+      .eq('group_id', groupId)
+      .eq('file_url', fileUrl)
+      .limit(1)
+      .maybeSingle()
+
+    if (groupFile) target = { p_group_file_id: groupFile.id }
+  }
+
+  if (!target) return
+
+  const { error } = await serviceClient.rpc('record_file_download', { p_user_id: userId, ...target })
+  if (error) {
+    console.error('Error recording download:', error)
+  }
+}
+
+/**
+ * Create a share link for a content or group file the caller can reach
+ */
+const createShareLink = async (
+  serviceClient: SupabaseClient,
+  user: User,
+  body: Record<string, unknown>
+) => {
+  const { fileUrl, fileName, contentId, groupId, expiresInHours, maxDownloads } = body as {
+    fileUrl?: string
+    fileName?: string
+    contentId?: string
+    groupId?: string
+    expiresInHours?: number
+    maxDownloads?: number | null
+  }
+
+  if (!fileUrl || !fileName || (!contentId && !groupId)) {
+    return jsonResponse({ error: 'Missing fileUrl, fileName and contentId or groupId' }, 400)
+  }
+
+  const location = parseStorageUrl(fileUrl)
+  if (!location || !SHARE_BUCKETS.includes(location.bucket)) {
+    return jsonResponse({ error: 'Invalid file URL format' }, 400)
+  }
+
+  const hours = Number(expiresInHours)
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_SHARE_EXPIRY_HOURS) {
+    return jsonResponse({ error: `Links can last between 1 hour and ${MAX_SHARE_EXPIRY_HOURS / 24} days` }, 400)
+  }
+
+  if (maxDownloads != null && (!Number.isInteger(maxDownloads) || maxDownloads < 1 || maxDownloads > MAX_SHARE_DOWNLOADS)) {
+    return jsonResponse({ error: `Download limit must be between 1 and ${MAX_SHARE_DOWNLOADS}` }, 400)
+  }
+
+  // The file must really belong to the content item or group the caller can see
+  if (groupId) {
+    const { data: membership } = await serviceClient
+      .from('group_members')
+      .select('id')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    // Group files are shared either in chat or on the group's Files tab
+    const { data: message } = await serviceClient
+      .from('group_messages')
+      .select('id')
+      .eq('group_id', groupId)
+      .eq('file_url', fileUrl)
+      .limit(1)
+      .maybeSingle()
+
+    const { data: groupFile } = await serviceClient
+      .from('group_files')
+      .select('id')
+      .eq('group_id', groupId)
+      .eq('file_url', fileUrl)
+      .limit(1)
+      .maybeSingle()
+
+    if (!membership || (!message && !groupFile)) {
+      return jsonResponse({ error: 'Access denied: User not authorized to share this file' }, 403)
+    }
+  } else {
+    const { data: content } = await serviceClient
+      .from('content')
+      .select('id, file_url, is_approved, uploaded_by')
+      .eq('id', contentId)
+      .maybeSingle()
+
+    if (!content || content.file_url !== fileUrl || (!content.is_approved && content.uploaded_by !== user.id)) {
+      return jsonResponse({ error: 'Access denied: User not authorized to share this file' }, 403)
+    }
+  }
+
+  const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+
+  const { data: link, error } = await serviceClient
+    .from('file_share_links')
+    .insert({
+      created_by: user.id,
+      bucket: location.bucket,
+      file_path: location.filePath,
+      file_name: fileName,
+      content_id: groupId ? null : contentId,
+      group_id: groupId || null,
+      expires_at: expiresAt,
+      max_downloads: maxDownloads ?? null
+    })
+    .select('*')
+    .single()
+
+  if (error || !link) {
+    console.error('Error creating share link:', error)
+    return jsonResponse({ error: 'Failed to create share link' }, 500)
+  }
+
+  return jsonResponse({ link }, 200)
+}
+
+/**
+ * Describe a share link without counting a download, so opening the page does not use it up
+ */
+const inspectShareLink = async (serviceClient: SupabaseClient, token: string) => {
+  const { data: link } = await serviceClient
+    .from('file_share_links')
+    .select('file_name, expires_at, max_downloads, download_count, revoked_at, profiles!file_share_links_created_by_fkey(username, full_name)')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (!link) {
+    return jsonResponse({ status: 'not_found' }, 200)
+  }
+
+  const status = link.revoked_at
+    ? 'revoked'
+    : new Date(link.expires_at) <= new Date()
+      ? 'expired'
+      : link.max_downloads != null && link.download_count >= link.max_downloads
+        ? 'used_up'
+        : 'active'
+
+  return jsonResponse({
+    status,
+    fileName: link.file_name,
+    expiresAt: link.expires_at,
+    remainingDownloads: link.max_downloads == null ? null : Math.max(0, link.max_downloads - link.download_count),
+    sharedBy: link.profiles
+  }, 200)
+}
+
+/**
+ * Count a download against a share link and return a short-lived URL for the file
+ */
+const redeemShareLink = async (serviceClient: SupabaseClient, token: string) => {
+  const { data: rows, error } = await serviceClient.rpc('redeem_file_share_link', { p_token: token })
+
+  if (error) {
+    console.error('Error redeeming share link:', error)
+    return jsonResponse({ error: 'Failed to open share link' }, 500)
+  }
+
+  const shared = rows?.[0]
+  if (!shared) {
+    return jsonResponse({ error: 'This link has expired, been revoked or reached its download limit' }, 410)
+  }
+
+  const { data, error: signError } = await serviceClient.storage
+    .from(shared.bucket)
+    .createSignedUrl(shared.file_path, SHARE_DOWNLOAD_URL_EXPIRY, { download: shared.file_name })
+
+  if (signError || !data) {
+    console.error('Error generating signed URL:', signError)
+    return jsonResponse({ error: 'Failed to generate download link' }, 500)
+  }
+
+  return jsonResponse({ secureUrl: data.signedUrl, fileName: shared.file_name, expiresIn: SHARE_DOWNLOAD_URL_EXPIRY }, 200)
+}
+
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -13,13 +238,26 @@ serve(async (req) => {
   }
 
   try {
+    // Parse request body
+    const body = await req.json()
+
+    // Service role client for share links, which work for people outside the file's group
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Share links are the credential themselves, so they need no signed-in user
+    if (body.shareToken) {
+      return body.action === 'redeem_share'
+        ? await redeemShareLink(serviceClient, body.shareToken)
+        : await inspectShareLink(serviceClient, body.shareToken)
+    }
+
     // Get the authorization header
     const authHeader = req.headers.get('Authorization')
     if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
     }
 
     // Initialize Supabase client
@@ -36,20 +274,17 @@ serve(async (req) => {
     // Get the current user
     const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
     if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Unauthorized' }, 401)
     }
 
-    // Parse request body
-    const { fileUrl, groupId } = await req.json()
-    
+    if (body.action === 'create_share') {
+      return await createShareLink(serviceClient, user, body)
+    }
+
+    const { fileUrl, groupId, contentId } = body
+
     if (!fileUrl) {
-      return new Response(
-        JSON.stringify({ error: 'Missing fileUrl parameter' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Missing fileUrl parameter' }, 400)
     }
 
     // Verify user has access to the group (if groupId provided)
@@ -63,20 +298,14 @@ serve(async (req) => {
         .single()
 
       if (memberError || !membership) {
-        return new Response(
-          JSON.stringify({ error: 'Access denied: User not authorized to access this file' }),
-          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return jsonResponse({ error: 'Access denied: User not authorized to access this file' }, 403)
       }
     }
 
     // Extract file path from URL
     const urlParts = fileUrl.split('/storage/v1/object/public/')
     if (urlParts.length < 2) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid file URL format' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Invalid file URL format' }, 400)
     }
 
     const [bucket, ...pathParts] = urlParts[1].split('/')
@@ -89,29 +318,20 @@ serve(async (req) => {
 
     if (error) {
       console.error('Error generating signed URL:', error)
-      return new Response(
-        JSON.stringify({ error: 'Failed to generate download link' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Failed to generate download link' }, 500)
     }
 
+    // Record the download; failures are only logged so the download still goes ahead
+    await recordDownload(serviceClient, user.id, fileUrl, contentId, groupId)
+
     // Return the secure signed URL
-    return new Response(
-      JSON.stringify({ 
-        secureUrl: data.signedUrl,
-        expiresIn: 3600
-      }),
-      { 
-        status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    )
+    return jsonResponse({
+      secureUrl: data.signedUrl,
+      expiresIn: 3600
+    }, 200)
 
   } catch (error) {
     console.error('Secure download error:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return jsonResponse({ error: 'Internal server error' }, 500)
   }
 })
@@ -0,0 +1,141 @@
+/*
+  # Add full-text search for the content library
+
+  1. Schema Changes
+    - `content.search_vector` (tsvector) built from title, tags, category name and description
+    - GIN index on `search_vector`
+
+  2. Functions
+    - `build_content_search_vector` - Weighted tsvector (title A, tags/category B, description C)
+    - `refresh_content_search_vector` - Keeps the vector current on insert/update
+    - `refresh_category_content_search` - Re-indexes content when a category is renamed
+    - `search_content` - Ranked search with highlighted title and description snippets
+
+  3. Security
+    - `search_content` runs as the caller so existing content RLS policies apply
+    - `refresh_category_content_search` runs as its owner with a fixed `search_path`
+
+  4. Notes
+    - Matched terms are wrapped in the control characters U+0002 and U+0003, which are stripped from
+      the title and description first so stored text can never fake or break a highlight
+*/
+
+-- Add search vector column
+ALTER TABLE content ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Build the weighted search document for a content row
+CREATE OR REPLACE FUNCTION build_content_search_vector(
+  p_title text,
+  p_description text,
+  p_tags text[],
+  p_category_name text
+)
+RETURNS tsvector AS $$
+BEGIN
+  RETURN
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(p_tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_category_name, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_description, '')), 'C');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Keep search_vector in sync with the searchable columns
+CREATE OR REPLACE FUNCTION refresh_content_search_vector()
+RETURNS trigger AS $$
+DECLARE
+  category_name text;
+BEGIN
+  SELECT name INTO category_name
+  FROM categories
+  WHERE id = NEW.category_id;
+
+  NEW.search_vector = build_content_search_vector(
+    NEW.title, NEW.description, NEW.tags, category_name
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_content_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, tags, category_id ON content
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_content_search_vector();
+
+-- Re-index content when its category is renamed
+CREATE OR REPLACE FUNCTION refresh_category_content_search()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE content
+  SET search_vector = build_content_search_vector(title, description, tags, NEW.name)
+  WHERE category_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_category_content_search
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION refresh_category_content_search();
+
+-- Backfill existing rows
+UPDATE content c
+SET search_vector = build_content_search_vector(c.title, c.description, c.tags, cat.name)
+FROM (SELECT id, name FROM categories) cat
+WHERE cat.id = c.category_id;
+
+UPDATE content
+SET search_vector = build_content_search_vector(title, description, tags, NULL)
+WHERE search_vector IS NULL;
+
+-- Create search index
+CREATE INDEX IF NOT EXISTS idx_content_search_vector ON content USING GIN(search_vector);
+
+-- Ranked search with highlighted snippets
+CREATE OR REPLACE FUNCTION search_content(
+  search_query text,
+  content_type_filter content_type DEFAULT NULL,
+  category_filter uuid DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  content_id uuid,
+  search_rank real,
+  title_highlight text,
+  snippet text
+) AS $$
+DECLARE
+  query tsquery;
+BEGIN
+  query := websearch_to_tsquery('english', search_query);
+
+  IF query IS NULL OR numnode(query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    ts_rank(c.search_vector, query),
+    ts_headline(
+      'english', translate(c.title, E'\x02\x03', ''), query,
+      E'StartSel=\x02, StopSel=\x03, HighlightAll=true'
+    ),
+    ts_headline(
+      'english', translate(coalesce(c.description, array_to_string(c.tags, ', '), ''), E'\x02\x03', ''), query,
+      E'StartSel=\x02, StopSel=\x03, MaxWords=30, MinWords=12, MaxFragments=2'
+    )
+  FROM content c
+  WHERE c.is_approved = true
+    AND c.search_vector @@ query
+    AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+    AND (category_filter IS NULL OR c.category_id = category_filter)
+  ORDER BY 2 DESC, c.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
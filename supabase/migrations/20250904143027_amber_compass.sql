@@ -0,0 +1,164 @@
+/*
+  # Add faceted filtering for the content library
+
+  1. Functions
+    - `search_content` - Recreated with year, semester, file type and tag filters
+    - `get_content_facets` - Per-value counts for content type, year, semester,
+      file type and tags under the current filters
+
+  2. Faceting Rules
+    - Each scalar facet is counted with every other active filter applied, so
+      switching between values of the same facet never shows a dead end
+    - Tags are counted with all filters applied because selected tags combine with AND
+
+  3. Performance
+    - Index on file_type for the new filter
+*/
+
+CREATE INDEX IF NOT EXISTS idx_content_file_type ON content(file_type);
+
+-- Recreate search with facet filters
+DROP FUNCTION IF EXISTS search_content(text, content_type, uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION search_content(
+  search_query text,
+  content_type_filter content_type DEFAULT NULL,
+  category_filter uuid DEFAULT NULL,
+  year_filter integer DEFAULT NULL,
+  semester_filter integer DEFAULT NULL,
+  file_type_filter text DEFAULT NULL,
+  tags_filter text[] DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  content_id uuid,
+  search_rank real,
+  title_highlight text,
+  snippet text
+) AS $$
+DECLARE
+  query tsquery;
+BEGIN
+  query := websearch_to_tsquery('english', search_query);
+
+  IF query IS NULL OR numnode(query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    ts_rank(c.search_vector, query),
+    ts_headline(
+      'english', translate(c.title, E'\x02\x03', ''), query,
+      E'StartSel=\x02, StopSel=\x03, HighlightAll=true'
+    ),
+    ts_headline(
+      'english', translate(coalesce(c.description, array_to_string(c.tags, ', '), ''), E'\x02\x03', ''), query,
+      E'StartSel=\x02, StopSel=\x03, MaxWords=30, MinWords=12, MaxFragments=2'
+    )
+  FROM content c
+  WHERE c.is_approved = true
+    AND c.search_vector @@ query
+    AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+    AND (category_filter IS NULL OR c.category_id = category_filter)
+    AND (year_filter IS NULL OR c.year = year_filter)
+    AND (semester_filter IS NULL OR c.semester = semester_filter)
+    AND (file_type_filter IS NULL OR c.file_type = file_type_filter)
+    AND (tags_filter IS NULL OR c.tags @> tags_filter)
+  ORDER BY 2 DESC, c.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Facet counts for the current filter selection
+CREATE OR REPLACE FUNCTION get_content_facets(
+  search_query text DEFAULT NULL,
+  content_type_filter content_type DEFAULT NULL,
+  category_filter uuid DEFAULT NULL,
+  year_filter integer DEFAULT NULL,
+  semester_filter integer DEFAULT NULL,
+  file_type_filter text DEFAULT NULL,
+  tags_filter text[] DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  query tsquery;
+  result jsonb;
+BEGIN
+  IF search_query IS NOT NULL AND trim(search_query) <> '' THEN
+    query := websearch_to_tsquery('english', search_query);
+  END IF;
+
+  WITH base AS (
+    SELECT
+      c.content_type,
+      c.year,
+      c.semester,
+      c.file_type,
+      c.tags,
+      (content_type_filter IS NULL OR c.content_type = content_type_filter) AS type_ok,
+      (year_filter IS NULL OR c.year = year_filter) AS year_ok,
+      (semester_filter IS NULL OR c.semester = semester_filter) AS semester_ok,
+      (file_type_filter IS NULL OR c.file_type = file_type_filter) AS file_type_ok,
+      (tags_filter IS NULL OR c.tags @> tags_filter) AS tags_ok
+    FROM content c
+    WHERE c.is_approved = true
+      AND (query IS NULL OR c.search_vector @@ query)
+      AND (category_filter IS NULL OR c.category_id = category_filter)
+  )
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT count(*) FROM base
+      WHERE type_ok AND year_ok AND semester_ok AND file_type_ok AND tags_ok
+    ),
+    'content_type', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', f.value, 'count', f.total) ORDER BY f.total DESC), '[]'::jsonb)
+      FROM (
+        SELECT content_type::text AS value, count(*) AS total FROM base
+        WHERE year_ok AND semester_ok AND file_type_ok AND tags_ok
+        GROUP BY content_type
+      ) f
+    ),
+    'year', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', f.value, 'count', f.total) ORDER BY f.value), '[]'::jsonb)
+      FROM (
+        SELECT year AS value, count(*) AS total FROM base
+        WHERE year IS NOT NULL AND type_ok AND semester_ok AND file_type_ok AND tags_ok
+        GROUP BY year
+      ) f
+    ),
+    'semester', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', f.value, 'count', f.total) ORDER BY f.value), '[]'::jsonb)
+      FROM (
+        SELECT semester AS value, count(*) AS total FROM base
+        WHERE semester IS NOT NULL AND type_ok AND year_ok AND file_type_ok AND tags_ok
+        GROUP BY semester
+      ) f
+    ),
+    'file_type', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', f.value, 'count', f.total) ORDER BY f.total DESC), '[]'::jsonb)
+      FROM (
+        SELECT file_type AS value, count(*) AS total FROM base
+        WHERE file_type IS NOT NULL AND type_ok AND year_ok AND semester_ok AND tags_ok
+        GROUP BY file_type
+      ) f
+    ),
+    'tags', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', f.value, 'count', f.total) ORDER BY f.total DESC, f.value), '[]'::jsonb)
+      FROM (
+        SELECT tag AS value, count(*) AS total
+        FROM base, unnest(base.tags) AS tag
+        WHERE type_ok AND year_ok AND semester_ok AND file_type_ok AND tags_ok
+        GROUP BY tag
+        ORDER BY total DESC, tag
+        LIMIT 25
+      ) f
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,235 @@
+/*
+  # Create content versioning system
+
+  1. New Tables
+    - `content_versions` - Every file ever published for a content item
+      - `version_number` (integer, unique per content)
+      - `file_url`, `file_name`, `file_size`, `file_type` (file snapshot)
+      - `changelog` (text, what changed in this version)
+      - `uploaded_by` (uuid, references profiles)
+      - `update_request_id` (uuid, set when produced by an approved update request)
+
+  2. Schema Changes
+    - `content.current_version` (integer) - Version currently served
+    - `update_requests.replacement_file_*` - Optional corrected file attached to a request
+
+  3. Security
+    - Enable RLS on `content_versions`
+    - Versions are readable wherever the parent content is readable
+    - Versions are only written through `publish_content_version` and triggers
+
+  4. Functions
+    - `create_content_version` - Internal helper that appends a version and swaps the live file
+    - `publish_content_version` - Uploader/admin entry point
+    - Approved update requests with a replacement file publish a version automatically
+*/
+
+-- Track the live version on content
+ALTER TABLE content ADD COLUMN IF NOT EXISTS current_version integer DEFAULT 1;
+
+-- Allow update requests to carry a corrected file
+ALTER TABLE update_requests ADD COLUMN IF NOT EXISTS replacement_file_url text;
+ALTER TABLE update_requests ADD COLUMN IF NOT EXISTS replacement_file_name text;
+ALTER TABLE update_requests ADD COLUMN IF NOT EXISTS replacement_file_size bigint CHECK (replacement_file_size <= 5242880); -- 5MB limit
+ALTER TABLE update_requests ADD COLUMN IF NOT EXISTS replacement_file_type text;
+
+-- Create content_versions table
+CREATE TABLE IF NOT EXISTS content_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id uuid NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  version_number integer NOT NULL CHECK (version_number >= 1),
+  file_url text NOT NULL,
+  file_name text,
+  file_size bigint CHECK (file_size <= 5242880), -- 5MB limit
+  file_type text,
+  changelog text NOT NULL,
+  uploaded_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  update_request_id uuid REFERENCES update_requests(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+
+  -- One row per version number
+  UNIQUE(content_id, version_number)
+);
+
+-- Enable RLS
+ALTER TABLE content_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_content_versions_content ON content_versions(content_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_content_versions_uploader ON content_versions(uploaded_by);
+
+-- RLS Policies
+CREATE POLICY "Anyone can view versions of approved content"
+  ON content_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM content c
+      WHERE c.id = content_id AND c.is_approved = true
+    )
+  );
+
+CREATE POLICY "Uploaders can view versions of their own content"
+  ON content_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM content c
+      WHERE c.id = content_id AND c.uploaded_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage all content versions"
+  ON content_versions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Backfill version 1 for existing files
+INSERT INTO content_versions (
+  content_id, version_number, file_url, file_name, file_size, file_type,
+  changelog, uploaded_by, created_at
+)
+SELECT id, 1, file_url, file_name, file_size, file_type, 'Initial upload', uploaded_by, created_at
+FROM content
+WHERE file_url IS NOT NULL
+ON CONFLICT (content_id, version_number) DO NOTHING;
+
+-- Record version 1 whenever new file content is created
+CREATE OR REPLACE FUNCTION handle_new_content_version()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.file_url IS NOT NULL THEN
+    INSERT INTO content_versions (
+      content_id, version_number, file_url, file_name, file_size, file_type,
+      changelog, uploaded_by
+    ) VALUES (
+      NEW.id, 1, NEW.file_url, NEW.file_name, NEW.file_size, NEW.file_type,
+      'Initial upload', NEW.uploaded_by
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_content_created_version
+  AFTER INSERT ON content
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_content_version();
+
+-- Append a version and make it the live file (no permission checks)
+CREATE OR REPLACE FUNCTION create_content_version(
+  p_content_id uuid,
+  p_file_url text,
+  p_file_name text,
+  p_file_size bigint,
+  p_file_type text,
+  p_changelog text,
+  p_uploaded_by uuid,
+  p_update_request_id uuid DEFAULT NULL
+)
+RETURNS content_versions AS $$
+DECLARE
+  next_version integer;
+  new_version content_versions;
+BEGIN
+  -- Serialize concurrent publishes for the same content
+  PERFORM 1 FROM content WHERE id = p_content_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Content not found';
+  END IF;
+
+  SELECT coalesce(max(version_number), 0) + 1 INTO next_version
+  FROM content_versions
+  WHERE content_id = p_content_id;
+
+  INSERT INTO content_versions (
+    content_id, version_number, file_url, file_name, file_size, file_type,
+    changelog, uploaded_by, update_request_id
+  ) VALUES (
+    p_content_id, next_version, p_file_url, p_file_name, p_file_size, p_file_type,
+    p_changelog, p_uploaded_by, p_update_request_id
+  ) RETURNING * INTO new_version;
+
+  UPDATE content
+  SET file_url = p_file_url,
+      file_name = p_file_name,
+      file_size = p_file_size,
+      file_type = p_file_type,
+      current_version = next_version
+  WHERE id = p_content_id;
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only reachable through the checked entry points below
+REVOKE EXECUTE ON FUNCTION create_content_version(uuid, text, text, bigint, text, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Publish a new version (uploader or site admin only)
+CREATE OR REPLACE FUNCTION publish_content_version(
+  p_content_id uuid,
+  p_file_url text,
+  p_file_name text,
+  p_file_size bigint,
+  p_file_type text,
+  p_changelog text
+)
+RETURNS content_versions AS $$
+BEGIN
+  IF p_changelog IS NULL OR trim(p_changelog) = '' THEN
+    RAISE EXCEPTION 'A changelog note is required';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM content
+    WHERE id = p_content_id AND uploaded_by = auth.uid()
+  ) AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only the uploader can publish a new version';
+  END IF;
+
+  RETURN create_content_version(
+    p_content_id, p_file_url, p_file_name, p_file_size, p_file_type,
+    trim(p_changelog), auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Publish the attached file when an update request is approved
+CREATE OR REPLACE FUNCTION handle_update_request_approval()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM create_content_version(
+    NEW.content_id,
+    NEW.replacement_file_url,
+    NEW.replacement_file_name,
+    NEW.replacement_file_size,
+    NEW.replacement_file_type,
+    coalesce(nullif(trim(NEW.suggested_changes), ''), NEW.issue_description),
+    NEW.user_id,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_update_request_approved
+  AFTER UPDATE ON update_requests
+  FOR EACH ROW
+  WHEN (
+    OLD.status IS DISTINCT FROM 'approved' AND NEW.status = 'approved' AND
+    NEW.content_id IS NOT NULL AND NEW.replacement_file_url IS NOT NULL
+  )
+  EXECUTE FUNCTION handle_update_request_approval();
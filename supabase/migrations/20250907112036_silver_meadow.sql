@@ -0,0 +1,350 @@
+/*
+  # Create ratings and reviews for shared content
+
+  1. New Tables
+    - `content_reviews` - One star rating (1-5) and optional written review per user per content
+    - `content_review_votes` - "Helpful" votes on reviews, one per user per review
+    - `review_reports` - Abuse reports on reviews, moderated like `chat_reports`
+
+  2. Schema Changes
+    - `content.average_rating` (numeric) and `content.rating_count` (integer), kept current by trigger
+    - `content_reviews.helpful_count` (integer), kept current by trigger
+
+  3. Security
+    - Enable RLS on all new tables
+    - Users manage their own reviews and votes; uploaders cannot review their own content
+    - Hidden reviews are only visible to their author and admins
+    - Uploaders cannot write `average_rating` or `rating_count` through their content update policy
+
+  4. Functions
+    - `refresh_content_rating` - Recomputes the rating aggregate for a content item
+    - `search_content` - Recreated with a `sort_by` option ('relevance' or 'rating')
+*/
+
+-- Rating aggregate on content
+ALTER TABLE content ADD COLUMN IF NOT EXISTS average_rating numeric(3,2) DEFAULT 0;
+ALTER TABLE content ADD COLUMN IF NOT EXISTS rating_count integer DEFAULT 0;
+
+-- Create content_reviews table
+CREATE TABLE IF NOT EXISTS content_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id uuid NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating integer NOT NULL CHECK (rating >= 1 AND rating <= 5),
+  review_text text CHECK (length(review_text) <= 2000),
+  helpful_count integer DEFAULT 0,
+  is_hidden boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  -- One review per user per content item
+  UNIQUE(content_id, user_id)
+);
+
+-- Create content_review_votes table
+CREATE TABLE IF NOT EXISTS content_review_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES content_reviews(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(review_id, user_id)
+);
+
+-- Create review_reports table
+CREATE TABLE IF NOT EXISTS review_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES content_reviews(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL,
+  description text,
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'reviewed', 'resolved', 'dismissed')),
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  admin_notes text,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE(review_id, reporter_id)
+);
+
+-- Enable RLS
+ALTER TABLE content_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_review_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_reports ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_content_reviews_content ON content_reviews(content_id, helpful_count DESC);
+CREATE INDEX IF NOT EXISTS idx_content_reviews_user ON content_reviews(user_id);
+CREATE INDEX IF NOT EXISTS idx_content_review_votes_review ON content_review_votes(review_id);
+CREATE INDEX IF NOT EXISTS idx_review_reports_status ON review_reports(status);
+CREATE INDEX IF NOT EXISTS idx_content_rating ON content(average_rating DESC, rating_count DESC);
+
+-- RLS Policies for content_reviews
+CREATE POLICY "Anyone can view visible reviews"
+  ON content_reviews
+  FOR SELECT
+  USING (is_hidden = false OR user_id = auth.uid());
+
+CREATE POLICY "Users can review content they did not upload"
+  ON content_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    NOT EXISTS (
+      SELECT 1 FROM content c
+      WHERE c.id = content_id AND c.uploaded_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own reviews"
+  ON content_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own reviews"
+  ON content_reviews
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage all reviews"
+  ON content_reviews
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- RLS Policies for content_review_votes
+CREATE POLICY "Anyone can view review votes"
+  ON content_review_votes
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can vote on other people's reviews"
+  ON content_review_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    NOT EXISTS (
+      SELECT 1 FROM content_reviews r
+      WHERE r.id = review_id AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove their own votes"
+  ON content_review_votes
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- RLS Policies for review_reports
+CREATE POLICY "Users can create review reports"
+  ON review_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (reporter_id = auth.uid());
+
+CREATE POLICY "Users can view their own review reports"
+  ON review_reports
+  FOR SELECT
+  TO authenticated
+  USING (reporter_id = auth.uid());
+
+CREATE POLICY "Admins can manage all review reports"
+  ON review_reports
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Keep updated_at current
+CREATE TRIGGER update_content_reviews_updated_at
+  BEFORE UPDATE ON content_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_review_reports_updated_at
+  BEFORE UPDATE ON review_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Authors may edit their rating and text, but not counters or moderation state
+CREATE OR REPLACE FUNCTION protect_review_moderation_fields()
+RETURNS trigger AS $$
+BEGIN
+  -- Trigger-maintained counters run as the function owner and pass through
+  IF current_user = 'authenticated' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.helpful_count := 0;
+      NEW.is_hidden := false;
+    ELSE
+      NEW.helpful_count := OLD.helpful_count;
+      NEW.is_hidden := OLD.is_hidden;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_content_review_fields
+  BEFORE INSERT OR UPDATE ON content_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_review_moderation_fields();
+
+-- Recompute the rating aggregate for one content item
+CREATE OR REPLACE FUNCTION refresh_content_rating(p_content_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE content
+  SET average_rating = coalesce(stats.avg_rating, 0),
+      rating_count = stats.total
+  FROM (
+    SELECT round(avg(rating)::numeric, 2) AS avg_rating, count(*) AS total
+    FROM content_reviews
+    WHERE content_id = p_content_id AND is_hidden = false
+  ) stats
+  WHERE id = p_content_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION handle_content_review_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_content_rating(OLD.content_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM refresh_content_rating(NEW.content_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_content_review_change
+  AFTER INSERT OR DELETE OR UPDATE OF rating, is_hidden ON content_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_content_review_change();
+
+-- Uploaders may edit their content, but the rating aggregate only changes through reviews
+CREATE OR REPLACE FUNCTION protect_content_counters()
+RETURNS trigger AS $$
+BEGIN
+  -- refresh_content_rating runs as the function owner and passes through
+  IF current_user = 'authenticated' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.average_rating := 0;
+      NEW.rating_count := 0;
+    ELSE
+      NEW.average_rating := OLD.average_rating;
+      NEW.rating_count := OLD.rating_count;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_content_counters
+  BEFORE INSERT OR UPDATE ON content
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_content_counters();
+
+-- Keep helpful_count in sync with votes
+CREATE OR REPLACE FUNCTION handle_review_vote_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE content_reviews SET helpful_count = helpful_count + 1 WHERE id = NEW.review_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE content_reviews SET helpful_count = greatest(helpful_count - 1, 0) WHERE id = OLD.review_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_review_vote_change
+  AFTER INSERT OR DELETE ON content_review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_review_vote_change();
+
+-- Recreate search with a sort option
+DROP FUNCTION IF EXISTS search_content(text, content_type, uuid, integer, integer, text, text[], integer, integer);
+
+CREATE OR REPLACE FUNCTION search_content(
+  search_query text,
+  content_type_filter content_type DEFAULT NULL,
+  category_filter uuid DEFAULT NULL,
+  year_filter integer DEFAULT NULL,
+  semester_filter integer DEFAULT NULL,
+  file_type_filter text DEFAULT NULL,
+  tags_filter text[] DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0,
+  sort_by text DEFAULT 'relevance'
+)
+RETURNS TABLE (
+  content_id uuid,
+  search_rank real,
+  title_highlight text,
+  snippet text
+) AS $$
+DECLARE
+  query tsquery;
+BEGIN
+  query := websearch_to_tsquery('english', search_query);
+
+  IF query IS NULL OR numnode(query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    ts_rank(c.search_vector, query),
+    ts_headline(
+      'english', translate(c.title, E'\x02\x03', ''), query,
+      E'StartSel=\x02, StopSel=\x03, HighlightAll=true'
+    ),
+    ts_headline(
+      'english', translate(coalesce(c.description, array_to_string(c.tags, ', '), ''), E'\x02\x03', ''), query,
+      E'StartSel=\x02, StopSel=\x03, MaxWords=30, MinWords=12, MaxFragments=2'
+    )
+  FROM content c
+  WHERE c.is_approved = true
+    AND c.search_vector @@ query
+    AND (content_type_filter IS NULL OR c.content_type = content_type_filter)
+    AND (category_filter IS NULL OR c.category_id = category_filter)
+    AND (year_filter IS NULL OR c.year = year_filter)
+    AND (semester_filter IS NULL OR c.semester = semester_filter)
+    AND (file_type_filter IS NULL OR c.file_type = file_type_filter)
+    AND (tags_filter IS NULL OR c.tags @> tags_filter)
+  ORDER BY
+    CASE WHEN sort_by = 'rating' THEN c.average_rating END DESC NULLS LAST,
+    CASE WHEN sort_by = 'rating' THEN c.rating_count END DESC NULLS LAST,
+    2 DESC,
+    c.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,259 @@
+/*
+  # Create bookmarks and collections
+
+  1. New Tables
+    - `collections` - Named, ordered lists of content owned by a user
+      - `visibility` ('private', 'group', 'public')
+      - `group_id` (uuid, required for group-shared collections)
+      - `share_token` (text, unguessable token for public links)
+      - `is_default` (boolean, the "Saved" collection used by one-click bookmarks)
+    - `collection_items` - Content in a collection
+      - `position` (integer, manual ordering)
+
+  2. Security
+    - Enable RLS on both tables
+    - Owners manage their collections; members of the linked group can view group-shared ones
+    - Only active members of a group can share a collection with it
+    - Public collections are not listable; they are only reachable through `get_shared_collection`
+
+  3. Functions
+    - `get_shared_collection` - Resolve a share token to a collection and its ordered content ids
+    - `reorder_collection_items` - Persist a new item order in one call
+*/
+
+-- Create collections table
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) >= 1 AND length(name) <= 100),
+  description text CHECK (length(description) <= 500),
+  visibility text NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'group', 'public')),
+  group_id uuid REFERENCES class_groups(id) ON DELETE SET NULL,
+  share_token text UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(16), 'hex'),
+  is_default boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  -- Group-shared collections must name the group
+  CHECK (visibility <> 'group' OR group_id IS NOT NULL)
+);
+
+-- Create collection_items table
+CREATE TABLE IF NOT EXISTS collection_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id uuid NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  content_id uuid NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  added_at timestamptz DEFAULT now(),
+
+  UNIQUE(collection_id, content_id)
+);
+
+-- Enable RLS
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_items ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_collections_owner ON collections(owner_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_collections_group ON collections(group_id) WHERE visibility = 'group';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_one_default ON collections(owner_id) WHERE is_default = true;
+CREATE INDEX IF NOT EXISTS idx_collection_items_collection ON collection_items(collection_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_items_content ON collection_items(content_id);
+
+-- RLS Policies for collections
+CREATE POLICY "Users can view their own collections"
+  ON collections
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Group members can view group-shared collections"
+  ON collections
+  FOR SELECT
+  TO authenticated
+  USING (
+    visibility = 'group' AND
+    EXISTS (
+      SELECT 1 FROM group_members gm
+      WHERE gm.group_id = collections.group_id
+        AND gm.user_id = auth.uid()
+        AND gm.is_active = true
+    )
+  );
+
+CREATE POLICY "Users can create their own collections"
+  ON collections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid() AND
+    (
+      visibility <> 'group' OR
+      EXISTS (
+        SELECT 1 FROM group_members gm
+        WHERE gm.group_id = collections.group_id
+          AND gm.user_id = auth.uid()
+          AND gm.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Users can update their own collections"
+  ON collections
+  FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (
+    owner_id = auth.uid() AND
+    (
+      visibility <> 'group' OR
+      EXISTS (
+        SELECT 1 FROM group_members gm
+        WHERE gm.group_id = collections.group_id
+          AND gm.user_id = auth.uid()
+          AND gm.is_active = true
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own collections"
+  ON collections
+  FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+-- RLS Policies for collection_items
+CREATE POLICY "Users can view items of visible collections"
+  ON collection_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM collections c
+      WHERE c.id = collection_id
+    )
+  );
+
+CREATE POLICY "Owners can add items to their collections"
+  ON collection_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM collections c
+      WHERE c.id = collection_id AND c.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can update items in their collections"
+  ON collection_items
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM collections c
+      WHERE c.id = collection_id AND c.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can remove items from their collections"
+  ON collection_items
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM collections c
+      WHERE c.id = collection_id AND c.owner_id = auth.uid()
+    )
+  );
+
+-- Keep updated_at current
+CREATE TRIGGER update_collections_updated_at
+  BEFORE UPDATE ON collections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Append new items to the end of the collection
+CREATE OR REPLACE FUNCTION set_collection_item_position()
+RETURNS trigger AS $$
+BEGIN
+  SELECT coalesce(max(position), -1) + 1 INTO NEW.position
+  FROM collection_items
+  WHERE collection_id = NEW.collection_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_collection_item_insert
+  BEFORE INSERT ON collection_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_collection_item_position();
+
+-- Bump the parent collection when its items change
+CREATE OR REPLACE FUNCTION touch_collection()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE collections
+  SET updated_at = now()
+  WHERE id = coalesce(NEW.collection_id, OLD.collection_id);
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_collection_items_change
+  AFTER INSERT OR DELETE ON collection_items
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_collection();
+
+-- Resolve a public share link
+CREATE OR REPLACE FUNCTION get_shared_collection(p_share_token text)
+RETURNS jsonb AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'name', c.name,
+    'description', c.description,
+    'updated_at', c.updated_at,
+    'owner', jsonb_build_object('id', p.id, 'username', p.username, 'full_name', p.full_name),
+    'content_ids', coalesce((
+      SELECT jsonb_agg(ci.content_id ORDER BY ci.position, ci.added_at)
+      FROM collection_items ci
+      WHERE ci.collection_id = c.id
+    ), '[]'::jsonb)
+  ) INTO result
+  FROM collections c
+  JOIN profiles p ON p.id = c.owner_id
+  WHERE c.share_token = p_share_token
+    AND c.visibility = 'public';
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Save a new item order (owner only)
+CREATE OR REPLACE FUNCTION reorder_collection_items(
+  p_collection_id uuid,
+  p_content_ids uuid[]
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM collections
+    WHERE id = p_collection_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the owner can reorder this collection';
+  END IF;
+
+  UPDATE collection_items ci
+  SET position = ordered.idx - 1
+  FROM unnest(p_content_ids) WITH ORDINALITY AS ordered(content_id, idx)
+  WHERE ci.collection_id = p_collection_id
+    AND ci.content_id = ordered.content_id;
+
+  UPDATE collections SET updated_at = now() WHERE id = p_collection_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,297 @@
+/*
+  # Create threaded comments and in-app notifications
+
+  1. New Tables
+    - `content_comments` - Discussion comments on content; `parent_id` links a reply to the comment it answers
+    - `comment_reports` - Abuse reports on comments, moderated like `chat_reports`
+    - `notifications` - Per-user in-app notifications (new comments, replies)
+
+  2. Security
+    - Enable RLS on all new tables
+    - Anyone can read visible comments; authors edit and delete their own
+    - Comments can only be posted on approved content, or by the uploader on their own content
+    - Users only see and mark their own notifications; rows are written by triggers
+
+  3. Functions
+    - `delete_content_comment` - Removes a comment, keeping a placeholder when it still has replies
+    - `notify_new_content_comment` - Notifies the uploader and the parent comment's author
+*/
+
+-- Create content_comments table
+CREATE TABLE IF NOT EXISTS content_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id uuid NOT NULL REFERENCES content(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES content_comments(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(body) <= 2000),
+  is_edited boolean DEFAULT false,
+  is_deleted boolean DEFAULT false,
+  is_hidden boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create comment_reports table
+CREATE TABLE IF NOT EXISTS comment_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES content_comments(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL,
+  description text,
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'reviewed', 'resolved', 'dismissed')),
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  admin_notes text,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE(comment_id, reporter_id)
+);
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  content_id uuid REFERENCES content(id) ON DELETE CASCADE,
+  link text,
+  is_read boolean DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE content_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_content_comments_content ON content_comments(content_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_content_comments_parent ON content_comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_content_comments_user ON content_comments(user_id);
+CREATE INDEX IF NOT EXISTS idx_comment_reports_status ON comment_reports(status);
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE is_read = false;
+
+-- RLS Policies for content_comments
+CREATE POLICY "Anyone can view visible comments"
+  ON content_comments
+  FOR SELECT
+  USING (is_hidden = false OR user_id = auth.uid());
+
+CREATE POLICY "Authenticated users can post comments"
+  ON content_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    length(trim(body)) > 0 AND
+    EXISTS (
+      SELECT 1 FROM content c
+      WHERE c.id = content_comments.content_id
+        AND (c.is_approved = true OR c.uploaded_by = auth.uid())
+    ) AND
+    (
+      parent_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM content_comments p
+        WHERE p.id = parent_id AND p.content_id = content_comments.content_id
+      )
+    )
+  );
+
+CREATE POLICY "Users can edit their own comments"
+  ON content_comments
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() AND is_deleted = false)
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage all comments"
+  ON content_comments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- RLS Policies for comment_reports
+CREATE POLICY "Users can create comment reports"
+  ON comment_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (reporter_id = auth.uid());
+
+CREATE POLICY "Users can view their own comment reports"
+  ON comment_reports
+  FOR SELECT
+  TO authenticated
+  USING (reporter_id = auth.uid());
+
+CREATE POLICY "Admins can manage all comment reports"
+  ON comment_reports
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- RLS Policies for notifications
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Keep updated_at current
+CREATE TRIGGER update_content_comments_updated_at
+  BEFORE UPDATE ON content_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_comment_reports_updated_at
+  BEFORE UPDATE ON comment_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Authors may edit the body only; threading, deletion and moderation state are fixed
+CREATE OR REPLACE FUNCTION protect_comment_fields()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.is_edited := false;
+      NEW.is_deleted := false;
+      NEW.is_hidden := false;
+    ELSE
+      NEW.content_id := OLD.content_id;
+      NEW.parent_id := OLD.parent_id;
+      NEW.is_deleted := OLD.is_deleted;
+      NEW.is_hidden := OLD.is_hidden;
+      NEW.is_edited := NEW.body IS DISTINCT FROM OLD.body OR OLD.is_edited;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_comment_fields_trigger
+  BEFORE INSERT OR UPDATE ON content_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_comment_fields();
+
+-- Delete a comment; when it has replies, keep a placeholder so the thread stays intact
+CREATE OR REPLACE FUNCTION delete_content_comment(p_comment_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_author uuid;
+BEGIN
+  SELECT user_id INTO v_author
+  FROM content_comments
+  WHERE id = p_comment_id;
+
+  IF v_author IS NULL THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF v_author <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only the author can delete this comment';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM content_comments WHERE parent_id = p_comment_id) THEN
+    UPDATE content_comments
+    SET body = '', is_deleted = true
+    WHERE id = p_comment_id;
+  ELSE
+    DELETE FROM content_comments WHERE id = p_comment_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Notify the uploader about new comments and the parent's author about replies
+CREATE OR REPLACE FUNCTION notify_new_content_comment()
+RETURNS trigger AS $$
+DECLARE
+  v_content record;
+  v_parent_author uuid;
+  v_actor_name text;
+BEGIN
+  SELECT id, title, uploaded_by INTO v_content
+  FROM content
+  WHERE id = NEW.content_id;
+
+  SELECT COALESCE(full_name, username) INTO v_actor_name
+  FROM profiles
+  WHERE id = NEW.user_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO v_parent_author
+    FROM content_comments
+    WHERE id = NEW.parent_id AND is_deleted = false;
+  END IF;
+
+  IF v_content.uploaded_by IS NOT NULL AND v_content.uploaded_by <> NEW.user_id THEN
+    INSERT INTO notifications (user_id, actor_id, type, title, body, content_id)
+    VALUES (
+      v_content.uploaded_by,
+      NEW.user_id,
+      'content_comment',
+      v_actor_name || ' commented on "' || v_content.title || '"',
+      left(NEW.body, 200),
+      NEW.content_id
+    );
+  END IF;
+
+  IF v_parent_author IS NOT NULL
+     AND v_parent_author <> NEW.user_id
+     AND v_parent_author IS DISTINCT FROM v_content.uploaded_by THEN
+    INSERT INTO notifications (user_id, actor_id, type, title, body, content_id)
+    VALUES (
+      v_parent_author,
+      NEW.user_id,
+      'comment_reply',
+      v_actor_name || ' replied to your comment on "' || v_content.title || '"',
+      left(NEW.body, 200),
+      NEW.content_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_content_comment_created
+  AFTER INSERT ON content_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_content_comment();
+
+-- Live notification badge
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,166 @@
+/*
+  # Detect duplicate uploads by content hash
+
+  1. Schema Changes
+    - `file_uploads.content_hash` (text) - SHA-256 of the uploaded bytes, computed by the client
+    - `content.content_hash` (text) - Hash of the current file, used to offer existing items on re-upload
+
+  2. Functions
+    - `sync_content_hash` - Picks up the hash of a newly attached file from `file_uploads`
+    - `get_duplicate_content_clusters` - Admin report of content sharing the same hash
+    - `merge_duplicate_content` - Folds duplicates into one item, moving reviews, comments,
+      collection entries and counters before deleting the rest
+
+  3. Notes
+    - Rows uploaded before this migration have no hash and are not reported as duplicates
+*/
+
+ALTER TABLE file_uploads ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE content ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_file_uploads_content_hash ON file_uploads(content_hash);
+CREATE INDEX IF NOT EXISTS idx_content_content_hash ON content(content_hash) WHERE content_hash IS NOT NULL;
+
+-- Keep content.content_hash matching the file it points at (new uploads and published versions)
+CREATE OR REPLACE FUNCTION sync_content_hash()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.file_url IS NULL THEN
+    NEW.content_hash := NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.file_url IS DISTINCT FROM OLD.file_url THEN
+    IF TG_OP = 'INSERT' AND NEW.content_hash IS NOT NULL THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT fu.content_hash INTO NEW.content_hash
+    FROM file_uploads fu
+    WHERE NEW.file_url LIKE '%/' || fu.upload_path
+    ORDER BY fu.created_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_content_hash_trigger
+  BEFORE INSERT OR UPDATE OF file_url ON content
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_content_hash();
+
+-- Groups of content items that share a file hash (admin only)
+CREATE OR REPLACE FUNCTION get_duplicate_content_clusters()
+RETURNS TABLE (
+  content_hash text,
+  content_ids uuid[],
+  item_count integer
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view duplicate reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.content_hash,
+    array_agg(c.id ORDER BY c.created_at),
+    count(*)::integer
+  FROM content c
+  WHERE c.content_hash IS NOT NULL
+  GROUP BY c.content_hash
+  HAVING count(*) > 1
+  ORDER BY count(*) DESC, min(c.created_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Fold duplicate content into the item being kept, then delete the duplicates (admin only)
+CREATE OR REPLACE FUNCTION merge_duplicate_content(
+  p_keep_id uuid,
+  p_duplicate_ids uuid[]
+)
+RETURNS void AS $$
+DECLARE
+  v_hash text;
+  v_duplicate_ids uuid[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can merge content';
+  END IF;
+
+  SELECT content_hash INTO v_hash FROM content WHERE id = p_keep_id;
+
+  IF v_hash IS NULL THEN
+    RAISE EXCEPTION 'Content to keep was not found or has no file hash';
+  END IF;
+
+  -- Only merge genuine duplicates of the kept item
+  SELECT array_agg(id) INTO v_duplicate_ids
+  FROM content
+  WHERE id = ANY(p_duplicate_ids) AND id <> p_keep_id AND content_hash = v_hash;
+
+  IF v_duplicate_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Counters and tags
+  UPDATE content
+  SET
+    view_count = COALESCE(view_count, 0) + (
+      SELECT COALESCE(sum(view_count), 0) FROM content WHERE id = ANY(v_duplicate_ids)
+    ),
+    download_count = COALESCE(download_count, 0) + (
+      SELECT COALESCE(sum(download_count), 0) FROM content WHERE id = ANY(v_duplicate_ids)
+    ),
+    tags = ARRAY(
+      SELECT DISTINCT t
+      FROM content c, unnest(c.tags) t
+      WHERE c.id = p_keep_id OR c.id = ANY(v_duplicate_ids)
+    )
+  WHERE id = p_keep_id;
+
+  -- One review per user: keep an existing review on the kept item, else the latest duplicate's
+  UPDATE content_reviews
+  SET content_id = p_keep_id
+  WHERE id IN (
+    SELECT DISTINCT ON (r.user_id) r.id
+    FROM content_reviews r
+    WHERE r.content_id = ANY(v_duplicate_ids)
+      AND r.user_id IS DISTINCT FROM (SELECT uploaded_by FROM content WHERE id = p_keep_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM content_reviews k
+        WHERE k.content_id = p_keep_id AND k.user_id = r.user_id
+      )
+    ORDER BY r.user_id, r.updated_at DESC
+  );
+
+  -- One entry per collection
+  UPDATE collection_items
+  SET content_id = p_keep_id
+  WHERE id IN (
+    SELECT DISTINCT ON (i.collection_id) i.id
+    FROM collection_items i
+    WHERE i.content_id = ANY(v_duplicate_ids)
+      AND NOT EXISTS (
+        SELECT 1 FROM collection_items k
+        WHERE k.collection_id = i.collection_id AND k.content_id = p_keep_id
+      )
+    ORDER BY i.collection_id, i.position
+  );
+
+  UPDATE content_comments SET content_id = p_keep_id WHERE content_id = ANY(v_duplicate_ids);
+  UPDATE content_reports SET content_id = p_keep_id WHERE content_id = ANY(v_duplicate_ids);
+  UPDATE update_requests SET content_id = p_keep_id WHERE content_id = ANY(v_duplicate_ids);
+  UPDATE file_uploads SET content_id = p_keep_id WHERE content_id = ANY(v_duplicate_ids);
+  UPDATE notifications SET content_id = p_keep_id WHERE content_id = ANY(v_duplicate_ids);
+
+  DELETE FROM content WHERE id = ANY(v_duplicate_ids);
+
+  PERFORM refresh_content_rating(p_keep_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
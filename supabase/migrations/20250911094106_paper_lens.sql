@@ -0,0 +1,75 @@
+/*
+  # Store generated thumbnails for uploaded files
+
+  1. Storage Buckets
+    - `thumbnails` - Public PNG previews written by the `generate-thumbnail` edge function,
+      only for files in the public `files` bucket
+
+  2. Schema Changes
+    - `thumbnail_path` (text) on `file_uploads`, `content`, `group_messages` and `group_files`,
+      relative to the `thumbnails` bucket
+
+  3. Functions
+    - `sync_file_thumbnail` - Copies an already generated thumbnail onto rows that attach the file later,
+      and clears it when the file is replaced
+*/
+
+-- Create thumbnails bucket (written only by the edge function's service role)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'thumbnails',
+  'thumbnails',
+  true,
+  1048576, -- 1MB limit
+  ARRAY['image/png']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view thumbnails"
+  ON storage.objects
+  FOR SELECT
+  TO public
+  USING (bucket_id = 'thumbnails');
+
+ALTER TABLE file_uploads ADD COLUMN IF NOT EXISTS thumbnail_path text;
+ALTER TABLE content ADD COLUMN IF NOT EXISTS thumbnail_path text;
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS thumbnail_path text;
+ALTER TABLE group_files ADD COLUMN IF NOT EXISTS thumbnail_path text;
+
+-- The edge function may finish before or after the row pointing at the file is written
+CREATE OR REPLACE FUNCTION sync_file_thumbnail()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.file_url IS NOT DISTINCT FROM OLD.file_url THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.file_url IS NULL THEN
+    NEW.thumbnail_path := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT fu.thumbnail_path INTO NEW.thumbnail_path
+  FROM file_uploads fu
+  WHERE NEW.file_url LIKE '%/' || fu.upload_path
+  ORDER BY fu.created_at DESC
+  LIMIT 1;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_content_thumbnail
+  BEFORE INSERT OR UPDATE OF file_url ON content
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_file_thumbnail();
+
+CREATE TRIGGER sync_group_message_thumbnail
+  BEFORE INSERT OR UPDATE OF file_url ON group_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_file_thumbnail();
+
+CREATE TRIGGER sync_group_file_thumbnail
+  BEFORE INSERT OR UPDATE OF file_url ON group_files
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_file_thumbnail();
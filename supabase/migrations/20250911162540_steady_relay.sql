@@ -0,0 +1,137 @@
+/*
+  # Resumable chunked uploads
+
+  1. Schema Changes
+    - `file_upload_sessions` gains the state needed to resume an interrupted upload:
+      - `bucket` (text) - Target storage bucket
+      - `content_hash` (text) - SHA-256 of the file, used to match a re-selected file to its session
+      - `chunk_size` (integer) - Size of each chunk in bytes
+      - `total_chunks` (integer) - Number of chunks the file is split into
+      - `uploaded_chunks` (integer) - Chunks stored so far; chunks are uploaded in order
+      - `assembled_at` (timestamptz) - When `assemble-upload` stored the final object, so a retried
+        call can answer with the same result
+      - `updated_at` (timestamptz)
+    - `upload_status` also accepts 'paused'
+
+  2. Security
+    - The chunk plan (`bucket`, `storage_path`, `chunk_size`, `total_chunks`, `uploaded_chunks`),
+      `assembled_at` and `file_size` can no longer be written by clients directly; `start_chunked_upload` sets the plan once
+      and always targets a `<folder>/<user_id>_<name>` file in `files`
+
+  3. Functions
+    - `start_chunked_upload` - Validates and records the chunk plan for one of the caller's sessions
+
+  4. Notes
+    - Chunks are stored under `<user_id>/chunks/<session_id>/` in `files` and
+      joined into the final object by the `assemble-upload` edge function
+*/
+
+ALTER TABLE file_upload_sessions ADD COLUMN IF NOT EXISTS bucket text;
+ALTER TABLE file_upload_sessions ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE file_upload_sessions ADD COLUMN IF NOT EXISTS chunk_size integer CHECK (chunk_size > 0);
+ALTER TABLE file_upload_sessions ADD COLUMN IF NOT EXISTS total_chunks integer CHECK (total_chunks > 0);
+ALTER TABLE file_upload_sessions ADD COLUMN IF NOT EXISTS uploaded_chunks integer DEFAULT 0 CHECK (uploaded_chunks >= 0);
+ALTER TABLE file_upload_sessions ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+ALTER TABLE file_upload_sessions ADD COLUMN IF NOT EXISTS assembled_at timestamptz;
+
+ALTER TABLE file_upload_sessions DROP CONSTRAINT IF EXISTS file_upload_sessions_upload_status_check;
+ALTER TABLE file_upload_sessions ADD CONSTRAINT file_upload_sessions_upload_status_check
+  CHECK (upload_status IN ('pending', 'uploading', 'paused', 'completed', 'failed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_resumable
+  ON file_upload_sessions(user_id, content_hash)
+  WHERE upload_status IN ('uploading', 'paused');
+
+CREATE TRIGGER update_file_upload_sessions_updated_at
+  BEFORE UPDATE ON file_upload_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The assembler writes to `bucket`/`storage_path` with the service role, so clients may not change them.
+-- Checked against current_user rather than auth.role() so SECURITY DEFINER functions below can set them.
+CREATE OR REPLACE FUNCTION protect_upload_session_plan()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.bucket := NULL;
+    NEW.storage_path := NULL;
+    NEW.chunk_size := NULL;
+    NEW.total_chunks := NULL;
+    NEW.uploaded_chunks := 0;
+    NEW.assembled_at := NULL;
+  ELSE
+    NEW.file_size := OLD.file_size;
+    NEW.bucket := OLD.bucket;
+    NEW.storage_path := OLD.storage_path;
+    NEW.chunk_size := OLD.chunk_size;
+    NEW.total_chunks := OLD.total_chunks;
+    NEW.uploaded_chunks := OLD.uploaded_chunks;
+    NEW.assembled_at := OLD.assembled_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_file_upload_sessions_plan
+  BEFORE INSERT OR UPDATE ON file_upload_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_upload_session_plan();
+
+-- Record the chunk plan for a new session; the file always lands in `files` under a name prefixed with the caller's id
+CREATE OR REPLACE FUNCTION start_chunked_upload(
+  p_session_id uuid,
+  p_storage_path text,
+  p_content_hash text,
+  p_chunk_size integer
+)
+RETURNS void AS $$
+DECLARE
+  v_file_size bigint;
+BEGIN
+  SELECT file_size INTO v_file_size
+  FROM file_upload_sessions
+  WHERE id = p_session_id
+    AND user_id = auth.uid()
+    AND total_chunks IS NULL
+    AND upload_status = 'pending';
+
+  IF v_file_size IS NULL THEN
+    RAISE EXCEPTION 'Upload session not found or already started';
+  END IF;
+
+  IF v_file_size <= 0 OR v_file_size > 5242880 THEN
+    RAISE EXCEPTION 'Please upload a file or PDF smaller than 5MB';
+  END IF;
+
+  IF p_chunk_size IS NULL OR p_chunk_size < 65536 THEN
+    RAISE EXCEPTION 'Invalid chunk size';
+  END IF;
+
+  IF p_storage_path IS NULL
+    OR p_storage_path !~ '^[A-Za-z0-9_-][A-Za-z0-9._-]*/[A-Za-z0-9._-]+$'
+    OR split_part(p_storage_path, '/', 2) NOT LIKE auth.uid()::text || '\_%'
+    OR p_storage_path LIKE '%..%'
+  THEN
+    RAISE EXCEPTION 'Invalid upload path';
+  END IF;
+
+  UPDATE file_upload_sessions
+  SET
+    bucket = 'files',
+    storage_path = p_storage_path,
+    content_hash = p_content_hash,
+    chunk_size = p_chunk_size,
+    total_chunks = GREATEST(1, CEIL(v_file_size::numeric / p_chunk_size)::integer),
+    uploaded_chunks = 0,
+    upload_status = 'uploading'
+  WHERE id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION start_chunked_upload(uuid, text, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION start_chunked_upload(uuid, text, text, integer) TO authenticated;
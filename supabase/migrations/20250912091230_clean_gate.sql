@@ -0,0 +1,230 @@
+/*
+  # Quarantine uploads until they pass a malware scan
+
+  1. Storage Buckets
+    - `quarantine` - Private landing bucket for new uploads. Objects live under `<user_id>/`
+      and are moved to their real bucket by the `scan-file` edge function once the scan is clean
+
+  2. Schema Changes
+    - `file_uploads.storage_bucket` (text) - Bucket the file is released to after a clean scan
+    - `file_uploads.quarantine_path` (text) - Object path in `quarantine` while the file is held;
+      cleared when the file is released or deleted as infected
+    - `file_uploads.scan_status` (text) - Latest verdict, mirrored from `file_security_scans`
+
+  3. Security
+    - Scan verdicts are written only by the edge function's service role; the open insert policy
+      that let any signed-in user record a verdict is dropped
+    - Admins can view every scan
+    - Users cannot set their own `scan_status` or `quarantine_path`
+    - An upload's bucket and folder must match its purpose, group files need an active membership
+      in the group, and the quarantine copy must sit in the uploader's folder
+    - Clients can no longer upload to or overwrite objects in `files` and `group-files`;
+      only the scanner's release puts files there
+
+  4. Functions
+    - `handle_file_upload_completion` no longer records an automatic 'clean' verdict
+    - `start_chunked_upload` targets the caller's own folder in `quarantine`, so chunked uploads
+      are assembled and scanned there like any other upload
+*/
+
+-- Uploads that skipped quarantine would reach the shared buckets unscanned
+DROP POLICY IF EXISTS "Authenticated users can upload files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own files" ON storage.objects;
+DROP POLICY IF EXISTS "Group members can upload files" ON storage.objects;
+
+-- Create quarantine bucket (never public; the service role releases clean files)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES (
+  'quarantine',
+  'quarantine',
+  false,
+  5242880 -- 5MB limit
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload to their quarantine folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'quarantine' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can list their quarantine folder"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'quarantine' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can remove from their quarantine folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'quarantine' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+ALTER TABLE file_uploads ADD COLUMN IF NOT EXISTS storage_bucket text DEFAULT 'files'
+  CHECK (storage_bucket IN ('files', 'group-files'));
+ALTER TABLE file_uploads ADD COLUMN IF NOT EXISTS quarantine_path text;
+ALTER TABLE file_uploads ADD COLUMN IF NOT EXISTS scan_status text DEFAULT 'pending'
+  CHECK (scan_status IN ('pending', 'scanning', 'clean', 'infected', 'error'));
+
+-- Files uploaded before scanning existed were never held back
+UPDATE file_uploads SET scan_status = 'clean' WHERE quarantine_path IS NULL AND scan_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_file_uploads_quarantined
+  ON file_uploads(created_at)
+  WHERE quarantine_path IS NOT NULL;
+
+-- Only the scanner decides whether a file is clean
+CREATE OR REPLACE FUNCTION protect_file_scan_status()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.scan_status := 'pending';
+  ELSE
+    NEW.scan_status := OLD.scan_status;
+    NEW.quarantine_path := OLD.quarantine_path;
+    NEW.storage_bucket := OLD.storage_bucket;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_file_uploads_scan_status
+  BEFORE INSERT OR UPDATE ON file_uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_file_scan_status();
+
+-- The scanner releases files wherever the row says, so the row may only name the place its purpose allows
+CREATE OR REPLACE FUNCTION check_file_upload_target()
+RETURNS trigger AS $$
+DECLARE
+  v_folder text := split_part(NEW.upload_path, '/', 1);
+  v_file_name text := split_part(NEW.upload_path, '/', 2);
+  v_allowed boolean;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.upload_path IS NULL
+    OR array_length(string_to_array(NEW.upload_path, '/'), 1) <> 2
+    OR NOT starts_with(v_file_name, NEW.user_id::text || '_')
+    OR NEW.quarantine_path IS DISTINCT FROM NEW.user_id::text || '/' || NEW.upload_path
+  THEN
+    RAISE EXCEPTION 'Invalid upload location';
+  END IF;
+
+  IF NEW.upload_purpose = 'group_file' THEN
+    IF NEW.group_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM group_members
+      WHERE group_id = NEW.group_id AND user_id = NEW.user_id AND is_active = true
+    ) THEN
+      RAISE EXCEPTION 'Only active group members can upload group files';
+    END IF;
+
+    v_allowed := NEW.storage_bucket = 'files' AND v_folder = 'group-files';
+  ELSE
+    v_allowed := NEW.group_id IS NULL
+      AND NEW.storage_bucket = 'files'
+      AND v_folder IN ('content', 'versions', 'update-requests', 'general');
+  END IF;
+
+  IF NOT COALESCE(v_allowed, false) THEN
+    RAISE EXCEPTION 'Invalid upload location';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_file_upload_target
+  BEFORE INSERT ON file_uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION check_file_upload_target();
+
+DROP POLICY IF EXISTS "System can create security scans" ON file_security_scans;
+
+CREATE POLICY "Admins can view all security scans"
+  ON file_security_scans
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Verdicts now come from the scan-file edge function
+CREATE OR REPLACE FUNCTION handle_file_upload_completion()
+RETURNS trigger AS $$
+BEGIN
+  NEW.is_processed = true;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Chunked uploads land in the caller's quarantine folder as well
+CREATE OR REPLACE FUNCTION start_chunked_upload(
+  p_session_id uuid,
+  p_storage_path text,
+  p_content_hash text,
+  p_chunk_size integer
+)
+RETURNS void AS $$
+DECLARE
+  v_file_size bigint;
+BEGIN
+  SELECT file_size INTO v_file_size
+  FROM file_upload_sessions
+  WHERE id = p_session_id
+    AND user_id = auth.uid()
+    AND total_chunks IS NULL
+    AND upload_status = 'pending';
+
+  IF v_file_size IS NULL THEN
+    RAISE EXCEPTION 'Upload session not found or already started';
+  END IF;
+
+  IF v_file_size <= 0 OR v_file_size > 5242880 THEN
+    RAISE EXCEPTION 'Please upload a file or PDF smaller than 5MB';
+  END IF;
+
+  IF p_chunk_size IS NULL OR p_chunk_size < 65536 THEN
+    RAISE EXCEPTION 'Invalid chunk size';
+  END IF;
+
+  IF p_storage_path IS NULL
+    OR split_part(p_storage_path, '/', 1) <> auth.uid()::text
+    OR split_part(p_storage_path, '/', 2) IN ('', 'chunks')
+    OR p_storage_path LIKE '%..%'
+    OR p_storage_path !~ '^[A-Za-z0-9._/-]+$'
+  THEN
+    RAISE EXCEPTION 'Invalid upload path';
+  END IF;
+
+  UPDATE file_upload_sessions
+  SET
+    bucket = 'quarantine',
+    storage_path = p_storage_path,
+    content_hash = p_content_hash,
+    chunk_size = p_chunk_size,
+    total_chunks = GREATEST(1, CEIL(v_file_size::numeric / p_chunk_size)::integer),
+    uploaded_chunks = 0,
+    upload_status = 'uploading'
+  WHERE id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
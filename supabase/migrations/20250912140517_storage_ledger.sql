@@ -0,0 +1,272 @@
+/*
+  # Per-user storage quotas
+
+  1. New Tables
+    - `user_storage_quotas` - Quota overrides for trusted uploaders; users without a row
+      get the default quota (100MB)
+      - `user_id` (uuid, primary key)
+      - `quota_bytes` (bigint)
+      - `reason` (text) - Why the quota was changed
+      - `updated_by` (uuid) - Admin who set the quota
+
+  2. Schema Changes
+    - `file_uploads.deleted_at` (timestamptz) - Set when the stored object is deleted, so usage
+      only counts files that still take up space
+
+  3. Functions
+    - `get_storage_quota` - Quota for a user, falling back to the default
+    - `get_stored_upload_sizes` - Size of each live upload, measured from the stored object's metadata
+      (in its bucket or in quarantine); the client-reported `file_size` only counts while nothing is stored.
+      Also counts everything else in the user's quarantine folder (chunks, abandoned files) and their avatars
+    - `get_storage_usage` - Quota, bytes used and a breakdown by upload purpose
+    - `enforce_storage_quota` - Rejects file_uploads rows that would exceed the quota
+    - `is_over_storage_quota` - Checked by `scan-file` before it releases a clean file, once all of its bytes are stored
+    - `mark_file_upload_deleted` - Keeps `deleted_at` in step with storage deletions
+    - `get_stale_quarantine_objects` - Quarantine objects nothing will claim any more, for the cleanup job
+
+  4. Security
+    - Users can view their own quota; only admins can change quotas
+    - Usage is visible to the user and to admins
+
+  5. Scheduling
+    - `pg_cron` calls the `cleanup-quarantine` edge function every hour to delete stale quarantine
+      objects through the Storage API
+    - The job reads the project URL and service role key from the `project_url` and
+      `service_role_key` Vault secrets
+*/
+
+CREATE TABLE IF NOT EXISTS user_storage_quotas (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  quota_bytes bigint NOT NULL CHECK (quota_bytes > 0),
+  reason text,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_storage_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own storage quota"
+  ON user_storage_quotas
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage storage quotas"
+  ON user_storage_quotas
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE TRIGGER update_user_storage_quotas_updated_at
+  BEFORE UPDATE ON user_storage_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE file_uploads ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_file_uploads_active_usage
+  ON file_uploads(user_id, upload_purpose)
+  WHERE deleted_at IS NULL;
+
+-- Storage deletions happen in many places (content, group cleanup, scans), so track them at the source
+CREATE OR REPLACE FUNCTION mark_file_upload_deleted()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE file_uploads
+  SET deleted_at = now()
+  WHERE deleted_at IS NULL
+    AND storage_bucket = OLD.bucket_id
+    AND upload_path = OLD.name;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_storage_object_deleted
+  AFTER DELETE ON storage.objects
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_file_upload_deleted();
+
+-- Function to get a user's storage quota in bytes
+CREATE OR REPLACE FUNCTION get_storage_quota(user_id_param uuid)
+RETURNS bigint AS $$
+  SELECT COALESCE(
+    (SELECT quota_bytes FROM user_storage_quotas WHERE user_id = user_id_param),
+    104857600 -- 100MB default
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- What each of a user's live uploads really takes up; the client's file_size is only a fallback.
+-- Quarantine objects no upload row accounts for yet still take up space until they are claimed or cleaned up.
+CREATE OR REPLACE FUNCTION get_stored_upload_sizes(user_id_param uuid)
+RETURNS TABLE (upload_id uuid, upload_purpose text, stored_bytes bigint) AS $$
+  SELECT
+    fu.id,
+    fu.upload_purpose,
+    COALESCE(
+      (released.metadata->>'size')::bigint,
+      (held.metadata->>'size')::bigint,
+      fu.file_size,
+      0
+    )
+  FROM file_uploads fu
+  LEFT JOIN storage.objects released
+    ON released.bucket_id = fu.storage_bucket AND released.name = fu.upload_path
+  LEFT JOIN storage.objects held
+    ON held.bucket_id = 'quarantine' AND held.name = fu.quarantine_path
+  WHERE fu.user_id = user_id_param
+    AND fu.deleted_at IS NULL
+    AND fu.scan_status <> 'infected'
+  UNION ALL
+  SELECT NULL::uuid, 'pending', COALESCE((o.metadata->>'size')::bigint, 0)
+  FROM storage.objects o
+  WHERE o.bucket_id = 'quarantine'
+    AND (storage.foldername(o.name))[1] = user_id_param::text
+    AND NOT EXISTS (
+      SELECT 1 FROM file_uploads fu
+      WHERE fu.user_id = user_id_param
+        AND fu.quarantine_path = o.name
+        AND fu.deleted_at IS NULL
+        AND fu.scan_status <> 'infected'
+    )
+  UNION ALL
+  SELECT NULL::uuid, 'avatar', COALESCE((o.metadata->>'size')::bigint, 0)
+  FROM storage.objects o
+  WHERE o.bucket_id = 'avatars'
+    AND (storage.foldername(o.name))[1] = user_id_param::text;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_stored_upload_sizes(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to get a user's storage usage, broken down by upload purpose
+CREATE OR REPLACE FUNCTION get_storage_usage(user_id_param uuid)
+RETURNS jsonb AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  IF user_id_param <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to view this storage usage';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'quota_bytes', get_storage_quota(user_id_param),
+    'has_custom_quota', EXISTS (SELECT 1 FROM user_storage_quotas WHERE user_id = user_id_param),
+    'used_bytes', COALESCE(SUM(usage.total_bytes), 0),
+    'file_count', COALESCE(SUM(usage.file_count), 0),
+    'by_purpose', COALESCE(
+      jsonb_agg(
+        jsonb_build_object('purpose', usage.upload_purpose, 'bytes', usage.total_bytes, 'files', usage.file_count)
+        ORDER BY usage.total_bytes DESC
+      ) FILTER (WHERE usage.upload_purpose IS NOT NULL),
+      '[]'::jsonb
+    )
+  ) INTO result
+  FROM (
+    SELECT sizes.upload_purpose, SUM(sizes.stored_bytes) AS total_bytes, COUNT(*) AS file_count
+    FROM get_stored_upload_sizes(user_id_param) sizes
+    GROUP BY sizes.upload_purpose
+  ) usage;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Reject uploads that would take a user over their quota
+CREATE OR REPLACE FUNCTION enforce_storage_quota()
+RETURNS trigger AS $$
+DECLARE
+  used_bytes bigint;
+  new_bytes bigint;
+BEGIN
+  SELECT COALESCE(SUM(stored_bytes), 0) INTO used_bytes
+  FROM get_stored_upload_sizes(NEW.user_id);
+
+  -- The file is already in quarantine and counted in used_bytes at its real size;
+  -- only a larger reported size adds to it
+  SELECT (metadata->>'size')::bigint INTO new_bytes
+  FROM storage.objects
+  WHERE bucket_id = 'quarantine' AND name = NEW.quarantine_path;
+
+  IF used_bytes + GREATEST(COALESCE(NEW.file_size, 0) - COALESCE(new_bytes, 0), 0) > get_storage_quota(NEW.user_id) THEN
+    RAISE EXCEPTION 'storage_quota_exceeded'
+      USING HINT = 'Delete some files or ask an admin to raise your storage quota';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_file_uploads_storage_quota
+  BEFORE INSERT ON file_uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_storage_quota();
+
+-- Whether a user's stored files exceed their quota; a file still in quarantine counts at its real size
+CREATE OR REPLACE FUNCTION is_over_storage_quota(user_id_param uuid)
+RETURNS boolean AS $$
+  SELECT COALESCE(SUM(stored_bytes), 0) > get_storage_quota(user_id_param)
+  FROM get_stored_upload_sizes(user_id_param);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION is_over_storage_quota(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_over_storage_quota(uuid) TO service_role;
+
+-- Quarantine objects older than a day that no live upload row points at, except chunks of
+-- sessions that can still be resumed (touched in the last week)
+CREATE OR REPLACE FUNCTION get_stale_quarantine_objects(p_limit integer DEFAULT 500)
+RETURNS TABLE (object_name text) AS $$
+  SELECT o.name
+  FROM storage.objects o
+  LEFT JOIN file_upload_sessions s
+    ON (storage.foldername(o.name))[2] = 'chunks'
+    AND s.id::text = (storage.foldername(o.name))[3]
+  WHERE o.bucket_id = 'quarantine'
+    AND o.created_at < now() - interval '1 day'
+    AND NOT EXISTS (
+      SELECT 1 FROM file_uploads fu
+      WHERE fu.quarantine_path = o.name
+        AND fu.deleted_at IS NULL
+    )
+    AND NOT COALESCE(
+      s.upload_status IN ('uploading', 'paused') AND s.updated_at > now() - interval '7 days',
+      false
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_stale_quarantine_objects(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_stale_quarantine_objects(integer) TO service_role;
+
+-- Objects have to go through the Storage API, so the job calls the edge function rather than deleting rows
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'cleanup-quarantine',
+  '15 * * * *',
+  $job$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/cleanup-quarantine',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $job$
+);
@@ -0,0 +1,104 @@
+/*
+  # Expiring share links for files
+
+  1. New Tables
+    - `file_share_links` - Download links a user hands out for a content or group file
+      - `token` (text, unguessable token carried in the link)
+      - `bucket`, `file_path`, `file_name` - The shared file
+      - `content_id` / `group_id` - Where the file was shared from
+      - `expires_at` (timestamptz) - Link stops working after this time
+      - `max_downloads` (integer, optional) - Link stops working after this many downloads
+      - `download_count` (integer)
+      - `revoked_at` (timestamptz) - Set when the owner revokes the link
+
+  2. Security
+    - Links are created and redeemed only by the `secure-download` edge function, which checks
+      the creator can reach the file
+    - Owners can list their links and revoke them
+    - `redeem_file_share_link` is callable by the service role only
+
+  3. Functions
+    - `redeem_file_share_link` - Atomically counts a download and returns the file, or nothing
+      when the link is expired, revoked or used up
+*/
+
+CREATE TABLE IF NOT EXISTS file_share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token text UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(16), 'hex'),
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  bucket text NOT NULL CHECK (bucket IN ('files', 'group-files')),
+  file_path text NOT NULL,
+  file_name text NOT NULL,
+  content_id uuid REFERENCES content(id) ON DELETE CASCADE,
+  group_id uuid REFERENCES class_groups(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL,
+  max_downloads integer CHECK (max_downloads > 0),
+  download_count integer NOT NULL DEFAULT 0,
+  last_downloaded_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE file_share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_file_share_links_creator ON file_share_links(created_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_file_share_links_file ON file_share_links(bucket, file_path);
+
+CREATE POLICY "Users can view their own share links"
+  ON file_share_links
+  FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can revoke their own share links"
+  ON file_share_links
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+-- Owners may only revoke; every other column is fixed once the link exists
+CREATE OR REPLACE FUNCTION protect_file_share_link()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This share link has already been revoked';
+  END IF;
+
+  NEW := OLD;
+  NEW.revoked_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_file_share_links
+  BEFORE UPDATE ON file_share_links
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_file_share_link();
+
+-- Count a download if the link is still usable
+CREATE OR REPLACE FUNCTION redeem_file_share_link(p_token text)
+RETURNS TABLE (
+  bucket text,
+  file_path text,
+  file_name text
+) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE file_share_links l
+  SET download_count = l.download_count + 1,
+      last_downloaded_at = now()
+  WHERE l.token = p_token
+    AND l.revoked_at IS NULL
+    AND l.expires_at > now()
+    AND (l.max_downloads IS NULL OR l.download_count < l.max_downloads)
+  RETURNING l.bucket, l.file_path, l.file_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION redeem_file_share_link(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_file_share_link(text) TO service_role;
@@ -0,0 +1,229 @@
+/*
+  # Download accounting and per-file analytics
+
+  1. New Tables
+    - `file_access_events` - One row per view or download of a content item or group file
+      - `content_id` / `group_file_id` - The file that was opened
+      - `user_id` (uuid, optional) - Who opened it; empty for signed-out views and share links
+      - `event_type` (text) - `view` or `download`
+      - `event_day` (date) - Day the event counts towards
+
+  2. Accounting
+    - Signed-in users count once per file, event type and day
+    - Signed-out views still bump `view_count` but are not logged as events
+    - `content.download_count` and `group_files.download_count` only go up for counted downloads
+    - Downloads through share links are counted without a user
+
+  3. Functions
+    - `record_file_download` - Records a download issued by the `secure-download` edge function
+    - `increment_view_count` - Now also records a view event
+    - `redeem_file_share_link` - Now also records the download for shared content
+    - `get_file_analytics` - Totals and daily views and downloads for each of a user's files
+
+  4. Security
+    - Events are written only by database functions; nobody can read them directly
+    - `protect_content_counters` now also keeps uploaders from writing `view_count` and `download_count`
+    - Analytics are visible to the uploader and to admins
+*/
+
+CREATE TABLE IF NOT EXISTS file_access_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id uuid REFERENCES content(id) ON DELETE CASCADE,
+  group_file_id uuid REFERENCES group_files(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  event_type text NOT NULL CHECK (event_type IN ('view', 'download')),
+  event_day date NOT NULL DEFAULT current_date,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT file_access_events_one_file CHECK (
+    (content_id IS NOT NULL AND group_file_id IS NULL) OR
+    (content_id IS NULL AND group_file_id IS NOT NULL)
+  )
+);
+
+ALTER TABLE file_access_events ENABLE ROW LEVEL SECURITY;
+
+-- A signed-in user counts once per file, event type and day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_file_access_events_content_daily
+  ON file_access_events(content_id, user_id, event_type, event_day)
+  WHERE content_id IS NOT NULL AND user_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_file_access_events_group_file_daily
+  ON file_access_events(group_file_id, user_id, event_type, event_day)
+  WHERE group_file_id IS NOT NULL AND user_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_file_access_events_content_day ON file_access_events(content_id, event_day);
+CREATE INDEX IF NOT EXISTS idx_file_access_events_group_file_day ON file_access_events(group_file_id, event_day);
+
+-- Record a download and bump the file's counter if it is the first one today for this user
+CREATE OR REPLACE FUNCTION record_file_download(
+  p_user_id uuid,
+  p_content_id uuid DEFAULT NULL,
+  p_group_file_id uuid DEFAULT NULL
+)
+RETURNS boolean AS $$
+BEGIN
+  IF p_content_id IS NULL AND p_group_file_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO file_access_events (content_id, group_file_id, user_id, event_type)
+  VALUES (p_content_id, p_group_file_id, p_user_id, 'download')
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_content_id IS NOT NULL THEN
+    UPDATE content SET download_count = COALESCE(download_count, 0) + 1 WHERE id = p_content_id;
+  ELSE
+    UPDATE group_files SET download_count = COALESCE(download_count, 0) + 1 WHERE id = p_group_file_id;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_file_download(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_file_download(uuid, uuid, uuid) TO service_role;
+
+-- Downloads are only counted by the edge function now
+REVOKE EXECUTE ON FUNCTION increment_download_count(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Keep counting every open in view_count, and log signed-in views for the daily chart
+CREATE OR REPLACE FUNCTION increment_view_count(content_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE content
+  SET view_count = view_count + 1
+  WHERE id = increment_view_count.content_id;
+
+  -- Signed-out views have no user to dedupe on, so they would add a row per call
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO file_access_events (content_id, user_id, event_type)
+  SELECT c.id, auth.uid(), 'view'
+  FROM content c
+  WHERE c.id = increment_view_count.content_id
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Views and downloads only change through the functions above, like the rating aggregate
+CREATE OR REPLACE FUNCTION protect_content_counters()
+RETURNS trigger AS $$
+BEGIN
+  -- Counter functions run as the function owner and pass through
+  IF current_user = 'authenticated' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.average_rating := 0;
+      NEW.rating_count := 0;
+      NEW.view_count := 0;
+      NEW.download_count := 0;
+    ELSE
+      NEW.average_rating := OLD.average_rating;
+      NEW.rating_count := OLD.rating_count;
+      NEW.view_count := OLD.view_count;
+      NEW.download_count := OLD.download_count;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count a download if the link is still usable, and credit it to shared content
+CREATE OR REPLACE FUNCTION redeem_file_share_link(p_token text)
+RETURNS TABLE (
+  bucket text,
+  file_path text,
+  file_name text
+) AS $$
+DECLARE
+  v_content_id uuid;
+BEGIN
+  UPDATE file_share_links l
+  SET download_count = l.download_count + 1,
+      last_downloaded_at = now()
+  WHERE l.token = p_token
+    AND l.revoked_at IS NULL
+    AND l.expires_at > now()
+    AND (l.max_downloads IS NULL OR l.download_count < l.max_downloads)
+  RETURNING l.bucket, l.file_path, l.file_name, l.content_id
+  INTO bucket, file_path, file_name, v_content_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_content_id IS NOT NULL THEN
+    PERFORM record_file_download(NULL, v_content_id);
+  END IF;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Totals plus daily views and downloads for each file a user uploaded
+CREATE OR REPLACE FUNCTION get_file_analytics(user_id_param uuid, days_param integer DEFAULT 30)
+RETURNS jsonb AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  IF user_id_param <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to view these analytics';
+  END IF;
+
+  WITH files AS (
+    SELECT 'content'::text AS kind, c.id, c.title, c.view_count AS views, c.download_count AS downloads, c.created_at
+    FROM content c
+    WHERE c.uploaded_by = user_id_param AND c.file_url IS NOT NULL
+    UNION ALL
+    SELECT 'group_file', g.id, g.file_name, NULL, g.download_count, g.created_at
+    FROM group_files g
+    WHERE g.uploaded_by = user_id_param
+  ),
+  daily AS (
+    SELECT
+      COALESCE(e.content_id, e.group_file_id) AS file_id,
+      e.event_day,
+      COUNT(*) FILTER (WHERE e.event_type = 'view') AS views,
+      COUNT(*) FILTER (WHERE e.event_type = 'download') AS downloads
+    FROM file_access_events e
+    JOIN files f ON f.id = COALESCE(e.content_id, e.group_file_id)
+    WHERE e.event_day > current_date - days_param
+    GROUP BY 1, 2
+  )
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'kind', f.kind,
+      'id', f.id,
+      'title', f.title,
+      'views', f.views,
+      'downloads', COALESCE(f.downloads, 0),
+      'created_at', f.created_at,
+      'daily', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object('day', d.event_day, 'views', d.views, 'downloads', d.downloads)
+          ORDER BY d.event_day
+        )
+        FROM daily d
+        WHERE d.file_id = f.id
+      ), '[]'::jsonb)
+    )
+    ORDER BY f.created_at DESC
+  ), '[]'::jsonb)
+  INTO result
+  FROM files f;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
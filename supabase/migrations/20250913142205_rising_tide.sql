@@ -0,0 +1,99 @@
+/*
+  # Trending content feed
+
+  1. New Materialized Views
+    - `trending_content` - Time-decayed trending score per approved content item and period
+      - `period` (text) - `week` (last 7 days) or `semester` (since 1 January or 1 July)
+      - `score` (numeric) - Sum of weighted activity, halved every 2 days (week) or 14 days (semester)
+      - `recent_views`, `recent_downloads`, `recent_ratings` - Activity counted in the period
+
+  2. Scoring
+    - A view is worth 1 and a download 3, using the daily-deduplicated `file_access_events`
+    - A rating is worth 0 (1 star) to 8 (5 stars); hidden reviews are ignored
+
+  3. Functions
+    - `refresh_popular_content` - No longer a placeholder; refreshes `trending_content`
+
+  4. Scheduling
+    - `pg_cron` refreshes the feed every 30 minutes
+
+  5. Security
+    - The view only holds approved content and is readable by everyone
+    - Only the scheduler and the service role can trigger a refresh
+*/
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS trending_content AS
+WITH periods AS (
+  SELECT 'week'::text AS period, now() - interval '7 days' AS starts_at, 2.0 AS half_life_days
+  UNION ALL
+  SELECT 'semester',
+    make_date(
+      EXTRACT(YEAR FROM current_date)::integer,
+      CASE WHEN EXTRACT(MONTH FROM current_date) >= 7 THEN 7 ELSE 1 END,
+      1
+    )::timestamptz,
+    14.0
+),
+activity AS (
+  SELECT
+    e.content_id,
+    e.event_day::timestamptz AS happened_at,
+    e.event_type AS kind,
+    CASE e.event_type WHEN 'download' THEN 3 ELSE 1 END AS weight
+  FROM file_access_events e
+  WHERE e.content_id IS NOT NULL
+  UNION ALL
+  SELECT
+    r.content_id,
+    r.created_at,
+    'rating',
+    (r.rating - 1) * 2
+  FROM content_reviews r
+  WHERE r.is_hidden = false
+)
+SELECT
+  p.period,
+  a.content_id,
+  ROUND(SUM(
+    a.weight * power(0.5, EXTRACT(EPOCH FROM now() - a.happened_at) / 86400 / p.half_life_days)
+  )::numeric, 4) AS score,
+  COUNT(*) FILTER (WHERE a.kind = 'view') AS recent_views,
+  COUNT(*) FILTER (WHERE a.kind = 'download') AS recent_downloads,
+  COUNT(*) FILTER (WHERE a.kind = 'rating') AS recent_ratings,
+  now() AS refreshed_at
+FROM periods p
+JOIN activity a ON a.happened_at >= p.starts_at
+JOIN content c ON c.id = a.content_id AND c.is_approved = true
+GROUP BY p.period, a.content_id;
+
+-- Needed for REFRESH ... CONCURRENTLY, and serves the feed query
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trending_content_period_content
+  ON trending_content(period, content_id);
+
+CREATE INDEX IF NOT EXISTS idx_trending_content_period_score
+  ON trending_content(period, score DESC);
+
+GRANT SELECT ON trending_content TO anon, authenticated;
+
+-- Speeds up the activity scan
+CREATE INDEX IF NOT EXISTS idx_content_reviews_created ON content_reviews(created_at);
+
+-- Refresh the trending feed without blocking readers
+CREATE OR REPLACE FUNCTION refresh_popular_content()
+RETURNS void AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY trending_content;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_popular_content() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_popular_content() TO service_role;
+
+-- Scores decay with time, so the feed is rebuilt on a schedule rather than on every event
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'refresh-trending-content',
+  '*/30 * * * *',
+  'SELECT refresh_popular_content()'
+);
@@ -0,0 +1,133 @@
+/*
+  # Personalized content recommendations
+
+  1. Schema Changes
+    - `user_activity_logs.activity_type` now allows `content_view`, logged when a user opens a resource
+
+  2. Functions
+    - `get_recommended_content` - Ranks approved content for the signed-in user and gives a reason per item
+      - Same year as the viewer's profile: 3 points
+      - Course named in the category or tags: 2 points
+      - Category the viewer opened or downloaded in the last 90 days: up to 3 points
+      - Downloaded or rated 4+ stars by classmates in the viewer's groups in the last 60 days: 1 point each, up to 5
+      - Content the viewer uploaded or already downloaded is left out
+
+  3. Security
+    - Runs as definer so classmates' activity can be counted without exposing who did what
+*/
+
+ALTER TABLE user_activity_logs DROP CONSTRAINT IF EXISTS user_activity_logs_activity_type_check;
+ALTER TABLE user_activity_logs ADD CONSTRAINT user_activity_logs_activity_type_check CHECK (activity_type IN (
+  'login', 'logout', 'upload', 'download', 'content_view', 'message',
+  'group_join', 'group_leave', 'profile_update', 'error'
+));
+
+CREATE INDEX IF NOT EXISTS idx_activity_logs_user_type_created
+  ON user_activity_logs(user_id, activity_type, created_at DESC);
+
+CREATE OR REPLACE FUNCTION get_recommended_content(limit_param integer DEFAULT 10)
+RETURNS TABLE (
+  content_id uuid,
+  score numeric,
+  reason text
+) AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_year integer;
+  v_course text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT p.year, NULLIF(trim(p.course), '')
+  INTO v_year, v_course
+  FROM profiles p
+  WHERE p.id = v_user_id;
+
+  RETURN QUERY
+  WITH category_interest AS (
+    SELECT (l.activity_data->>'categoryId')::uuid AS category_id, COUNT(*) AS hits
+    FROM user_activity_logs l
+    WHERE l.user_id = v_user_id
+      AND l.activity_type IN ('content_view', 'download')
+      AND l.created_at > now() - interval '90 days'
+      AND l.activity_data->>'categoryId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    GROUP BY 1
+  ),
+  classmates AS (
+    SELECT DISTINCT other.user_id
+    FROM group_members mine
+    JOIN group_members other
+      ON other.group_id = mine.group_id
+     AND other.user_id <> v_user_id
+     AND other.is_active = true
+    WHERE mine.user_id = v_user_id AND mine.is_active = true
+  ),
+  classmate_picks AS (
+    SELECT picks.content_id, COUNT(DISTINCT picks.user_id) AS classmate_count
+    FROM (
+      SELECT e.content_id, e.user_id
+      FROM file_access_events e
+      WHERE e.event_type = 'download'
+        AND e.content_id IS NOT NULL
+        AND e.event_day > current_date - 60
+      UNION ALL
+      SELECT r.content_id, r.user_id
+      FROM content_reviews r
+      WHERE r.rating >= 4
+        AND r.is_hidden = false
+        AND r.created_at > now() - interval '60 days'
+    ) picks
+    JOIN classmates cm ON cm.user_id = picks.user_id
+    GROUP BY picks.content_id
+  ),
+  scored AS (
+    SELECT
+      c.id,
+      c.created_at,
+      cat.name AS category_name,
+      CASE WHEN v_year IS NOT NULL AND c.year = v_year THEN 3 ELSE 0 END AS year_points,
+      CASE WHEN v_course IS NOT NULL AND (
+        cat.name ILIKE '%' || v_course || '%'
+        OR EXISTS (SELECT 1 FROM unnest(c.tags) AS tag WHERE tag ILIKE '%' || v_course || '%')
+      ) THEN 2 ELSE 0 END AS course_points,
+      COALESCE(LEAST(ci.hits, 5) * 0.6, 0) AS interest_points,
+      COALESCE(LEAST(cp.classmate_count, 5), 0) AS classmate_points,
+      COALESCE(cp.classmate_count, 0) AS classmate_count
+    FROM content c
+    LEFT JOIN categories cat ON cat.id = c.category_id
+    LEFT JOIN category_interest ci ON ci.category_id = c.category_id
+    LEFT JOIN classmate_picks cp ON cp.content_id = c.id
+    WHERE c.is_approved = true
+      AND c.uploaded_by IS DISTINCT FROM v_user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM file_access_events mine
+        WHERE mine.content_id = c.id
+          AND mine.user_id = v_user_id
+          AND mine.event_type = 'download'
+      )
+  )
+  SELECT
+    s.id,
+    (s.year_points + s.course_points + s.interest_points + s.classmate_points)::numeric,
+    -- Explain the item by whichever signal contributed most
+    CASE
+      WHEN s.classmate_points > 0 AND s.classmate_points >= GREATEST(s.year_points, s.course_points, s.interest_points) THEN
+        CASE WHEN s.classmate_count = 1
+          THEN 'A classmate found this useful'
+          ELSE s.classmate_count || ' classmates found this useful'
+        END
+      WHEN s.interest_points > 0 AND s.interest_points >= GREATEST(s.year_points, s.course_points) THEN
+        'Because you''ve been studying ' || s.category_name
+      WHEN s.course_points > 0 AND s.course_points >= s.year_points THEN
+        'Matches your course, ' || v_course
+      ELSE
+        'Picked for Year ' || v_year || ' students'
+    END
+  FROM scored s
+  WHERE s.year_points + s.course_points + s.interest_points + s.classmate_points > 0
+  ORDER BY 2 DESC, s.created_at DESC
+  LIMIT limit_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,248 @@
+/*
+  # Resource request board
+
+  1. New Tables
+    - `resource_requests` - Students asking for material that is not on the site yet
+      - `title` (text) - e.g. "2023 OS mid-sem paper"
+      - `details`, `content_type`, `category_id`, `year`, `semester` - Optional specifics
+      - `upvote_count` (integer, kept current by trigger)
+      - `status` (text) - `open`, `fulfilled` or `closed`
+      - `fulfilled_content_id`, `fulfilled_by`, `fulfilled_at` - The content that answered it
+    - `resource_request_votes` - One upvote per user per request
+
+  2. Security
+    - Signed-in users can see every request and vote
+    - Users post, withdraw and upvote as themselves; nobody can upvote their own request
+    - Status only changes through `fulfil_resource_request`, `reopen_resource_request` and
+      `close_resource_request`, which only signed-in users can call
+    - Only approved content can answer a request
+
+  3. Functions
+    - `fulfil_resource_request` - Links approved content to an open request, closes it and notifies the requester
+    - `reopen_resource_request` - Lets the requester reject an answer and open the request again
+    - `close_resource_request` - Lets the requester close a request they no longer need
+*/
+
+CREATE TABLE IF NOT EXISTS resource_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  requested_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(trim(title)) BETWEEN 5 AND 150),
+  details text CHECK (char_length(details) <= 1000),
+  content_type text CHECK (content_type IN ('question_paper', 'notes', 'syllabus', 'assignments', 'other')),
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  year integer CHECK (year >= 1 AND year <= 5),
+  semester integer CHECK (semester >= 1 AND semester <= 10),
+  upvote_count integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'fulfilled', 'closed')),
+  fulfilled_content_id uuid REFERENCES content(id) ON DELETE SET NULL,
+  fulfilled_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  fulfilled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS resource_request_votes (
+  request_id uuid NOT NULL REFERENCES resource_requests(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (request_id, user_id)
+);
+
+ALTER TABLE resource_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resource_request_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_resource_requests_status ON resource_requests(status, upvote_count DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_resource_requests_requester ON resource_requests(requested_by);
+CREATE INDEX IF NOT EXISTS idx_resource_request_votes_user ON resource_request_votes(user_id);
+
+CREATE TRIGGER update_resource_requests_updated_at
+  BEFORE UPDATE ON resource_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Policies for resource_requests
+CREATE POLICY "Users can view resource requests"
+  ON resource_requests
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can post resource requests"
+  ON resource_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    requested_by = auth.uid()
+    AND status = 'open'
+    AND upvote_count = 0
+    AND fulfilled_content_id IS NULL
+    AND fulfilled_by IS NULL
+  );
+
+CREATE POLICY "Users can withdraw their own open requests"
+  ON resource_requests
+  FOR DELETE
+  TO authenticated
+  USING (requested_by = auth.uid() AND status = 'open');
+
+CREATE POLICY "Admins can manage resource requests"
+  ON resource_requests
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+-- Policies for resource_request_votes
+CREATE POLICY "Users can view request votes"
+  ON resource_request_votes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can upvote open requests"
+  ON resource_request_votes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM resource_requests r
+      WHERE r.id = request_id
+        AND r.status = 'open'
+        AND r.requested_by <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove their own upvotes"
+  ON resource_request_votes
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Keep upvote_count in step with the votes table
+CREATE OR REPLACE FUNCTION update_resource_request_upvotes()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE resource_requests
+  SET upvote_count = (
+    SELECT COUNT(*) FROM resource_request_votes
+    WHERE request_id = COALESCE(NEW.request_id, OLD.request_id)
+  )
+  WHERE id = COALESCE(NEW.request_id, OLD.request_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_resource_request_vote_change
+  AFTER INSERT OR DELETE ON resource_request_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_resource_request_upvotes();
+
+-- Answer an open request with approved content, then notify the requester
+CREATE OR REPLACE FUNCTION fulfil_resource_request(p_request_id uuid, p_content_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_request record;
+  v_content record;
+  v_actor_name text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to answer a request';
+  END IF;
+
+  SELECT id, title, requested_by, status INTO v_request
+  FROM resource_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF v_request.status <> 'open' THEN
+    RAISE EXCEPTION 'This request has already been closed';
+  END IF;
+
+  SELECT id, title INTO v_content
+  FROM content
+  WHERE id = p_content_id
+    AND is_approved = true;
+
+  IF v_content.id IS NULL THEN
+    RAISE EXCEPTION 'Resource not found';
+  END IF;
+
+  UPDATE resource_requests
+  SET status = 'fulfilled',
+      fulfilled_content_id = p_content_id,
+      fulfilled_by = auth.uid(),
+      fulfilled_at = now()
+  WHERE id = p_request_id;
+
+  IF v_request.requested_by <> auth.uid() THEN
+    SELECT COALESCE(full_name, username) INTO v_actor_name
+    FROM profiles
+    WHERE id = auth.uid();
+
+    INSERT INTO notifications (user_id, actor_id, type, title, body, content_id)
+    VALUES (
+      v_request.requested_by,
+      auth.uid(),
+      'resource_request_fulfilled',
+      v_actor_name || ' answered your request "' || v_request.title || '"',
+      v_content.title,
+      p_content_id
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reject the answer to a request and open it for answers again
+CREATE OR REPLACE FUNCTION reopen_resource_request(p_request_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE resource_requests
+  SET status = 'open',
+      fulfilled_content_id = NULL,
+      fulfilled_by = NULL,
+      fulfilled_at = NULL
+  WHERE id = p_request_id
+    AND requested_by = auth.uid()
+    AND status = 'fulfilled';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the requester can reopen an answered request';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Close a request the requester no longer needs
+CREATE OR REPLACE FUNCTION close_resource_request(p_request_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE resource_requests
+  SET status = 'closed'
+  WHERE id = p_request_id
+    AND requested_by = auth.uid()
+    AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the requester can close an open request';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION fulfil_resource_request(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION fulfil_resource_request(uuid, uuid) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION reopen_resource_request(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reopen_resource_request(uuid) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION close_resource_request(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION close_resource_request(uuid) TO authenticated;
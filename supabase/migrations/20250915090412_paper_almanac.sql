@@ -0,0 +1,239 @@
+/*
+  # Group events calendar
+
+  1. New Tables
+    - `group_events` - Exams, deadlines and extra classes for a class group
+      - `event_type` (text) - `exam`, `deadline`, `class` or `other`
+      - `starts_at`, `ends_at` (timestamptz) - `ends_at` is optional
+      - `recurrence` (text) - `none`, `daily`, `weekly` or `monthly`, repeating until `recurrence_until`;
+        monthly events must start on the 1st to 28th (UTC) so every month has their day
+      - `reminder_minutes` (integer[]) - Up to three reminders, each at most a week before the event
+    - `group_event_reminders_sent` - Reminders already delivered, one row per event, occurrence and offset
+    - `group_calendar_tokens` - Private per-member token for the group's iCalendar feed
+
+  2. Security
+    - Active members can view their groups' events; group admins create, edit and delete them
+    - Members can only see their own calendar token
+
+  3. Functions
+    - `group_event_occurrences` - Expands an event's recurrence within a time range, as `starts_at` plus
+      whole steps in UTC, matching the app's calendar and the iCalendar feed
+    - `send_group_event_reminders` - Notifies members of upcoming occurrences, run by pg_cron every 5 minutes
+    - `get_group_calendar_token` / `reset_group_calendar_token` - Issue or rotate the caller's feed token
+*/
+
+CREATE TABLE IF NOT EXISTS group_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES class_groups(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 150),
+  description text CHECK (char_length(description) <= 2000),
+  event_type text NOT NULL DEFAULT 'other' CHECK (event_type IN ('exam', 'deadline', 'class', 'other')),
+  location text CHECK (char_length(location) <= 200),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz CHECK (ends_at > starts_at),
+  recurrence text NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'daily', 'weekly', 'monthly')),
+  recurrence_until timestamptz CHECK (recurrence_until >= starts_at),
+  reminder_minutes integer[] NOT NULL DEFAULT '{}' CHECK (
+    coalesce(array_length(reminder_minutes, 1), 0) <= 3
+    AND 0 <= ALL (reminder_minutes)
+    AND 10080 >= ALL (reminder_minutes)
+  ),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT group_events_monthly_start_day CHECK (
+    recurrence <> 'monthly' OR extract(day FROM starts_at AT TIME ZONE 'UTC') <= 28
+  )
+);
+
+CREATE TABLE IF NOT EXISTS group_event_reminders_sent (
+  event_id uuid NOT NULL REFERENCES group_events(id) ON DELETE CASCADE,
+  occurrence_at timestamptz NOT NULL,
+  minutes_before integer NOT NULL,
+  sent_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (event_id, occurrence_at, minutes_before)
+);
+
+CREATE TABLE IF NOT EXISTS group_calendar_tokens (
+  group_id uuid NOT NULL REFERENCES class_groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (group_id, user_id)
+);
+
+ALTER TABLE group_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_event_reminders_sent ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_calendar_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_group_events_group ON group_events(group_id, starts_at);
+
+CREATE TRIGGER update_group_events_updated_at
+  BEFORE UPDATE ON group_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Policies for group_events
+CREATE POLICY "Group members can view events"
+  ON group_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_members gm
+      WHERE gm.group_id = group_events.group_id AND gm.user_id = auth.uid() AND gm.is_active = true
+    )
+  );
+
+CREATE POLICY "Group admins can create events"
+  ON group_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND is_group_admin(group_id, auth.uid()));
+
+CREATE POLICY "Group admins can update events"
+  ON group_events
+  FOR UPDATE
+  TO authenticated
+  USING (is_group_admin(group_id, auth.uid()))
+  WITH CHECK (is_group_admin(group_id, auth.uid()));
+
+CREATE POLICY "Group admins can delete events"
+  ON group_events
+  FOR DELETE
+  TO authenticated
+  USING (is_group_admin(group_id, auth.uid()));
+
+-- Policies for group_calendar_tokens
+CREATE POLICY "Users can view their own calendar tokens"
+  ON group_calendar_tokens
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Occurrences of an event that start within [p_from, p_to]. Each is starts_at plus a whole number of
+-- steps rather than the previous occurrence plus one, so a short month never shifts the ones after it
+CREATE OR REPLACE FUNCTION group_event_occurrences(p_event group_events, p_from timestamptz, p_to timestamptz)
+RETURNS SETOF timestamptz AS $$
+  SELECT o.occurrence
+  FROM (
+    SELECT
+      CASE p_event.recurrence
+        WHEN 'weekly' THEN interval '1 week'
+        WHEN 'monthly' THEN interval '1 month'
+        ELSE interval '1 day'
+      END AS step,
+      CASE
+        WHEN p_event.recurrence = 'none' THEN p_event.starts_at
+        ELSE LEAST(COALESCE(p_event.recurrence_until, p_to), p_to)
+      END AS last_start
+  ) bounds
+  -- Enough steps to reach last_start; no month is shorter than 28 days
+  CROSS JOIN LATERAL generate_series(
+    0,
+    floor(
+      extract(epoch FROM bounds.last_start - p_event.starts_at) /
+      extract(epoch FROM LEAST(bounds.step, interval '28 days'))
+    )::integer
+  ) AS n
+  CROSS JOIN LATERAL (SELECT ((p_event.starts_at AT TIME ZONE 'UTC') + n * bounds.step) AT TIME ZONE 'UTC' AS occurrence) o
+  WHERE o.occurrence <= bounds.last_start
+    AND o.occurrence BETWEEN p_from AND p_to;
+$$ LANGUAGE sql STABLE;
+
+-- Notify active members when a reminder for an upcoming occurrence falls due
+CREATE OR REPLACE FUNCTION send_group_event_reminders()
+RETURNS integer AS $$
+DECLARE
+  v_sent integer;
+BEGIN
+  DELETE FROM group_event_reminders_sent
+  WHERE occurrence_at < now() - interval '1 day';
+
+  WITH due AS (
+    SELECT e.id AS event_id, o.occurrence, r.minutes
+    FROM group_events e
+    CROSS JOIN LATERAL unnest(e.reminder_minutes) AS r(minutes)
+    CROSS JOIN LATERAL group_event_occurrences(e, now(), now() + interval '7 days 1 hour') AS o(occurrence)
+    WHERE o.occurrence - make_interval(mins => r.minutes) BETWEEN now() - interval '15 minutes' AND now()
+  ),
+  claimed AS (
+    INSERT INTO group_event_reminders_sent (event_id, occurrence_at, minutes_before)
+    SELECT event_id, occurrence, minutes FROM due
+    ON CONFLICT DO NOTHING
+    RETURNING event_id, occurrence_at, minutes_before
+  )
+  INSERT INTO notifications (user_id, actor_id, type, title, body, link)
+  SELECT
+    gm.user_id,
+    e.created_by,
+    'group_event_reminder',
+    'Reminder: ' || e.title,
+    cg.name || ' · ' ||
+      CASE
+        WHEN c.minutes_before = 0 THEN 'starting now'
+        WHEN c.minutes_before % 1440 = 0 THEN 'in ' || (c.minutes_before / 1440) || ' day(s)'
+        WHEN c.minutes_before % 60 = 0 THEN 'in ' || (c.minutes_before / 60) || ' hour(s)'
+        ELSE 'in ' || c.minutes_before || ' minutes'
+      END ||
+      COALESCE(' · ' || e.location, ''),
+    '/groups'
+  FROM claimed c
+  JOIN group_events e ON e.id = c.event_id
+  JOIN class_groups cg ON cg.id = e.group_id
+  JOIN group_members gm ON gm.group_id = e.group_id AND gm.is_active = true;
+
+  GET DIAGNOSTICS v_sent = ROW_COUNT;
+  RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION send_group_event_reminders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION send_group_event_reminders() TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'send-group-event-reminders',
+  '*/5 * * * *',
+  'SELECT send_group_event_reminders()'
+);
+
+-- Return the caller's feed token for a group, creating it on first use
+CREATE OR REPLACE FUNCTION get_group_calendar_token(p_group_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_token uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = p_group_id AND user_id = auth.uid() AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only group members can subscribe to the calendar';
+  END IF;
+
+  INSERT INTO group_calendar_tokens (group_id, user_id)
+  VALUES (p_group_id, auth.uid())
+  ON CONFLICT (group_id, user_id) DO NOTHING;
+
+  SELECT token INTO v_token
+  FROM group_calendar_tokens
+  WHERE group_id = p_group_id AND user_id = auth.uid();
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the caller's feed token, cutting off any calendar app using the old one
+CREATE OR REPLACE FUNCTION reset_group_calendar_token(p_group_id uuid)
+RETURNS uuid AS $$
+BEGIN
+  DELETE FROM group_calendar_tokens
+  WHERE group_id = p_group_id AND user_id = auth.uid();
+
+  RETURN get_group_calendar_token(p_group_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
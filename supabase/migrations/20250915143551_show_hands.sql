@@ -0,0 +1,225 @@
+/*
+  # Group polls
+
+  1. Changes
+    - `group_messages.message_type` accepts `poll`
+    - `group_messages.poll` (jsonb) - `question`, `options` (labels), `allow_multiple`, `is_anonymous`, `closes_at`
+    - `group_messages.poll_results` (jsonb) - `counts` per option and number of `voters`, maintained by the database
+      so every vote reaches members as an UPDATE on the group's existing message channel
+
+  2. New Tables
+    - `group_poll_votes` - One row per voter and chosen option
+
+  3. Security
+    - Members only see their own votes; totals are public to the group through `poll_results`
+    - Votes are cast through `vote_in_group_poll`, which enforces close times and single choice
+    - Voter names are only returned for named polls, through `get_group_poll_voters`
+
+  4. Functions
+    - `prepare_group_poll_message` - Validates new polls and starts their results at zero
+    - `vote_in_group_poll` - Replaces the caller's choices and recounts the results
+    - `close_group_poll` - Lets the poll's author or a group admin close it early
+    - `get_group_poll_voters` - Who voted for what, for named polls
+*/
+
+ALTER TABLE group_messages DROP CONSTRAINT IF EXISTS group_messages_message_type_check;
+ALTER TABLE group_messages ADD CONSTRAINT group_messages_message_type_check
+  CHECK (message_type IN ('text', 'file', 'link', 'announcement', 'poll'));
+
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS poll jsonb;
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS poll_results jsonb;
+
+ALTER TABLE group_messages ADD CONSTRAINT group_messages_poll_check
+  CHECK ((message_type = 'poll') = (poll IS NOT NULL));
+
+CREATE TABLE IF NOT EXISTS group_poll_votes (
+  message_id uuid NOT NULL REFERENCES group_messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  option_index smallint NOT NULL CHECK (option_index >= 0),
+  created_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (message_id, user_id, option_index)
+);
+
+ALTER TABLE group_poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_group_poll_votes_user ON group_poll_votes(user_id);
+
+CREATE POLICY "Users can view their own poll votes"
+  ON group_poll_votes
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Check a new poll's shape and make sure its results start empty, whatever the client sent
+CREATE OR REPLACE FUNCTION prepare_group_poll_message()
+RETURNS trigger AS $$
+DECLARE
+  v_option_count integer;
+BEGIN
+  IF NEW.message_type <> 'poll' THEN
+    NEW.poll_results := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF char_length(trim(COALESCE(NEW.poll->>'question', ''))) NOT BETWEEN 1 AND 300 THEN
+    RAISE EXCEPTION 'A poll needs a question of up to 300 characters';
+  END IF;
+
+  IF jsonb_typeof(NEW.poll->'options') <> 'array' THEN
+    RAISE EXCEPTION 'A poll needs a list of options';
+  END IF;
+
+  v_option_count := jsonb_array_length(NEW.poll->'options');
+  IF v_option_count NOT BETWEEN 2 AND 10 THEN
+    RAISE EXCEPTION 'A poll needs between 2 and 10 options';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(NEW.poll->'options') AS option
+    WHERE jsonb_typeof(option) <> 'string' OR char_length(trim(option #>> '{}')) NOT BETWEEN 1 AND 100
+  ) THEN
+    RAISE EXCEPTION 'Poll options must be between 1 and 100 characters';
+  END IF;
+
+  IF NEW.poll->>'closes_at' IS NOT NULL AND (NEW.poll->>'closes_at')::timestamptz <= now() THEN
+    RAISE EXCEPTION 'A poll cannot close in the past';
+  END IF;
+
+  NEW.poll := jsonb_build_object(
+    'question', trim(NEW.poll->>'question'),
+    'options', NEW.poll->'options',
+    'allow_multiple', COALESCE((NEW.poll->>'allow_multiple')::boolean, false),
+    'is_anonymous', COALESCE((NEW.poll->>'is_anonymous')::boolean, false),
+    'closes_at', NEW.poll->'closes_at'
+  );
+  NEW.poll_results := jsonb_build_object(
+    'counts', (SELECT jsonb_agg(0) FROM generate_series(1, v_option_count)),
+    'voters', 0
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prepare_group_poll_message
+  BEFORE INSERT ON group_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_group_poll_message();
+
+-- Replace the caller's choices in a poll; an empty list withdraws their vote
+CREATE OR REPLACE FUNCTION vote_in_group_poll(p_message_id uuid, p_options smallint[])
+RETURNS jsonb AS $$
+DECLARE
+  v_message record;
+  v_option_count integer;
+  v_choices smallint[];
+  v_results jsonb;
+BEGIN
+  SELECT id, group_id, poll INTO v_message
+  FROM group_messages
+  WHERE id = p_message_id AND message_type = 'poll'
+  FOR UPDATE;
+
+  IF v_message.id IS NULL THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = v_message.group_id AND user_id = auth.uid() AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only group members can vote';
+  END IF;
+
+  IF v_message.poll->>'closes_at' IS NOT NULL AND (v_message.poll->>'closes_at')::timestamptz <= now() THEN
+    RAISE EXCEPTION 'This poll has closed';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT choice), '{}') INTO v_choices
+  FROM unnest(p_options) AS choice;
+
+  v_option_count := jsonb_array_length(v_message.poll->'options');
+  IF EXISTS (SELECT 1 FROM unnest(v_choices) AS choice WHERE choice < 0 OR choice >= v_option_count) THEN
+    RAISE EXCEPTION 'Invalid poll option';
+  END IF;
+
+  IF NOT (v_message.poll->>'allow_multiple')::boolean AND cardinality(v_choices) > 1 THEN
+    RAISE EXCEPTION 'This poll allows only one choice';
+  END IF;
+
+  DELETE FROM group_poll_votes
+  WHERE message_id = p_message_id AND user_id = auth.uid();
+
+  INSERT INTO group_poll_votes (message_id, user_id, option_index)
+  SELECT p_message_id, auth.uid(), choice FROM unnest(v_choices) AS choice;
+
+  SELECT jsonb_build_object(
+    'counts', (
+      SELECT jsonb_agg(
+        (SELECT COUNT(*) FROM group_poll_votes v WHERE v.message_id = p_message_id AND v.option_index = i)
+        ORDER BY i
+      )
+      FROM generate_series(0, v_option_count - 1) AS i
+    ),
+    'voters', (SELECT COUNT(DISTINCT user_id) FROM group_poll_votes WHERE message_id = p_message_id)
+  ) INTO v_results;
+
+  UPDATE group_messages
+  SET poll_results = v_results
+  WHERE id = p_message_id;
+
+  RETURN v_results;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Close a poll now; only its author or a group admin can
+CREATE OR REPLACE FUNCTION close_group_poll(p_message_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE group_messages
+  SET poll = jsonb_set(poll, '{closes_at}', to_jsonb(now()))
+  WHERE id = p_message_id
+    AND message_type = 'poll'
+    AND (user_id = auth.uid() OR is_group_admin(group_id, auth.uid()));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the poll''s author or a group admin can close it';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Who chose each option of a named poll
+CREATE OR REPLACE FUNCTION get_group_poll_voters(p_message_id uuid)
+RETURNS TABLE (
+  option_index smallint,
+  user_id uuid,
+  username text,
+  full_name text
+) AS $$
+DECLARE
+  v_message record;
+BEGIN
+  SELECT id, group_id, poll INTO v_message
+  FROM group_messages
+  WHERE id = p_message_id AND message_type = 'poll';
+
+  IF v_message.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = v_message.group_id AND gm.user_id = auth.uid() AND gm.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF (v_message.poll->>'is_anonymous')::boolean THEN
+    RAISE EXCEPTION 'Votes in this poll are anonymous';
+  END IF;
+
+  RETURN QUERY
+  SELECT v.option_index, v.user_id, p.username, p.full_name
+  FROM group_poll_votes v
+  JOIN profiles p ON p.id = v.user_id
+  WHERE v.message_id = p_message_id
+  ORDER BY v.option_index, v.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,317 @@
+/*
+  # Group assignments and submissions
+
+  1. New Tables
+    - `group_assignments` - Work set by group admins
+      - `due_at` (timestamptz) - Deadline; submissions after it count as late
+      - `allow_late` (boolean) - Whether members can still hand in after the deadline
+      - `attachments` (jsonb) - Files from the admin, as `{ url, name, size }` objects
+    - `group_assignment_submissions` - One file per member per assignment; resubmitting replaces it
+      - `file_upload_id` (uuid) - The member's scanned upload; `storage_bucket` and `storage_path` are copied from it
+
+  2. Storage
+    - `assignment-submissions` - Private bucket that scanned submission files are released to
+
+  3. Security
+    - Active members see their groups' assignments; group admins create, edit and delete them
+    - Submissions are private: only the submitter and the group's admins can see them or sign links to the file
+    - Members can submit or replace their own work until the deadline, or later when late work is allowed,
+      and only while they are still active members of the group
+    - A submission can only point at a clean upload of the submitter's own in `assignment-submissions`
+
+  4. Functions
+    - `check_file_upload_target` - Also lets group members upload to `assignment-submissions/submissions/`
+    - `attach_submission_file` - Takes the file's location from the upload row rather than from the client
+    - `get_group_submission_matrix` - On-time, late, pending and missing status per member and assignment (admins only)
+*/
+
+-- Submission files are never public; links are signed for the submitter and group admins
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES (
+  'assignment-submissions',
+  'assignment-submissions',
+  false,
+  5242880 -- 5MB limit
+)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE file_uploads DROP CONSTRAINT IF EXISTS file_uploads_storage_bucket_check;
+ALTER TABLE file_uploads ADD CONSTRAINT file_uploads_storage_bucket_check
+  CHECK (storage_bucket IN ('files', 'group-files', 'assignment-submissions'));
+
+CREATE OR REPLACE FUNCTION check_file_upload_target()
+RETURNS trigger AS $$
+DECLARE
+  v_folder text := split_part(NEW.upload_path, '/', 1);
+  v_file_name text := split_part(NEW.upload_path, '/', 2);
+  v_allowed boolean;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.upload_path IS NULL
+    OR array_length(string_to_array(NEW.upload_path, '/'), 1) <> 2
+    OR NOT starts_with(v_file_name, NEW.user_id::text || '_')
+    OR NEW.quarantine_path IS DISTINCT FROM NEW.user_id::text || '/' || NEW.upload_path
+  THEN
+    RAISE EXCEPTION 'Invalid upload location';
+  END IF;
+
+  IF NEW.upload_purpose = 'group_file' THEN
+    IF NEW.group_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM group_members
+      WHERE group_id = NEW.group_id AND user_id = NEW.user_id AND is_active = true
+    ) THEN
+      RAISE EXCEPTION 'Only active group members can upload group files';
+    END IF;
+
+    v_allowed := (NEW.storage_bucket = 'files' AND v_folder IN ('group-files', 'assignments'))
+      OR (NEW.storage_bucket = 'assignment-submissions' AND v_folder = 'submissions');
+  ELSE
+    v_allowed := NEW.group_id IS NULL
+      AND NEW.storage_bucket = 'files'
+      AND v_folder IN ('content', 'versions', 'update-requests', 'general');
+  END IF;
+
+  IF NOT COALESCE(v_allowed, false) THEN
+    RAISE EXCEPTION 'Invalid upload location';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TABLE IF NOT EXISTS group_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES class_groups(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 150),
+  instructions text CHECK (char_length(instructions) <= 5000),
+  due_at timestamptz NOT NULL,
+  allow_late boolean NOT NULL DEFAULT true,
+  attachments jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(attachments) = 'array'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS group_assignment_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id uuid NOT NULL REFERENCES group_assignments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  file_upload_id uuid NOT NULL REFERENCES file_uploads(id),
+  storage_bucket text NOT NULL,
+  storage_path text NOT NULL,
+  file_name text NOT NULL,
+  file_size bigint,
+  note text CHECK (char_length(note) <= 1000),
+  submitted_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE(assignment_id, user_id)
+);
+
+ALTER TABLE group_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_assignment_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_group_assignments_group ON group_assignments(group_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_group_assignment_submissions_user ON group_assignment_submissions(user_id);
+CREATE INDEX IF NOT EXISTS idx_group_assignment_submissions_file ON group_assignment_submissions(storage_bucket, storage_path);
+
+CREATE TRIGGER update_group_assignments_updated_at
+  BEFORE UPDATE ON group_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Policies for group_assignments
+CREATE POLICY "Group members can view assignments"
+  ON group_assignments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_members gm
+      WHERE gm.group_id = group_assignments.group_id AND gm.user_id = auth.uid() AND gm.is_active = true
+    )
+  );
+
+CREATE POLICY "Group admins can create assignments"
+  ON group_assignments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND is_group_admin(group_id, auth.uid()));
+
+CREATE POLICY "Group admins can update assignments"
+  ON group_assignments
+  FOR UPDATE
+  TO authenticated
+  USING (is_group_admin(group_id, auth.uid()))
+  WITH CHECK (is_group_admin(group_id, auth.uid()));
+
+CREATE POLICY "Group admins can delete assignments"
+  ON group_assignments
+  FOR DELETE
+  TO authenticated
+  USING (is_group_admin(group_id, auth.uid()));
+
+-- Policies for group_assignment_submissions
+CREATE POLICY "Members and group admins can view submissions"
+  ON group_assignment_submissions
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM group_assignments a
+      WHERE a.id = assignment_id AND is_group_admin(a.group_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Members can submit while the assignment is open"
+  ON group_assignment_submissions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM group_assignments a
+      JOIN group_members gm ON gm.group_id = a.group_id
+      WHERE a.id = assignment_id
+        AND gm.user_id = auth.uid()
+        AND gm.is_active = true
+        AND (a.allow_late OR now() <= a.due_at)
+    )
+  );
+
+CREATE POLICY "Members can resubmit while the assignment is open"
+  ON group_assignment_submissions
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM group_assignments a
+      JOIN group_members gm ON gm.group_id = a.group_id
+      WHERE a.id = assignment_id
+        AND gm.user_id = auth.uid()
+        AND gm.is_active = true
+        AND (a.allow_late OR now() <= a.due_at)
+    )
+  );
+
+CREATE POLICY "Members can withdraw submissions before the deadline"
+  ON group_assignment_submissions
+  FOR DELETE
+  TO authenticated
+  USING (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM group_assignments a
+      WHERE a.id = assignment_id AND now() <= a.due_at
+    )
+  );
+
+-- The hand-in time is always the server's, so nobody can backdate a late submission
+CREATE OR REPLACE FUNCTION stamp_assignment_submission()
+RETURNS trigger AS $$
+BEGIN
+  NEW.submitted_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_assignment_submission
+  BEFORE INSERT OR UPDATE ON group_assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_assignment_submission();
+
+-- The file must be the submitter's own clean upload, and its location comes from the upload row
+CREATE OR REPLACE FUNCTION attach_submission_file()
+RETURNS trigger AS $$
+DECLARE
+  v_upload record;
+BEGIN
+  SELECT user_id, storage_bucket, upload_path, file_size, scan_status INTO v_upload
+  FROM file_uploads
+  WHERE id = NEW.file_upload_id;
+
+  IF v_upload.user_id IS NULL OR v_upload.user_id <> NEW.user_id THEN
+    RAISE EXCEPTION 'Submissions must use your own upload';
+  END IF;
+
+  IF v_upload.storage_bucket <> 'assignment-submissions' OR v_upload.scan_status <> 'clean' THEN
+    RAISE EXCEPTION 'This file is not ready to be submitted';
+  END IF;
+
+  NEW.storage_bucket := v_upload.storage_bucket;
+  NEW.storage_path := v_upload.upload_path;
+  NEW.file_size := v_upload.file_size;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER attach_submission_file
+  BEFORE INSERT OR UPDATE ON group_assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION attach_submission_file();
+
+-- Storage only signs submission links for the submitter and the group's admins
+CREATE POLICY "Submitters and group admins can read submission files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'assignment-submissions' AND
+    EXISTS (
+      SELECT 1 FROM group_assignment_submissions s
+      JOIN group_assignments a ON a.id = s.assignment_id
+      WHERE s.storage_bucket = 'assignment-submissions'
+        AND s.storage_path = storage.objects.name
+        AND (s.user_id = auth.uid() OR is_group_admin(a.group_id, auth.uid()))
+    )
+  );
+
+-- Status of every member (admins excluded) for every assignment in a group
+CREATE OR REPLACE FUNCTION get_group_submission_matrix(p_group_id uuid)
+RETURNS TABLE (
+  assignment_id uuid,
+  user_id uuid,
+  username text,
+  full_name text,
+  status text,
+  submitted_at timestamptz,
+  submission_id uuid,
+  file_name text,
+  storage_bucket text,
+  storage_path text
+) AS $$
+BEGIN
+  IF NOT is_group_admin(p_group_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can view submissions';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    gm.user_id,
+    p.username,
+    p.full_name,
+    CASE
+      WHEN s.id IS NULL AND now() <= a.due_at THEN 'pending'
+      WHEN s.id IS NULL THEN 'missing'
+      WHEN s.submitted_at <= a.due_at THEN 'on_time'
+      ELSE 'late'
+    END,
+    s.submitted_at,
+    s.id,
+    s.file_name,
+    s.storage_bucket,
+    s.storage_path
+  FROM group_assignments a
+  JOIN group_members gm ON gm.group_id = a.group_id AND gm.is_active = true AND gm.role = 'member'
+  JOIN profiles p ON p.id = gm.user_id
+  LEFT JOIN group_assignment_submissions s ON s.assignment_id = a.id AND s.user_id = gm.user_id
+  WHERE a.group_id = p_group_id
+  ORDER BY a.due_at, p.full_name, p.username;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
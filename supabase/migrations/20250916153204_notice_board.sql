@@ -0,0 +1,116 @@
+/*
+  # Group announcements board
+
+  1. New Tables
+    - `group_announcement_acks` - When each member acknowledged an important announcement
+
+  2. Security
+    - `group_announcements` had RLS enabled without policies, so nobody could read or post them:
+      active members can now view their groups' announcements and group admins post, pin and delete them
+    - Members acknowledge announcements as themselves; they see their own acknowledgements, admins see everyone's
+
+  3. Functions
+    - `get_announcement_acknowledgements` - Every active member except the author, with the time they acknowledged, if they have (admins only)
+*/
+
+CREATE INDEX IF NOT EXISTS idx_group_announcements_group ON group_announcements(group_id, is_pinned DESC, created_at DESC);
+
+-- Policies for group_announcements
+CREATE POLICY "Group members can view announcements"
+  ON group_announcements
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_members gm
+      WHERE gm.group_id = group_announcements.group_id AND gm.user_id = auth.uid() AND gm.is_active = true
+    )
+  );
+
+CREATE POLICY "Group admins can post announcements"
+  ON group_announcements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND is_group_admin(group_id, auth.uid()));
+
+CREATE POLICY "Group admins can update announcements"
+  ON group_announcements
+  FOR UPDATE
+  TO authenticated
+  USING (is_group_admin(group_id, auth.uid()))
+  WITH CHECK (is_group_admin(group_id, auth.uid()));
+
+CREATE POLICY "Group admins can delete announcements"
+  ON group_announcements
+  FOR DELETE
+  TO authenticated
+  USING (is_group_admin(group_id, auth.uid()));
+
+CREATE TABLE IF NOT EXISTS group_announcement_acks (
+  announcement_id uuid NOT NULL REFERENCES group_announcements(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  acknowledged_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (announcement_id, user_id)
+);
+
+ALTER TABLE group_announcement_acks ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_group_announcement_acks_user ON group_announcement_acks(user_id);
+
+-- Policies for group_announcement_acks
+CREATE POLICY "Members and group admins can view acknowledgements"
+  ON group_announcement_acks
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM group_announcements a
+      WHERE a.id = announcement_id AND is_group_admin(a.group_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Members can acknowledge announcements"
+  ON group_announcement_acks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM group_announcements a
+      JOIN group_members gm ON gm.group_id = a.group_id
+      WHERE a.id = announcement_id AND gm.user_id = auth.uid() AND gm.is_active = true
+    )
+  );
+
+-- Who has and has not acknowledged an announcement
+CREATE OR REPLACE FUNCTION get_announcement_acknowledgements(p_announcement_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  full_name text,
+  acknowledged_at timestamptz
+) AS $$
+DECLARE
+  v_group_id uuid;
+  v_created_by uuid;
+BEGIN
+  SELECT group_id, created_by INTO v_group_id, v_created_by
+  FROM group_announcements
+  WHERE id = p_announcement_id;
+
+  IF v_group_id IS NULL OR NOT is_group_admin(v_group_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can see who acknowledged an announcement';
+  END IF;
+
+  RETURN QUERY
+  SELECT gm.user_id, p.username, p.full_name, ack.acknowledged_at
+  FROM group_members gm
+  JOIN profiles p ON p.id = gm.user_id
+  LEFT JOIN group_announcement_acks ack
+    ON ack.announcement_id = p_announcement_id AND ack.user_id = gm.user_id
+  WHERE gm.group_id = v_group_id AND gm.is_active = true AND gm.user_id <> v_created_by
+  ORDER BY ack.acknowledged_at IS NULL DESC, p.full_name, p.username;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
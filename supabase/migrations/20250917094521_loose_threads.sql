@@ -0,0 +1,213 @@
+/*
+  # Group chat threads, reactions and pinned messages
+
+  1. Changes
+    - `group_messages.reply_to` now marks a thread reply; replies always point at the thread's first message
+    - `group_messages.reply_count` (integer) and `last_reply_at` (timestamptz) - Thread summary on the first message
+    - `group_messages.reactions` (jsonb) - Emoji mapped to the ids of the members who reacted, maintained by the database
+    - `group_messages.pinned_at` (timestamptz) - When an admin pinned the message; the pinned bar is newest first
+    Summary columns change through UPDATEs on the message, so they reach members on the group's existing message channel
+    - Existing replies, including replies to replies, are moved into the thread of the message their chain starts from,
+      and thread summaries are filled in for them
+
+  2. New Tables
+    - `group_message_reactions` - One row per member, message and emoji
+
+  3. Security
+    - Members of the group can see reactions; they react through `toggle_group_message_reaction`
+    - Only group admins can pin or unpin messages, through `set_group_message_pinned`
+
+  4. Functions
+    - `prepare_group_thread_reply` - Starts new messages with empty summaries and keeps threads one level deep inside one group
+    - `update_group_thread_summary` - Maintains `reply_count` and `last_reply_at`
+    - `toggle_group_message_reaction` - Adds or removes the caller's reaction and recounts the message's reactions
+    - `set_group_message_pinned` - Pins or unpins a message
+*/
+
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS reply_count integer NOT NULL DEFAULT 0;
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS last_reply_at timestamptz;
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS reactions jsonb NOT NULL DEFAULT '{}';
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS pinned_at timestamptz;
+
+-- Older replies could quote a reply; point each one at the first message of its chain
+WITH RECURSIVE chains AS (
+  SELECT id, id AS root_id, group_id AS root_group_id
+  FROM group_messages
+  WHERE reply_to IS NULL
+
+  UNION ALL
+
+  SELECT m.id, c.root_id, c.root_group_id
+  FROM group_messages m
+  JOIN chains c ON m.reply_to = c.id
+)
+UPDATE group_messages m
+SET reply_to = CASE WHEN c.root_group_id = m.group_id THEN c.root_id END
+FROM chains c
+WHERE m.id = c.id
+  AND m.reply_to IS NOT NULL;
+
+-- Anything still pointing at a reply never reached a first message, so it starts its own thread
+UPDATE group_messages
+SET reply_to = NULL
+WHERE reply_to IN (SELECT id FROM group_messages WHERE reply_to IS NOT NULL);
+
+UPDATE group_messages root
+SET
+  reply_count = threads.reply_count,
+  last_reply_at = threads.last_reply_at
+FROM (
+  SELECT reply_to, COUNT(*) AS reply_count, MAX(created_at) AS last_reply_at
+  FROM group_messages
+  WHERE reply_to IS NOT NULL
+  GROUP BY reply_to
+) threads
+WHERE root.id = threads.reply_to;
+
+CREATE INDEX IF NOT EXISTS idx_group_messages_reply_to ON group_messages(reply_to, created_at) WHERE reply_to IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_group_messages_pinned ON group_messages(group_id, pinned_at DESC) WHERE is_pinned = true;
+
+CREATE TABLE IF NOT EXISTS group_message_reactions (
+  message_id uuid NOT NULL REFERENCES group_messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (emoji IN ('👍', '❤️', '😂', '😮', '😢', '🎉')),
+  created_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+ALTER TABLE group_message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_group_message_reactions_user ON group_message_reactions(user_id);
+
+-- Policies for group_message_reactions
+CREATE POLICY "Group members can view reactions"
+  ON group_message_reactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_messages m
+      JOIN group_members gm ON gm.group_id = m.group_id
+      WHERE m.id = message_id AND gm.user_id = auth.uid() AND gm.is_active = true
+    )
+  );
+
+-- Summaries start empty, replies to a reply join the original thread, and replies cannot cross groups
+CREATE OR REPLACE FUNCTION prepare_group_thread_reply()
+RETURNS trigger AS $$
+DECLARE
+  v_parent record;
+BEGIN
+  NEW.reply_count := 0;
+  NEW.last_reply_at := NULL;
+  NEW.reactions := '{}';
+  NEW.is_pinned := false;
+  NEW.pinned_at := NULL;
+
+  IF NEW.reply_to IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, group_id, reply_to INTO v_parent
+  FROM group_messages
+  WHERE id = NEW.reply_to;
+
+  IF v_parent.id IS NULL OR v_parent.group_id <> NEW.group_id THEN
+    RAISE EXCEPTION 'Cannot reply to a message from another group';
+  END IF;
+
+  NEW.reply_to := COALESCE(v_parent.reply_to, v_parent.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prepare_group_thread_reply
+  BEFORE INSERT ON group_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_group_thread_reply();
+
+CREATE OR REPLACE FUNCTION update_group_thread_summary()
+RETURNS trigger AS $$
+DECLARE
+  v_root_id uuid;
+BEGIN
+  v_root_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.reply_to ELSE NEW.reply_to END;
+  IF v_root_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE group_messages
+  SET
+    reply_count = (SELECT COUNT(*) FROM group_messages r WHERE r.reply_to = v_root_id),
+    last_reply_at = (SELECT MAX(created_at) FROM group_messages r WHERE r.reply_to = v_root_id)
+  WHERE id = v_root_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_group_thread_summary
+  AFTER INSERT OR DELETE ON group_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_group_thread_summary();
+
+-- Add or remove the caller's reaction and return the message's new reaction summary
+CREATE OR REPLACE FUNCTION toggle_group_message_reaction(p_message_id uuid, p_emoji text)
+RETURNS jsonb AS $$
+DECLARE
+  v_group_id uuid;
+  v_reactions jsonb;
+BEGIN
+  SELECT group_id INTO v_group_id
+  FROM group_messages
+  WHERE id = p_message_id
+  FOR UPDATE;
+
+  IF v_group_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = v_group_id AND user_id = auth.uid() AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only group members can react to messages';
+  END IF;
+
+  DELETE FROM group_message_reactions
+  WHERE message_id = p_message_id AND user_id = auth.uid() AND emoji = p_emoji;
+
+  IF NOT FOUND THEN
+    INSERT INTO group_message_reactions (message_id, user_id, emoji)
+    VALUES (p_message_id, auth.uid(), p_emoji);
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(emoji, users), '{}') INTO v_reactions
+  FROM (
+    SELECT emoji, jsonb_agg(user_id ORDER BY created_at) AS users
+    FROM group_message_reactions
+    WHERE message_id = p_message_id
+    GROUP BY emoji
+  ) grouped;
+
+  UPDATE group_messages
+  SET reactions = v_reactions
+  WHERE id = p_message_id;
+
+  RETURN v_reactions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pin or unpin a message; only group admins can
+CREATE OR REPLACE FUNCTION set_group_message_pinned(p_message_id uuid, p_pinned boolean)
+RETURNS void AS $$
+BEGIN
+  UPDATE group_messages
+  SET
+    is_pinned = p_pinned,
+    pinned_at = CASE WHEN p_pinned THEN now() ELSE NULL END
+  WHERE id = p_message_id
+    AND is_group_admin(group_id, auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only group admins can pin messages';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;